@@ -3,6 +3,13 @@ import * as Sentry from "@sentry/nextjs";
 export async function register() {
   if (process.env.NEXT_RUNTIME === "nodejs") {
     await import("./sentry.server.config");
+
+    // Budget upstream calls first, so recording goes through the limiter
+    const { installUpstreamLimiter } = await import("@/lib/upstreamLimiter");
+    installUpstreamLimiter();
+
+    const { installFixtureFetch } = await import("@/lib/fixtures");
+    installFixtureFetch();
   }
 
   if (process.env.NEXT_RUNTIME === "edge") {
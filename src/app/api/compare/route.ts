@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { analyzeToken } from "@/services/tokenAnalyzer";
+import { SCORING_PROFILE_IDS } from "@/lib/scoringProfiles";
 
 const querySchema = z.object({
   mints: z
@@ -12,6 +13,7 @@ const querySchema = z.object({
         .filter(Boolean)
     )
     .pipe(z.array(z.string().min(32).max(44)).min(1).max(4)),
+  profile: z.enum(SCORING_PROFILE_IDS).optional(),
 });
 
 export async function GET(request: NextRequest) {
@@ -19,6 +21,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = request.nextUrl;
     const parsed = querySchema.safeParse({
       mints: searchParams.get("mints") ?? "",
+      profile: searchParams.get("profile") ?? undefined,
     });
 
     if (!parsed.success) {
@@ -29,7 +32,9 @@ export async function GET(request: NextRequest) {
     }
 
     const results = await Promise.all(
-      parsed.data.mints.map((mint) => analyzeToken(mint))
+      parsed.data.mints.map((mint) =>
+        analyzeToken(mint, { profileId: parsed.data.profile })
+      )
     );
 
     return NextResponse.json({
@@ -0,0 +1,36 @@
+/**
+ * GET /api/cron/alerts
+ *
+ * Runs the alert engine: evaluates every watchlist entry's alert rules,
+ * writes notifications for its watchers whether or not they are online and
+ * sends them to their outbound channels. Called by an external cron
+ * service (cron-job.org) every 20 minutes.
+ *
+ * Protected by CRON_SECRET to prevent unauthorized invocations.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runAlertEngine } from "@/services/alertEngine";
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runAlertEngine();
+    return NextResponse.json({
+      ...summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("GET /api/cron/alerts error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * GET /api/cron/deliveries
+ *
+ * Retries outbound notification deliveries (webhook, Telegram, Discord)
+ * that failed with a retryable error and whose backoff has passed. Called
+ * by an external cron service (cron-job.org) every 5 minutes.
+ *
+ * Protected by CRON_SECRET to prevent unauthorized invocations.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { retryDueDeliveries } from "@/services/notificationDelivery";
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await retryDueDeliveries();
+    return NextResponse.json({
+      ...summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("GET /api/cron/deliveries error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
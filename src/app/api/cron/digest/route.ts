@@ -0,0 +1,35 @@
+/**
+ * GET /api/cron/digest
+ *
+ * Sends the daily and weekly watchlist digest emails that are due. Called
+ * by an external cron service (cron-job.org) every hour; each
+ * subscription gets at most one digest per period.
+ *
+ * Protected by CRON_SECRET to prevent unauthorized invocations.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { runDigests } from "@/services/digest";
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runDigests();
+    return NextResponse.json({
+      ...summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("GET /api/cron/digest error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
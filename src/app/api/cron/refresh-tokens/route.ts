@@ -6,7 +6,8 @@
  *
  * Protected by CRON_SECRET to prevent unauthorized invocations.
  * Token analyses are cached for 1 hour, so only ~3 of every 6 calls
- * actually hit external APIs.
+ * actually hit external APIs. Tokens are analyzed a few at a time; the
+ * upstream limiter keeps the combined fan-out within each API's budget.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -14,6 +15,7 @@ import { analyzeToken } from "@/services/tokenAnalyzer";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import { fetchRecentTokens } from "@/services/jupiter";
 import { fetchLatestProfiles } from "@/services/dexscreener";
+import { getUpstreamMetrics, mapWithConcurrency } from "@/lib/upstreamLimiter";
 
 /** Well-known Solana token mints to keep fresh. */
 const POPULAR_MINTS = [
@@ -32,6 +34,9 @@ const POPULAR_MINTS = [
   "EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm", // WIF
 ];
 
+/** Token analyses run at once. */
+const ANALYSIS_CONCURRENCY = 3;
+
 /**
  * Fetch recently-analyzed tokens that are stale (older than 1 hour)
  * so the discover feed stays fresh.
@@ -65,25 +70,24 @@ export async function GET(request: NextRequest) {
   const staleMints = await getStaleMints(10);
   const allMints = [...new Set([...POPULAR_MINTS, ...staleMints])];
 
-  const results: Array<{ mint: string; name: string | null; trustRating: number | null; error?: string }> = [];
-
-  for (const mint of allMints) {
-    try {
-      const analysis = await analyzeToken(mint);
-      results.push({
-        mint,
-        name: analysis?.name ?? null,
-        trustRating: analysis?.trustRating ?? null,
-      });
-    } catch (error) {
-      results.push({
-        mint,
-        name: null,
-        trustRating: null,
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  }
+  const results: Array<{ mint: string; name: string | null; trustRating: number | null; error?: string }> =
+    await mapWithConcurrency(allMints, ANALYSIS_CONCURRENCY, async (mint) => {
+      try {
+        const analysis = await analyzeToken(mint);
+        return {
+          mint,
+          name: analysis?.name ?? null,
+          trustRating: analysis?.trustRating ?? null,
+        };
+      } catch (error) {
+        return {
+          mint,
+          name: null,
+          trustRating: null,
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    });
 
   const succeeded = results.filter((r) => r.trustRating !== null).length;
   const failed = results.length - succeeded;
@@ -144,7 +148,9 @@ export async function GET(request: NextRequest) {
     console.error("Phase 2 (ingest new tokens) failed:", error);
   }
 
-  // Phase 3: Enrich unanalyzed tokens in new_token_events with full trust analysis
+  // Phase 3: Enrich unanalyzed tokens in new_token_events with full trust analysis.
+  // These are new by definition, so always check for a bundled launch even
+  // when Helius has no creation timestamp for the mint.
   let enriched = 0;
   try {
     const supabase = createServerSupabaseClient();
@@ -155,9 +161,9 @@ export async function GET(request: NextRequest) {
       .order("created_at", { ascending: false })
       .limit(5);
 
-    for (const row of unanalyzed ?? []) {
+    await mapWithConcurrency(unanalyzed ?? [], ANALYSIS_CONCURRENCY, async (row) => {
       try {
-        const analysis = await analyzeToken(row.mint);
+        const analysis = await analyzeToken(row.mint, { forceBundleCheck: true });
         if (analysis) {
           await supabase
             .from("new_token_events")
@@ -175,7 +181,7 @@ export async function GET(request: NextRequest) {
       } catch (error) {
         console.error(`Failed to enrich token ${row.mint}:`, error);
       }
-    }
+    });
   } catch (error) {
     console.error("Phase 3 (enrich new tokens) failed:", error);
   }
@@ -189,6 +195,7 @@ export async function GET(request: NextRequest) {
     popular: POPULAR_MINTS.length,
     stale: staleMints.length,
     results,
+    upstreams: getUpstreamMetrics(),
     timestamp: new Date().toISOString(),
   });
 }
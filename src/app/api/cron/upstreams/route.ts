@@ -0,0 +1,26 @@
+/**
+ * GET /api/cron/upstreams
+ *
+ * Request budget metrics per external API (requests, retries, 429s,
+ * queueing delay) since the server started. Lets the cron monitor spot
+ * upstreams that are being throttled before keys get banned.
+ *
+ * Protected by CRON_SECRET, like the other cron endpoints.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getUpstreamMetrics } from "@/lib/upstreamLimiter";
+
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    upstreams: getUpstreamMetrics(),
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -2,14 +2,18 @@
  * GET /api/deployer/[wallet]
  *
  * Deployer profile: FairScore data + tokens they have deployed.
- * Fetches the deployer's FairScale score and any token analyses
- * in Supabase where they are listed as the deployer.
+ * Fetches the deployer's FairScale score, any token analyses in
+ * Supabase where they are listed as the deployer, and the rug track
+ * record computed from those tokens (`null` for a launchpad's shared
+ * authority, whose tokens belong to unrelated creators).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import { getFullScore } from "@/services/fairscale";
+import { getDeployerTrackRecord } from "@/services/deployerHistory";
+import { isSharedAuthority } from "@/lib/addressRegistry";
 import { generateRecommendations } from "@/lib/recommendations";
 
 const paramSchema = z.object({
@@ -36,8 +40,13 @@ export async function GET(
 
     const walletAddress = parsed.data.wallet;
 
-    // Fetch FairScale score
-    const scoreData = await getFullScore(walletAddress);
+    // Fetch FairScale score and rug track record
+    const [scoreData, trackRecord] = await Promise.all([
+      getFullScore(walletAddress),
+      isSharedAuthority(walletAddress)
+        ? Promise.resolve(null)
+        : getDeployerTrackRecord(walletAddress, { maxTokens: 25 }),
+    ]);
 
     // Fetch deployed tokens from Supabase
     const supabase = createServerSupabaseClient();
@@ -75,6 +84,7 @@ export async function GET(
       recommendations,
       deployedTokens: deployedTokens ?? [],
       tokenCount: deployedTokens?.length ?? 0,
+      trackRecord,
     });
   } catch (error) {
     console.error("GET /api/deployer/[wallet] error:", error);
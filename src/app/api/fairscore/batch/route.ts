@@ -0,0 +1,79 @@
+/**
+ * POST /api/fairscore/batch
+ *
+ * Body: { "wallets": ["<address>", ...] } (up to 500)
+ *
+ * Quick FairScale scores for many wallets at once, for internal tools.
+ * Served from the shared quick-score cache; only uncached wallets are
+ * fetched from FairScale. Each result carries a status: `ok`, `empty`
+ * (unknown wallet) or `failed` (FairScale request failed).
+ *
+ * Protected by CRON_SECRET, like the cron endpoints, since one request
+ * can fan out to hundreds of FairScale calls. Unlike them it refuses all
+ * requests (503) when CRON_SECRET is not set.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getQuickScoreResults, classifyTier } from "@/services/fairscale";
+
+const MAX_BATCH_WALLETS = 500;
+
+const bodySchema = z.object({
+  wallets: z
+    .array(
+      z
+        .string()
+        .min(32, "Invalid wallet address")
+        .max(44, "Invalid wallet address")
+    )
+    .min(1, "At least one wallet is required")
+    .max(MAX_BATCH_WALLETS, `At most ${MAX_BATCH_WALLETS} wallets per request`),
+});
+
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const cronSecret = process.env.CRON_SECRET;
+
+  // Fail closed: without a secret anyone could trigger the fan-out
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: "Batch scoring is not configured (CRON_SECRET missing)" },
+      { status: 503 }
+    );
+  }
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = bodySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const results = await getQuickScoreResults(parsed.data.wallets);
+    const scores = [...results].map(([wallet, { status, data: score }]) => ({
+      wallet,
+      status,
+      score,
+      tier: score !== null ? classifyTier(score) : "unrated",
+    }));
+
+    return NextResponse.json({
+      count: scores.length,
+      scores,
+    });
+  } catch (error) {
+    console.error("POST /api/fairscore/batch error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * /api/notifications/channels
+ *
+ * GET    — List a wallet's outbound notification channels (credentials masked).
+ * POST   — Add a webhook, Telegram or Discord channel. For webhooks the
+ *          response carries the generated signing secret; it is not
+ *          returned again.
+ * PATCH  — Rename, enable/disable or change the filters of a channel.
+ * DELETE — Remove a channel (and its delivery log).
+ *
+ * See `@/lib/notificationChannels` for the channel kinds and filters.
+ * Every method acts on the signed-in wallet's channels and requires a
+ * NextAuth session. All operations use the Supabase service client
+ * (server-side only).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionWallet } from "@/lib/auth";
+import { resolvesToAllowedAddress } from "@/lib/outboundAddress";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { ALERT_RULE_KINDS, type AlertNotificationType } from "@/lib/alertRules";
+import {
+  NOTIFICATION_CHANNEL_KINDS,
+  isAllowedWebhookUrl,
+  isDiscordWebhookUrl,
+  toPublicChannel,
+  type NotificationChannelTarget,
+} from "@/lib/notificationChannels";
+import { generateWebhookSecret } from "@/lib/webhookSignature";
+import type { NotificationChannel, NotificationChannelInsert } from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Validation schemas
+// ---------------------------------------------------------------------------
+
+/** Most channels a single wallet can configure. */
+const MAX_CHANNELS = 10;
+
+/** Most mints a channel filter can list. */
+const MAX_FILTER_MINTS = 50;
+
+const NOTIFICATION_TYPES = [
+  ...new Set(Object.values(ALERT_RULE_KINDS).map((kind) => kind.notificationType)),
+] as [AlertNotificationType, ...AlertNotificationType[]];
+
+const filtersSchema = z.object({
+  types: z.array(z.enum(NOTIFICATION_TYPES)).default([]),
+  mints: z.array(z.string().min(32, "Invalid address").max(44, "Invalid address")).max(MAX_FILTER_MINTS).default([]),
+});
+
+const channelBase = {
+  name: z.string().trim().min(1).max(60).optional(),
+  filters: filtersSchema.optional(),
+};
+
+const createSchema = z.discriminatedUnion("kind", [
+  z.object({
+    ...channelBase,
+    kind: z.literal("webhook"),
+    config: z.object({
+      url: z.string().max(2048).refine(isAllowedWebhookUrl, "Webhook URL must use HTTPS"),
+    }),
+  }),
+  z.object({
+    ...channelBase,
+    kind: z.literal("telegram"),
+    config: z.object({
+      botToken: z.string().regex(/^\d+:[\w-]{30,}$/, "Invalid bot token"),
+      chatId: z.string().regex(/^(-?\d+|@\w{5,})$/, "Invalid chat id"),
+    }),
+  }),
+  z.object({
+    ...channelBase,
+    kind: z.literal("discord"),
+    config: z.object({
+      webhookUrl: z.string().refine(isDiscordWebhookUrl, "Invalid Discord webhook URL"),
+    }),
+  }),
+]);
+
+const updateSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(60).optional(),
+  enabled: z.boolean().optional(),
+  filters: filtersSchema.optional(),
+});
+
+const deleteSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// ---------------------------------------------------------------------------
+// GET — List channels
+// ---------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from("notification_channels")
+      .select("*")
+      .eq("user_wallet", wallet)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Notification channels fetch error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch channels" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      channels: ((data ?? []) as NotificationChannel[]).map(toPublicChannel),
+    });
+  } catch (error) {
+    console.error("GET /api/notifications/channels error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — Add a channel
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = createSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, filters } = parsed.data;
+    if (parsed.data.kind === "webhook" && !(await resolvesToAllowedAddress(parsed.data.config.url))) {
+      return NextResponse.json(
+        { error: "Webhook URL must resolve to a public address" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: existing, error: countError } = await supabase
+      .from("notification_channels")
+      .select("id")
+      .eq("user_wallet", wallet);
+
+    if (countError) {
+      console.error("Notification channels count error:", countError);
+      return NextResponse.json(
+        { error: "Failed to add channel" },
+        { status: 500 }
+      );
+    }
+    if ((existing?.length ?? 0) >= MAX_CHANNELS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_CHANNELS} channels per wallet` },
+        { status: 409 }
+      );
+    }
+
+    const target: NotificationChannelTarget =
+      parsed.data.kind === "webhook"
+        ? { kind: "webhook", config: { url: parsed.data.config.url, secret: generateWebhookSecret() } }
+        : parsed.data;
+
+    const row: NotificationChannelInsert = {
+      kind: target.kind,
+      config: target.config,
+      user_wallet: wallet,
+      name: name ?? NOTIFICATION_CHANNEL_KINDS[target.kind].label,
+      filters: filters ?? { types: [], mints: [] },
+      enabled: true,
+    };
+
+    const { data, error } = await supabase
+      .from("notification_channels")
+      .insert(row)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error("Notification channel insert error:", error);
+      return NextResponse.json(
+        { error: "Failed to add channel" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        channel: toPublicChannel(data as NotificationChannel),
+        secret: target.kind === "webhook" ? target.config.secret : null,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("POST /api/notifications/channels error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH — Update a channel
+// ---------------------------------------------------------------------------
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = updateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { id, ...changes } = parsed.data;
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from("notification_channels")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("user_wallet", wallet)
+      .select();
+
+    if (error) {
+      console.error("Notification channel update error:", error);
+      return NextResponse.json(
+        { error: "Failed to update channel" },
+        { status: 500 }
+      );
+    }
+    if (!data?.length) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ channel: toPublicChannel(data[0] as NotificationChannel) });
+  } catch (error) {
+    console.error("PATCH /api/notifications/channels error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — Remove a channel
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = deleteSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { id } = parsed.data;
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from("notification_channels")
+      .delete()
+      .eq("id", id)
+      .eq("user_wallet", wallet);
+
+    if (error) {
+      console.error("Notification channel delete error:", error);
+      return NextResponse.json(
+        { error: "Failed to remove channel" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("DELETE /api/notifications/channels error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
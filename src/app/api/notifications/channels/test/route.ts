@@ -0,0 +1,66 @@
+/**
+ * POST /api/notifications/channels/test
+ *
+ * Sends a test message to one of the signed-in wallet's notification
+ * channels and returns the logged delivery, so users can check a channel
+ * right after setting it up. Test messages are sent once, without retries.
+ * Requires a NextAuth session.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionWallet } from "@/lib/auth";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { sendTestNotification } from "@/services/notificationDelivery";
+import type { NotificationChannel } from "@/types/database";
+
+const testSchema = z.object({
+  channelId: z.string().uuid(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = testSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid parameters", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { channelId } = parsed.data;
+    const supabase = createServerSupabaseClient();
+
+    const { data: channel } = await supabase
+      .from("notification_channels")
+      .select("*")
+      .eq("id", channelId)
+      .eq("user_wallet", wallet)
+      .maybeSingle();
+
+    if (!channel) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 });
+    }
+
+    const delivery = await sendTestNotification(channel as NotificationChannel);
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Failed to send test notification" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("POST /api/notifications/channels/test error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionWallet } from "@/lib/auth";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+const channelIdField = z.string().uuid();
+
+/** Deliveries shown per channel. */
+const DELIVERY_LOG_LIMIT = 20;
+
+/**
+ * GET /api/notifications/deliveries?channelId=...
+ * Returns the latest deliveries of one of the signed-in wallet's channels
+ * (the delivery log), newest first, with their status, attempts and last
+ * error. Requires a NextAuth session.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = channelIdField.safeParse(request.nextUrl.searchParams.get("channelId") ?? "");
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid parameters", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerSupabaseClient();
+    const channelId = parsed.data;
+
+    const { data: deliveries, error } = await supabase
+      .from("notification_deliveries")
+      .select("id, notification_id, payload, status, attempts, response_status, last_error, next_attempt_at, delivered_at, created_at")
+      .eq("channel_id", channelId)
+      .eq("user_wallet", wallet)
+      .order("created_at", { ascending: false })
+      .limit(DELIVERY_LOG_LIMIT);
+
+    if (error) {
+      console.error("Delivery log fetch error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch deliveries" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ deliveries: deliveries ?? [] });
+  } catch (error) {
+    console.error("GET /api/notifications/deliveries error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
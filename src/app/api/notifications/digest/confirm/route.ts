@@ -0,0 +1,97 @@
+/**
+ * /api/notifications/digest/confirm?wallet=...&email=...&token=...
+ *
+ * GET  — Confirmation page with a "Confirm" button. Link scanners in mail
+ *        clients follow GET links, so opening the link changes nothing.
+ * POST — Confirm the address, so digests start going to it.
+ *
+ * The token comes from the confirmation email (`getConfirmUrl`) and is
+ * only valid for its wallet and address, so no wallet session is needed.
+ * A link stops working once the subscription moves to another address.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { verifyConfirmToken } from "@/services/digest";
+import { page } from "@/app/api/notifications/digest/linkPage";
+
+const WALLET_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/** The wallet and address of a valid confirmation link, or `null`. */
+function getLinkTarget(request: NextRequest): { wallet: string; email: string } | null {
+  const wallet = request.nextUrl.searchParams.get("wallet") ?? "";
+  const email = request.nextUrl.searchParams.get("email") ?? "";
+  const token = request.nextUrl.searchParams.get("token") ?? "";
+  if (!WALLET_PATTERN.test(wallet) || !email || !verifyConfirmToken(wallet, email, token)) return null;
+  return { wallet, email };
+}
+
+const invalidLink = () =>
+  page(
+    "Invalid link",
+    `<p style="margin:0;color:#4b5563;font-size:14px;">This confirmation link is invalid or no longer current. Save your digest settings in your TokenTrust dashboard to get a new one.</p>`,
+    400
+  );
+
+// ---------------------------------------------------------------------------
+// GET — Confirmation page
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!getLinkTarget(request)) return invalidLink();
+
+    // No form action: the button posts back to this URL, query included
+    return page(
+      "Confirm digest email",
+      `<p style="margin:0 0 16px;color:#4b5563;font-size:14px;">Send TokenTrust watchlist digests to this address?</p>
+<form method="post"><button type="submit" style="padding:8px 16px;border:0;border-radius:6px;background:#047857;color:#ffffff;font-size:14px;cursor:pointer;">Confirm</button></form>`
+    );
+  } catch (error) {
+    console.error("GET /api/notifications/digest/confirm error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — Confirm
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const target = getLinkTarget(request);
+    if (!target) return invalidLink();
+
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from("digest_subscriptions")
+      .update({ confirmed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq("wallet", target.wallet)
+      .eq("email", target.email)
+      .select("wallet");
+
+    if (error) {
+      console.error("Digest confirm error:", error);
+      return page(
+        "Something went wrong",
+        `<p style="margin:0;color:#4b5563;font-size:14px;">We couldn't confirm your address. Please try again later.</p>`,
+        500
+      );
+    }
+    if (!data?.length) return invalidLink();
+
+    return page(
+      "Email confirmed",
+      `<p style="margin:0;color:#4b5563;font-size:14px;">Your watchlist digests will be sent to this address. You can change or turn them off in your TokenTrust dashboard.</p>`
+    );
+  } catch (error) {
+    console.error("POST /api/notifications/digest/confirm error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Minimal HTML page for the links in digest emails (confirm, unsubscribe).
+ * Mail clients open these links in a browser, so they answer with a page
+ * rather than JSON.
+ */
+
+import { NextResponse } from "next/server";
+
+export function page(title: string, body: string, status = 200): NextResponse {
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title} · TokenTrust</title></head>
+<body style="margin:0;padding:48px 16px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+<div style="max-width:420px;margin:0 auto;padding:24px;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;">
+<h1 style="margin:0 0 8px;font-size:20px;color:#111827;">${title}</h1>
+${body}
+</div>
+</body>
+</html>`;
+  return new NextResponse(html, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
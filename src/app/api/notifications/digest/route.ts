@@ -0,0 +1,177 @@
+/**
+ * /api/notifications/digest
+ *
+ * GET — The signed-in wallet's email digest subscription (`null` if it
+ *       has none).
+ * PUT — Set the digest email address and frequency (daily, weekly or off).
+ *       A new address gets a confirmation link and receives no digest
+ *       until it is confirmed (see /api/notifications/digest/confirm).
+ *
+ * Both require a NextAuth session. Digests are sent by GET
+ * /api/cron/digest; see `@/services/digest`. All operations use the
+ * Supabase service client (server-side only).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getSessionWallet } from "@/lib/auth";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { sendConfirmationEmail } from "@/services/digest";
+import type { DigestSubscription, DigestSubscriptionInsert } from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Validation schemas
+// ---------------------------------------------------------------------------
+
+/** Confirmation emails for an unconfirmed address are resent at most this often. */
+const CONFIRMATION_RESEND_MS = 15 * 60 * 1000;
+
+const updateSchema = z.object({
+  email: z.string().trim().max(254).email("Invalid email address"),
+  frequency: z.enum(["daily", "weekly", "off"]),
+});
+
+/** The subscription fields the client sees. */
+function toPublicSubscription(subscription: DigestSubscription) {
+  return {
+    email: subscription.email,
+    frequency: subscription.frequency,
+    confirmed: subscription.confirmed_at !== null,
+    last_sent_at: subscription.last_sent_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GET — Read the subscription
+// ---------------------------------------------------------------------------
+
+export async function GET() {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createServerSupabaseClient();
+    const { data, error } = await supabase
+      .from("digest_subscriptions")
+      .select("*")
+      .eq("wallet", wallet)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Digest subscription fetch error:", error);
+      return NextResponse.json(
+        { error: "Failed to fetch digest subscription" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      subscription: data ? toPublicSubscription(data as DigestSubscription) : null,
+    });
+  } catch (error) {
+    console.error("GET /api/notifications/digest error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT — Subscribe, change or turn off
+// ---------------------------------------------------------------------------
+
+export async function PUT(request: NextRequest) {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = updateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { email, frequency } = parsed.data;
+    const supabase = createServerSupabaseClient();
+
+    // Keep the last send time so changing the address doesn't resend a digest
+    const { data: existing, error: fetchError } = await supabase
+      .from("digest_subscriptions")
+      .select("email, last_sent_at, confirmed_at, confirmation_sent_at")
+      .eq("wallet", wallet)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error("Digest subscription fetch error:", fetchError);
+      return NextResponse.json(
+        { error: "Failed to save digest subscription" },
+        { status: 500 }
+      );
+    }
+
+    const previous = existing as Pick<
+      DigestSubscription,
+      "email" | "last_sent_at" | "confirmed_at" | "confirmation_sent_at"
+    > | null;
+    // A new address starts unconfirmed
+    const sameEmail = previous?.email === email;
+    const confirmedAt = sameEmail ? previous.confirmed_at : null;
+    const lastConfirmationAt = sameEmail ? previous.confirmation_sent_at : null;
+    const sendConfirmation =
+      frequency !== "off" &&
+      confirmedAt === null &&
+      (lastConfirmationAt === null || Date.now() - new Date(lastConfirmationAt).getTime() >= CONFIRMATION_RESEND_MS);
+
+    if (sendConfirmation) {
+      try {
+        await sendConfirmationEmail(wallet, email);
+      } catch (error) {
+        console.error("Digest confirmation email error:", error);
+        return NextResponse.json(
+          { error: "Failed to send the confirmation email" },
+          { status: 502 }
+        );
+      }
+    }
+
+    const row: DigestSubscriptionInsert = {
+      wallet,
+      email,
+      frequency,
+      last_sent_at: previous?.last_sent_at ?? null,
+      confirmed_at: confirmedAt,
+      confirmation_sent_at: sendConfirmation ? new Date().toISOString() : lastConfirmationAt,
+    };
+
+    const { data, error } = await supabase
+      .from("digest_subscriptions")
+      .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: "wallet" })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error("Digest subscription upsert error:", error);
+      return NextResponse.json(
+        { error: "Failed to save digest subscription" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      subscription: toPublicSubscription(data as DigestSubscription),
+    });
+  } catch (error) {
+    console.error("PUT /api/notifications/digest error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * /api/notifications/digest/unsubscribe?wallet=...&token=...
+ *
+ * GET  — Confirmation page with an "Unsubscribe" button. Link scanners in
+ *        mail clients follow GET links, so opening the link changes nothing.
+ * POST — Turn the wallet's digest off. Used by the button and by one-click
+ *        unsubscribe in mail clients (RFC 8058, List-Unsubscribe-Post).
+ *
+ * The token comes from the digest email (`getUnsubscribeUrl`) and is only
+ * valid for its wallet, so no wallet session is needed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { verifyUnsubscribeToken } from "@/services/digest";
+import { page } from "@/app/api/notifications/digest/linkPage";
+
+const WALLET_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/** The wallet of a valid unsubscribe link, or `null`. */
+function getLinkWallet(request: NextRequest): string | null {
+  const wallet = request.nextUrl.searchParams.get("wallet") ?? "";
+  const token = request.nextUrl.searchParams.get("token") ?? "";
+  if (!WALLET_PATTERN.test(wallet) || !verifyUnsubscribeToken(wallet, token)) return null;
+  return wallet;
+}
+
+const invalidLink = () =>
+  page(
+    "Invalid link",
+    `<p style="margin:0;color:#4b5563;font-size:14px;">This unsubscribe link is invalid. You can change digest emails in your TokenTrust dashboard.</p>`,
+    400
+  );
+
+// ---------------------------------------------------------------------------
+// GET — Confirmation page
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!getLinkWallet(request)) return invalidLink();
+
+    // No form action: the button posts back to this URL, query included
+    return page(
+      "Unsubscribe from digests",
+      `<p style="margin:0 0 16px;color:#4b5563;font-size:14px;">Stop receiving TokenTrust watchlist digest emails?</p>
+<form method="post"><button type="submit" style="padding:8px 16px;border:0;border-radius:6px;background:#047857;color:#ffffff;font-size:14px;cursor:pointer;">Unsubscribe</button></form>`
+    );
+  } catch (error) {
+    console.error("GET /api/notifications/digest/unsubscribe error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — Unsubscribe
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const wallet = getLinkWallet(request);
+    if (!wallet) return invalidLink();
+
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase
+      .from("digest_subscriptions")
+      .update({ frequency: "off", updated_at: new Date().toISOString() })
+      .eq("wallet", wallet);
+
+    if (error) {
+      console.error("Digest unsubscribe error:", error);
+      return page(
+        "Something went wrong",
+        `<p style="margin:0;color:#4b5563;font-size:14px;">We couldn't unsubscribe you. Please try again later.</p>`,
+        500
+      );
+    }
+
+    return page(
+      "Unsubscribed",
+      `<p style="margin:0;color:#4b5563;font-size:14px;">You will no longer receive digest emails. You can turn them back on in your TokenTrust dashboard.</p>`
+    );
+  } catch (error) {
+    console.error("POST /api/notifications/digest/unsubscribe error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
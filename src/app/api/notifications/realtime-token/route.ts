@@ -0,0 +1,32 @@
+/**
+ * GET /api/notifications/realtime-token
+ *
+ * Returns a short-lived Supabase JWT for the signed-in wallet, used by
+ * `useNotifications` to subscribe to its `notifications` rows through
+ * Supabase Realtime. Requires a NextAuth session.
+ */
+
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { createRealtimeToken } from "@/lib/supabase/realtimeToken";
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    const wallet = session?.user?.wallet;
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(createRealtimeToken(wallet), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("GET /api/notifications/realtime-token error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
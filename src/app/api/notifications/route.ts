@@ -1,40 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { getSessionWallet } from "@/lib/auth";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
-import { analyzeToken } from "@/services/tokenAnalyzer";
-
-const getSchema = z.object({
-  wallet: z.string().min(32).max(44),
-});
 
 const patchSchema = z.object({
-  wallet: z.string().min(32).max(44),
   notificationIds: z.array(z.string().uuid()).optional(),
   markAllRead: z.boolean().optional(),
 });
 
 /**
- * GET /api/notifications?wallet=...
- * Returns notifications + checks watchlist tokens for changes (generates new alerts).
+ * GET /api/notifications
+ * Returns the signed-in wallet's latest notifications and the unread
+ * count. Requires a NextAuth session. Alerts are generated by the alert
+ * engine (GET /api/cron/alerts), not here.
  */
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
-    const { searchParams } = request.nextUrl;
-    const parsed = getSchema.safeParse({
-      wallet: searchParams.get("wallet") ?? "",
-    });
-
-    if (!parsed.success) {
-      return NextResponse.json(
-        { error: "Invalid parameters", details: parsed.error.flatten() },
-        { status: 400 }
-      );
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const supabase = createServerSupabaseClient();
-    const { wallet } = parsed.data;
 
-    // Fetch existing notifications
     const { data: notifications } = await supabase
       .from("notifications")
       .select("*")
@@ -42,97 +30,10 @@ export async function GET(request: NextRequest) {
       .order("created_at", { ascending: false })
       .limit(50);
 
-    // Check watchlist for changes (generate new alerts)
-    const { data: watchlistItems } = await supabase
-      .from("watchlist")
-      .select("token_mint")
-      .eq("user_wallet", wallet);
-
-    if (watchlistItems && watchlistItems.length > 0) {
-      // Get current cached analyses
-      const mints = watchlistItems.map((w) => w.token_mint);
-      const { data: cachedAnalyses } = await supabase
-        .from("token_analyses")
-        .select("mint, name, trust_rating, risk_flags, analyzed_at")
-        .in("mint", mints);
-
-      // Re-analyze a subset to check for changes (limit to 3 per visit to respect rate limits)
-      const toCheck = mints.slice(0, 3);
-      for (const mint of toCheck) {
-        const cached = cachedAnalyses?.find((a) => a.mint === mint);
-        if (!cached) continue;
-
-        const fresh = await analyzeToken(mint);
-        if (!fresh) continue;
-
-        const ratingDiff = Math.abs(fresh.trustRating - cached.trust_rating);
-
-        // Generate alert if trust rating changed by 5+ points
-        if (ratingDiff >= 5) {
-          const existing = (notifications ?? []).find(
-            (n) =>
-              n.mint === mint &&
-              n.type === "score_change" &&
-              new Date(n.created_at).getTime() >
-                Date.now() - 24 * 60 * 60 * 1000
-          );
-
-          if (!existing) {
-            await supabase.from("notifications").insert({
-              user_wallet: wallet,
-              mint,
-              token_name: fresh.name,
-              type: "score_change",
-              message: `${fresh.name ?? mint.slice(0, 8)} trust rating changed from ${cached.trust_rating} to ${fresh.trustRating}`,
-              old_value: cached.trust_rating,
-              new_value: fresh.trustRating,
-              read: false,
-            });
-          }
-        }
-
-        // Check for new risk flags
-        const oldFlagCount = Array.isArray(cached.risk_flags)
-          ? cached.risk_flags.length
-          : 0;
-        if (fresh.riskFlags.length > oldFlagCount) {
-          const existing = (notifications ?? []).find(
-            (n) =>
-              n.mint === mint &&
-              n.type === "new_risk_flag" &&
-              new Date(n.created_at).getTime() >
-                Date.now() - 24 * 60 * 60 * 1000
-          );
-
-          if (!existing) {
-            await supabase.from("notifications").insert({
-              user_wallet: wallet,
-              mint,
-              token_name: fresh.name,
-              type: "new_risk_flag",
-              message: `New risk flag detected for ${fresh.name ?? mint.slice(0, 8)}`,
-              old_value: oldFlagCount,
-              new_value: fresh.riskFlags.length,
-              read: false,
-            });
-          }
-        }
-      }
-    }
-
-    // Re-fetch notifications after potential inserts
-    const { data: updatedNotifications } = await supabase
-      .from("notifications")
-      .select("*")
-      .eq("user_wallet", wallet)
-      .order("created_at", { ascending: false })
-      .limit(50);
-
-    const unreadCount =
-      updatedNotifications?.filter((n) => !n.read).length ?? 0;
+    const unreadCount = notifications?.filter((n) => !n.read).length ?? 0;
 
     return NextResponse.json({
-      notifications: updatedNotifications ?? [],
+      notifications: notifications ?? [],
       unreadCount,
     });
   } catch (error) {
@@ -145,10 +46,16 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * PATCH /api/notifications — mark notifications as read
+ * PATCH /api/notifications — mark the signed-in wallet's notifications as
+ * read. Requires a NextAuth session.
  */
 export async function PATCH(request: NextRequest) {
   try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     const body = await request.json();
     const parsed = patchSchema.safeParse(body);
 
@@ -160,7 +67,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const supabase = createServerSupabaseClient();
-    const { wallet, notificationIds, markAllRead } = parsed.data;
+    const { notificationIds, markAllRead } = parsed.data;
 
     if (markAllRead) {
       await supabase
@@ -172,7 +79,8 @@ export async function PATCH(request: NextRequest) {
       await supabase
         .from("notifications")
         .update({ read: true })
-        .in("id", notificationIds);
+        .in("id", notificationIds)
+        .eq("user_wallet", wallet);
     }
 
     return NextResponse.json({ success: true });
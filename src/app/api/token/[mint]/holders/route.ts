@@ -2,13 +2,15 @@
  * GET /api/token/[mint]/holders?limit=20
  *
  * Fetch token holders with their FairScale scores.
- * Returns holder list sorted by amount with score and tier data.
+ * Returns holder list sorted by amount with score, tier and registry label
+ * (LP vault, burn address, exchange, vesting or bridge) data.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { getTokenHolders } from "@/services/helius";
-import { getQuickScore, classifyTier } from "@/services/fairscale";
+import { getTokenHolders, getTokenMetadata } from "@/services/helius";
+import { getQuickScores, classifyTier } from "@/services/fairscale";
+import { getAddressLabel } from "@/lib/addressRegistry";
 
 const paramSchema = z.object({
   mint: z
@@ -43,8 +45,13 @@ export async function GET(
 
     const limit = parsedQuery.success ? parsedQuery.data.limit : 20;
 
-    // Fetch holders from Helius
-    const holders = await getTokenHolders(parsedParams.data.mint, limit);
+    // Fetch holders from Helius, with percentages of on-chain supply
+    const metadata = await getTokenMetadata(parsedParams.data.mint);
+    const holders = await getTokenHolders(
+      parsedParams.data.mint,
+      limit,
+      metadata?.supply ?? null
+    );
 
     if (holders.length === 0) {
       return NextResponse.json(
@@ -54,18 +61,18 @@ export async function GET(
     }
 
     // Enrich with FairScores (batch quick scores)
-    const enrichedHolders = await Promise.all(
-      holders.map(async (holder) => {
-        const score = await getQuickScore(holder.owner);
-        return {
-          owner: holder.owner,
-          amount: holder.amount,
-          percentage: holder.percentage,
-          fairScore: score,
-          tier: score !== null ? classifyTier(score) : "unrated" as const,
-        };
-      })
-    );
+    const scores = await getQuickScores(holders.map((holder) => holder.owner));
+    const enrichedHolders = holders.map((holder) => {
+      const score = scores.get(holder.owner) ?? null;
+      return {
+        owner: holder.owner,
+        amount: holder.amount,
+        percentage: holder.percentage,
+        fairScore: score,
+        tier: score !== null ? classifyTier(score) : "unrated" as const,
+        label: getAddressLabel(holder.owner),
+      };
+    });
 
     return NextResponse.json({
       mint: parsedParams.data.mint,
@@ -35,7 +35,7 @@ export async function GET(
     // Fetch Helius holders + DexScreener in parallel
     const [holders, dexData] = await Promise.all([
       getTokenHolders(parsed.data.mint, 20),
-      getTokenLiquidity(parsed.data.mint),
+      getTokenLiquidity(parsed.data.mint, { verifyLp: true }),
     ]);
 
     const { lpVaults, lpSupplyPercent } = analyzeHolders(holders);
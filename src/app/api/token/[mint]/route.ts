@@ -1,13 +1,21 @@
 /**
- * GET /api/token/[mint]
+ * GET /api/token/[mint]?profile=default
  *
  * Full token trust analysis via the Token Analyzer service.
  * Returns trust rating, deployer info, risk flags, and holder stats.
+ * The optional `profile` selects the scoring profile used to weight the
+ * trust rating (see `@/lib/scoringProfiles`).
+ *
+ * An expired cached analysis is returned immediately with `stale: true`
+ * and a refresh is queued after the response; the token page picks up
+ * the fresh analysis via Supabase Realtime.
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { z } from "zod";
 import { analyzeToken } from "@/services/tokenAnalyzer";
+import { enqueueAnalysisRefresh } from "@/services/analysisRefresh";
+import { SCORING_PROFILE_IDS } from "@/lib/scoringProfiles";
 
 const paramSchema = z.object({
   mint: z
@@ -16,6 +24,10 @@ const paramSchema = z.object({
     .max(44, "Invalid mint address"),
 });
 
+const querySchema = z.object({
+  profile: z.enum(SCORING_PROFILE_IDS).optional(),
+});
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ mint: string }> }
@@ -31,7 +43,21 @@ export async function GET(
       );
     }
 
-    const analysis = await analyzeToken(parsed.data.mint);
+    const parsedQuery = querySchema.safeParse({
+      profile: request.nextUrl.searchParams.get("profile") ?? undefined,
+    });
+
+    if (!parsedQuery.success) {
+      return NextResponse.json(
+        { error: "Invalid scoring profile", details: parsedQuery.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const analysis = await analyzeToken(parsed.data.mint, {
+      profileId: parsedQuery.data.profile,
+      allowStale: true,
+    });
 
     if (!analysis) {
       return NextResponse.json(
@@ -40,6 +66,11 @@ export async function GET(
       );
     }
 
+    if (analysis.stale) {
+      const mint = parsed.data.mint;
+      after(() => enqueueAnalysisRefresh(mint));
+    }
+
     return NextResponse.json(analysis);
   } catch (error) {
     console.error("GET /api/token/[mint] error:", error);
@@ -3,6 +3,10 @@
  *
  * GET    — Fetch watchlist items for a wallet.
  * POST   — Add an entity (token, wallet, deployer) to a wallet's watchlist.
+ * PATCH  — Replace the alert rules of a watchlist entry (`null` restores
+ *          the defaults, see `@/lib/alertRules`). Acts on the signed-in
+ *          wallet's watchlist and requires a NextAuth session, since the
+ *          rules drive that wallet's outbound notifications.
  * DELETE — Remove an entity from a wallet's watchlist.
  *
  * DB schema (watchlist table):
@@ -10,6 +14,8 @@
  *   user_wallet varchar
  *   token_mint  varchar  — stores the address (token mint, wallet, or deployer)
  *   entity_type varchar  — "token" | "wallet" | "deployer" (defaults to "token")
+ *   alert_rules jsonb    — AlertRule[] or NULL for the default rules
+ *   alerts_checked_at timestamptz — last alert engine check
  *   added_at    timestamptz (default now())
  *
  * All operations use the Supabase service client (server-side only).
@@ -17,7 +23,10 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { getSessionWallet } from "@/lib/auth";
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { ALERT_RULE_KINDS, type AlertRule } from "@/lib/alertRules";
+import { RISK_FLAG_CODES, type RiskFlagCode } from "@/lib/riskFlagCatalog";
 import type { FairScoreTier } from "@/types/database";
 
 // ---------------------------------------------------------------------------
@@ -46,6 +55,41 @@ const walletTokenSchema = z.object({
     .default("token"),
 });
 
+/** Most rules a single watchlist entry can carry. */
+const MAX_ALERT_RULES = 20;
+
+const alertRuleBase = {
+  id: z.string().min(1).max(64),
+  enabled: z.boolean(),
+  cooldownHours: z.number().min(0).max(24 * 30),
+};
+
+const alertRuleSchema = z.discriminatedUnion("kind", [
+  z.object({ ...alertRuleBase, kind: z.literal("rating_change"), points: z.number().int().min(1).max(100) }),
+  z.object({ ...alertRuleBase, kind: z.literal("rating_below"), threshold: z.number().int().min(1).max(100) }),
+  z.object({ ...alertRuleBase, kind: z.literal("liquidity_drop"), percent: z.number().min(1).max(100) }),
+  z.object({ ...alertRuleBase, kind: z.literal("top_holder_above"), percent: z.number().min(0).max(100) }),
+  z.object({
+    ...alertRuleBase,
+    kind: z.literal("flag_raised"),
+    codes: z.array(z.enum(RISK_FLAG_CODES as [RiskFlagCode, ...RiskFlagCode[]])),
+  }),
+  z.object({ ...alertRuleBase, kind: z.literal("deployer_tier_change") }),
+  z.object({ ...alertRuleBase, kind: z.literal("deployer_new_token") }),
+]);
+
+const alertRulesSchema = z.object({
+  tokenMint: z
+    .string()
+    .min(32, "Invalid address")
+    .max(44, "Invalid address"),
+  alertRules: z
+    .array(alertRuleSchema)
+    .max(MAX_ALERT_RULES)
+    .refine((rules) => new Set(rules.map((r) => r.id)).size === rules.length, "Rule ids must be unique")
+    .nullable(),
+});
+
 const deleteSchema = z.object({
   wallet: z
     .string()
@@ -81,7 +125,7 @@ export async function GET(request: NextRequest) {
     // Fetch watchlist items for this wallet
     const { data: watchlistItems, error } = await supabase
       .from("watchlist")
-      .select("id, user_wallet, token_mint, entity_type, added_at")
+      .select("id, user_wallet, token_mint, entity_type, alert_rules, added_at")
       .eq("user_wallet", wallet)
       .order("added_at", { ascending: false });
 
@@ -183,6 +227,7 @@ export async function GET(request: NextRequest) {
         mint: item.token_mint,
         entity_type: entityType,
         added_at: item.added_at,
+        alert_rules: (item.alert_rules ?? null) as AlertRule[] | null,
         token: entityType === "token" ? (tokenData[item.token_mint] ?? null) : null,
         walletInfo:
           entityType === "wallet" || entityType === "deployer"
@@ -261,6 +306,7 @@ export async function POST(request: NextRequest) {
           mint: item.token_mint,
           entity_type: item.entity_type || entityType,
           added_at: item.added_at,
+          alert_rules: null,
           token: null,
           walletInfo: null,
         },
@@ -276,6 +322,81 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// ---------------------------------------------------------------------------
+// PATCH — Update alert rules of a watchlist entry
+// ---------------------------------------------------------------------------
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const wallet = await getSessionWallet();
+    if (!wallet) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = alertRulesSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { tokenMint, alertRules } = parsed.data;
+    const supabase = createServerSupabaseClient();
+
+    const { data: existing } = await supabase
+      .from("watchlist")
+      .select("id, entity_type")
+      .eq("user_wallet", wallet)
+      .eq("token_mint", tokenMint)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Not in watchlist" },
+        { status: 404 }
+      );
+    }
+
+    const entityType = existing.entity_type || "token";
+    const unsupported = (alertRules ?? []).filter(
+      (rule) => !ALERT_RULE_KINDS[rule.kind].entityTypes.includes(entityType)
+    );
+    if (unsupported.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Rule kinds not supported for ${entityType} entries`,
+          kinds: [...new Set(unsupported.map((r) => r.kind))],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { error: updateError } = await supabase
+      .from("watchlist")
+      .update({ alert_rules: alertRules })
+      .eq("id", existing.id);
+
+    if (updateError) {
+      console.error("Watchlist alert rules update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update alert rules" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, alertRules });
+  } catch (error) {
+    console.error("PATCH /api/watchlist error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
 // ---------------------------------------------------------------------------
 // DELETE — Remove entity from watchlist
 // ---------------------------------------------------------------------------
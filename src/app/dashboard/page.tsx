@@ -19,6 +19,8 @@ import FairScoreDisplay from "@/components/features/FairScoreDisplay";
 import WatchlistCard from "@/components/features/WatchlistCard";
 import TokenSearch from "@/components/features/TokenSearch";
 import ScoreRecommendations from "@/components/features/ScoreRecommendations";
+import NotificationChannelsCard from "@/components/features/NotificationChannelsCard";
+import DigestSettingsCard from "@/components/features/DigestSettingsCard";
 import { useFairScore } from "@/hooks/useFairScore";
 import { useWatchlist } from "@/hooks/useWatchlist";
 import { generateRecommendations } from "@/lib/recommendations";
@@ -133,6 +135,7 @@ export default function DashboardPage() {
     loading: watchlistLoading,
     addToken,
     removeItem,
+    updateAlertRules,
   } = useWatchlist(walletAddress);
 
   // Determine current tier
@@ -272,7 +275,10 @@ export default function DashboardPage() {
                 <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
                   {watchlistItems.map((item) => (
                     <div key={item.id} className="group relative">
-                      <WatchlistCard entry={item} />
+                      <WatchlistCard
+                        entry={item}
+                        onSaveAlertRules={(rules) => updateAlertRules(item.mint, rules)}
+                      />
                       <Button
                         variant="ghost"
                         size="icon"
@@ -305,6 +311,12 @@ export default function DashboardPage() {
                   </CardContent>
                 </Card>
               )}
+
+              {/* Outbound alert channels */}
+              <NotificationChannelsCard wallet={walletAddress} />
+
+              {/* Email digest of watchlist changes */}
+              <DigestSettingsCard wallet={walletAddress} />
             </TabsContent>
           </Tabs>
         </div>
@@ -399,7 +399,7 @@ export default function DeployerPage() {
           {/* Deployer Timeline                                               */}
           {/* --------------------------------------------------------------- */}
           {data.deployedTokens.length > 0 && (
-            <DeployerTimeline tokens={data.deployedTokens} />
+            <DeployerTimeline tokens={data.deployedTokens} trackRecord={data.trackRecord} />
           )}
 
           {/* --------------------------------------------------------------- */}
@@ -186,7 +186,7 @@ export default function TokenPage() {
   const params = useParams<{ mint: string }>();
   const router = useRouter();
   const mint = params.mint;
-  const { data, loading, error, refetch } = useTokenAnalysis(mint);
+  const { data, loading, refreshing, error, refetch } = useTokenAnalysis(mint);
   const { holders, loading: holdersLoading } = useHolders(mint, 10);
   const { recordVisit } = useBrowsingHistory();
   const { data: session } = useSession();
@@ -298,6 +298,8 @@ export default function TokenPage() {
             <AuthorityBadges
               mintAuthorityActive={data.mintAuthorityActive}
               freezeAuthorityActive={data.freezeAuthorityActive}
+              extensions={data.tokenExtensions}
+              sellSimulation={data.sellSimulation}
             />
           </div>
 
@@ -333,8 +335,19 @@ export default function TokenPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <TrustRating rating={data.trustRating} />
-              <ScoringMethodology />
+              <TrustRating
+                rating={data.trustRating}
+                components={data.components}
+                ratingRange={data.ratingRange}
+                ratingCapped={data.ratingCapped}
+                dataCompleteness={data.dataCompleteness}
+                dataSources={data.dataSources}
+                providers={data.providers}
+              />
+              <ScoringMethodology
+                profileId={data.scoringProfile?.id}
+                components={data.components}
+              />
               <p className="mt-2 text-xs text-muted-foreground">
                 Powered by FairScale + Helius
               </p>
@@ -357,7 +370,7 @@ export default function TokenPage() {
           {/* --------------------------------------------------------------- */}
           {/* Liquidity                                                       */}
           {/* --------------------------------------------------------------- */}
-          <LiquidityCard mint={data.mint} />
+          <LiquidityCard mint={data.mint} deployerWallet={data.deployerWallet} />
 
           {/* --------------------------------------------------------------- */}
           {/* Deployer Info                                                   */}
@@ -438,6 +451,18 @@ export default function TokenPage() {
                   </span>
                 </p>
               )}
+              {data.distribution && data.distribution.holderCount > 1 && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Gini{" "}
+                  <span className="font-medium">{data.distribution.gini.toFixed(2)}</span>
+                  {" · "}HHI{" "}
+                  <span className="font-medium">{data.distribution.hhi.toFixed(3)}</span>
+                  {" · "}
+                  <span className="font-medium">{data.distribution.nakamotoCoefficient}</span>{" "}
+                  holder(s) control a majority
+                  {!data.distribution.complete && " (partial holder set)"}
+                </p>
+              )}
               <p className="mt-2 text-xs text-muted-foreground">
                 via Helius
               </p>
@@ -524,6 +549,7 @@ export default function TokenPage() {
                 holders={holders}
                 tokenName={data.name}
                 loading={holdersLoading}
+                clusters={data.holderClusters}
               />
               <p className="mt-2 text-center text-xs text-muted-foreground">
                 via Helius
@@ -560,6 +586,7 @@ export default function TokenPage() {
               dateStyle: "medium",
               timeStyle: "short",
             })}
+            {data.stale && (refreshing ? " · refreshing…" : " · refresh failed, may be out of date")}
           </p>
         </div>
       )}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ALERT_RULE_KINDS,
+  createAlertRule,
+  resolveAlertRules,
+  type AlertEntityType,
+  type AlertRule,
+  type AlertRuleKind,
+} from "@/lib/alertRules";
+import {
+  RISK_FLAG_CATALOG,
+  RISK_FLAG_CODES,
+  type RiskFlagCode,
+} from "@/lib/riskFlagCatalog";
+import { cn } from "@/lib/utils";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SELECT_CLASS =
+  "border-input h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 dark:bg-input/30";
+
+/** The numeric parameter of a rule kind, if it has one. */
+function getRuleParameter(rule: AlertRule): { label: string; unit: string; value: number } | null {
+  switch (rule.kind) {
+    case "rating_change":
+      return { label: "By at least", unit: "points", value: rule.points };
+    case "rating_below":
+      return { label: "Below", unit: "/ 100", value: rule.threshold };
+    case "liquidity_drop":
+      return { label: "By at least", unit: "%", value: rule.percent };
+    case "top_holder_above":
+      return { label: "Above", unit: "% of supply", value: rule.percent };
+    default:
+      return null;
+  }
+}
+
+function withRuleParameter(rule: AlertRule, value: number): AlertRule {
+  switch (rule.kind) {
+    case "rating_change":
+      return { ...rule, points: value };
+    case "rating_below":
+      return { ...rule, threshold: value };
+    case "liquidity_drop":
+    case "top_holder_above":
+      return { ...rule, percent: value };
+    default:
+      return rule;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface AlertRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Name of the watched token / address, for the title. */
+  subject: string;
+  entityType: AlertEntityType;
+  /** The entry's saved rules; `null` means it uses the defaults. */
+  rules: AlertRule[] | null;
+  /** Persist the rules (`null` restores the defaults); resolves to whether it saved. */
+  onSave: (rules: AlertRule[] | null) => Promise<boolean>;
+}
+
+/**
+ * Edit the alert rules of a watchlist entry. The draft is initialised from
+ * `rules` on mount, so render the dialog only while it is open.
+ */
+export default function AlertRulesDialog({
+  open,
+  onOpenChange,
+  subject,
+  entityType,
+  rules,
+  onSave,
+}: AlertRulesDialogProps) {
+  const [draft, setDraft] = useState<AlertRule[]>(() => resolveAlertRules(rules, entityType));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const availableKinds = (Object.keys(ALERT_RULE_KINDS) as AlertRuleKind[]).filter((kind) =>
+    ALERT_RULE_KINDS[kind].entityTypes.includes(entityType)
+  );
+
+  function updateRule(id: string, update: (rule: AlertRule) => AlertRule) {
+    setDraft((prev) => prev.map((rule) => (rule.id === id ? update(rule) : rule)));
+  }
+
+  async function save(next: AlertRule[] | null) {
+    setSaving(true);
+    setError(null);
+    const saved = await onSave(next);
+    setSaving(false);
+    if (saved) onOpenChange(false);
+    else setError("Could not save alert rules. Please try again.");
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Alerts for {subject}</DialogTitle>
+          <DialogDescription>
+            You get a notification when a rule fires, at most once per
+            cooldown.
+            {rules === null && " Using the default rules."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex max-h-[60vh] flex-col gap-3 overflow-y-auto">
+          {draft.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No alert rules. Add one below.
+            </p>
+          )}
+
+          {draft.map((rule) => {
+            const info = ALERT_RULE_KINDS[rule.kind];
+            const parameter = getRuleParameter(rule);
+
+            return (
+              <div
+                key={rule.id}
+                className={cn("flex flex-col gap-2 rounded-md border p-3", !rule.enabled && "opacity-60")}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <label className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, (r) => ({ ...r, enabled: e.target.checked }))}
+                    />
+                    <span className="flex flex-col">
+                      <span className="text-sm font-medium">{info.label}</span>
+                      <span className="text-xs text-muted-foreground">{info.description}</span>
+                    </span>
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7 shrink-0"
+                    onClick={() => setDraft((prev) => prev.filter((r) => r.id !== rule.id))}
+                    aria-label={`Remove ${info.label} rule`}
+                  >
+                    <Trash2 className="size-4 text-muted-foreground" />
+                  </Button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-muted-foreground">
+                  {parameter && (
+                    <label className="flex items-center gap-1.5">
+                      {parameter.label}
+                      <Input
+                        type="number"
+                        min={1}
+                        max={100}
+                        className="h-7 w-20"
+                        value={parameter.value}
+                        onChange={(e) =>
+                          updateRule(rule.id, (r) => withRuleParameter(r, Number(e.target.value)))
+                        }
+                      />
+                      {parameter.unit}
+                    </label>
+                  )}
+                  <label className="flex items-center gap-1.5">
+                    Cooldown
+                    <Input
+                      type="number"
+                      min={0}
+                      max={720}
+                      className="h-7 w-20"
+                      value={rule.cooldownHours}
+                      onChange={(e) =>
+                        updateRule(rule.id, (r) => ({ ...r, cooldownHours: Number(e.target.value) }))
+                      }
+                    />
+                    hours
+                  </label>
+                </div>
+
+                {rule.kind === "flag_raised" && (
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    {rule.codes.length === 0 && (
+                      <span className="text-xs text-muted-foreground">Any risk flag</span>
+                    )}
+                    {rule.codes.map((code) => (
+                      <Badge
+                        key={code}
+                        variant="outline"
+                        className="cursor-pointer text-xs"
+                        onClick={() =>
+                          updateRule(rule.id, (r) =>
+                            r.kind === "flag_raised" ? { ...r, codes: r.codes.filter((c) => c !== code) } : r
+                          )
+                        }
+                        title="Remove"
+                      >
+                        {RISK_FLAG_CATALOG[code].label} ×
+                      </Badge>
+                    ))}
+                    <select
+                      className={cn(SELECT_CLASS, "h-7 text-xs")}
+                      value=""
+                      onChange={(e) => {
+                        const code = e.target.value as RiskFlagCode;
+                        updateRule(rule.id, (r) =>
+                          r.kind === "flag_raised" && !r.codes.includes(code)
+                            ? { ...r, codes: [...r.codes, code] }
+                            : r
+                        );
+                      }}
+                      aria-label="Only alert for a specific risk flag"
+                    >
+                      <option value="">Only specific flags…</option>
+                      {RISK_FLAG_CODES.filter((code) => !rule.codes.includes(code)).map((code) => (
+                        <option key={code} value={code}>
+                          {RISK_FLAG_CATALOG[code].label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {availableKinds.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Plus className="size-4 text-muted-foreground" />
+              <select
+                className={SELECT_CLASS}
+                value=""
+                onChange={(e) => {
+                  const kind = e.target.value as AlertRuleKind;
+                  if (kind) setDraft((prev) => [...prev, createAlertRule(kind, crypto.randomUUID())]);
+                }}
+                aria-label="Add alert rule"
+              >
+                <option value="">Add a rule…</option>
+                {availableKinds.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {ALERT_RULE_KINDS[kind].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" size="sm" disabled={saving} onClick={() => save(null)}>
+            Reset to defaults
+          </Button>
+          <Button
+            size="sm"
+            className="bg-emerald-600 text-white hover:bg-emerald-700"
+            disabled={saving}
+            onClick={() => save(draft)}
+          >
+            {saving ? "Saving…" : "Save rules"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
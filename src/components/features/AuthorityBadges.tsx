@@ -1,11 +1,42 @@
 "use client";
 
-import { ShieldCheck, ShieldAlert } from "lucide-react";
+import { ShieldCheck, ShieldAlert, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { TokenExtensions } from "@/services/helius";
+import type { SellSimulationResult } from "@/services/sellSimulation";
 
 interface AuthorityBadgesProps {
   mintAuthorityActive: boolean;
   freezeAuthorityActive: boolean;
+  /** Token-2022 extensions; each risky extension gets its own badge. */
+  extensions?: TokenExtensions;
+  /** Honeypot check result; skipped simulations are not shown. */
+  sellSimulation?: SellSimulationResult | null;
+}
+
+function SellSimulationBadge({ result }: { result: SellSimulationResult }) {
+  const failed = result.status === "failed";
+  const tax = result.effectiveTaxPercent;
+  return (
+    <div
+      title={
+        failed
+          ? result.reason ?? "The simulated sell failed"
+          : `Simulated sell into SOL${result.pool?.label ? ` via ${result.pool.label}` : ""}; price impact ${result.priceImpactPercent?.toFixed(2) ?? "?"}%`
+      }
+      className={cn(
+        "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium",
+        failed
+          ? "border-red-300 bg-red-50 text-red-600 dark:border-red-800 dark:bg-red-950 dark:text-red-400"
+          : "border-emerald-300 bg-emerald-50 text-emerald-600 dark:border-emerald-800 dark:bg-emerald-950 dark:text-emerald-400"
+      )}
+    >
+      {failed ? <ShieldAlert className="size-3" /> : <ShieldCheck className="size-3" />}
+      {failed
+        ? "Sell: Failed"
+        : `Sell: OK${tax !== null ? ` (${tax.toFixed(1)}% tax)` : ""}`}
+    </div>
+  );
 }
 
 function AuthorityBadge({
@@ -34,14 +65,85 @@ function AuthorityBadge({
   );
 }
 
+function ExtensionBadge({
+  label,
+  critical,
+  title,
+}: {
+  label: string;
+  critical?: boolean;
+  title: string;
+}) {
+  return (
+    <div
+      title={title}
+      className={cn(
+        "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium",
+        critical
+          ? "border-red-300 bg-red-50 text-red-600 dark:border-red-800 dark:bg-red-950 dark:text-red-400"
+          : "border-orange-300 bg-orange-50 text-orange-600 dark:border-orange-800 dark:bg-orange-950 dark:text-orange-400"
+      )}
+    >
+      <AlertTriangle className="size-3" />
+      {label}
+    </div>
+  );
+}
+
 export default function AuthorityBadges({
   mintAuthorityActive,
   freezeAuthorityActive,
+  extensions,
+  sellSimulation,
 }: AuthorityBadgesProps) {
+  const feeBps = extensions?.transferFeeBps ?? 0;
+
   return (
     <div className="flex flex-wrap gap-1.5">
       <AuthorityBadge label="Mint" active={mintAuthorityActive} />
       <AuthorityBadge label="Freeze" active={freezeAuthorityActive} />
+      {sellSimulation && sellSimulation.status !== "skipped" && (
+        <SellSimulationBadge result={sellSimulation} />
+      )}
+      {extensions?.permanentDelegate && (
+        <ExtensionBadge
+          label="Permanent Delegate"
+          critical
+          title="Can move or burn tokens from any holder's account"
+        />
+      )}
+      {feeBps > 0 && (
+        <ExtensionBadge
+          label={`Transfer Fee ${(feeBps / 100).toFixed(2)}%`}
+          critical={feeBps >= 1000}
+          title="A fee is taken from every transfer"
+        />
+      )}
+      {extensions?.transferHookProgram && (
+        <ExtensionBadge
+          label="Transfer Hook"
+          title="A custom program runs on every transfer"
+        />
+      )}
+      {extensions?.nonTransferable && (
+        <ExtensionBadge
+          label="Non-Transferable"
+          critical
+          title="The token cannot be transferred or sold"
+        />
+      )}
+      {extensions?.defaultAccountStateFrozen && (
+        <ExtensionBadge
+          label="Frozen by Default"
+          title="New accounts start frozen until the issuer thaws them"
+        />
+      )}
+      {extensions?.confidentialTransfers && (
+        <ExtensionBadge
+          label="Confidential Transfers"
+          title="Balances and amounts can be encrypted"
+        />
+      )}
     </div>
   );
 }
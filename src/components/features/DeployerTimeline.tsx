@@ -1,18 +1,41 @@
 "use client";
 
-import { CalendarDays, Coins, AlertTriangle, Clock } from "lucide-react";
+import {
+  CalendarDays,
+  Coins,
+  AlertTriangle,
+  Clock,
+  TrendingDown,
+  Repeat,
+  type LucideIcon,
+} from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import {
+  SERIAL_DEPLOYER_WINDOW_DAYS,
+  type DeployerTrackRecord,
+} from "@/services/deployerHistory";
 
 interface DeployedTokenSummary {
   trust_rating: number;
   analyzed_at: string;
 }
 
+interface TimelineStat {
+  icon: LucideIcon;
+  label: string;
+  value: string;
+  /** Highlight the value as a warning. */
+  alert?: boolean;
+}
+
 interface DeployerTimelineProps {
   tokens: DeployedTokenSummary[];
+  /** Rug history; replaces the low-trust count when tokens were evaluated. */
+  trackRecord?: DeployerTrackRecord | null;
 }
 
-export default function DeployerTimeline({ tokens }: DeployerTimelineProps) {
+export default function DeployerTimeline({ tokens, trackRecord }: DeployerTimelineProps) {
   if (tokens.length === 0) return null;
 
   const sorted = [...tokens].sort(
@@ -23,12 +46,14 @@ export default function DeployerTimeline({ tokens }: DeployerTimelineProps) {
   const latestDate = new Date(sorted[sorted.length - 1].analyzed_at);
   const riskyCount = tokens.filter((t) => t.trust_rating < 20).length;
 
+  const hasTrackRecord = !!trackRecord && trackRecord.evaluatedCount > 0;
+
   const daysSinceFirst = Math.max(
     1,
     Math.floor((Date.now() - firstDate.getTime()) / (1000 * 60 * 60 * 24))
   );
 
-  const stats = [
+  const stats: TimelineStat[] = [
     {
       icon: CalendarDays,
       label: "First deployment",
@@ -44,11 +69,26 @@ export default function DeployerTimeline({ tokens }: DeployerTimelineProps) {
       label: "Latest",
       value: latestDate.toLocaleDateString(undefined, { month: "short", day: "numeric" }),
     },
-    ...(riskyCount > 0
+    ...(hasTrackRecord
+      ? [{
+          icon: TrendingDown,
+          label: "Rug rate",
+          value: `${Math.round(trackRecord.rugRate * 100)}% (${trackRecord.ruggedCount}/${trackRecord.evaluatedCount})`,
+          alert: trackRecord.ruggedCount > 0,
+        }]
+      : riskyCount > 0
+        ? [{
+            icon: AlertTriangle,
+            label: "Low-trust tokens",
+            value: riskyCount.toString(),
+          }]
+        : []),
+    ...(trackRecord?.serialDeployer
       ? [{
-          icon: AlertTriangle,
-          label: "Low-trust tokens",
-          value: riskyCount.toString(),
+          icon: Repeat,
+          label: "Serial deployer",
+          value: `${trackRecord.maxLaunchesInWindow} in ${SERIAL_DEPLOYER_WINDOW_DAYS}d`,
+          alert: true,
         }]
       : []),
   ];
@@ -60,7 +100,14 @@ export default function DeployerTimeline({ tokens }: DeployerTimelineProps) {
           <div key={stat.label} className="flex items-center gap-1.5">
             <stat.icon className="size-3.5 text-muted-foreground" />
             <span className="text-xs text-muted-foreground">{stat.label}:</span>
-            <span className="text-xs font-semibold text-foreground">{stat.value}</span>
+            <span
+              className={cn(
+                "text-xs font-semibold",
+                stat.alert ? "text-red-500" : "text-foreground"
+              )}
+            >
+              {stat.value}
+            </span>
           </div>
         ))}
       </CardContent>
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { Mail } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useDigestSubscription, type DigestSettings } from "@/hooks/useDigestSubscription";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SELECT_CLASS =
+  "border-input h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 dark:bg-input/30";
+
+const FREQUENCY_OPTIONS: Array<{ value: DigestSettings["frequency"]; label: string }> = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "off", label: "Off" },
+];
+
+// ---------------------------------------------------------------------------
+// Form
+// ---------------------------------------------------------------------------
+
+interface DigestFormProps {
+  subscription: DigestSettings | null;
+  save: ReturnType<typeof useDigestSubscription>["save"];
+}
+
+function DigestForm({ subscription, save }: DigestFormProps) {
+  const [email, setEmail] = useState(subscription?.email ?? "");
+  const [frequency, setFrequency] = useState<DigestSettings["frequency"]>(
+    subscription?.frequency ?? "weekly"
+  );
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const unchanged =
+    subscription !== null && subscription.email === email.trim() && subscription.frequency === frequency;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const saved = await save(email.trim(), frequency);
+      setStatus({
+        ok: true,
+        message:
+          frequency === "off"
+            ? "Digest turned off."
+            : saved?.confirmed
+              ? `You'll get a ${frequency} digest at ${email.trim()}.`
+              : `Check ${email.trim()} for a confirmation link. Digests start once you confirm.`,
+      });
+    } catch (error) {
+      setStatus({ ok: false, message: error instanceof Error ? error.message : "Failed to save" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      className="flex flex-col gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSave();
+      }}
+    >
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          type="email"
+          required
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          aria-label="Digest email address"
+        />
+        <select
+          className={SELECT_CLASS}
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as DigestSettings["frequency"])}
+          aria-label="Digest frequency"
+        >
+          {FREQUENCY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Button type="submit" size="sm" className="h-9" disabled={saving || unchanged || !email.trim()}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+
+      {status && (
+        <p className={status.ok ? "text-xs text-muted-foreground" : "text-xs text-red-500"}>
+          {status.message}
+        </p>
+      )}
+      {!status && subscription && !subscription.confirmed && subscription.frequency !== "off" && (
+        <p className="text-xs text-muted-foreground">
+          Waiting for you to confirm {subscription.email}. Save again to resend the link.
+        </p>
+      )}
+      {!status && subscription?.confirmed && subscription.last_sent_at && subscription.frequency !== "off" && (
+        <p className="text-xs text-muted-foreground">
+          Last digest: {new Date(subscription.last_sent_at).toLocaleDateString()}
+        </p>
+      )}
+    </form>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface DigestSettingsCardProps {
+  wallet: string | null;
+}
+
+/** Subscribe to a daily or weekly email summary of watchlist changes. */
+export default function DigestSettingsCard({ wallet }: DigestSettingsCardProps) {
+  const { subscription, loading, save } = useDigestSubscription(wallet);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="size-4" />
+          Email Digest
+        </CardTitle>
+        <CardDescription>
+          A summary of trust rating moves, new risk flags, deployer launches
+          and wallet reputation changes on your watchlist. Sent only when
+          something changed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-9 w-full" />
+        ) : (
+          // Mounted after loading, so the form starts from the saved subscription
+          <DigestForm key={wallet} subscription={subscription} save={save} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
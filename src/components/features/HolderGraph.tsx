@@ -5,13 +5,17 @@ import { useRouter } from "next/navigation";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 import { getTierColor } from "@/services/fairscale";
+import { getCategoryLabel } from "@/lib/addressRegistry";
 import type { HolderNode } from "@/hooks/useHolders";
+import type { HolderCluster } from "@/services/holderClusters";
 import type { FairScoreTier } from "@/types/database";
 
 interface HolderGraphProps {
   holders: HolderNode[];
   tokenName: string | null;
   loading?: boolean;
+  /** Funding clusters; members are joined by dashed edges. */
+  clusters?: HolderCluster[];
 }
 
 const TIER_FILL: Record<FairScoreTier, string> = {
@@ -27,11 +31,15 @@ const CENTER_Y = 200;
 const ORBIT_RADIUS = 130;
 const TOOLTIP_W = 150;
 const TOOLTIP_H = 80;
+const TOOLTIP_LABEL_H = 28;
+const TOOLTIP_CLUSTER_H = 16;
+const CLUSTER_STROKE = "#e11d48";
 
 export default function HolderGraph({
   holders,
   tokenName,
   loading,
+  clusters = [],
 }: HolderGraphProps) {
   const router = useRouter();
   const [hoveredOwner, setHoveredOwner] = useState<string | null>(null);
@@ -58,6 +66,30 @@ export default function HolderGraph({
     });
   }, [holders]);
 
+  const clusterByOwner = useMemo(() => {
+    const map = new Map<string, HolderCluster>();
+    for (const cluster of clusters) {
+      for (const wallet of cluster.wallets) map.set(wallet, cluster);
+    }
+    return map;
+  }, [clusters]);
+
+  // Star edges from each cluster's largest visible member to the others
+  const clusterEdges = useMemo(() => {
+    const byOwner = new Map(nodes.map((n) => [n.owner, n]));
+    return clusters.flatMap((cluster) => {
+      const members = cluster.wallets
+        .map((w) => byOwner.get(w))
+        .filter((n) => n !== undefined);
+      return members.slice(1).map((m) => ({
+        key: `${cluster.id}-${m.owner}`,
+        clusterId: cluster.id,
+        from: members[0],
+        to: m,
+      }));
+    });
+  }, [nodes, clusters]);
+
   if (loading) {
     return <Skeleton className="h-[400px] w-full rounded-lg" />;
   }
@@ -71,11 +103,16 @@ export default function HolderGraph({
   }
 
   const hoveredNode = nodes.find((n) => n.owner === hoveredOwner);
+  const hoveredCluster = hoveredOwner ? clusterByOwner.get(hoveredOwner) : undefined;
 
   function tooltipPos(node: (typeof nodes)[number]) {
+    const height =
+      TOOLTIP_H +
+      (node.label ? TOOLTIP_LABEL_H : 0) +
+      (clusterByOwner.has(node.owner) ? TOOLTIP_CLUSTER_H : 0);
     const tx = node.cx > CENTER_X ? node.cx - TOOLTIP_W - 10 : node.cx + 10;
-    const ty = node.cy - TOOLTIP_H / 2;
-    return { tx, ty };
+    const ty = node.cy - height / 2;
+    return { tx, ty, height };
   }
 
   return (
@@ -102,6 +139,27 @@ export default function HolderGraph({
           />
         ))}
 
+        {/* Funding cluster edges between holders */}
+        {clusterEdges.map((edge) => {
+          const active =
+            hoveredOwner !== null &&
+            clusterByOwner.get(hoveredOwner)?.id === edge.clusterId;
+          return (
+            <line
+              key={edge.key}
+              x1={edge.from.cx}
+              y1={edge.from.cy}
+              x2={edge.to.cx}
+              y2={edge.to.cy}
+              stroke={CLUSTER_STROKE}
+              strokeOpacity={active ? 0.8 : 0.4}
+              strokeWidth={active ? 2 : 1.5}
+              strokeDasharray="4 3"
+              className="transition-all duration-200"
+            />
+          );
+        })}
+
         {/* Center node (token) */}
         <circle
           cx={CENTER_X}
@@ -200,13 +258,13 @@ export default function HolderGraph({
 
         {/* Hover tooltip rendered inside SVG via foreignObject */}
         {hoveredNode && (() => {
-          const { tx, ty } = tooltipPos(hoveredNode);
+          const { tx, ty, height } = tooltipPos(hoveredNode);
           return (
             <foreignObject
               x={tx}
               y={ty}
               width={TOOLTIP_W}
-              height={TOOLTIP_H}
+              height={height}
               style={{ pointerEvents: "none", overflow: "visible" }}
             >
               <div
@@ -216,6 +274,14 @@ export default function HolderGraph({
                 <div className="mb-1 font-mono text-[10px] font-semibold">
                   {hoveredNode.truncAddr}
                 </div>
+                {hoveredNode.label && (
+                  <div className="mb-1 flex flex-col" style={{ fontSize: 10 }}>
+                    <span className="font-medium">{hoveredNode.label.name}</span>
+                    <span className="text-muted-foreground">
+                      {getCategoryLabel(hoveredNode.label.category)} · excluded from concentration
+                    </span>
+                  </div>
+                )}
                 <div className="flex flex-col gap-0.5" style={{ fontSize: 10 }}>
                   <div className="flex items-center justify-between">
                     <span className="text-muted-foreground">Holding</span>
@@ -241,6 +307,15 @@ export default function HolderGraph({
                       <span className="font-medium">{hoveredNode.fairScore}</span>
                     </div>
                   )}
+                  {hoveredCluster && (
+                    <div className="flex items-center justify-between">
+                      <span style={{ color: CLUSTER_STROKE }}>Cluster</span>
+                      <span className="font-medium">
+                        {hoveredCluster.wallets.length} wallets ·{" "}
+                        {hoveredCluster.supplyPercent.toFixed(1)}%
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             </foreignObject>
@@ -285,6 +360,18 @@ export default function HolderGraph({
           </p>
         );
       })()}
+
+      {/* Funding cluster summary */}
+      {clusterEdges.length > 0 && (
+        <p className="flex items-center justify-center gap-1.5 text-center text-xs text-muted-foreground">
+          <svg width="16" height="4" aria-hidden="true">
+            <line x1="0" y1="2" x2="16" y2="2" stroke={CLUSTER_STROKE} strokeWidth={1.5} strokeDasharray="4 3" />
+          </svg>
+          {clusters.length} funding cluster{clusters.length !== 1 ? "s" : ""} link{" "}
+          {clusters.reduce((sum, c) => sum + c.wallets.length, 0)} top holders (
+          {clusters.reduce((sum, c) => sum + c.supplyPercent, 0).toFixed(1)}% of supply)
+        </p>
+      )}
     </div>
   );
 }
@@ -9,11 +9,14 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useLiquidity } from "@/hooks/useLiquidity";
 
 interface LiquidityCardProps {
   mint: string | null;
+  /** Deployer wallet, to highlight LP it can still withdraw. */
+  deployerWallet?: string | null;
 }
 
 function formatUsd(value: number): string {
@@ -22,7 +25,7 @@ function formatUsd(value: number): string {
   return `$${value.toFixed(2)}`;
 }
 
-export default function LiquidityCard({ mint }: LiquidityCardProps) {
+export default function LiquidityCard({ mint, deployerWallet }: LiquidityCardProps) {
   const { data, loading } = useLiquidity(mint);
 
   if (!mint) return null;
@@ -59,6 +62,14 @@ export default function LiquidityCard({ mint }: LiquidityCardProps) {
     );
   }
 
+  const lp = dex?.lpOwnership ?? null;
+  const deployerLpPools = lp && deployerWallet
+    ? lp.pools.flatMap((pool) => {
+        const held = pool.unlockedHolders.find((h) => h.owner === deployerWallet);
+        return held ? [{ dex: pool.dex, percentage: held.percentage }] : [];
+      })
+    : [];
+
   const ratio = dex?.volumeLiquidityRatio ?? 0;
   const healthColor =
     ratio > 0.5
@@ -97,7 +108,9 @@ export default function LiquidityCard({ mint }: LiquidityCardProps) {
                 label="Vol/Liq Ratio"
                 value={dex.volumeLiquidityRatio.toFixed(2)}
               />
-              <Metric label="Pools" value={dex.poolCount.toString()} />
+              {dex.poolCount > 0 && (
+                <Metric label="Pools" value={dex.poolCount.toString()} />
+              )}
               {dex.primaryDex && (
                 <Metric
                   label="Primary DEX"
@@ -121,6 +134,41 @@ export default function LiquidityCard({ mint }: LiquidityCardProps) {
           )}
         </div>
 
+        {lp && (
+          <div className="mt-4 grid grid-cols-2 gap-4 border-t pt-4 sm:grid-cols-4">
+            <Metric label="LP Burned" value={`${lp.burnedPercent.toFixed(1)}%`} />
+            <Metric label="LP Locked" value={`${lp.lockedPercent.toFixed(1)}%`} />
+            <Metric label="LP Unlocked" value={`${lp.unlockedPercent.toFixed(1)}%`} />
+            <Metric
+              label="Lock Expires"
+              value={
+                lp.lockExpiresAt
+                  ? new Date(lp.lockExpiresAt).toLocaleDateString(undefined, {
+                      year: "numeric",
+                      month: "short",
+                      day: "numeric",
+                    })
+                  : lp.lockedPercent > 0
+                    ? "Permanent"
+                    : "—"
+              }
+            />
+          </div>
+        )}
+
+        {deployerLpPools.length > 0 && (
+          <div className="mt-4 flex items-start gap-2 rounded-md border border-red-300 bg-red-50 p-3 text-xs text-red-700">
+            <AlertTriangle className="mt-0.5 size-3.5 shrink-0" />
+            <span>
+              The deployer holds unlocked LP:{" "}
+              {deployerLpPools
+                .map((p) => `${p.percentage.toFixed(1)}% of the ${p.dex} pool`)
+                .join(", ")}
+              . This liquidity can be withdrawn at any time.
+            </span>
+          </div>
+        )}
+
         {hasLPData && (
           <div className="mt-4 flex flex-wrap gap-2">
             {data.lpVaults.map((vault) => (
@@ -137,6 +185,8 @@ export default function LiquidityCard({ mint }: LiquidityCardProps) {
 
         <p className="mt-3 text-xs text-muted-foreground">
           via DexScreener
+          {lp && ` · LP ownership verified on-chain for ${lp.pools.length} pool${lp.pools.length === 1 ? "" : "s"}`}
+          {lp && lp.unverifiedPoolCount > 0 && ` (${lp.unverifiedPoolCount} concentrated-liquidity or unreadable)`}
         </p>
       </CardContent>
     </Card>
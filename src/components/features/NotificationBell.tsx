@@ -107,6 +107,8 @@ export default function NotificationBell({
                     ) : (
                       <TrendingDown className="mt-0.5 size-4 shrink-0 text-red-500" />
                     )
+                  ) : n.type === "rating_below" || n.type === "liquidity_drop" ? (
+                    <TrendingDown className="mt-0.5 size-4 shrink-0 text-red-500" />
                   ) : (
                     <AlertTriangle className="mt-0.5 size-4 shrink-0 text-yellow-500" />
                   )}
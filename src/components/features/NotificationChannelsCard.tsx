@@ -0,0 +1,453 @@
+"use client";
+
+import { useState } from "react";
+import {
+  FlaskConical,
+  History,
+  MessageSquare,
+  Plus,
+  Send,
+  SlidersHorizontal,
+  Trash2,
+  Webhook,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useNotificationChannels,
+  type DeliveryLogEntry,
+} from "@/hooks/useNotificationChannels";
+import { ALERT_RULE_KINDS, type AlertNotificationType } from "@/lib/alertRules";
+import {
+  EMPTY_CHANNEL_FILTERS,
+  NOTIFICATION_CHANNEL_KINDS,
+  type NotificationChannelFilters,
+  type NotificationChannelKind,
+  type PublicNotificationChannel,
+} from "@/lib/notificationChannels";
+import { cn } from "@/lib/utils";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SELECT_CLASS =
+  "border-input h-9 rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50 dark:bg-input/30";
+
+const KIND_ICONS: Record<NotificationChannelKind, typeof Webhook> = {
+  webhook: Webhook,
+  telegram: Send,
+  discord: MessageSquare,
+};
+
+/** Notification types with the label of the rule kind that produces them. */
+const NOTIFICATION_TYPE_OPTIONS = Object.values(ALERT_RULE_KINDS).map((kind) => ({
+  type: kind.notificationType,
+  label: kind.label,
+}));
+
+const STATUS_CLASSES: Record<DeliveryLogEntry["status"], string> = {
+  delivered: "border-emerald-500/40 text-emerald-600",
+  pending: "border-amber-500/40 text-amber-600",
+  failed: "border-red-500/40 text-red-600",
+};
+
+function describeTarget(channel: PublicNotificationChannel): string {
+  switch (channel.kind) {
+    case "webhook":
+      return channel.config.url;
+    case "telegram":
+      return `Chat ${channel.config.chatId}`;
+    case "discord":
+      return `Webhook ${channel.config.webhookUrl}`;
+  }
+}
+
+function describeFilters(filters: NotificationChannelFilters): string {
+  const parts = [
+    filters.types.length > 0 ? `${filters.types.length} alert type${filters.types.length > 1 ? "s" : ""}` : "all alerts",
+    filters.mints.length > 0 ? `${filters.mints.length} address${filters.mints.length > 1 ? "es" : ""}` : "all tokens",
+  ];
+  return parts.join(" · ");
+}
+
+function parseMints(value: string): string[] {
+  return [...new Set(value.split(/[\s,]+/).filter(Boolean))];
+}
+
+// ---------------------------------------------------------------------------
+// Filters editor
+// ---------------------------------------------------------------------------
+
+function FiltersFields({
+  filters,
+  onChange,
+}: {
+  filters: NotificationChannelFilters;
+  onChange: (filters: NotificationChannelFilters) => void;
+}) {
+  const [mintsText, setMintsText] = useState(filters.mints.join("\n"));
+
+  function toggleType(type: AlertNotificationType, checked: boolean) {
+    onChange({
+      ...filters,
+      types: checked ? [...filters.types, type] : filters.types.filter((t) => t !== type),
+    });
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      <span className="text-muted-foreground">Alert types (none checked: all)</span>
+      <div className="grid grid-cols-1 gap-1 sm:grid-cols-2">
+        {NOTIFICATION_TYPE_OPTIONS.map(({ type, label }) => (
+          <label key={type} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={filters.types.includes(type)}
+              onChange={(e) => toggleType(type, e.target.checked)}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">Only these tokens or deployers (one address per line; empty: all)</span>
+        <textarea
+          className="min-h-16 rounded-md border bg-transparent px-2 py-1 font-mono text-xs"
+          value={mintsText}
+          onChange={(e) => {
+            setMintsText(e.target.value);
+            onChange({ ...filters, mints: parseMints(e.target.value) });
+          }}
+        />
+      </label>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Delivery log
+// ---------------------------------------------------------------------------
+
+function DeliveryLog({ deliveries }: { deliveries: DeliveryLogEntry[] | null }) {
+  if (deliveries === null) return <Skeleton className="h-12 w-full" />;
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No deliveries yet.</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-1.5 text-xs">
+      {deliveries.map((d) => (
+        <li key={d.id} className="flex flex-col gap-0.5 rounded border px-2 py-1.5">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className={cn("text-[10px]", STATUS_CLASSES[d.status])}>
+              {d.status}
+            </Badge>
+            <span className="text-muted-foreground">
+              {new Date(d.created_at).toLocaleString()} · {d.attempts} attempt{d.attempts === 1 ? "" : "s"}
+            </span>
+          </div>
+          <span className="truncate">
+            {d.payload.event === "test" ? "Test message" : d.payload.message}
+          </span>
+          {d.last_error && <span className="truncate text-red-600">{d.last_error}</span>}
+          {d.status === "pending" && d.next_attempt_at && (
+            <span className="text-muted-foreground">
+              Next retry {new Date(d.next_attempt_at).toLocaleTimeString()}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Channel row
+// ---------------------------------------------------------------------------
+
+type ChannelsApi = ReturnType<typeof useNotificationChannels>;
+
+function ChannelRow({ channel, api }: { channel: PublicNotificationChannel; api: ChannelsApi }) {
+  const [panel, setPanel] = useState<"filters" | "log" | null>(null);
+  const [filters, setFilters] = useState(channel.filters);
+  const [deliveries, setDeliveries] = useState<DeliveryLogEntry[] | null>(null);
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const Icon = KIND_ICONS[channel.kind];
+
+  async function loadLog() {
+    setDeliveries(null);
+    setDeliveries(await api.fetchDeliveries(channel.id));
+  }
+
+  async function togglePanel(next: "filters" | "log") {
+    if (panel === next) {
+      setPanel(null);
+      return;
+    }
+    setPanel(next);
+    if (next === "filters") setFilters(channel.filters);
+    if (next === "log") await loadLog();
+  }
+
+  async function sendTest() {
+    setBusy(true);
+    setTestResult(null);
+    const delivery = await api.sendTest(channel.id);
+    setBusy(false);
+    if (!delivery) setTestResult("Could not send the test message.");
+    else if (delivery.status === "delivered") setTestResult("Test message delivered.");
+    else setTestResult(`Test failed: ${delivery.last_error ?? "unknown error"}`);
+    if (panel === "log") await loadLog();
+  }
+
+  async function saveFilters() {
+    setBusy(true);
+    const saved = await api.updateChannel(channel.id, { filters });
+    setBusy(false);
+    if (saved) setPanel(null);
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-2 rounded-md border p-3", !channel.enabled && "opacity-60")}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex min-w-0 items-start gap-2">
+          <Icon className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+          <div className="flex min-w-0 flex-col">
+            <span className="text-sm font-medium">
+              {channel.name}
+              <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                {NOTIFICATION_CHANNEL_KINDS[channel.kind].label}
+              </span>
+            </span>
+            <span className="truncate text-xs text-muted-foreground">{describeTarget(channel)}</span>
+            <span className="text-xs text-muted-foreground">{describeFilters(channel.filters)}</span>
+          </div>
+        </div>
+        <label className="flex shrink-0 items-center gap-1.5 text-xs">
+          <input
+            type="checkbox"
+            checked={channel.enabled}
+            onChange={(e) => api.updateChannel(channel.id, { enabled: e.target.checked })}
+          />
+          Enabled
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <Button variant="outline" size="sm" disabled={busy} onClick={sendTest}>
+          <FlaskConical className="size-3.5" />
+          Send test
+        </Button>
+        <Button variant={panel === "filters" ? "secondary" : "ghost"} size="sm" onClick={() => togglePanel("filters")}>
+          <SlidersHorizontal className="size-3.5" />
+          Filters
+        </Button>
+        <Button variant={panel === "log" ? "secondary" : "ghost"} size="sm" onClick={() => togglePanel("log")}>
+          <History className="size-3.5" />
+          Log
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto size-8"
+          onClick={() => api.removeChannel(channel.id)}
+          aria-label={`Remove ${channel.name}`}
+        >
+          <Trash2 className="size-4 text-muted-foreground" />
+        </Button>
+      </div>
+
+      {testResult && <p className="text-xs text-muted-foreground">{testResult}</p>}
+
+      {panel === "filters" && (
+        <div className="flex flex-col gap-2 border-t pt-2">
+          <FiltersFields filters={filters} onChange={setFilters} />
+          <Button size="sm" className="self-end" disabled={busy} onClick={saveFilters}>
+            Save filters
+          </Button>
+        </div>
+      )}
+
+      {panel === "log" && (
+        <div className="border-t pt-2">
+          <DeliveryLog deliveries={deliveries} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Add channel form
+// ---------------------------------------------------------------------------
+
+const CONFIG_FIELDS: Record<NotificationChannelKind, Array<{ key: string; label: string; placeholder: string }>> = {
+  webhook: [{ key: "url", label: "Endpoint URL", placeholder: "https://example.com/hooks/tokentrust" }],
+  telegram: [
+    { key: "botToken", label: "Bot token", placeholder: "123456789:AA..." },
+    { key: "chatId", label: "Chat id", placeholder: "-1001234567890 or @yourchannel" },
+  ],
+  discord: [{ key: "webhookUrl", label: "Webhook URL", placeholder: "https://discord.com/api/webhooks/..." }],
+};
+
+function AddChannelForm({ api, onDone }: { api: ChannelsApi; onDone: (secret: string | null) => void }) {
+  const [kind, setKind] = useState<NotificationChannelKind>("webhook");
+  const [name, setName] = useState("");
+  const [config, setConfig] = useState<Record<string, string>>({});
+  const [filters, setFilters] = useState<NotificationChannelFilters>(EMPTY_CHANNEL_FILTERS);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit() {
+    setSaving(true);
+    setError(null);
+    try {
+      const secret = await api.addChannel({ kind, name: name.trim() || undefined, config, filters });
+      onDone(secret);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add channel");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border border-dashed p-3">
+      <div className="flex flex-wrap gap-2">
+        <select
+          className={SELECT_CLASS}
+          value={kind}
+          onChange={(e) => {
+            setKind(e.target.value as NotificationChannelKind);
+            setConfig({});
+          }}
+          aria-label="Channel type"
+        >
+          {(Object.keys(NOTIFICATION_CHANNEL_KINDS) as NotificationChannelKind[]).map((k) => (
+            <option key={k} value={k}>
+              {NOTIFICATION_CHANNEL_KINDS[k].label}
+            </option>
+          ))}
+        </select>
+        <Input
+          className="h-9 flex-1"
+          placeholder="Name (optional)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">{NOTIFICATION_CHANNEL_KINDS[kind].description}</p>
+
+      {CONFIG_FIELDS[kind].map((field) => (
+        <label key={field.key} className="flex flex-col gap-1 text-xs">
+          <span className="text-muted-foreground">{field.label}</span>
+          <Input
+            className="h-9"
+            placeholder={field.placeholder}
+            value={config[field.key] ?? ""}
+            onChange={(e) => setConfig((prev) => ({ ...prev, [field.key]: e.target.value.trim() }))}
+          />
+        </label>
+      ))}
+
+      <FiltersFields filters={filters} onChange={setFilters} />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" disabled={saving} onClick={() => onDone(null)}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          className="bg-emerald-600 text-white hover:bg-emerald-700"
+          disabled={saving}
+          onClick={submit}
+        >
+          {saving ? "Adding…" : "Add channel"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface NotificationChannelsCardProps {
+  wallet: string | null;
+}
+
+/** Configure where watchlist alerts are delivered besides the in-app bell. */
+export default function NotificationChannelsCard({ wallet }: NotificationChannelsCardProps) {
+  const api = useNotificationChannels(wallet);
+  const [adding, setAdding] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Channels</CardTitle>
+        <CardDescription>
+          Deliver your watchlist alerts to a signed webhook, a Telegram chat or
+          a Discord channel. Failed deliveries are retried with backoff.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {api.loading && <Skeleton className="h-20 w-full" />}
+
+        {!api.loading && api.channels.length === 0 && !adding && (
+          <p className="text-sm text-muted-foreground">
+            Alerts are only shown in the app. Add a channel to get them elsewhere.
+          </p>
+        )}
+
+        {api.channels.map((channel) => (
+          <ChannelRow key={channel.id} channel={channel} api={api} />
+        ))}
+
+        {newSecret && (
+          <div className="flex flex-col gap-1 rounded-md border border-amber-500/40 bg-amber-500/5 p-3 text-xs">
+            <span className="font-medium">Webhook signing secret (shown once)</span>
+            <code className="break-all font-mono">{newSecret}</code>
+            <span className="text-muted-foreground">
+              Verify the X-TokenTrust-Signature header with it: an HMAC-SHA256 of
+              {" "}
+              <code>{"<t>.<body>"}</code>.
+            </span>
+            <Button variant="ghost" size="sm" className="self-end" onClick={() => setNewSecret(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        {adding ? (
+          <AddChannelForm
+            api={api}
+            onDone={(secret) => {
+              setAdding(false);
+              setNewSecret(secret);
+            }}
+          />
+        ) : (
+          <Button variant="outline" size="sm" className="self-start" onClick={() => setAdding(true)}>
+            <Plus className="size-4" />
+            Add channel
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect } from "react";
+import { createPortal } from "react-dom";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, X } from "lucide-react";
+import type { Notification } from "@/types/database";
+
+/** How long a toast stays up unless dismissed. */
+const TOAST_DURATION_MS = 8000;
+
+interface NotificationToastProps {
+  notification: Notification;
+  onOpen: (notification: Notification) => void;
+  onDismiss: (id: string) => void;
+}
+
+function NotificationToast({ notification, onOpen, onDismiss }: NotificationToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(notification.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notification.id, onDismiss]);
+
+  return (
+    <div
+      role="alert"
+      className="pointer-events-auto flex w-80 items-start gap-3 rounded-lg border border-red-500/40 bg-background p-3 shadow-lg"
+    >
+      <AlertTriangle className="mt-0.5 size-4 shrink-0 text-red-500" />
+      <button
+        className="flex flex-1 flex-col gap-0.5 text-left"
+        onClick={() => onOpen(notification)}
+      >
+        <span className="text-sm font-medium">
+          {notification.token_name ?? "Watchlist alert"}
+        </span>
+        <span className="text-xs text-muted-foreground">{notification.message}</span>
+      </button>
+      <button
+        className="text-muted-foreground transition-colors hover:text-foreground"
+        onClick={() => onDismiss(notification.id)}
+        aria-label="Dismiss alert"
+      >
+        <X className="size-4" />
+      </button>
+    </div>
+  );
+}
+
+interface NotificationToastsProps {
+  toasts: Notification[];
+  onDismiss: (id: string) => void;
+  onMarkRead: (ids: string[]) => void;
+}
+
+/**
+ * Pop-ups for high severity alerts pushed by `useNotifications`. Rendered
+ * into `document.body`, since the header's backdrop blur would confine
+ * fixed children. Toasts only arrive client-side, so there is nothing to
+ * render on the server.
+ */
+export default function NotificationToasts({
+  toasts,
+  onDismiss,
+  onMarkRead,
+}: NotificationToastsProps) {
+  const router = useRouter();
+
+  function handleOpen(n: Notification) {
+    if (!n.read) onMarkRead([n.id]);
+    onDismiss(n.id);
+    router.push(`/token/${n.mint}`);
+  }
+
+  if (toasts.length === 0) return null;
+
+  return createPortal(
+    <div
+      aria-live="assertive"
+      className="pointer-events-none fixed bottom-4 right-4 z-[60] flex flex-col gap-2"
+    >
+      {toasts.map((n) => (
+        <NotificationToast
+          key={n.id}
+          notification={n}
+          onOpen={handleOpen}
+          onDismiss={onDismiss}
+        />
+      ))}
+    </div>,
+    document.body
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import { useState } from "react";
-import { AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
+import { AlertTriangle, ChevronDown, ChevronUp, ExternalLink } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getRiskFlagDefinition } from "@/lib/riskFlagCatalog";
 import type { RiskFlag } from "@/types/database";
 
 interface RiskFlagsProps {
@@ -47,6 +48,7 @@ const EXPAND_THRESHOLD = 80;
 function RiskFlagItem({ flag }: { flag: RiskFlag }) {
   const [expanded, setExpanded] = useState(false);
   const styles = getSeverityStyles(flag.severity);
+  const definition = getRiskFlagDefinition(flag.code);
 
   const hasExpandableDescription =
     !!flag.description && flag.description.length > EXPAND_THRESHOLD;
@@ -93,6 +95,18 @@ function RiskFlagItem({ flag }: { flag: RiskFlag }) {
             >
               {flag.severity}
             </span>
+            {definition && (
+              <a
+                href={definition.docUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={`Learn more about ${flag.label}`}
+              >
+                <ExternalLink className="size-3" />
+              </a>
+            )}
           </div>
           {flag.description && !(expanded && hasExpandableDescription) && (
             <p className={cn(
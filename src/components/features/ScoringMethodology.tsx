@@ -2,18 +2,96 @@
 
 import { useState } from "react";
 import { ChevronDown, ChevronUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  getScoringProfile,
+  getComponentColor,
+  type ScoringWeights,
+} from "@/lib/scoringProfiles";
+import type { ScoreComponent } from "@/types/database";
 
-const FACTORS = [
-  { label: "Deployer Reputation", weight: 15, description: "FairScale score of the token deployer" },
-  { label: "Holder Quality", weight: 25, description: "Average FairScale reputation of top holders" },
-  { label: "Distribution", weight: 20, description: "How evenly the token supply is spread" },
-  { label: "Wallet Age", weight: 10, description: "Age and activity of the deployer wallet" },
-  { label: "Safety Signals", weight: 20, description: "Risk flags like authority status and holder patterns" },
-  { label: "Liquidity", weight: 10, description: "DEX liquidity depth and LP vault health" },
+const FACTORS: Array<{ key: keyof ScoringWeights; label: string; description: string }> = [
+  { key: "deployerScore", label: "Deployer Reputation", description: "FairScale score of the token deployer" },
+  { key: "holderQuality", label: "Holder Quality", description: "Average FairScale reputation of top holders" },
+  { key: "distribution", label: "Distribution", description: "How evenly the token supply is spread" },
+  { key: "age", label: "Wallet Age", description: "Age and activity of the deployer wallet" },
+  { key: "patterns", label: "Safety Signals", description: "Risk flags like authority status and holder patterns" },
+  { key: "liquidity", label: "Liquidity", description: "DEX liquidity depth and LP vault health" },
 ];
 
-export default function ScoringMethodology() {
+interface ScoringMethodologyProps {
+  /** Scoring profile whose weights should be shown. Defaults to "default". */
+  profileId?: string;
+  /** Component breakdown of an analysis; rendered as a waterfall when present. */
+  components?: ScoreComponent[];
+}
+
+/**
+ * Waterfall of weighted component contributions. Each row starts where the
+ * previous one ended, so the bars add up left-to-right to the trust rating.
+ * The faded tail of each row shows the points the component could have
+ * contributed but didn't.
+ */
+function ComponentWaterfall({ components }: { components: ScoreComponent[] }) {
+  const starts = components.map((_, i) =>
+    components.slice(0, i).reduce((sum, c) => sum + c.contribution, 0)
+  );
+  const total = components.reduce((sum, c) => sum + c.contribution, 0);
+
+  return (
+    <div className="flex flex-col gap-2.5">
+      {components.map((c, i) => {
+        const start = starts[i];
+        const maxPoints = c.weight * 100;
+        return (
+          <div key={c.key} className="flex flex-col gap-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-medium text-foreground">
+                {c.label}
+                <span className="ml-1 font-normal text-muted-foreground">
+                  ({Math.round(c.weight * 100)}%)
+                </span>
+              </span>
+              <span className="text-xs tabular-nums text-muted-foreground">
+                <span className="font-medium text-foreground">
+                  +{c.contribution.toFixed(1)}
+                </span>{" "}
+                / {maxPoints.toFixed(0)}
+              </span>
+            </div>
+            <div className="relative h-1.5 w-full rounded-full bg-muted">
+              <div
+                className={cn("absolute h-full rounded-full opacity-20", getComponentColor(c.key))}
+                style={{ left: `${start}%`, width: `${maxPoints}%` }}
+              />
+              <div
+                className={cn("absolute h-full rounded-full", getComponentColor(c.key))}
+                style={{ left: `${start}%`, width: `${c.contribution}%` }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Sub-score {Math.round(c.score)}/100
+              {c.confidence < 1 && ` (${Math.round(c.confidence * 100)}% confidence)`}
+              {" — "}
+              {c.explanation}
+            </p>
+          </div>
+        );
+      })}
+      <div className="flex items-center justify-between border-t pt-2">
+        <span className="text-xs font-medium text-foreground">Trust Rating</span>
+        <span className="text-xs font-semibold tabular-nums text-foreground">
+          {Math.round(total)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default function ScoringMethodology({ profileId, components }: ScoringMethodologyProps) {
   const [open, setOpen] = useState(false);
+  const profile = getScoringProfile(profileId);
+  const hasBreakdown = !!components && components.length > 0;
 
   return (
     <div className="mt-2">
@@ -26,18 +104,25 @@ export default function ScoringMethodology() {
       </button>
       {open && (
         <div className="mt-2 flex flex-col gap-1.5 rounded-md border bg-muted/30 p-3">
-          {FACTORS.map((f) => (
-            <div key={f.label} className="flex items-center gap-2">
-              <div className="h-1.5 rounded-full bg-emerald-500" style={{ width: `${f.weight * 2}px` }} />
-              <span className="text-xs font-medium text-foreground">{f.weight}%</span>
-              <span className="text-xs text-muted-foreground">{f.label}</span>
-              <span className="hidden text-xs text-muted-foreground sm:inline">
-                — {f.description}
-              </span>
-            </div>
-          ))}
+          {hasBreakdown ? (
+            <ComponentWaterfall components={components} />
+          ) : (
+            FACTORS.map((f) => {
+              const weight = Math.round(profile.weights[f.key] * 100);
+              return (
+                <div key={f.label} className="flex items-center gap-2">
+                  <div className="h-1.5 rounded-full bg-emerald-500" style={{ width: `${weight * 2}px` }} />
+                  <span className="text-xs font-medium text-foreground">{weight}%</span>
+                  <span className="text-xs text-muted-foreground">{f.label}</span>
+                  <span className="hidden text-xs text-muted-foreground sm:inline">
+                    — {f.description}
+                  </span>
+                </div>
+              );
+            })
+          )}
           <p className="mt-1 text-xs text-muted-foreground">
-            Powered by FairScale + Helius on-chain data
+            {profile.name} profile (v{profile.version}) · Powered by FairScale + Helius on-chain data
           </p>
         </div>
       )}
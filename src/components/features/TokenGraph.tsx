@@ -4,6 +4,7 @@ import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
+import { CAUTION_MIN_RATING, TRUSTED_MIN_RATING, getRatingBand } from "@/lib/ratingBands";
 import { getTierColor } from "@/services/fairscale";
 import type { FairScoreTier, RiskFlag } from "@/types/database";
 
@@ -39,15 +40,13 @@ const SEVERITY_COLOR: Record<string, string> = {
 };
 
 function ratingColor(rating: number): string {
-  if (rating >= 60) return "#059669"; // emerald-600
-  if (rating >= 30) return "#ca8a04"; // yellow-600
+  if (rating >= TRUSTED_MIN_RATING) return "#059669"; // emerald-600
+  if (rating >= CAUTION_MIN_RATING) return "#ca8a04"; // yellow-600
   return "#dc2626"; // red-600
 }
 
 function ratingLabel(rating: number): string {
-  if (rating >= 60) return "Trusted";
-  if (rating >= 30) return "Caution";
-  return "Risky";
+  return getRatingBand(rating);
 }
 
 const CENTER_X = 200;
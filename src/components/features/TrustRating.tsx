@@ -1,11 +1,70 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
+import { AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getComponentColor } from "@/lib/scoringProfiles";
+import {
+  DATA_SOURCE_LABELS,
+  PROVIDER_LABELS,
+  getFailedSources,
+  getFallbackProviders,
+  type DataSourceReport,
+  type ProviderReport,
+} from "@/lib/dataSources";
+import type { ScoreComponent } from "@/types/database";
 
 interface TrustRatingProps {
   rating: number;
   animate?: boolean;
+  /** Optional component breakdown; splits the bar into weighted segments. */
+  components?: ScoreComponent[];
+  /** Plausible range for low-confidence ratings, shown next to the value. */
+  ratingRange?: { low: number; high: number } | null;
+  /** Whether the rating was capped for low confidence. */
+  ratingCapped?: boolean;
+  /** Percentage of data sources that answered; below 100 shows a badge. */
+  dataCompleteness?: number;
+  /** Per-source status, listed in the badge tooltip. */
+  dataSources?: DataSourceReport | null;
+  /** Providers that answered; fallbacks are noted under the bar. */
+  providers?: ProviderReport | null;
+}
+
+const PROVIDER_KIND_LABELS: Record<keyof ProviderReport, string> = {
+  metadata: "metadata",
+  holders: "holders",
+  marketData: "market data",
+};
+
+function IncompleteDataBadge({
+  completeness,
+  sources,
+  capped,
+}: {
+  completeness: number;
+  sources: DataSourceReport | null | undefined;
+  capped: boolean;
+}) {
+  const failed = sources ? getFailedSources(sources) : [];
+  const title = [
+    failed.length > 0
+      ? `Unavailable: ${failed.map((id) => DATA_SOURCE_LABELS[id]).join(", ")}.`
+      : "Some data sources did not respond.",
+    capped ? "The rating is capped below Trusted until data is complete." : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    <span
+      title={title}
+      className="flex items-center gap-1 rounded-full border border-amber-300 bg-amber-50 px-1.5 py-0.5 text-[10px] font-medium text-amber-700 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-400"
+    >
+      <AlertCircle className="size-3" />
+      Incomplete data ({completeness}%)
+    </span>
+  );
 }
 
 function getRatingColor(rating: number): {
@@ -51,21 +110,51 @@ function useAnimatedValue(target: number, duration: number, enabled: boolean): n
   return value;
 }
 
-export default function TrustRating({ rating, animate = true }: TrustRatingProps) {
+export default function TrustRating({
+  rating,
+  animate = true,
+  components,
+  ratingRange,
+  ratingCapped = false,
+  dataCompleteness = 100,
+  dataSources,
+  providers,
+}: TrustRatingProps) {
   const clamped = Math.min(Math.max(rating, 0), 100);
   const animatedValue = useAnimatedValue(clamped, 600, animate);
   const colors = getRatingColor(clamped);
+  const totalContribution =
+    components?.reduce((sum, c) => sum + c.contribution, 0) ?? 0;
+  const showSegments = !!components && totalContribution > 0;
+  const fallbacks = providers ? getFallbackProviders(providers) : [];
 
   return (
     <div className="flex flex-col gap-1.5">
       <div className="flex items-center justify-between">
-        <span className="text-sm font-medium text-muted-foreground">
-          Trust Rating
-        </span>
+        <div className="flex items-center gap-1.5">
+          <span className="text-sm font-medium text-muted-foreground">
+            Trust Rating
+          </span>
+          {dataCompleteness < 100 && (
+            <IncompleteDataBadge
+              completeness={dataCompleteness}
+              sources={dataSources}
+              capped={ratingCapped}
+            />
+          )}
+        </div>
         <div className="flex items-center gap-1.5">
           <span className={cn("text-sm font-semibold", colors.text)}>
             {Math.round(animatedValue)}
           </span>
+          {ratingRange && (
+            <span
+              className="text-xs text-muted-foreground"
+              title="Low confidence: the rating could fall anywhere in this range"
+            >
+              ({ratingRange.low}–{ratingRange.high})
+            </span>
+          )}
           <span className={cn("text-xs", colors.text)}>{colors.label}</span>
         </div>
       </div>
@@ -77,11 +166,35 @@ export default function TrustRating({ rating, animate = true }: TrustRatingProps
         aria-valuemax={100}
         aria-label={`Trust rating: ${clamped} out of 100`}
       >
-        <div
-          className={cn("h-full rounded-full transition-all duration-700", colors.bar)}
-          style={{ width: `${animatedValue}%` }}
-        />
+        {showSegments ? (
+          <div
+            className="flex h-full overflow-hidden rounded-full transition-all duration-700"
+            style={{ width: `${animatedValue}%` }}
+          >
+            {components.map((c) => (
+              <div
+                key={c.key}
+                className={cn("h-full", getComponentColor(c.key))}
+                style={{ width: `${(c.contribution / totalContribution) * 100}%` }}
+                title={`${c.label}: +${c.contribution.toFixed(1)}`}
+              />
+            ))}
+          </div>
+        ) : (
+          <div
+            className={cn("h-full rounded-full transition-all duration-700", colors.bar)}
+            style={{ width: `${animatedValue}%` }}
+          />
+        )}
       </div>
+      {fallbacks.length > 0 && (
+        <p className="text-[10px] text-muted-foreground">
+          Fallback data:{" "}
+          {fallbacks
+            .map((f) => `${PROVIDER_KIND_LABELS[f.kind]} via ${PROVIDER_LABELS[f.provider]}`)
+            .join(", ")}
+        </p>
+      )}
     </div>
   );
 }
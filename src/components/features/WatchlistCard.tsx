@@ -1,7 +1,9 @@
 "use client";
 
+import { useState, type ReactNode } from "react";
 import Link from "next/link";
-import { ShieldCheck, User, Coins } from "lucide-react";
+import { Bell, BellOff, ShieldCheck, User, Coins } from "lucide-react";
+import AlertRulesDialog from "@/components/features/AlertRulesDialog";
 import { Badge } from "@/components/ui/badge";
 import {
   Card,
@@ -10,6 +12,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { ALERT_RULE_KINDS, type AlertRule } from "@/lib/alertRules";
 import { getTierColor } from "@/services/fairscale";
 import type { WatchlistEntry } from "@/hooks/useWatchlist";
 import type { FairScoreTier } from "@/types/database";
@@ -53,15 +56,86 @@ function getTrustBadgeStyle(rating: number): { className: string; label: string
   };
 }
 
+function describeAlertRules(rules: AlertRule[] | null): string {
+  if (rules === null) return "Default alerts";
+  const enabled = rules.filter((r) => r.enabled).length;
+  if (enabled === 0) return "Alerts off";
+  return `${enabled} alert rule${enabled > 1 ? "s" : ""}`;
+}
+
+// ---------------------------------------------------------------------------
+// Alert rules
+// ---------------------------------------------------------------------------
+
+interface AlertRulesControlProps {
+  entry: WatchlistEntry;
+  subject: string;
+  onSave: (rules: AlertRule[] | null) => Promise<boolean>;
+  children: ReactNode;
+}
+
+/** The card with an "edit alerts" button under it, outside the card link. */
+function WithAlertRules({ entry, subject, onSave, children }: AlertRulesControlProps) {
+  const [open, setOpen] = useState(false);
+  const entityType = entry.entity_type ?? "token";
+  const supportsAlerts = Object.values(ALERT_RULE_KINDS).some((kind) =>
+    kind.entityTypes.includes(entityType)
+  );
+
+  if (!supportsAlerts) return <>{children}</>;
+
+  const label = describeAlertRules(entry.alert_rules);
+  const Icon = label === "Alerts off" ? BellOff : Bell;
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      {children}
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-1.5 self-start px-1 text-xs text-muted-foreground transition-colors hover:text-foreground"
+        aria-label={`Edit alerts for ${subject}`}
+      >
+        <Icon className="size-3.5" />
+        {label}
+      </button>
+      {open && (
+        <AlertRulesDialog
+          open={open}
+          onOpenChange={setOpen}
+          subject={subject}
+          entityType={entityType}
+          rules={entry.alert_rules}
+          onSave={onSave}
+        />
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Component
 // ---------------------------------------------------------------------------
 
 interface WatchlistCardProps {
   entry: WatchlistEntry;
+  /** Save the entry's alert rules; shows the alerts editor when set. */
+  onSaveAlertRules?: (rules: AlertRule[] | null) => Promise<boolean>;
+}
+
+export default function WatchlistCard({ entry, onSaveAlertRules }: WatchlistCardProps) {
+  const card = <WatchlistCardBody entry={entry} />;
+  if (!onSaveAlertRules) return card;
+
+  const subject = entry.token?.name ?? truncateAddress(entry.mint);
+  return (
+    <WithAlertRules entry={entry} subject={subject} onSave={onSaveAlertRules}>
+      {card}
+    </WithAlertRules>
+  );
 }
 
-export default function WatchlistCard({ entry }: WatchlistCardProps) {
+function WatchlistCardBody({ entry }: { entry: WatchlistEntry }) {
   const href = getEntityHref(entry);
 
   // Token display
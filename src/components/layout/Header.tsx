@@ -10,6 +10,7 @@ import { cn } from "@/lib/utils";
 import { useWalletAuth } from "@/hooks/useWalletAuth";
 import { useNotifications } from "@/hooks/useNotifications";
 import NotificationBell from "@/components/features/NotificationBell";
+import NotificationToasts from "@/components/features/NotificationToasts";
 import { useOnboarding } from "@/hooks/useOnboarding";
 
 export default function Header() {
@@ -20,7 +21,7 @@ export default function Header() {
   const { isAuthenticated } = useWalletAuth();
 
   const walletAddress = publicKey?.toBase58() ?? null;
-  const { notifications, unreadCount, markAsRead, markAllRead } =
+  const { notifications, unreadCount, markAsRead, markAllRead, toasts, dismissToast } =
     useNotifications(walletAddress);
   const { phase, spotlightCompleted, startSpotlightTour } = useOnboarding();
 
@@ -158,6 +159,11 @@ export default function Header() {
                 onMarkAllRead={markAllRead}
                 onMarkRead={(ids) => markAsRead(ids)}
               />
+              <NotificationToasts
+                toasts={toasts}
+                onDismiss={dismissToast}
+                onMarkRead={(ids) => markAsRead(ids)}
+              />
               <span className="hidden text-sm text-muted-foreground sm:inline-block">
                 {truncatedAddress}
               </span>
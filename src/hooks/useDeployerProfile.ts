@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from "react";
 import type { FairScoreTier, Badge, FairScaleAction, RiskFlag, WalletFeatures } from "@/types/database";
 import type { Recommendation } from "@/lib/recommendations";
+import type { DeployerTrackRecord } from "@/services/deployerHistory";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -37,6 +38,8 @@ export interface DeployerProfile {
   recommendations: Recommendation[];
   deployedTokens: DeployedToken[];
   tokenCount: number;
+  /** Rug history of the deployer's tokens; `null` for a launchpad's shared authority. */
+  trackRecord: DeployerTrackRecord | null;
 }
 
 interface UseDeployerProfileReturn {
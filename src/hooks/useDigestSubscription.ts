@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { DigestSubscription } from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A subscription as returned by `/api/notifications/digest`. */
+export type DigestSettings = Pick<DigestSubscription, "email" | "frequency" | "last_sent_at"> & {
+  /** Whether the address is confirmed; digests are only sent once it is. */
+  confirmed: boolean;
+};
+
+interface UseDigestSubscriptionReturn {
+  subscription: DigestSettings | null;
+  loading: boolean;
+  /**
+   * Save the email and frequency; resolves to the saved subscription and
+   * throws with the API's message on failure.
+   */
+  save: (email: string, frequency: DigestSettings["frequency"]) => Promise<DigestSettings | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Read and change a wallet's email digest via `/api/notifications/digest`.
+ * The API acts on the NextAuth session's wallet; `wallet` only gates
+ * fetching.
+ */
+export function useDigestSubscription(wallet: string | null): UseDigestSubscriptionReturn {
+  const [subscription, setSubscription] = useState<DigestSettings | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchSubscription = useCallback(async () => {
+    if (!wallet) {
+      setSubscription(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/notifications/digest");
+      const data = res.ok ? await res.json() : {};
+      setSubscription(data.subscription ?? null);
+    } catch {
+      setSubscription(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [wallet]);
+
+  useEffect(() => {
+    fetchSubscription();
+  }, [fetchSubscription]);
+
+  const save = useCallback(
+    async (email: string, frequency: DigestSettings["frequency"]) => {
+      if (!wallet) return null;
+
+      const res = await fetch("/api/notifications/digest", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, frequency }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const fieldErrors = Object.values(data.details?.fieldErrors ?? {}).flat();
+        throw new Error(String(fieldErrors[0] ?? data.error ?? "Failed to save digest settings"));
+      }
+
+      setSubscription(data.subscription);
+      return data.subscription;
+    },
+    [wallet]
+  );
+
+  return { subscription, loading, save };
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import type { FairScoreTier } from "@/types/database";
+import type { AddressLabel } from "@/lib/addressRegistry";
 
 export interface HolderNode {
   owner: string;
@@ -9,6 +10,8 @@ export interface HolderNode {
   percentage: number;
   fairScore: number | null;
   tier: FairScoreTier;
+  /** Registry label for LP vaults, burn addresses and custodians. */
+  label: AddressLabel | null;
 }
 
 interface UseHoldersReturn {
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type {
+  NotificationChannelFilters,
+  NotificationChannelKind,
+  PublicNotificationChannel,
+} from "@/lib/notificationChannels";
+import type { NotificationDelivery } from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A delivery log entry as returned by `/api/notifications/deliveries`. */
+export type DeliveryLogEntry = Omit<NotificationDelivery, "channel_id" | "user_wallet">;
+
+export interface NewNotificationChannel {
+  kind: NotificationChannelKind;
+  name?: string;
+  /** Kind-specific target: `{ url }`, `{ botToken, chatId }` or `{ webhookUrl }`. */
+  config: Record<string, string>;
+  filters?: NotificationChannelFilters;
+}
+
+export type NotificationChannelChanges = Partial<
+  Pick<PublicNotificationChannel, "name" | "enabled" | "filters">
+>;
+
+interface UseNotificationChannelsReturn {
+  channels: PublicNotificationChannel[];
+  loading: boolean;
+  /**
+   * Add a channel. Resolves to the webhook signing secret (shown once) or
+   * `null` for other kinds; throws with the API's message on failure.
+   */
+  addChannel: (channel: NewNotificationChannel) => Promise<string | null>;
+  updateChannel: (id: string, changes: NotificationChannelChanges) => Promise<boolean>;
+  removeChannel: (id: string) => Promise<void>;
+  /** Send a test message; resolves to the logged delivery or `null`. */
+  sendTest: (id: string) => Promise<DeliveryLogEntry | null>;
+  fetchDeliveries: (id: string) => Promise<DeliveryLogEntry[]>;
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Manage a wallet's outbound notification channels via
+ * `/api/notifications/channels`. The API acts on the NextAuth session's
+ * wallet; `wallet` only gates fetching, so nothing loads while
+ * disconnected.
+ */
+export function useNotificationChannels(wallet: string | null): UseNotificationChannelsReturn {
+  const [channels, setChannels] = useState<PublicNotificationChannel[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchChannels = useCallback(async (silent = false) => {
+    if (!wallet) {
+      setChannels([]);
+      return;
+    }
+
+    if (!silent) setLoading(true);
+    try {
+      const res = await fetch("/api/notifications/channels");
+      if (res.ok) {
+        const data = await res.json();
+        setChannels(data.channels ?? []);
+      } else if (!silent) {
+        setChannels([]);
+      }
+    } catch {
+      if (!silent) setChannels([]);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, [wallet]);
+
+  useEffect(() => {
+    fetchChannels();
+  }, [fetchChannels]);
+
+  const addChannel = useCallback(
+    async (channel: NewNotificationChannel) => {
+      if (!wallet) return null;
+
+      const res = await fetch("/api/notifications/channels", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(channel),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const fieldErrors = Object.values(data.details?.fieldErrors ?? {}).flat();
+        throw new Error(String(fieldErrors[0] ?? data.error ?? "Failed to add channel"));
+      }
+
+      setChannels((prev) => [...prev, data.channel]);
+      return data.secret ?? null;
+    },
+    [wallet]
+  );
+
+  const updateChannel = useCallback(
+    async (id: string, changes: NotificationChannelChanges) => {
+      if (!wallet) return false;
+
+      try {
+        const res = await fetch("/api/notifications/channels", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id, ...changes }),
+        });
+        if (!res.ok) return false;
+
+        const data = await res.json();
+        setChannels((prev) => prev.map((c) => (c.id === id ? data.channel : c)));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    [wallet]
+  );
+
+  const removeChannel = useCallback(
+    async (id: string) => {
+      if (!wallet) return;
+
+      // Optimistic removal
+      setChannels((prev) => prev.filter((c) => c.id !== id));
+
+      try {
+        const res = await fetch("/api/notifications/channels", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ id }),
+        });
+        if (!res.ok) await fetchChannels(true);
+      } catch {
+        await fetchChannels(true);
+      }
+    },
+    [wallet, fetchChannels]
+  );
+
+  const sendTest = useCallback(
+    async (id: string) => {
+      if (!wallet) return null;
+
+      try {
+        const res = await fetch("/api/notifications/channels/test", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ channelId: id }),
+        });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.delivery ?? null;
+      } catch {
+        return null;
+      }
+    },
+    [wallet]
+  );
+
+  const fetchDeliveries = useCallback(
+    async (id: string) => {
+      if (!wallet) return [];
+
+      try {
+        const res = await fetch(
+          `/api/notifications/deliveries?channelId=${encodeURIComponent(id)}`
+        );
+        if (!res.ok) return [];
+        const data = await res.json();
+        return data.deliveries ?? [];
+      } catch {
+        return [];
+      }
+    },
+    [wallet]
+  );
+
+  return { channels, loading, addChannel, updateChannel, removeChannel, sendTest, fetchDeliveries };
+}
@@ -1,8 +1,20 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { ALERT_NOTIFICATION_SEVERITY } from "@/lib/alertRules";
+import { createWalletSupabaseClient } from "@/lib/supabase/client";
 import type { Notification } from "@/types/database";
 
+/** Notifications kept for the bell, as many as GET /api/notifications returns. */
+const MAX_NOTIFICATIONS = 50;
+
+/** Toasts shown at once; older ones are dropped. */
+const MAX_TOASTS = 3;
+
+/** Fetch a new Realtime token this long before the current one expires. */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
 interface UseNotificationsReturn {
   notifications: Notification[];
   unreadCount: number;
@@ -10,55 +22,135 @@ interface UseNotificationsReturn {
   markAsRead: (ids?: string[]) => Promise<void>;
   markAllRead: () => Promise<void>;
   refetch: () => void;
+  /** High severity alerts pushed while the app is open, newest first. */
+  toasts: Notification[];
+  dismissToast: (id: string) => void;
 }
 
+/**
+ * The wallet's notifications: loaded once from `/api/notifications`, then
+ * kept current through Supabase Realtime. New rows are pushed as the alert
+ * engine writes them; high severity ones (see `ALERT_NOTIFICATION_SEVERITY`)
+ * are also returned as toasts.
+ *
+ * Both need a NextAuth session for `wallet`: the API only returns the
+ * session wallet's notifications, and the subscription authenticates with
+ * a token from `/api/notifications/realtime-token`, so RLS only delivers
+ * that wallet's rows.
+ */
 export function useNotifications(
   wallet: string | null
 ): UseNotificationsReturn {
   const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(false);
+  const [toasts, setToasts] = useState<Notification[]>([]);
+  const { data: session } = useSession();
+  const sessionWallet = session?.user?.wallet ?? null;
 
-  const fetchNotifications = useCallback(async () => {
-    if (!wallet) {
+  const fetchNotifications = useCallback(async (silent = false) => {
+    if (!wallet || sessionWallet !== wallet) {
       setNotifications([]);
-      setUnreadCount(0);
+      setToasts([]);
       return;
     }
 
-    setLoading(true);
+    if (!silent) setLoading(true);
     try {
-      const res = await fetch(
-        `/api/notifications?wallet=${encodeURIComponent(wallet)}`
-      );
+      const res = await fetch("/api/notifications");
       if (res.ok) {
         const data = await res.json();
         setNotifications(data.notifications ?? []);
-        setUnreadCount(data.unreadCount ?? 0);
       }
     } catch {
       // Silently fail
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
-  }, [wallet]);
+  }, [wallet, sessionWallet]);
 
   useEffect(() => {
     fetchNotifications();
   }, [fetchNotifications]);
 
+  useEffect(() => {
+    if (!wallet || sessionWallet !== wallet) return;
+
+    let current: { token: string; expiresAt: number } | null = null;
+    const getAccessToken = async () => {
+      if (current && current.expiresAt * 1000 - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+        return current.token;
+      }
+      try {
+        const res = await fetch("/api/notifications/realtime-token");
+        if (!res.ok) return null;
+        current = await res.json();
+        return current?.token ?? null;
+      } catch {
+        return null;
+      }
+    };
+
+    const supabase = createWalletSupabaseClient(getAccessToken);
+    const filter = `user_wallet=eq.${wallet}`;
+
+    const channel = supabase
+      .channel(`notifications_${wallet}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter },
+        (payload) => {
+          const notification = payload.new as Notification;
+
+          setNotifications((prev) => {
+            if (prev.some((n) => n.id === notification.id)) return prev;
+            return [notification, ...prev].slice(0, MAX_NOTIFICATIONS);
+          });
+
+          if (ALERT_NOTIFICATION_SEVERITY[notification.type] === "high") {
+            setToasts((prev) => [notification, ...prev].slice(0, MAX_TOASTS));
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "notifications", filter },
+        (payload) => {
+          // Read state changed, e.g. in another tab
+          const notification = payload.new as Notification;
+          setNotifications((prev) =>
+            prev.map((n) => (n.id === notification.id ? notification : n))
+          );
+        }
+      )
+      .subscribe((status) => {
+        // Catch up on rows written before (re)connecting
+        if (status === "SUBSCRIBED") fetchNotifications(true);
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+      supabase.realtime.disconnect();
+    };
+  }, [wallet, sessionWallet, fetchNotifications]);
+
   const markAsRead = useCallback(
     async (ids?: string[]) => {
-      if (!wallet) return;
+      if (!wallet || !ids?.length) return;
+
+      // Optimistic update
+      setNotifications((prev) =>
+        prev.map((n) => (ids.includes(n.id) ? { ...n, read: true } : n))
+      );
+
       try {
-        await fetch("/api/notifications", {
+        const res = await fetch("/api/notifications", {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ wallet, notificationIds: ids }),
+          body: JSON.stringify({ notificationIds: ids }),
         });
-        await fetchNotifications();
+        if (!res.ok) await fetchNotifications(true);
       } catch {
-        // Silently fail
+        await fetchNotifications(true);
       }
     },
     [wallet, fetchNotifications]
@@ -70,21 +162,26 @@ export function useNotifications(
       await fetch("/api/notifications", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ wallet, markAllRead: true }),
+        body: JSON.stringify({ markAllRead: true }),
       });
-      setUnreadCount(0);
       setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
     } catch {
       // Silently fail
     }
   }, [wallet]);
 
+  const dismissToast = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((n) => n.id !== id));
+  }, []);
+
   return {
     notifications,
-    unreadCount,
+    unreadCount: notifications.filter((n) => !n.read).length,
     loading,
     markAsRead,
     markAllRead,
     refetch: fetchNotifications,
+    toasts,
+    dismissToast,
   };
 }
@@ -1,11 +1,17 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { getSupabaseClient } from "@/lib/supabase/client";
 import type { TrustAnalysis } from "@/services/tokenAnalyzer";
 
+/** Stop waiting for a background refresh of a stale analysis after this long. */
+const STALE_REFRESH_TIMEOUT_MS = 60 * 1000;
+
 interface UseTokenAnalysisReturn {
   data: TrustAnalysis | null;
   loading: boolean;
+  /** A stale analysis is shown while a fresh one is on its way. */
+  refreshing: boolean;
   error: string | null;
   refetch: () => void;
 }
@@ -13,12 +19,20 @@ interface UseTokenAnalysisReturn {
 /**
  * Fetch a full token trust analysis from `/api/token/[mint]`.
  *
- * Returns `{ data, loading, error, refetch }`.
+ * When the API serves a stale cached analysis (`stale: true`) it refreshes
+ * it in the background; the hook then subscribes to the token's
+ * `token_analyses` row via Supabase Realtime and swaps in the fresh
+ * analysis once the row is rewritten, without showing the loading state.
+ * If nothing arrives within `STALE_REFRESH_TIMEOUT_MS` (the refresh failed
+ * server-side), `refreshing` turns false and the stale analysis stays.
+ *
+ * Returns `{ data, loading, refreshing, error, refetch }`.
  */
 export function useTokenAnalysis(mint: string): UseTokenAnalysisReturn {
   const [data, setData] = useState<TrustAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [timedOut, setTimedOut] = useState<TrustAnalysis | null>(null);
 
   const fetchAnalysis = useCallback(async () => {
     if (!mint) {
@@ -58,5 +72,52 @@ export function useTokenAnalysis(mint: string): UseTokenAnalysisReturn {
     fetchAnalysis();
   }, [fetchAnalysis]);
 
-  return { data, loading, error, refetch: fetchAnalysis };
+  const staleData = data?.stale ? data : null;
+
+  useEffect(() => {
+    if (!staleData) return;
+
+    const supabase = getSupabaseClient();
+
+    // Keep showing the stale analysis; only replace it with a fresh one
+    const refreshInBackground = async () => {
+      try {
+        const res = await fetch(`/api/token/${encodeURIComponent(mint)}`);
+        if (!res.ok) return;
+        const json = (await res.json()) as TrustAnalysis;
+        if (!json.stale) setData(json);
+      } catch {
+        // The stale analysis stays on screen
+      }
+    };
+
+    const channel = supabase
+      .channel(`token_analyses_${mint}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "token_analyses", filter: `mint=eq.${mint}` },
+        () => {
+          refreshInBackground();
+        }
+      )
+      .subscribe((status) => {
+        // Catch a refresh that finished before the subscription was live
+        if (status === "SUBSCRIBED") refreshInBackground();
+      });
+
+    const timer = setTimeout(() => setTimedOut(staleData), STALE_REFRESH_TIMEOUT_MS);
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [mint, staleData]);
+
+  return {
+    data,
+    loading,
+    refreshing: staleData !== null && staleData !== timedOut,
+    error,
+    refetch: fetchAnalysis,
+  };
 }
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import type { AlertRule } from "@/lib/alertRules";
 import type { FairScoreTier } from "@/types/database";
 
 // ---------------------------------------------------------------------------
@@ -26,6 +27,8 @@ export interface WatchlistEntry {
   mint: string;
   entity_type: WatchlistEntityType;
   added_at: string;
+  /** Alert rules of the entry; `null` uses the defaults. */
+  alert_rules: AlertRule[] | null;
   token: WatchlistTokenInfo | null;
   walletInfo: WatchlistWalletInfo | null;
 }
@@ -35,6 +38,8 @@ interface UseWatchlistReturn {
   loading: boolean;
   addItem: (address: string, entityType?: WatchlistEntityType) => Promise<void>;
   removeItem: (address: string) => Promise<void>;
+  /** Save an entry's alert rules (`null` restores the defaults). Resolves to whether it saved. */
+  updateAlertRules: (address: string, rules: AlertRule[] | null) => Promise<boolean>;
   /** @deprecated Use addItem instead */
   addToken: (tokenMint: string) => Promise<void>;
   /** @deprecated Use removeItem instead */
@@ -48,7 +53,7 @@ interface UseWatchlistReturn {
 /**
  * Manage a wallet's watchlist via `/api/watchlist`.
  *
- * Returns `{ items, loading, addItem, removeItem, addToken, removeToken }`.
+ * Returns `{ items, loading, addItem, removeItem, updateAlertRules, addToken, removeToken }`.
  */
 export function useWatchlist(wallet: string | null): UseWatchlistReturn {
   const [items, setItems] = useState<WatchlistEntry[]>([]);
@@ -129,6 +134,31 @@ export function useWatchlist(wallet: string | null): UseWatchlistReturn {
     [wallet, fetchWatchlist]
   );
 
+  const updateAlertRules = useCallback(
+    async (address: string, rules: AlertRule[] | null) => {
+      if (!wallet) return false;
+
+      try {
+        const res = await fetch("/api/watchlist", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ tokenMint: address, alertRules: rules }),
+        });
+        if (!res.ok) return false;
+
+        setItems((prev) =>
+          prev.map((item) =>
+            item.mint === address ? { ...item, alert_rules: rules } : item
+          )
+        );
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    [wallet]
+  );
+
   // Backwards-compatible aliases
   const addToken = useCallback(
     (tokenMint: string) => addItem(tokenMint, "token"),
@@ -139,5 +169,5 @@ export function useWatchlist(wallet: string | null): UseWatchlistReturn {
     [removeItem]
   );
 
-  return { items, loading, addItem, removeItem, addToken, removeToken };
+  return { items, loading, addItem, removeItem, updateAlertRules, addToken, removeToken };
 }
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createAlertRule,
+  evaluateTokenAlertRules,
+  getDefaultAlertRules,
+  type TokenAlertState,
+} from "@/lib/alertRules";
+
+function state(overrides: Partial<TokenAlertState> = {}): TokenAlertState {
+  return {
+    trustRating: 60,
+    riskFlagCodes: [],
+    liquidityUsd: 100_000,
+    topHolderPercent: 10,
+    deployerTier: "gold",
+    ...overrides,
+  };
+}
+
+function fired(rules: ReturnType<typeof createAlertRule>[], previous: TokenAlertState | null, current: TokenAlertState) {
+  return evaluateTokenAlertRules(rules, previous, current, "Token").map((m) => m.type);
+}
+
+describe("evaluateTokenAlertRules", () => {
+  it("keeps the original defaults: ±5 rating moves and new flag codes", () => {
+    const rules = getDefaultAlertRules("token");
+
+    expect(fired(rules, state(), state({ trustRating: 57 }))).toEqual([]);
+    expect(fired(rules, state(), state({ trustRating: 40, riskFlagCodes: ["ACTIVE_MINT_AUTHORITY"] }))).toEqual([
+      "score_change",
+      "new_risk_flag",
+    ]);
+    // Change rules need a previous check to compare against
+    expect(fired(rules, null, state({ trustRating: 10 }))).toEqual([]);
+  });
+
+  it("evaluates threshold rules against the current state", () => {
+    const below = { ...createAlertRule("rating_below", "r1"), threshold: 50 };
+    const topHolder = { ...createAlertRule("top_holder_above", "r2"), percent: 15 };
+
+    expect(fired([below, topHolder], null, state())).toEqual([]);
+    expect(fired([below, topHolder], null, state({ trustRating: 45, topHolderPercent: 22 }))).toEqual([
+      "rating_below",
+      "top_holder_above",
+    ]);
+  });
+
+  it("measures liquidity drops between checks and ignores unknown liquidity", () => {
+    const drop = { ...createAlertRule("liquidity_drop", "r1"), percent: 30 };
+
+    expect(fired([drop], state(), state({ liquidityUsd: 80_000 }))).toEqual([]);
+    expect(fired([drop], state(), state({ liquidityUsd: null }))).toEqual([]);
+    const [match] = evaluateTokenAlertRules([drop], state(), state({ liquidityUsd: 40_000 }), "Token");
+    expect(match.message).toBe("Token liquidity dropped 60% ($100,000 → $40,000)");
+  });
+
+  it("limits flag rules to the listed codes and skips disabled rules", () => {
+    const flags = { ...createAlertRule("flag_raised", "r1"), codes: ["SELL_SIMULATION_FAILED" as const] };
+    const tier = { ...createAlertRule("deployer_tier_change", "r2"), enabled: false };
+
+    expect(fired([flags, tier], state(), state({ riskFlagCodes: ["ACTIVE_MINT_AUTHORITY"], deployerTier: "bronze" }))).toEqual([]);
+    expect(fired([flags, { ...tier, enabled: true }], state(), state({
+      riskFlagCodes: ["SELL_SIMULATION_FAILED"],
+      deployerTier: "bronze",
+    }))).toEqual(["new_risk_flag", "deployer_tier_change"]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeBacktestReport,
+  computeFlagLift,
+  computeRocAuc,
+  computeThresholdMetrics,
+  type BacktestSample,
+} from "@/lib/backtest";
+
+function sample(trustRating: number, rugged: boolean, flags: BacktestSample["flags"] = []): BacktestSample {
+  return { mint: `mint-${trustRating}-${rugged}`, rugged, trustRating, flags };
+}
+
+describe("backtest metrics", () => {
+  it("counts ratings below the cutoff as rug predictions", () => {
+    const metrics = computeThresholdMetrics(
+      [sample(10, true), sample(40, true), sample(20, false), sample(80, false)],
+      30
+    );
+    expect(metrics).toMatchObject({
+      truePositives: 1,
+      falsePositives: 1,
+      trueNegatives: 1,
+      falseNegatives: 1,
+      precision: 0.5,
+      recall: 0.5,
+      falsePositiveRate: 0.5,
+    });
+  });
+
+  it("computes ROC AUC with ties counted as half", () => {
+    expect(computeRocAuc([sample(10, true), sample(20, true), sample(70, false)])).toBe(1);
+    expect(computeRocAuc([sample(70, true), sample(10, false)])).toBe(0);
+    expect(computeRocAuc([sample(50, true), sample(50, false)])).toBe(0.5);
+    expect(computeRocAuc([sample(50, true)])).toBeNull();
+  });
+
+  it("measures flag lift against the base rug rate", () => {
+    const [lift] = computeFlagLift([
+      sample(10, true, ["SELL_SIMULATION_FAILED"]),
+      sample(20, false),
+      sample(70, false),
+      sample(80, false),
+    ]);
+    expect(lift).toMatchObject({ code: "SELL_SIMULATION_FAILED", rugRate: 1, lift: 4, coverage: 1 });
+  });
+
+  it("calibrates the rating bands and picks the best sweep cutoff", () => {
+    const report = computeBacktestReport([
+      sample(10, true),
+      sample(25, true),
+      sample(45, false),
+      sample(75, false),
+    ]);
+    expect(report.bands.map((b) => [b.band, b.count, b.rugRate])).toEqual([
+      ["Risky", 2, 1],
+      ["Caution", 1, 0],
+      ["Trusted", 1, 0],
+    ]);
+    expect(report.cutoffs.map((m) => m.threshold)).toEqual([30, 60]);
+    expect(report.bestThreshold).toBe(30);
+  });
+});
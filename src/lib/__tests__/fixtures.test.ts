@@ -0,0 +1,91 @@
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+let fixtureDir: string;
+
+/**
+ * Install fixture fetch in `mode` over `liveFetch`. The module keeps
+ * whether it is installed, so every call loads a fresh copy.
+ */
+async function installFixtures(mode: "record" | "replay", liveFetch: typeof fetch = vi.fn()) {
+  vi.unstubAllGlobals();
+  vi.stubGlobal("fetch", liveFetch);
+  vi.resetModules();
+  const { installFixtureFetch } = await import("@/lib/fixtures");
+  installFixtureFetch(mode);
+}
+
+async function recordedFiles(): Promise<string[]> {
+  const files = await readdir(fixtureDir, { recursive: true });
+  return files.filter((file) => file.endsWith(".json"));
+}
+
+function rpc(body: unknown): RequestInit {
+  return { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) };
+}
+
+describe("fixture fetch", () => {
+  beforeEach(async () => {
+    fixtureDir = await mkdtemp(path.join(tmpdir(), "fixtures-"));
+    vi.stubEnv("FIXTURE_DIR", fixtureDir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    await rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  it("records without API keys and replays with any key", async () => {
+    await installFixtures("record", vi.fn(async () => Response.json({ price: 1.5 })));
+    await fetch("https://api.example.com/price?mint=abc&api-key=secret-1");
+
+    const [file] = await recordedFiles();
+    expect(file.startsWith(`http${path.sep}api.example.com${path.sep}`)).toBe(true);
+    const recorded = await readFile(path.join(fixtureDir, file), "utf8");
+    expect(recorded).not.toContain("secret-1");
+    expect(JSON.parse(recorded).request.url).toBe("https://api.example.com/price?mint=abc");
+
+    const live = vi.fn();
+    await installFixtures("replay", live);
+    const response = await fetch("https://api.example.com/price?mint=abc&apiKey=secret-2");
+
+    expect(await response.json()).toEqual({ price: 1.5 });
+    expect(live).not.toHaveBeenCalled();
+  });
+
+  it("ignores JSON-RPC ids and answers with the ids of the replayed request", async () => {
+    await installFixtures(
+      "record",
+      vi.fn(async () => Response.json([
+        { jsonrpc: "2.0", id: 1, result: "a" },
+        { jsonrpc: "2.0", id: 2, result: "b" },
+      ]))
+    );
+    await fetch("https://rpc.example.com/", rpc([
+      { jsonrpc: "2.0", id: 1, method: "getSlot" },
+      { jsonrpc: "2.0", id: 2, method: "getBalance", params: ["abc"] },
+    ]));
+
+    await installFixtures("replay");
+    const response = await fetch("https://rpc.example.com/", rpc([
+      { method: "getSlot", jsonrpc: "2.0", id: 41 },
+      { jsonrpc: "2.0", id: 42, method: "getBalance", params: ["abc"] },
+    ]));
+
+    expect(await response.json()).toEqual([
+      { jsonrpc: "2.0", id: 41, result: "a" },
+      { jsonrpc: "2.0", id: 42, result: "b" },
+    ]);
+  });
+
+  it("fails like a network error when no fixture matches", async () => {
+    await installFixtures("replay");
+
+    await expect(fetch("https://api.example.com/missing")).rejects.toThrow(
+      "No fixture for GET https://api.example.com/missing"
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { isAllowedAddress, resolvesToAllowedAddress } from "@/lib/outboundAddress";
+
+describe("isAllowedAddress", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("allows public addresses only", () => {
+    expect(isAllowedAddress("93.184.216.34")).toBe(true);
+    expect(isAllowedAddress("2606:4700::1111")).toBe(true);
+
+    for (const address of ["10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "fd00::1", "fe80::1", "::ffff:10.0.0.1", "64:ff9b::a00:1"]) {
+      expect(isAllowedAddress(address), address).toBe(false);
+    }
+  });
+
+  it("allows loopback outside production only", () => {
+    expect(isAllowedAddress("127.0.0.1")).toBe(true);
+    expect(isAllowedAddress("::1")).toBe(true);
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect(isAllowedAddress("127.0.0.1")).toBe(false);
+    expect(isAllowedAddress("::1")).toBe(false);
+    expect(isAllowedAddress("::ffff:127.0.0.1")).toBe(false);
+  });
+
+  it("checks IP literals in URLs without a DNS lookup", async () => {
+    expect(await resolvesToAllowedAddress("https://169.254.169.254/latest/meta-data")).toBe(false);
+    expect(await resolvesToAllowedAddress("http://[::1]:4000/")).toBe(true);
+  });
+});
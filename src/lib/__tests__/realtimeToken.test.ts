@@ -0,0 +1,44 @@
+import { createHmac } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { REALTIME_TOKEN_TTL_SECONDS, createRealtimeToken } from "@/lib/supabase/realtimeToken";
+
+const SECRET = "super-secret-jwt-token-with-at-least-32-characters";
+const WALLET = "A1iceWa11et1111111111111111111111111111111";
+
+function decode(part: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+}
+
+describe("createRealtimeToken", () => {
+  beforeEach(() => {
+    vi.stubEnv("SUPABASE_JWT_SECRET", SECRET);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("mints an HS256 authenticated-role JWT carrying the wallet", () => {
+    const now = Date.UTC(2026, 2, 14, 12);
+    const { token, expiresAt } = createRealtimeToken(WALLET, now);
+    const [header, payload, signature] = token.split(".");
+
+    expect(decode(header)).toEqual({ alg: "HS256", typ: "JWT" });
+    expect(decode(payload)).toEqual({
+      sub: WALLET,
+      wallet: WALLET,
+      role: "authenticated",
+      aud: "authenticated",
+      iat: now / 1000,
+      exp: now / 1000 + REALTIME_TOKEN_TTL_SECONDS,
+    });
+    expect(expiresAt).toBe(now / 1000 + REALTIME_TOKEN_TTL_SECONDS);
+    expect(signature).toBe(createHmac("sha256", SECRET).update(`${header}.${payload}`).digest("base64url"));
+  });
+
+  it("requires the project JWT secret", () => {
+    vi.stubEnv("SUPABASE_JWT_SECRET", "");
+    expect(() => createRealtimeToken(WALLET)).toThrow("SUPABASE_JWT_SECRET");
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  createMemorySupabaseClient,
+  disableMemoryStore,
+  enableMemoryStore,
+  getMemoryTable,
+  resetMemoryStore,
+} from "@/lib/supabase/memory";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+
+const db = createMemorySupabaseClient();
+
+function seed() {
+  getMemoryTable("tokens").push(
+    { id: 1, mint: "aaa", rating: 80, tier: "gold", deleted_at: null },
+    { id: 2, mint: "bbb", rating: 40, tier: "bronze", deleted_at: null },
+    { id: 3, mint: "ccc", rating: null, tier: "gold", deleted_at: "2026-03-01T00:00:00.000Z" },
+    { id: 4, mint: "ddd", rating: 60, tier: "silver", deleted_at: null }
+  );
+}
+
+async function mints(query: PromiseLike<{ data: unknown }>): Promise<string[]> {
+  const { data } = await query;
+  return (data as Array<{ mint: string }>).map((row) => row.mint);
+}
+
+describe("memory Supabase client", () => {
+  beforeEach(() => {
+    resetMemoryStore();
+    seed();
+  });
+
+  it("filters, orders and limits selects", async () => {
+    const tokens = () => db.from("tokens").select("mint");
+
+    expect(await mints(tokens().eq("tier", "gold"))).toEqual(["aaa", "ccc"]);
+    expect(await mints(tokens().neq("tier", "gold"))).toEqual(["bbb", "ddd"]);
+    // Range filters skip nulls, like SQL comparisons
+    expect(await mints(tokens().gt("rating", 40))).toEqual(["aaa", "ddd"]);
+    expect(await mints(tokens().gte("rating", 40).lte("rating", 60))).toEqual(["bbb", "ddd"]);
+    expect(await mints(tokens().lt("rating", 100))).toEqual(["aaa", "bbb", "ddd"]);
+    expect(await mints(tokens().in("mint", ["bbb", "ccc", "zzz"]))).toEqual(["bbb", "ccc"]);
+    expect(await mints(tokens().is("deleted_at", null))).toEqual(["aaa", "bbb", "ddd"]);
+    expect(await mints(tokens().not("deleted_at", "is", null))).toEqual(["ccc"]);
+    // Nulls sort last ascending and first descending, as in Postgres
+    expect(await mints(tokens().order("rating", { ascending: false }).limit(2))).toEqual(["ccc", "aaa"]);
+    expect(await mints(tokens().order("tier").order("rating"))).toEqual(["bbb", "aaa", "ccc", "ddd"]);
+  });
+
+  it("projects the selected columns", async () => {
+    const { data } = await db.from("tokens").select("mint, missing").eq("id", 1);
+    expect(data).toEqual([{ mint: "aaa", missing: null }]);
+  });
+
+  it("upserts on the conflict columns", async () => {
+    getMemoryTable("prices").push({ id: "p1", mint: "aaa", source: "dex", usd: 1 });
+
+    await db.from("prices").upsert(
+      [
+        { mint: "aaa", source: "dex", usd: 2 },
+        { mint: "aaa", source: "cex", usd: 3 },
+      ],
+      { onConflict: "mint, source" }
+    );
+
+    const rows = getMemoryTable("prices");
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ id: "p1", mint: "aaa", source: "dex", usd: 2 });
+    expect(rows[1]).toMatchObject({ mint: "aaa", source: "cex", usd: 3 });
+    expect(typeof rows[1].id).toBe("string");
+  });
+
+  it("fills column defaults on insert and returns rows when selected", async () => {
+    const { data } = await db.from("wallet_score_history").insert({ wallet: "w1", score: 5 }).select().single();
+
+    expect(data).toMatchObject({ wallet: "w1", score: 5 });
+    expect(data).toHaveProperty("id");
+    expect(data).toHaveProperty("created_at");
+    expect(data).toHaveProperty("recorded_at");
+  });
+
+  it("updates and deletes matching rows", async () => {
+    const { data } = await db.from("tokens").update({ tier: "gold" }).eq("mint", "bbb").select("mint, tier");
+    expect(data).toEqual([{ mint: "bbb", tier: "gold" }]);
+
+    const result = await db.from("tokens").delete().eq("tier", "gold");
+    expect(result.data).toBeNull();
+    expect(await mints(db.from("tokens").select("mint"))).toEqual(["ddd"]);
+  });
+
+  it("reports single and maybeSingle errors like PostgREST", async () => {
+    const none = await db.from("tokens").select().eq("mint", "zzz").single();
+    expect(none.data).toBeNull();
+    expect(none.error).toMatchObject({ code: "PGRST116", message: "JSON object requested, 0 rows returned" });
+
+    expect(await db.from("tokens").select().eq("mint", "zzz").maybeSingle()).toMatchObject({ data: null, error: null });
+
+    const many = await db.from("tokens").select().eq("tier", "gold").maybeSingle();
+    expect(many.error).toMatchObject({ code: "PGRST116", message: "JSON object requested, 2 rows returned" });
+  });
+});
+
+describe("enableMemoryStore", () => {
+  afterEach(() => {
+    disableMemoryStore();
+  });
+
+  it("serves the server client from memory without fixture mode", async () => {
+    resetMemoryStore();
+    getMemoryTable("users").push({ wallet: "w1" });
+
+    enableMemoryStore();
+    const { data } = await createServerSupabaseClient().from("users").select("wallet");
+
+    expect(data).toEqual([{ wallet: "w1" }]);
+  });
+});
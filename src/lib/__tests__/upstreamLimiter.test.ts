@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  UpstreamLimiter,
+  fetchWithBudget,
+  getUpstreamForUrl,
+  mapWithConcurrency,
+} from "@/lib/upstreamLimiter";
+
+const FAST_RETRY = { baseDelayMs: 1, maxDelayMs: 5 };
+
+function respond(...statuses: number[]): { fetch: typeof fetch; calls: () => number } {
+  let calls = 0;
+  const fakeFetch = (async () => {
+    const status = statuses[Math.min(calls++, statuses.length - 1)];
+    return new Response(null, { status, headers: status === 429 ? { "retry-after": "0" } : {} });
+  }) as typeof fetch;
+  return { fetch: fakeFetch, calls: () => calls };
+}
+
+describe("UpstreamLimiter", () => {
+  it("holds requests beyond the concurrency limit until a slot frees up", async () => {
+    const limiter = new UpstreamLimiter({ requestsPerSecond: 1000, burst: 10, maxConcurrent: 2 });
+    const first = await limiter.acquire();
+    await limiter.acquire();
+
+    let thirdStarted = false;
+    const third = limiter.acquire().then(() => {
+      thirdStarted = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(thirdStarted).toBe(false);
+    expect(limiter.metrics.queued).toBe(1);
+
+    first();
+    await third;
+    expect(thirdStarted).toBe(true);
+    expect(limiter.metrics.delayed).toBe(1);
+  });
+
+  it("spaces requests once the burst is spent", async () => {
+    const limiter = new UpstreamLimiter({ requestsPerSecond: 50, burst: 1, maxConcurrent: 5 });
+    const started = Date.now();
+    for (let i = 0; i < 3; i++) (await limiter.acquire())();
+    // Two refills at 50/s take about 40ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(30);
+  });
+});
+
+describe("fetchWithBudget", () => {
+  it("retries 429 and 5xx responses and records the throttling", async () => {
+    const limiter = new UpstreamLimiter({ requestsPerSecond: 1000, burst: 10, maxConcurrent: 2 });
+    const upstream = respond(429, 503, 200);
+
+    const response = await fetchWithBudget(limiter, upstream.fetch, "https://api.example", undefined, FAST_RETRY);
+
+    expect(response.status).toBe(200);
+    expect(upstream.calls()).toBe(3);
+    expect(limiter.metrics).toMatchObject({ requests: 3, retries: 2, throttled: 1, errors: 1, exhausted: 0 });
+  });
+
+  it("returns the last response once retries run out", async () => {
+    const limiter = new UpstreamLimiter({ requestsPerSecond: 1000, burst: 10, maxConcurrent: 2 });
+    const upstream = respond(500);
+
+    const response = await fetchWithBudget(limiter, upstream.fetch, "https://api.example", undefined, {
+      ...FAST_RETRY,
+      maxRetries: 2,
+    });
+
+    expect(response.status).toBe(500);
+    expect(upstream.calls()).toBe(3);
+    expect(limiter.metrics.exhausted).toBe(1);
+  });
+
+  it("does not retry client errors", async () => {
+    const limiter = new UpstreamLimiter({ requestsPerSecond: 1000, burst: 10, maxConcurrent: 2 });
+    const upstream = respond(404);
+
+    const response = await fetchWithBudget(limiter, upstream.fetch, "https://api.example", undefined, FAST_RETRY);
+
+    expect(response.status).toBe(404);
+    expect(upstream.calls()).toBe(1);
+  });
+});
+
+describe("getUpstreamForUrl", () => {
+  it("routes known API hosts and leaves others unlimited", () => {
+    expect(getUpstreamForUrl("https://mainnet.helius-rpc.com/?api-key=x")).toBe("helius");
+    expect(getUpstreamForUrl("https://api.fairscale.xyz/score?wallet=x")).toBe("fairscale");
+    expect(getUpstreamForUrl("https://api.jup.ag/tokens/v2/search?query=x")).toBe("jupiter");
+    expect(getUpstreamForUrl("https://api.rugcheck.xyz/v1/tokens/x/report/summary")).toBe("rugcheck");
+    expect(getUpstreamForUrl("https://project.supabase.co/rest/v1/token_analyses")).toBeNull();
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps result order and never exceeds the limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return i;
+    });
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Labeled Solana address registry.
+ *
+ * Well-known addresses that hold token supply on behalf of others — DEX
+ * pool vaults, burn/incinerator addresses, CEX hot wallets, vesting/escrow
+ * programs and bridge custodians. Balances held by these addresses are not
+ * a concentration risk in the usual sense, so they are excluded from
+ * holder concentration flags and distribution metrics.
+ *
+ * The list is intentionally conservative and non-exhaustive; unknown
+ * addresses are treated as regular holders.
+ *
+ * A separate list names launchpad authorities: update authorities shared
+ * by every token a launchpad creates, so they say nothing about who
+ * deployed a token (see `isSharedAuthority`).
+ *
+ * This module is pure data and safe to import from client components.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AddressCategory = "dex" | "burn" | "cex" | "vesting" | "bridge";
+
+export interface AddressLabel {
+  /** Display name (e.g. "Raydium AMM", "Binance"). */
+  name: string;
+  category: AddressCategory;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Known Solana DEX program IDs and pool authorities for LP vault detection. */
+export const DEX_PROGRAMS: Record<string, string> = {
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8": "Raydium AMM",
+  "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": "Raydium AMM",
+  "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK": "Raydium CLMM",
+  "GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL": "Raydium CPMM",
+  "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc": "Orca Whirlpool",
+  "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo": "Meteora DLMM",
+  "Eo7WjKq67rjJQSZxS6z3YkapzY3eBj6xGaBpnh77SXfQ": "Meteora Pools",
+};
+
+const BURN_ADDRESSES: Record<string, string> = {
+  "1nc1nerator11111111111111111111111111111111": "Solana Incinerator",
+  "11111111111111111111111111111111": "System Program (burn)",
+};
+
+const CEX_WALLETS: Record<string, string> = {
+  "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9": "Binance",
+  "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM": "Binance",
+  "H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS": "Coinbase",
+  "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm": "Coinbase",
+  "5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD": "OKX",
+  "AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2": "Bybit",
+  "FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5": "Kraken",
+};
+
+const VESTING_PROGRAMS: Record<string, string> = {
+  "strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m": "Streamflow",
+  "CChTq6PthWU82YZkbveA3WDf7s97BWhBK4Vx9bmsT743": "Bonfida Vesting",
+  "LocpQgucEQHbqNABEYvBvwoxCPsSbG91A1QaQhQQqjn": "Jupiter Lock",
+};
+
+const BRIDGE_CUSTODIANS: Record<string, string> = {
+  "wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb": "Wormhole Token Bridge",
+  "GugU1tP7doLeTw9hQP51xRJyS8Da1fWxuiy2rVrnMD2m": "Wormhole Custody",
+};
+
+/**
+ * Update authorities launchpads set on all of their tokens. A deployer
+ * track record keyed by one of these would mix thousands of unrelated
+ * creators' tokens.
+ */
+const LAUNCHPAD_AUTHORITIES: Record<string, string> = {
+  "TSLvdd1pWpHVjahSpsvCXUbgwsL3JAcvokwaKt1eokM": "pump.fun",
+};
+
+const REGISTRY: Record<string, AddressLabel> = Object.fromEntries([
+  ...Object.entries(DEX_PROGRAMS).map(([a, name]) => [a, { name, category: "dex" as const }]),
+  ...Object.entries(BURN_ADDRESSES).map(([a, name]) => [a, { name, category: "burn" as const }]),
+  ...Object.entries(CEX_WALLETS).map(([a, name]) => [a, { name, category: "cex" as const }]),
+  ...Object.entries(VESTING_PROGRAMS).map(([a, name]) => [a, { name, category: "vesting" as const }]),
+  ...Object.entries(BRIDGE_CUSTODIANS).map(([a, name]) => [a, { name, category: "bridge" as const }]),
+]);
+
+const CATEGORY_LABELS: Record<AddressCategory, string> = {
+  dex: "DEX Liquidity",
+  burn: "Burn Address",
+  cex: "Exchange",
+  vesting: "Vesting / Escrow",
+  bridge: "Bridge Custodian",
+};
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/** Look up the label for an address, or `null` if it is not registered. */
+export function getAddressLabel(address: string): AddressLabel | null {
+  return Object.hasOwn(REGISTRY, address) ? REGISTRY[address] : null;
+}
+
+/**
+ * Whether `address` is an authority shared by unrelated tokens: a
+ * launchpad authority, or any labeled address (burn, DEX, exchange, ...)
+ * left as update authority. Such an address does not identify a deployer.
+ */
+export function isSharedAuthority(address: string): boolean {
+  return Object.hasOwn(LAUNCHPAD_AUTHORITIES, address) || Object.hasOwn(REGISTRY, address);
+}
+
+/** Human-readable name for an address category. */
+export function getCategoryLabel(category: AddressCategory): string {
+  return CATEGORY_LABELS[category];
+}
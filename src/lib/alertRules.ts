@@ -0,0 +1,335 @@
+/**
+ * Watchlist alert rules.
+ *
+ * Each watchlist entry carries its own list of alert rules (stored in
+ * `watchlist.alert_rules`; `null` means "use the defaults"). The alert
+ * engine evaluates them against every scheduled check of the entry:
+ *
+ *   rating_change        trust rating moved by N+ points since the last check
+ *   rating_below         trust rating is below X
+ *   liquidity_drop       DEX liquidity fell by Y%+ since the last check
+ *   top_holder_above     the largest holder owns more than Z% of supply
+ *   flag_raised          a risk flag (any, or one of the listed codes) appeared
+ *   deployer_tier_change the deployer's FairScore tier changed
+ *   deployer_new_token   a watched deployer launched a new token
+ *
+ * Every rule has a cooldown: once it fires for an entry it stays quiet for
+ * `cooldownHours`, so level conditions (rating below X, top holder above Z%)
+ * repeat at most once per cooldown while they hold.
+ *
+ * This module is pure logic and safe to import from client components.
+ */
+
+import {
+  getRiskFlagDefinition,
+  type RiskFlagCode,
+} from "@/lib/riskFlagCatalog";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AlertRuleKind =
+  | "rating_change"
+  | "rating_below"
+  | "liquidity_drop"
+  | "top_holder_above"
+  | "flag_raised"
+  | "deployer_tier_change"
+  | "deployer_new_token";
+
+interface AlertRuleBase {
+  /** Stable id within the entry; part of the cooldown key. */
+  id: string;
+  enabled: boolean;
+  /** Quiet period after the rule fires. */
+  cooldownHours: number;
+}
+
+export type AlertRule = AlertRuleBase &
+  (
+    | { kind: "rating_change"; points: number }
+    | { kind: "rating_below"; threshold: number }
+    | { kind: "liquidity_drop"; percent: number }
+    | { kind: "top_holder_above"; percent: number }
+    /** `codes` empty: any newly raised flag. */
+    | { kind: "flag_raised"; codes: RiskFlagCode[] }
+    | { kind: "deployer_tier_change" }
+    | { kind: "deployer_new_token" }
+  );
+
+/** Notification type written for each rule kind. */
+export type AlertNotificationType =
+  | "score_change"
+  | "new_risk_flag"
+  | "rating_below"
+  | "liquidity_drop"
+  | "top_holder_above"
+  | "deployer_tier_change"
+  | "deployer_new_token";
+
+/** Watchlist entity types that rules can be attached to. */
+export type AlertEntityType = "token" | "wallet" | "deployer";
+
+export interface AlertRuleKindInfo {
+  label: string;
+  description: string;
+  entityTypes: AlertEntityType[];
+  notificationType: AlertNotificationType;
+}
+
+/** The state of a token that token rules are evaluated against. */
+export interface TokenAlertState {
+  trustRating: number;
+  riskFlagCodes: RiskFlagCode[];
+  /** Total DEX liquidity; `null` when unknown. */
+  liquidityUsd: number | null;
+  /** Share of supply held by the largest holder (0-100). */
+  topHolderPercent: number;
+  deployerTier: string | null;
+}
+
+/** A rule whose condition holds, with the notification it produces. */
+export interface AlertRuleMatch {
+  rule: AlertRule;
+  type: AlertNotificationType;
+  message: string;
+  oldValue: number | null;
+  newValue: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Rule kinds
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_ALERT_COOLDOWN_HOURS = 24;
+
+export const ALERT_RULE_KINDS: Record<AlertRuleKind, AlertRuleKindInfo> = {
+  rating_change: {
+    label: "Rating changes",
+    description: "Trust rating moves by at least N points",
+    entityTypes: ["token"],
+    notificationType: "score_change",
+  },
+  rating_below: {
+    label: "Rating below",
+    description: "Trust rating drops below a threshold",
+    entityTypes: ["token"],
+    notificationType: "rating_below",
+  },
+  liquidity_drop: {
+    label: "Liquidity drop",
+    description: "DEX liquidity falls by at least Y% between checks",
+    entityTypes: ["token"],
+    notificationType: "liquidity_drop",
+  },
+  top_holder_above: {
+    label: "Top holder above",
+    description: "The largest holder owns more than Z% of supply",
+    entityTypes: ["token"],
+    notificationType: "top_holder_above",
+  },
+  flag_raised: {
+    label: "Risk flag raised",
+    description: "A new risk flag appears (any, or specific codes)",
+    entityTypes: ["token"],
+    notificationType: "new_risk_flag",
+  },
+  deployer_tier_change: {
+    label: "Deployer tier change",
+    description: "The deployer's FairScore tier changes",
+    entityTypes: ["token"],
+    notificationType: "deployer_tier_change",
+  },
+  deployer_new_token: {
+    label: "New token from deployer",
+    description: "The deployer launches a new token",
+    entityTypes: ["deployer"],
+    notificationType: "deployer_new_token",
+  },
+};
+
+export type AlertSeverity = "high" | "normal";
+
+/**
+ * High severity alerts (a risk flag appeared, the rating fell below a
+ * threshold, liquidity was pulled) also pop up as a toast when they arrive
+ * while the app is open; the rest only show in the bell.
+ */
+export const ALERT_NOTIFICATION_SEVERITY: Record<AlertNotificationType, AlertSeverity> = {
+  new_risk_flag: "high",
+  rating_below: "high",
+  liquidity_drop: "high",
+  score_change: "normal",
+  top_holder_above: "normal",
+  deployer_tier_change: "normal",
+  deployer_new_token: "normal",
+};
+
+/** A new rule of the given kind with sensible starting values. */
+export function createAlertRule(kind: AlertRuleKind, id: string): AlertRule {
+  const base = { id, enabled: true, cooldownHours: DEFAULT_ALERT_COOLDOWN_HOURS };
+  switch (kind) {
+    case "rating_change":
+      return { ...base, kind, points: 5 };
+    case "rating_below":
+      return { ...base, kind, threshold: 30 };
+    case "liquidity_drop":
+      return { ...base, kind, percent: 50 };
+    case "top_holder_above":
+      return { ...base, kind, percent: 20 };
+    case "flag_raised":
+      return { ...base, kind, codes: [] };
+    case "deployer_tier_change":
+    case "deployer_new_token":
+      return { ...base, kind };
+  }
+}
+
+/**
+ * Rules used for entries without rules of their own: the original
+ * ±5 rating change and new risk flag alerts for tokens, new launches
+ * for deployers.
+ */
+export function getDefaultAlertRules(entityType: AlertEntityType): AlertRule[] {
+  switch (entityType) {
+    case "token":
+      return [
+        createAlertRule("rating_change", "default-rating-change"),
+        createAlertRule("flag_raised", "default-flag-raised"),
+      ];
+    case "deployer":
+      return [createAlertRule("deployer_new_token", "default-deployer-new-token")];
+    case "wallet":
+      return [];
+  }
+}
+
+/** The entry's own rules, or the defaults when it has none. */
+export function resolveAlertRules(
+  rules: AlertRule[] | null | undefined,
+  entityType: AlertEntityType
+): AlertRule[] {
+  return rules ?? getDefaultAlertRules(entityType);
+}
+
+/**
+ * Key notifications are tagged with, so a rule's cooldown can be checked
+ * per watched address.
+ */
+export function getAlertRuleKey(address: string, rule: AlertRule): string {
+  return `${address}:${rule.id}`;
+}
+
+/**
+ * The watched address of a rule key: the mint for token rules, the
+ * deployer for deployer rules.
+ */
+export function getAlertRuleAddress(ruleKey: string): string {
+  return ruleKey.split(":")[0];
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function formatUsd(value: number): string {
+  return `$${Math.round(value).toLocaleString("en-US")}`;
+}
+
+function evaluateTokenRule(
+  rule: AlertRule,
+  previous: TokenAlertState | null,
+  current: TokenAlertState,
+  tokenName: string
+): Omit<AlertRuleMatch, "rule" | "type"> | null {
+  switch (rule.kind) {
+    case "rating_change":
+      if (!previous || Math.abs(current.trustRating - previous.trustRating) < rule.points) return null;
+      return {
+        message: `${tokenName} trust rating changed from ${previous.trustRating} to ${current.trustRating}`,
+        oldValue: previous.trustRating,
+        newValue: current.trustRating,
+      };
+
+    case "rating_below":
+      if (current.trustRating >= rule.threshold) return null;
+      return {
+        message: `${tokenName} trust rating is ${current.trustRating}, below your threshold of ${rule.threshold}`,
+        oldValue: previous?.trustRating ?? null,
+        newValue: current.trustRating,
+      };
+
+    case "liquidity_drop": {
+      const before = previous?.liquidityUsd ?? null;
+      const after = current.liquidityUsd;
+      if (before === null || after === null || before <= 0) return null;
+      const dropPercent = ((before - after) / before) * 100;
+      if (dropPercent < rule.percent) return null;
+      return {
+        message: `${tokenName} liquidity dropped ${Math.round(dropPercent)}% (${formatUsd(before)} → ${formatUsd(after)})`,
+        oldValue: Math.round(before),
+        newValue: Math.round(after),
+      };
+    }
+
+    case "top_holder_above":
+      if (current.topHolderPercent <= rule.percent) return null;
+      return {
+        message: `${tokenName} top holder owns ${current.topHolderPercent.toFixed(1)}% of supply, above your limit of ${rule.percent}%`,
+        oldValue: previous?.topHolderPercent ?? null,
+        newValue: current.topHolderPercent,
+      };
+
+    case "flag_raised": {
+      if (!previous) return null;
+      const oldCodes = new Set(previous.riskFlagCodes);
+      const newCodes = current.riskFlagCodes.filter(
+        (code) => !oldCodes.has(code) && (rule.codes.length === 0 || rule.codes.includes(code))
+      );
+      if (newCodes.length === 0) return null;
+      const labels = newCodes.map((code) => getRiskFlagDefinition(code)?.label ?? code);
+      return {
+        message: `New risk flag${newCodes.length > 1 ? "s" : ""} for ${tokenName}: ${labels.join(", ")}`,
+        oldValue: previous.riskFlagCodes.length,
+        newValue: current.riskFlagCodes.length,
+      };
+    }
+
+    case "deployer_tier_change":
+      if (!previous?.deployerTier || !current.deployerTier) return null;
+      if (previous.deployerTier === current.deployerTier) return null;
+      return {
+        message: `${tokenName} deployer tier changed from ${previous.deployerTier} to ${current.deployerTier}`,
+        oldValue: null,
+        newValue: null,
+      };
+
+    case "deployer_new_token":
+      // Evaluated per deployer entry, not per token
+      return null;
+  }
+}
+
+/**
+ * Enabled token rules whose condition holds for `current`. Change rules
+ * (rating change, liquidity drop, flag raised, tier change) need the
+ * previous state and never match on a first check. Cooldowns are applied
+ * by the caller.
+ */
+export function evaluateTokenAlertRules(
+  rules: AlertRule[],
+  previous: TokenAlertState | null,
+  current: TokenAlertState,
+  tokenName: string
+): AlertRuleMatch[] {
+  const matches: AlertRuleMatch[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const match = evaluateTokenRule(rule, previous, current, tokenName);
+    if (match) {
+      matches.push({ rule, type: ALERT_RULE_KINDS[rule.kind].notificationType, ...match });
+    }
+  }
+  return matches;
+}
@@ -9,7 +9,7 @@
  * 5. User record is upserted in Supabase with FairScore data
  */
 
-import type { AuthOptions, Session } from "next-auth";
+import { getServerSession, type AuthOptions, type Session } from "next-auth";
 import type { JWT } from "next-auth/jwt";
 import CredentialsProvider from "next-auth/providers/credentials";
 import nacl from "tweetnacl";
@@ -176,3 +176,17 @@ export const authOptions: AuthOptions = {
 
   secret: process.env.NEXTAUTH_SECRET,
 };
+
+// ---------------------------------------------------------------------------
+// Session helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * The wallet signed in on the current request, or null without a session.
+ * Routes that read or change a wallet's data take the wallet from here,
+ * never from a query param or the request body.
+ */
+export async function getSessionWallet(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return session?.user?.wallet ?? null;
+}
@@ -0,0 +1,277 @@
+/**
+ * Backtest metrics — how well the trust rating separates tokens that
+ * rugged from tokens that survived.
+ *
+ * A token counts as predicted to rug when its rating falls below a cutoff.
+ * Rugged tokens are the positive class, so:
+ *   precision  — share of tokens rated below the cutoff that did rug
+ *   recall     — share of rugs rated below the cutoff
+ *   ROC AUC    — chance a random rug is rated lower than a random survivor
+ * Band calibration gives the rug rate inside each rating band (it should
+ * fall from Risky to Trusted), and flag lift compares the rug rate of
+ * tokens carrying a flag with the overall rug rate.
+ *
+ * This module is pure data and safe to import from client components.
+ */
+
+import type { RiskFlagCode } from "@/lib/riskFlagCatalog";
+import {
+  CAUTION_MIN_RATING,
+  RATING_BANDS,
+  TRUSTED_MIN_RATING,
+  getRatingBand,
+  type RatingBand,
+} from "@/lib/ratingBands";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BacktestSample {
+  mint: string;
+  rugged: boolean;
+  trustRating: number;
+  flags: RiskFlagCode[];
+}
+
+export interface ThresholdMetrics {
+  /** Ratings below this count as a rug prediction. */
+  threshold: number;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  /** `null` when no token was rated below the threshold. */
+  precision: number | null;
+  /** `null` without rugged tokens. */
+  recall: number | null;
+  /** `null` without surviving tokens. */
+  falsePositiveRate: number | null;
+}
+
+export interface BandCalibration {
+  band: RatingBand;
+  count: number;
+  ruggedCount: number;
+  /** `null` for an empty band. */
+  rugRate: number | null;
+}
+
+export interface FlagLift {
+  code: RiskFlagCode;
+  /** Tokens carrying the flag. */
+  count: number;
+  ruggedCount: number;
+  rugRate: number;
+  /** Flagged rug rate over the base rug rate; `null` when no token rugged. */
+  lift: number | null;
+  /** Share of all rugs that carried the flag. */
+  coverage: number | null;
+}
+
+export interface BacktestReport {
+  sampleCount: number;
+  ruggedCount: number;
+  baseRugRate: number | null;
+  rocAuc: number | null;
+  /** Metrics at the Caution (30) and Trusted (60) cutoffs. */
+  cutoffs: ThresholdMetrics[];
+  bands: BandCalibration[];
+  /** Metrics for cutoffs from 5 to 95 in steps of 5. */
+  sweep: ThresholdMetrics[];
+  /** Sweep cutoff with the highest recall minus false positive rate. */
+  bestThreshold: number | null;
+  /** Flags seen in the dataset, highest lift first. */
+  flags: FlagLift[];
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function computeThresholdMetrics(
+  samples: BacktestSample[],
+  threshold: number
+): ThresholdMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let trueNegatives = 0;
+  let falseNegatives = 0;
+
+  for (const sample of samples) {
+    const predicted = sample.trustRating < threshold;
+    if (predicted && sample.rugged) truePositives++;
+    else if (predicted) falsePositives++;
+    else if (sample.rugged) falseNegatives++;
+    else trueNegatives++;
+  }
+
+  return {
+    threshold,
+    truePositives,
+    falsePositives,
+    trueNegatives,
+    falseNegatives,
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, truePositives + falseNegatives),
+    falsePositiveRate: ratio(falsePositives, falsePositives + trueNegatives),
+  };
+}
+
+/**
+ * Area under the ROC curve for "lower rating means rug", via the
+ * Mann-Whitney U statistic with tied ratings counted as half.
+ * `null` unless both classes are present.
+ */
+export function computeRocAuc(samples: BacktestSample[]): number | null {
+  const rugged = samples.filter((s) => s.rugged).length;
+  const survived = samples.length - rugged;
+  if (rugged === 0 || survived === 0) return null;
+
+  // Rank by rating descending, so a rug ranked high means a low rating
+  const sorted = [...samples].sort((a, b) => b.trustRating - a.trustRating);
+  let rankSum = 0;
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1].trustRating === sorted[i].trustRating) j++;
+    const averageRank = (i + j + 2) / 2;
+    for (let k = i; k <= j; k++) {
+      if (sorted[k].rugged) rankSum += averageRank;
+    }
+    i = j + 1;
+  }
+
+  return (rankSum - (rugged * (rugged + 1)) / 2) / (rugged * survived);
+}
+
+export function computeBandCalibration(samples: BacktestSample[]): BandCalibration[] {
+  return RATING_BANDS.map((band) => {
+    const inBand = samples.filter((s) => getRatingBand(s.trustRating) === band);
+    const ruggedCount = inBand.filter((s) => s.rugged).length;
+    return { band, count: inBand.length, ruggedCount, rugRate: ratio(ruggedCount, inBand.length) };
+  });
+}
+
+export function computeFlagLift(samples: BacktestSample[]): FlagLift[] {
+  const ruggedTotal = samples.filter((s) => s.rugged).length;
+  const baseRate = ratio(ruggedTotal, samples.length);
+  const codes = [...new Set(samples.flatMap((s) => s.flags))];
+
+  return codes
+    .map((code) => {
+      const flagged = samples.filter((s) => s.flags.includes(code));
+      const ruggedCount = flagged.filter((s) => s.rugged).length;
+      const rugRate = ruggedCount / flagged.length;
+      return {
+        code,
+        count: flagged.length,
+        ruggedCount,
+        rugRate,
+        lift: baseRate ? rugRate / baseRate : null,
+        coverage: ratio(ruggedCount, ruggedTotal),
+      };
+    })
+    .sort((a, b) => (b.lift ?? 0) - (a.lift ?? 0) || b.count - a.count);
+}
+
+export function computeBacktestReport(samples: BacktestSample[]): BacktestReport {
+  const ruggedCount = samples.filter((s) => s.rugged).length;
+  const sweep = Array.from({ length: 19 }, (_, i) =>
+    computeThresholdMetrics(samples, (i + 1) * 5)
+  );
+
+  let bestThreshold: number | null = null;
+  let bestScore = -Infinity;
+  for (const metrics of sweep) {
+    if (metrics.recall === null || metrics.falsePositiveRate === null) continue;
+    const youden = metrics.recall - metrics.falsePositiveRate;
+    if (youden > bestScore) {
+      bestScore = youden;
+      bestThreshold = metrics.threshold;
+    }
+  }
+
+  return {
+    sampleCount: samples.length,
+    ruggedCount,
+    baseRugRate: ratio(ruggedCount, samples.length),
+    rocAuc: computeRocAuc(samples),
+    cutoffs: [CAUTION_MIN_RATING, TRUSTED_MIN_RATING].map((t) =>
+      computeThresholdMetrics(samples, t)
+    ),
+    bands: computeBandCalibration(samples),
+    sweep,
+    bestThreshold,
+    flags: computeFlagLift(samples),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function pct(value: number | null): string {
+  return value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+}
+
+function table(rows: string[][]): string {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((r) => r[col].length)));
+  return rows
+    .map((row) => row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd())
+    .join("\n");
+}
+
+/** Plain-text report for the terminal. */
+export function formatBacktestReport(report: BacktestReport): string {
+  const thresholdRows = (metrics: ThresholdMetrics[]) =>
+    table([
+      ["cutoff", "precision", "recall", "FPR", "TP", "FP", "TN", "FN"],
+      ...metrics.map((m) => [
+        `< ${m.threshold}`,
+        pct(m.precision),
+        pct(m.recall),
+        pct(m.falsePositiveRate),
+        String(m.truePositives),
+        String(m.falsePositives),
+        String(m.trueNegatives),
+        String(m.falseNegatives),
+      ]),
+    ]);
+
+  return [
+    `Samples: ${report.sampleCount} (${report.ruggedCount} rugged, base rug rate ${pct(report.baseRugRate)})`,
+    `ROC AUC: ${report.rocAuc === null ? "-" : report.rocAuc.toFixed(3)}`,
+    "",
+    "Rating bands",
+    table([
+      ["band", "tokens", "rugged", "rug rate"],
+      ...report.bands.map((b) => [b.band, String(b.count), String(b.ruggedCount), pct(b.rugRate)]),
+    ]),
+    "",
+    "Band cutoffs",
+    thresholdRows(report.cutoffs),
+    "",
+    `Cutoff sweep (best recall - FPR at < ${report.bestThreshold ?? "-"})`,
+    thresholdRows(report.sweep),
+    "",
+    "Flag lift",
+    report.flags.length === 0
+      ? "No flags raised."
+      : table([
+          ["flag", "tokens", "rugged", "rug rate", "lift", "coverage"],
+          ...report.flags.map((f) => [
+            f.code,
+            String(f.count),
+            String(f.ruggedCount),
+            pct(f.rugRate),
+            f.lift === null ? "-" : `${f.lift.toFixed(2)}x`,
+            pct(f.coverage),
+          ]),
+        ]),
+  ].join("\n");
+}
@@ -0,0 +1,132 @@
+/**
+ * Upstream data source tracking.
+ *
+ * Service functions return `null` both when an upstream has no data for a
+ * token and when the request failed. The analyzer needs to tell those
+ * apart: "no DEX pairs" is a real (bad) signal, while "DexScreener timed
+ * out" means the liquidity component is a guess. Services expose
+ * `*Result` variants returning a `SourceResult`, and the analyzer records
+ * one status per source to derive data completeness and per-component
+ * confidence.
+ *
+ * Holders and market data come from a chain of interchangeable providers
+ * (see `@/services/dataProviders`); their source ids predate the chain and
+ * cover whichever provider answered, recorded in a `ProviderReport`.
+ *
+ * This module is pure data and safe to import from client components.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DataSourceId =
+  | "heliusHolders"
+  | "fairscaleDeployer"
+  | "fairscaleHolders"
+  | "dexscreener"
+  | "jupiter"
+  | "rugcheck";
+
+/**
+ * ok      — data returned
+ * empty   — the upstream answered but has no data for this token/wallet
+ * failed  — the request errored or timed out
+ * skipped — not queried (e.g. no deployer wallet to score)
+ */
+export type DataSourceStatus = "ok" | "empty" | "failed" | "skipped";
+
+export interface SourceResult<T> {
+  status: DataSourceStatus;
+  data: T | null;
+}
+
+export type DataSourceReport = Record<DataSourceId, DataSourceStatus>;
+
+export type ProviderId = "helius" | "solanaRpc" | "dexscreener" | "birdeye" | "jupiter";
+
+/** Provider that answered for each data kind; `null` when none did. */
+export interface ProviderReport {
+  metadata: ProviderId | null;
+  holders: ProviderId | null;
+  marketData: ProviderId | null;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const DATA_SOURCE_LABELS: Record<DataSourceId, string> = {
+  heliusHolders: "Token holders",
+  fairscaleDeployer: "FairScale (deployer)",
+  fairscaleHolders: "FairScale (holders)",
+  dexscreener: "Market data",
+  jupiter: "Jupiter",
+  rugcheck: "RugCheck",
+};
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  helius: "Helius",
+  solanaRpc: "Solana RPC",
+  dexscreener: "DexScreener",
+  birdeye: "Birdeye",
+  jupiter: "Jupiter",
+};
+
+/** First provider in each chain; anything else means a fallback answered. */
+export const PRIMARY_PROVIDERS: ProviderReport = {
+  metadata: "helius",
+  holders: "helius",
+  marketData: "dexscreener",
+};
+
+/**
+ * Below this overall confidence (0-1) the trust rating is capped under the
+ * "Trusted" band and shown as a range.
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** Highest rating a low-confidence analysis can receive. */
+export const LOW_CONFIDENCE_RATING_CAP = 59;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Wrap a value as a `SourceResult`, treating `null` as empty. */
+export function toSourceResult<T>(data: T | null): SourceResult<T> {
+  return { status: data === null ? "empty" : "ok", data };
+}
+
+/** Whether the upstream answered (with or without data). */
+export function isAnswered(status: DataSourceStatus): boolean {
+  return status === "ok" || status === "empty";
+}
+
+/**
+ * Percentage (0-100) of queried sources that answered. Skipped sources are
+ * left out; with nothing queried the result is 100.
+ */
+export function computeDataCompleteness(report: DataSourceReport): number {
+  const queried = Object.values(report).filter((s) => s !== "skipped");
+  if (queried.length === 0) return 100;
+  const answered = queried.filter(isAnswered).length;
+  return Math.round((answered / queried.length) * 100);
+}
+
+/** Sources that failed, for display. */
+export function getFailedSources(report: DataSourceReport): DataSourceId[] {
+  return (Object.keys(report) as DataSourceId[]).filter(
+    (id) => report[id] === "failed"
+  );
+}
+
+/** Data kinds answered by a fallback provider, for display. */
+export function getFallbackProviders(
+  report: ProviderReport
+): Array<{ kind: keyof ProviderReport; provider: ProviderId }> {
+  return (Object.keys(report) as Array<keyof ProviderReport>).flatMap((kind) => {
+    const provider = report[kind];
+    return provider && provider !== PRIMARY_PROVIDERS[kind] ? [{ kind, provider }] : [];
+  });
+}
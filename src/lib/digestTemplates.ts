@@ -0,0 +1,309 @@
+/**
+ * Watchlist digest email — the digest data and its HTML and plain-text
+ * templates.
+ *
+ * `@/services/digest` gathers a `WatchlistDigest` per subscriber (rating
+ * moves, new risk flags, deployer launches and reputation moves of
+ * watched wallets) and sends the rendered email. Both templates render
+ * the same sections from `getDigestSections`; the HTML version escapes
+ * every interpolated value and uses inline styles and tables only, since
+ * mail clients drop stylesheets. `renderDigestConfirmation` is the email
+ * that confirms a new digest address before any digest is sent to it.
+ *
+ * This module is pure logic and safe to import from client components.
+ */
+
+import type { DigestFrequency, FairScoreTier } from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DigestRatingMove {
+  mint: string;
+  name: string | null;
+  from: number;
+  to: number;
+}
+
+export interface DigestRiskFlagAlert {
+  mint: string;
+  name: string | null;
+  /** The alert's message, e.g. "New risk flag for X: Active Mint Authority". */
+  message: string;
+  createdAt: string;
+}
+
+export interface DigestLaunch {
+  deployer: string;
+  mint: string;
+  name: string | null;
+  symbol: string | null;
+  trustRating: number | null;
+  createdAt: string;
+}
+
+export interface DigestWalletMove {
+  wallet: string;
+  entityType: "wallet" | "deployer";
+  fromScore: number;
+  toScore: number;
+  fromTier: FairScoreTier | null;
+  toTier: FairScoreTier | null;
+}
+
+export interface WatchlistDigest {
+  wallet: string;
+  frequency: DigestFrequency;
+  periodStart: string;
+  periodEnd: string;
+  watched: { tokens: number; wallets: number; deployers: number };
+  ratingMoves: DigestRatingMove[];
+  riskFlags: DigestRiskFlagAlert[];
+  launches: DigestLaunch[];
+  walletMoves: DigestWalletMove[];
+  /** Base URL for links; `null` renders no links. */
+  appUrl: string | null;
+  unsubscribeUrl: string;
+}
+
+/** The email that confirms a digest address (double opt-in). */
+export interface DigestConfirmation {
+  wallet: string;
+  confirmUrl: string;
+}
+
+export interface DigestSection {
+  title: string;
+  items: Array<{ text: string; detail: string | null; href: string | null }>;
+  /** Items left out beyond `MAX_DIGEST_ITEMS`. */
+  more: number;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Items listed per section; the rest are counted as "and N more". */
+export const MAX_DIGEST_ITEMS = 15;
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+function formatDelta(from: number, to: number): string {
+  const delta = to - from;
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function link(appUrl: string | null, path: string): string | null {
+  return appUrl ? `${appUrl.replace(/\/$/, "")}${path}` : null;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** Total changes listed in the digest. */
+export function countDigestChanges(digest: WatchlistDigest): number {
+  return (
+    digest.ratingMoves.length +
+    digest.riskFlags.length +
+    digest.launches.length +
+    digest.walletMoves.length
+  );
+}
+
+function describePeriod(digest: WatchlistDigest): string {
+  const { tokens, wallets, deployers } = digest.watched;
+  return `${formatDate(digest.periodStart)} – ${formatDate(digest.periodEnd)} · ${plural(tokens, "token")}, ${plural(wallets, "wallet")}, ${plural(deployers, "deployer")} watched`;
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+function section<T>(
+  title: string,
+  entries: T[],
+  toItem: (entry: T) => DigestSection["items"][number]
+): DigestSection | null {
+  if (entries.length === 0) return null;
+  return {
+    title,
+    items: entries.slice(0, MAX_DIGEST_ITEMS).map(toItem),
+    more: Math.max(0, entries.length - MAX_DIGEST_ITEMS),
+  };
+}
+
+/** The non-empty sections of a digest, in display order. */
+export function getDigestSections(digest: WatchlistDigest): DigestSection[] {
+  const { appUrl } = digest;
+
+  return [
+    section("Trust rating moves", digest.ratingMoves, (move) => ({
+      text: `${move.name ?? shortAddress(move.mint)}: ${move.from} → ${move.to} (${formatDelta(move.from, move.to)})`,
+      detail: null,
+      href: link(appUrl, `/token/${move.mint}`),
+    })),
+    section("New risk flags", digest.riskFlags, (alert) => ({
+      text: alert.message,
+      detail: formatDate(alert.createdAt),
+      href: link(appUrl, `/token/${alert.mint}`),
+    })),
+    section("Deployer activity", digest.launches, (launch) => ({
+      text: `${shortAddress(launch.deployer)} launched ${launch.name ?? launch.symbol ?? shortAddress(launch.mint)}`,
+      detail: [
+        formatDate(launch.createdAt),
+        launch.trustRating !== null ? `trust rating ${launch.trustRating}` : null,
+      ].filter(Boolean).join(" · "),
+      href: link(appUrl, `/token/${launch.mint}`),
+    })),
+    section("Wallet reputation", digest.walletMoves, (move) => ({
+      text: `${move.entityType === "deployer" ? "Deployer" : "Wallet"} ${shortAddress(move.wallet)}: FairScore ${move.fromScore} → ${move.toScore} (${formatDelta(move.fromScore, move.toScore)})`,
+      detail: move.fromTier && move.toTier && move.fromTier !== move.toTier ? `Tier ${move.fromTier} → ${move.toTier}` : null,
+      href: link(appUrl, move.entityType === "deployer" ? `/deployer/${move.wallet}` : `/reputation/${move.wallet}`),
+    })),
+  ].filter((s): s is DigestSection => s !== null);
+}
+
+// ---------------------------------------------------------------------------
+// Templates
+// ---------------------------------------------------------------------------
+
+export function renderDigestSubject(digest: WatchlistDigest): string {
+  const changes = countDigestChanges(digest);
+  return `Your ${digest.frequency} TokenTrust digest: ${plural(changes, "watchlist change")}`;
+}
+
+export function renderDigestText(digest: WatchlistDigest): string {
+  const lines = [`TokenTrust ${digest.frequency} digest`, describePeriod(digest), ""];
+
+  for (const s of getDigestSections(digest)) {
+    lines.push(s.title.toUpperCase());
+    for (const item of s.items) {
+      lines.push(`- ${item.text}`);
+      if (item.detail) lines.push(`  ${item.detail}`);
+      if (item.href) lines.push(`  ${item.href}`);
+    }
+    if (s.more > 0) lines.push(`- and ${s.more} more`);
+    lines.push("");
+  }
+
+  lines.push(
+    "--",
+    `You get this email because wallet ${shortAddress(digest.wallet)} subscribed to the ${digest.frequency} TokenTrust digest.`,
+    `Unsubscribe: ${digest.unsubscribeUrl}`
+  );
+  return lines.join("\n");
+}
+
+export function renderDigestHtml(digest: WatchlistDigest): string {
+  const sections = getDigestSections(digest)
+    .map((s) => {
+      const items = s.items
+        .map((item) => {
+          const text = item.href
+            ? `<a href="${escapeHtml(item.href)}" style="color:#047857;text-decoration:none;">${escapeHtml(item.text)}</a>`
+            : escapeHtml(item.text);
+          const detail = item.detail
+            ? `<div style="color:#6b7280;font-size:12px;">${escapeHtml(item.detail)}</div>`
+            : "";
+          return `<tr><td style="padding:6px 0;border-bottom:1px solid #f3f4f6;font-size:14px;">${text}${detail}</td></tr>`;
+        })
+        .join("");
+      const more = s.more > 0
+        ? `<tr><td style="padding:6px 0;color:#6b7280;font-size:13px;">and ${s.more} more</td></tr>`
+        : "";
+      return `<h2 style="margin:24px 0 8px;font-size:15px;color:#111827;">${escapeHtml(s.title)}</h2>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${items}${more}</table>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(renderDigestSubject(digest))}</title></head>
+<body style="margin:0;padding:0;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center" style="padding:24px;">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;">
+<tr><td style="padding:24px;">
+<h1 style="margin:0;font-size:20px;color:#111827;">TokenTrust ${escapeHtml(digest.frequency)} digest</h1>
+<p style="margin:4px 0 0;color:#6b7280;font-size:13px;">${escapeHtml(describePeriod(digest))}</p>
+${sections}
+<p style="margin:32px 0 0;color:#9ca3af;font-size:12px;">You get this email because wallet ${escapeHtml(shortAddress(digest.wallet))} subscribed to the ${escapeHtml(digest.frequency)} TokenTrust digest.
+<a href="${escapeHtml(digest.unsubscribeUrl)}" style="color:#6b7280;">Unsubscribe</a></p>
+</td></tr>
+</table>
+</td></tr></table>
+</body>
+</html>`;
+}
+
+/** Subject, HTML and plain-text bodies of a digest email. */
+export function renderDigest(digest: WatchlistDigest): RenderedDigest {
+  return {
+    subject: renderDigestSubject(digest),
+    html: renderDigestHtml(digest),
+    text: renderDigestText(digest),
+  };
+}
+
+/** Subject, HTML and plain-text bodies of the address confirmation email. */
+export function renderDigestConfirmation(confirmation: DigestConfirmation): RenderedDigest {
+  const wallet = shortAddress(confirmation.wallet);
+  const subject = "Confirm your TokenTrust digest email";
+
+  return {
+    subject,
+    text: [
+      subject,
+      "",
+      `Wallet ${wallet} asked to send its TokenTrust watchlist digest to this address.`,
+      "Confirm to start receiving it:",
+      confirmation.confirmUrl,
+      "",
+      "--",
+      "If you didn't ask for this, ignore this email: nothing is sent until the address is confirmed.",
+    ].join("\n"),
+    html: `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:0;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center" style="padding:24px;">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;">
+<tr><td style="padding:24px;">
+<h1 style="margin:0;font-size:20px;color:#111827;">${escapeHtml(subject)}</h1>
+<p style="margin:12px 0 16px;color:#4b5563;font-size:14px;">Wallet ${escapeHtml(wallet)} asked to send its TokenTrust watchlist digest to this address.</p>
+<a href="${escapeHtml(confirmation.confirmUrl)}" style="display:inline-block;padding:8px 16px;border-radius:6px;background:#047857;color:#ffffff;font-size:14px;text-decoration:none;">Confirm email</a>
+<p style="margin:32px 0 0;color:#9ca3af;font-size:12px;">If you didn't ask for this, ignore this email: nothing is sent until the address is confirmed.</p>
+</td></tr>
+</table>
+</td></tr></table>
+</body>
+</html>`,
+  };
+}
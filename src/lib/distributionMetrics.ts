@@ -0,0 +1,92 @@
+/**
+ * Token distribution metrics.
+ *
+ * Standard concentration measures computed over a token's holder balances:
+ *   Gini coefficient     — inequality of balances (0 = equal, 1 = one holder)
+ *   Herfindahl-Hirschman — sum of squared shares (1/N = even, 1 = one holder)
+ *   Nakamoto coefficient — fewest holders that together control a majority
+ *
+ * Shares are normalized across the balances passed in, so callers decide
+ * which accounts count (e.g. excluding LP vaults).
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DistributionMetrics {
+  /** Gini coefficient of holder balances (0-1). */
+  gini: number;
+  /** Herfindahl-Hirschman index of holder shares (0-1). */
+  hhi: number;
+  /** Number of holders that together control more than half the balances. */
+  nakamotoCoefficient: number;
+  /** Number of holders the metrics were computed over. */
+  holderCount: number;
+  /** Whether the full holder set was available (vs. a capped sample). */
+  complete: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/**
+ * Gini coefficient over raw balances, using the sorted-rank formula
+ *   G = (2 * Σ i·x_i) / (n * Σ x_i) − (n + 1) / n
+ * with balances sorted ascending and ranks starting at 1.
+ */
+export function computeGini(amounts: number[]): number {
+  const sorted = amounts.filter((a) => a > 0).sort((a, b) => a - b);
+  const n = sorted.length;
+  if (n <= 1) return n === 1 ? 1 : 0;
+
+  const total = sorted.reduce((sum, a) => sum + a, 0);
+  const weighted = sorted.reduce((sum, a, i) => sum + (i + 1) * a, 0);
+
+  return Math.max(0, (2 * weighted) / (n * total) - (n + 1) / n);
+}
+
+/** Herfindahl-Hirschman index: sum of squared shares of the total. */
+export function computeHHI(amounts: number[]): number {
+  const total = amounts.reduce((sum, a) => sum + Math.max(0, a), 0);
+  if (total === 0) return 0;
+  return amounts.reduce((sum, a) => {
+    const share = Math.max(0, a) / total;
+    return sum + share * share;
+  }, 0);
+}
+
+/**
+ * Nakamoto coefficient: the minimum number of holders whose combined
+ * balances exceed `threshold` (default 50%) of the total.
+ */
+export function computeNakamotoCoefficient(
+  amounts: number[],
+  threshold: number = 0.5
+): number {
+  const sorted = amounts.filter((a) => a > 0).sort((a, b) => b - a);
+  const total = sorted.reduce((sum, a) => sum + a, 0);
+  if (total === 0) return 0;
+
+  let cumulative = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i];
+    if (cumulative / total > threshold) return i + 1;
+  }
+  return sorted.length;
+}
+
+/** Compute all distribution metrics over a set of holder balances. */
+export function computeDistributionMetrics(
+  amounts: number[],
+  complete: boolean
+): DistributionMetrics {
+  return {
+    gini: computeGini(amounts),
+    hhi: computeHHI(amounts),
+    nakamotoCoefficient: computeNakamotoCoefficient(amounts),
+    holderCount: amounts.filter((a) => a > 0).length,
+    complete,
+  };
+}
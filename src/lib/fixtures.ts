@@ -0,0 +1,251 @@
+/**
+ * Recorded HTTP fixtures — run the app and the analyzer without network
+ * access or API keys.
+ *
+ * Every upstream (Helius SDK, FairScale, DexScreener, Jupiter, RugCheck,
+ * Birdeye, plain RPC) goes through the global `fetch`, so fixture mode
+ * wraps it:
+ *   FIXTURE_MODE=record  — requests go to the network and each response is
+ *                          written to disk
+ *   FIXTURE_MODE=replay  — responses are served from disk; a request with
+ *                          no fixture fails like a network error
+ *
+ * Fixtures live in FIXTURE_DIR (default `./fixtures`) as one JSON file per
+ * request under `http/<host>/`. The file name hashes the method, URL and
+ * body with API keys stripped from the URL and JSON-RPC ids dropped, so a
+ * recording made with one key replays with any other (or none).
+ *
+ * In either mode `createServerSupabaseClient` returns the in-memory store
+ * from `@/lib/supabase/memory`, so caches start empty and every upstream
+ * call is recorded.
+ *
+ * IMPORTANT: Server-side only (uses the filesystem).
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type FixtureMode = "record" | "replay";
+
+interface FixtureRequest {
+  method: string;
+  url: string;
+  body: string | null;
+}
+
+interface FixtureFile {
+  request: { method: string; url: string; body: unknown };
+  response: {
+    status: number;
+    contentType: string | null;
+    /** Parsed JSON body, or the raw text for non-JSON responses. */
+    body: unknown;
+    json: boolean;
+  };
+  recordedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Query parameters that carry API keys and are left out of fixture keys. */
+const SECRET_PARAMS = /^api[-_]?key$/i;
+
+/** Statuses whose responses must not carry a body. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** Keys required by services before they call out; any value replays. */
+const REPLAY_PLACEHOLDER_ENV = ["HELIUS_API_KEY", "FAIRSCALE_API_KEY"] as const;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** The fixture mode selected by FIXTURE_MODE, or `null` for live data. */
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.FIXTURE_MODE;
+  return mode === "record" || mode === "replay" ? mode : null;
+}
+
+export function getFixtureDir(): string {
+  return process.env.FIXTURE_DIR ?? path.join(process.cwd(), "fixtures");
+}
+
+function redactUrl(raw: string): string {
+  const url = new URL(raw);
+  for (const key of [...url.searchParams.keys()]) {
+    if (SECRET_PARAMS.test(key)) url.searchParams.delete(key);
+  }
+  return url.toString();
+}
+
+/** JSON with sorted object keys, so equivalent bodies hash the same. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function parseJson(text: string | null): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Drop JSON-RPC ids (single or batched), which change between runs. */
+function withoutRpcIds(body: unknown): unknown {
+  const strip = (msg: unknown) => {
+    if (!msg || typeof msg !== "object" || !("jsonrpc" in msg)) return msg;
+    const rest = { ...(msg as Record<string, unknown>) };
+    delete rest.id;
+    return rest;
+  };
+  return Array.isArray(body) ? body.map(strip) : strip(body);
+}
+
+function fixturePath(request: FixtureRequest): string {
+  const url = redactUrl(request.url);
+  const json = parseJson(request.body);
+  const body = json !== undefined ? stableStringify(withoutRpcIds(json)) : (request.body ?? "");
+  const hash = createHash("sha256")
+    .update(`${request.method} ${url}\n${body}`)
+    .digest("hex")
+    .slice(0, 16);
+  return path.join(getFixtureDir(), "http", new URL(url).host, `${hash}.json`);
+}
+
+/** Give a replayed JSON-RPC response the ids of the live request. */
+function withRequestIds(responseBody: unknown, requestBody: string | null): unknown {
+  const request = parseJson(requestBody);
+  const idOf = (msg: unknown) =>
+    msg && typeof msg === "object" && "id" in msg ? (msg as { id: unknown }).id : undefined;
+  const setId = (msg: unknown, id: unknown) =>
+    msg && typeof msg === "object" && id !== undefined ? { ...msg, id } : msg;
+
+  if (Array.isArray(responseBody) && Array.isArray(request)) {
+    return responseBody.map((msg, i) => setId(msg, idOf(request[i])));
+  }
+  return setId(responseBody, idOf(request));
+}
+
+async function toFixtureRequest(
+  input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<FixtureRequest> {
+  if (input instanceof Request) {
+    return {
+      method: input.method.toUpperCase(),
+      url: input.url,
+      body: init?.body != null ? String(init.body) : await input.clone().text() || null,
+    };
+  }
+  return {
+    method: (init?.method ?? "GET").toUpperCase(),
+    url: input.toString(),
+    body: init?.body != null ? String(init.body) : null,
+  };
+}
+
+/**
+ * Rebuild a response from recorded parts. The body is already decoded, so
+ * transfer headers (encoding, length) are not carried over.
+ */
+function toResponse(status: number, contentType: string | null, body: string): Response {
+  return new Response(NULL_BODY_STATUSES.has(status) ? null : body, {
+    status,
+    headers: contentType ? { "content-type": contentType } : {},
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Record / replay
+// ---------------------------------------------------------------------------
+
+async function record(
+  liveFetch: typeof fetch,
+  request: FixtureRequest,
+  input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<Response> {
+  const response = await liveFetch(input, init);
+  const text = await response.text();
+  const json = parseJson(text);
+
+  const fixture: FixtureFile = {
+    request: {
+      method: request.method,
+      url: redactUrl(request.url),
+      body: parseJson(request.body) ?? request.body,
+    },
+    response: {
+      status: response.status,
+      contentType: response.headers.get("content-type"),
+      body: json ?? text,
+      json: json !== undefined,
+    },
+    recordedAt: new Date().toISOString(),
+  };
+
+  const file = fixturePath(request);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(fixture, null, 2));
+
+  return toResponse(fixture.response.status, fixture.response.contentType, text);
+}
+
+async function replay(request: FixtureRequest): Promise<Response> {
+  const file = fixturePath(request);
+  let fixture: FixtureFile;
+  try {
+    fixture = JSON.parse(await readFile(file, "utf8")) as FixtureFile;
+  } catch {
+    throw new TypeError(
+      `No fixture for ${request.method} ${redactUrl(request.url)} (expected ${file})`
+    );
+  }
+
+  const { response } = fixture;
+  const body = response.json
+    ? JSON.stringify(withRequestIds(response.body, request.body))
+    : String(response.body);
+  return toResponse(response.status, response.contentType, body);
+}
+
+let installed = false;
+
+/**
+ * Wrap the global `fetch` for the given fixture mode (FIXTURE_MODE by
+ * default). Does nothing for live mode or when already installed.
+ */
+export function installFixtureFetch(mode: FixtureMode | null = getFixtureMode()): void {
+  if (!mode || installed) return;
+  installed = true;
+
+  if (mode === "replay") {
+    for (const name of REPLAY_PLACEHOLDER_ENV) {
+      process.env[name] ??= "fixture";
+    }
+  }
+
+  const liveFetch = globalThis.fetch;
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = await toFixtureRequest(input, init);
+    return mode === "record"
+      ? record(liveFetch, request, input, init)
+      : replay(request);
+  };
+}
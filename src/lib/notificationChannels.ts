@@ -0,0 +1,202 @@
+/**
+ * Outbound notification channels.
+ *
+ * Besides the in-app bell, a user's alerts can be delivered to channels
+ * they configure (stored in `notification_channels`):
+ *
+ *   webhook   signed JSON POST to a public HTTPS endpoint
+ *   telegram  message from the user's own bot to a chat
+ *   discord   embed posted through a Discord channel webhook
+ *
+ * Each channel has filters — notification types and mints, empty meaning
+ * "all" — so a team can, say, route only risk flags for its own tokens to
+ * Discord. Delivery itself lives in `@/services/notificationDelivery`.
+ *
+ * This module is pure logic and safe to import from client components.
+ */
+
+import { getAlertRuleAddress, type AlertNotificationType } from "@/lib/alertRules";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type NotificationChannelKind = "webhook" | "telegram" | "discord";
+
+export interface WebhookChannelConfig {
+  url: string;
+  /** HMAC-SHA256 signing secret, generated when the channel is created. */
+  secret: string;
+}
+
+export interface TelegramChannelConfig {
+  botToken: string;
+  /** Numeric chat id or `@channelusername`. */
+  chatId: string;
+}
+
+export interface DiscordChannelConfig {
+  webhookUrl: string;
+}
+
+/** A channel kind together with its config. */
+export type NotificationChannelTarget =
+  | { kind: "webhook"; config: WebhookChannelConfig }
+  | { kind: "telegram"; config: TelegramChannelConfig }
+  | { kind: "discord"; config: DiscordChannelConfig };
+
+export interface NotificationChannelFilters {
+  /** Notification types to deliver; empty delivers every type. */
+  types: AlertNotificationType[];
+  /**
+   * Mints or watched addresses (e.g. a deployer, for its launch alerts) to
+   * deliver; empty delivers every mint.
+   */
+  mints: string[];
+}
+
+export type DeliveryEvent = "notification" | "test";
+
+/** What is sent to a channel; stored on the delivery so retries resend it as-is. */
+export interface DeliveryMessage {
+  event: DeliveryEvent;
+  /** `null` for test messages. */
+  notificationId: string | null;
+  type: AlertNotificationType | null;
+  mint: string | null;
+  tokenName: string | null;
+  message: string;
+  oldValue: number | null;
+  newValue: number | null;
+  /** Token page link, when the app URL is configured. */
+  url: string | null;
+  createdAt: string;
+}
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+/**
+ * A channel as returned to the browser: credentials are masked, except
+ * the webhook signing secret, which the API returns only on creation.
+ */
+export type PublicNotificationChannel = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  filters: NotificationChannelFilters;
+  created_at: string;
+} & (
+  | { kind: "webhook"; config: { url: string; secret: string } }
+  | { kind: "telegram"; config: { botToken: string; chatId: string } }
+  | { kind: "discord"; config: { webhookUrl: string } }
+);
+
+// ---------------------------------------------------------------------------
+// Channel kinds
+// ---------------------------------------------------------------------------
+
+export const NOTIFICATION_CHANNEL_KINDS: Record<
+  NotificationChannelKind,
+  { label: string; description: string }
+> = {
+  webhook: {
+    label: "Webhook",
+    description: "Signed JSON POST to your HTTPS endpoint",
+  },
+  telegram: {
+    label: "Telegram",
+    description: "Message from your bot to a chat or channel",
+  },
+  discord: {
+    label: "Discord",
+    description: "Embed posted through a channel webhook",
+  },
+};
+
+export const EMPTY_CHANNEL_FILTERS: NotificationChannelFilters = { types: [], mints: [] };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a notification passes a channel's filters. The mint filter
+ * matches the notification's mint or the address its rule watches.
+ */
+export function matchesChannelFilters(
+  filters: NotificationChannelFilters | null | undefined,
+  notification: { type: AlertNotificationType; mint: string; alert_rule_key?: string | null }
+): boolean {
+  if (!filters) return true;
+  if (filters.types.length > 0 && !filters.types.includes(notification.type)) return false;
+  if (filters.mints.length > 0) {
+    const watched = notification.alert_rule_key ? getAlertRuleAddress(notification.alert_rule_key) : null;
+    if (!filters.mints.includes(notification.mint) && !(watched && filters.mints.includes(watched))) return false;
+  }
+  return true;
+}
+
+/**
+ * Webhook targets must be HTTPS. Outside production, plain HTTP is also
+ * accepted for localhost so deliveries can be tested against a local
+ * receiver. The server additionally checks where the host resolves to
+ * (`@/lib/outboundAddress`).
+ */
+export function isAllowedWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol === "https:") return true;
+  return (
+    process.env.NODE_ENV !== "production" &&
+    url.protocol === "http:" &&
+    (url.hostname === "localhost" || url.hostname === "127.0.0.1" || url.hostname === "[::1]")
+  );
+}
+
+const DISCORD_WEBHOOK_PATTERN =
+  /^https:\/\/(?:(?:canary|ptb)\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/;
+
+export function isDiscordWebhookUrl(value: string): boolean {
+  return DISCORD_WEBHOOK_PATTERN.test(value);
+}
+
+/** `••••` plus the last 4 characters. */
+export function maskSecret(value: string): string {
+  return `••••${value.slice(-4)}`;
+}
+
+/** Mask a stored channel's credentials for the browser. */
+export function toPublicChannel(
+  channel: NotificationChannelTarget & {
+    id: string;
+    name: string;
+    enabled: boolean;
+    filters: NotificationChannelFilters | null;
+    created_at: string;
+  }
+): PublicNotificationChannel {
+  const base = {
+    id: channel.id,
+    name: channel.name,
+    enabled: channel.enabled,
+    filters: channel.filters ?? EMPTY_CHANNEL_FILTERS,
+    created_at: channel.created_at,
+  };
+
+  switch (channel.kind) {
+    case "webhook":
+      return { ...base, kind: "webhook", config: { url: channel.config.url, secret: maskSecret(channel.config.secret) } };
+    case "telegram":
+      return {
+        ...base,
+        kind: "telegram",
+        config: { botToken: maskSecret(channel.config.botToken), chatId: channel.config.chatId },
+      };
+    case "discord":
+      return { ...base, kind: "discord", config: { webhookUrl: maskSecret(channel.config.webhookUrl) } };
+  }
+}
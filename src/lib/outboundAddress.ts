@@ -0,0 +1,97 @@
+/**
+ * Address checks for outbound requests to user-supplied URLs (webhook
+ * channels).
+ *
+ * The server POSTs to whatever URL a user configures, so the host must not
+ * lead into our own network: hosts resolving to private, link-local,
+ * CGNAT, multicast or reserved ranges are refused. Loopback is refused in
+ * production and allowed elsewhere, so deliveries can be tried against a
+ * local receiver.
+ *
+ * `resolvesToAllowedAddress` validates a URL when a channel is created;
+ * `safeLookup` repeats the check on every connection, so a host cannot pass
+ * validation and later resolve (rebind) to an internal address.
+ *
+ * IMPORTANT: Server-side only (uses node:dns).
+ */
+
+import { lookup, promises as dns } from "node:dns";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+/** `code` of the error `safeLookup` fails with for a refused address. */
+export const BLOCKED_ADDRESS_ERROR = "ERR_BLOCKED_ADDRESS";
+
+const LOOPBACK = new BlockList();
+LOOPBACK.addSubnet("127.0.0.0", 8, "ipv4");
+LOOPBACK.addAddress("::1", "ipv6");
+
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // IPv4-mapped addresses are matched against the IPv4 ranges above
+  ["::", 128],
+  // NAT64 addresses can reach any IPv4 host
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, "ipv6");
+}
+
+/** Whether requests may go to `address` (an IP literal). */
+export function isAllowedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  const type = family === 6 ? "ipv6" : "ipv4";
+  if (LOOPBACK.check(address, type)) return process.env.NODE_ENV !== "production";
+  return !BLOCKED.check(address, type);
+}
+
+/** Whether every address `url`'s host resolves to is allowed. */
+export async function resolvesToAllowedAddress(url: string): Promise<boolean> {
+  try {
+    // IPv6 literals keep their brackets in `hostname`
+    const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+    const addresses = await dns.lookup(hostname, { all: true });
+    return addresses.length > 0 && addresses.every((a) => isAllowedAddress(a.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * `dns.lookup` for `http.request({ lookup })` that fails with
+ * `BLOCKED_ADDRESS_ERROR` when the host resolves to an address that is not
+ * allowed.
+ */
+export const safeLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+
+    const blocked = addresses.find((a) => !isAllowedAddress(a.address));
+    if (addresses.length === 0 || blocked) {
+      const refused = Object.assign(
+        new Error(`${hostname} resolves to a blocked address`),
+        { code: BLOCKED_ADDRESS_ERROR }
+      );
+      return callback(refused, "");
+    }
+
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -0,0 +1,35 @@
+/**
+ * Trust rating bands — the "Trusted / Caution / Risky" cutoffs shown on
+ * token cards, the rating gauge and the token graph.
+ *
+ * This module is pure data and safe to import from client components.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RatingBand = "Trusted" | "Caution" | "Risky";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Lowest rating that counts as "Trusted". */
+export const TRUSTED_MIN_RATING = 60;
+
+/** Lowest rating that counts as "Caution"; anything below is "Risky". */
+export const CAUTION_MIN_RATING = 30;
+
+/** Bands from lowest to highest rating. */
+export const RATING_BANDS: RatingBand[] = ["Risky", "Caution", "Trusted"];
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+export function getRatingBand(rating: number): RatingBand {
+  if (rating >= TRUSTED_MIN_RATING) return "Trusted";
+  if (rating >= CAUTION_MIN_RATING) return "Caution";
+  return "Risky";
+}
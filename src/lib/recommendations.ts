@@ -1,5 +1,6 @@
 import type { FairScoreData, FairScoreTier } from "@/types/database";
 import type { TrustAnalysis } from "@/services/tokenAnalyzer";
+import { hasRiskFlag } from "@/lib/riskFlagCatalog";
 
 export interface Recommendation {
   id: string;
@@ -108,11 +109,7 @@ export function generateRecommendations(
     });
   }
 
-  if (
-    tokens?.some((t) =>
-      t.riskFlags.some((f) => f.label === "Active Mint Authority")
-    )
-  ) {
+  if (tokens?.some((t) => hasRiskFlag(t.riskFlags, "ACTIVE_MINT_AUTHORITY"))) {
     recs.push({
       id: "mint-authority",
       priority: "medium",
@@ -123,11 +120,7 @@ export function generateRecommendations(
     });
   }
 
-  if (
-    tokens?.some((t) =>
-      t.riskFlags.some((f) => f.label === "Active Freeze Authority")
-    )
-  ) {
+  if (tokens?.some((t) => hasRiskFlag(t.riskFlags, "ACTIVE_FREEZE_AUTHORITY"))) {
     recs.push({
       id: "freeze-authority",
       priority: "low",
@@ -207,7 +200,7 @@ export function generateTokenTips(analysis: TrustAnalysis): Recommendation[] {
       priority: analysis.topHolderConcentration > 80 ? "high" : "medium",
       title: "Improve token distribution",
       description:
-        `The top holder owns ${analysis.topHolderConcentration.toFixed(1)}% of sampled supply. Broader distribution across more wallets would significantly improve trust.`,
+        `The top holder owns ${analysis.topHolderConcentration.toFixed(1)}% of the supply. Broader distribution across more wallets would significantly improve trust.`,
       category: "distribution",
     });
   }
@@ -225,7 +218,7 @@ export function generateTokenTips(analysis: TrustAnalysis): Recommendation[] {
   }
 
   // Mint authority
-  if (analysis.riskFlags.some((f) => f.label === "Active Mint Authority")) {
+  if (hasRiskFlag(analysis.riskFlags, "ACTIVE_MINT_AUTHORITY")) {
     tips.push({
       id: "mint-authority",
       priority: "medium",
@@ -237,7 +230,7 @@ export function generateTokenTips(analysis: TrustAnalysis): Recommendation[] {
   }
 
   // Freeze authority
-  if (analysis.riskFlags.some((f) => f.label === "Active Freeze Authority")) {
+  if (hasRiskFlag(analysis.riskFlags, "ACTIVE_FREEZE_AUTHORITY")) {
     tips.push({
       id: "freeze-authority",
       priority: "low",
@@ -0,0 +1,151 @@
+/**
+ * Risk flag catalog.
+ *
+ * Every risk flag the token analyzer can raise is identified by a stable
+ * code. The catalog maps each code to its display label, default severity,
+ * category and documentation anchor, so consumers (recommendations,
+ * notifications, UI) match on codes rather than on English labels.
+ *
+ * Codes are persisted in `token_analyses.risk_flags` — never rename one;
+ * add a new code and retire the old one instead.
+ *
+ * This module is pure data and safe to import from client components.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RiskFlagSeverity = "low" | "medium" | "high" | "critical";
+
+export type RiskFlagCategory =
+  | "deployer"
+  | "distribution"
+  | "authority"
+  | "liquidity"
+  | "extension"
+  | "external";
+
+export type RiskFlagCode =
+  | "LOW_DEPLOYER_SCORE"
+  | "DEPLOYER_RUG_HISTORY"
+  | "SERIAL_DEPLOYER"
+  | "CONCENTRATED_HOLDINGS"
+  | "SIGNIFICANT_CONCENTRATION"
+  | "LOW_HOLDER_COUNT"
+  | "ACTIVE_MINT_AUTHORITY"
+  | "ACTIVE_FREEZE_AUTHORITY"
+  | "CONNECTED_WALLETS"
+  | "BUNDLED_LAUNCH"
+  | "CREATOR_HOLDS_MAJORITY"
+  | "CREATOR_HOLDS_SUPPLY"
+  | "TOP_5_CONCENTRATION"
+  | "TOP_10_CONCENTRATION"
+  | "NO_DEX_LIQUIDITY"
+  | "LOW_LIQUIDITY"
+  | "SINGLE_DEX"
+  | "UNLOCKED_LP_HELD_BY_DEPLOYER"
+  | "SELL_SIMULATION_FAILED"
+  | "MUTABLE_METADATA"
+  | "RUGCHECK_DANGER"
+  | "RUGCHECK_WARNINGS"
+  | "PERMANENT_DELEGATE"
+  | "HIGH_TRANSFER_FEE"
+  | "TRANSFER_FEE"
+  | "TRANSFER_HOOK"
+  | "NON_TRANSFERABLE"
+  | "DEFAULT_ACCOUNT_FROZEN"
+  | "CONFIDENTIAL_TRANSFERS";
+
+export interface RiskFlagDefinition {
+  code: RiskFlagCode;
+  /** Display label shown in the UI. */
+  label: string;
+  /** Default severity; some flags are raised at a lower or higher level. */
+  severity: RiskFlagSeverity;
+  category: RiskFlagCategory;
+  /** Link to the flag's entry in docs/risk-flags.md. */
+  docUrl: string;
+}
+
+// ---------------------------------------------------------------------------
+// Catalog
+// ---------------------------------------------------------------------------
+
+const DOCS_BASE_URL =
+  "https://github.com/FairScaleOrg/tokentrust/blob/main/docs/risk-flags.md";
+
+function define(
+  code: RiskFlagCode,
+  label: string,
+  severity: RiskFlagSeverity,
+  category: RiskFlagCategory
+): RiskFlagDefinition {
+  return {
+    code,
+    label,
+    severity,
+    category,
+    docUrl: `${DOCS_BASE_URL}#${code.toLowerCase()}`,
+  };
+}
+
+export const RISK_FLAG_CATALOG: Record<RiskFlagCode, RiskFlagDefinition> = {
+  LOW_DEPLOYER_SCORE: define("LOW_DEPLOYER_SCORE", "Low Deployer Score", "medium", "deployer"),
+  DEPLOYER_RUG_HISTORY: define("DEPLOYER_RUG_HISTORY", "Deployer Rug History", "high", "deployer"),
+  SERIAL_DEPLOYER: define("SERIAL_DEPLOYER", "Serial Deployer", "medium", "deployer"),
+  CONCENTRATED_HOLDINGS: define("CONCENTRATED_HOLDINGS", "Concentrated Holdings", "high", "distribution"),
+  SIGNIFICANT_CONCENTRATION: define("SIGNIFICANT_CONCENTRATION", "Significant Concentration", "low", "distribution"),
+  LOW_HOLDER_COUNT: define("LOW_HOLDER_COUNT", "Low Holder Count", "medium", "distribution"),
+  ACTIVE_MINT_AUTHORITY: define("ACTIVE_MINT_AUTHORITY", "Active Mint Authority", "low", "authority"),
+  ACTIVE_FREEZE_AUTHORITY: define("ACTIVE_FREEZE_AUTHORITY", "Active Freeze Authority", "low", "authority"),
+  CONNECTED_WALLETS: define("CONNECTED_WALLETS", "Connected Wallets", "high", "distribution"),
+  BUNDLED_LAUNCH: define("BUNDLED_LAUNCH", "Bundled Launch", "high", "distribution"),
+  CREATOR_HOLDS_MAJORITY: define("CREATOR_HOLDS_MAJORITY", "Creator Holds Majority", "high", "deployer"),
+  CREATOR_HOLDS_SUPPLY: define("CREATOR_HOLDS_SUPPLY", "Creator Holds Supply", "medium", "deployer"),
+  TOP_5_CONCENTRATION: define("TOP_5_CONCENTRATION", "Top 5 Concentration", "high", "distribution"),
+  TOP_10_CONCENTRATION: define("TOP_10_CONCENTRATION", "Top 10 Concentration", "medium", "distribution"),
+  NO_DEX_LIQUIDITY: define("NO_DEX_LIQUIDITY", "No DEX Liquidity", "high", "liquidity"),
+  LOW_LIQUIDITY: define("LOW_LIQUIDITY", "Low Liquidity", "medium", "liquidity"),
+  SINGLE_DEX: define("SINGLE_DEX", "Single DEX", "low", "liquidity"),
+  UNLOCKED_LP_HELD_BY_DEPLOYER: define("UNLOCKED_LP_HELD_BY_DEPLOYER", "Unlocked LP Held by Deployer", "critical", "liquidity"),
+  SELL_SIMULATION_FAILED: define("SELL_SIMULATION_FAILED", "Sell Simulation Failed", "critical", "liquidity"),
+  MUTABLE_METADATA: define("MUTABLE_METADATA", "Mutable Metadata", "low", "authority"),
+  RUGCHECK_DANGER: define("RUGCHECK_DANGER", "RugCheck: Danger", "high", "external"),
+  RUGCHECK_WARNINGS: define("RUGCHECK_WARNINGS", "RugCheck: Multiple Warnings", "medium", "external"),
+  PERMANENT_DELEGATE: define("PERMANENT_DELEGATE", "Permanent Delegate", "critical", "extension"),
+  HIGH_TRANSFER_FEE: define("HIGH_TRANSFER_FEE", "High Transfer Fee", "high", "extension"),
+  TRANSFER_FEE: define("TRANSFER_FEE", "Transfer Fee", "low", "extension"),
+  TRANSFER_HOOK: define("TRANSFER_HOOK", "Transfer Hook", "high", "extension"),
+  NON_TRANSFERABLE: define("NON_TRANSFERABLE", "Non-Transferable", "high", "extension"),
+  DEFAULT_ACCOUNT_FROZEN: define("DEFAULT_ACCOUNT_FROZEN", "Frozen by Default", "high", "extension"),
+  CONFIDENTIAL_TRANSFERS: define("CONFIDENTIAL_TRANSFERS", "Confidential Transfers", "medium", "extension"),
+};
+
+/** All risk flag codes, in catalog order. */
+export const RISK_FLAG_CODES = Object.keys(RISK_FLAG_CATALOG) as RiskFlagCode[];
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a catalog entry by code. Returns `null` for unknown codes, e.g.
+ * flags persisted before the catalog existed.
+ */
+export function getRiskFlagDefinition(
+  code: string | null | undefined
+): RiskFlagDefinition | null {
+  if (code && Object.hasOwn(RISK_FLAG_CATALOG, code)) {
+    return RISK_FLAG_CATALOG[code as RiskFlagCode];
+  }
+  return null;
+}
+
+/** Whether a list of flags contains the given code. */
+export function hasRiskFlag(
+  flags: ReadonlyArray<{ code?: string }> | null | undefined,
+  code: RiskFlagCode
+): boolean {
+  return !!flags?.some((f) => f.code === code);
+}
@@ -0,0 +1,176 @@
+/**
+ * Trust rating scoring profiles.
+ *
+ * A scoring profile is a named, versioned set of weights applied to the
+ * six trust rating components computed by the token analyzer. Different
+ * asset classes deserve different emphasis — a memecoin lives or dies by
+ * distribution and safety signals, while a stablecoin or LST is mostly a
+ * question of issuer reputation and liquidity depth.
+ *
+ * Bump a profile's `version` whenever its weights change so stored
+ * analyses can be traced back to the exact weights that produced them.
+ *
+ * This module is pure data and safe to import from client components.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Weight factors for each trust rating component (must sum to 1.0). */
+export interface ScoringWeights {
+  deployerScore: number;
+  holderQuality: number;
+  distribution: number;
+  age: number;
+  patterns: number;
+  liquidity: number;
+}
+
+export type ScoringProfileId =
+  | "default"
+  | "memecoin"
+  | "blue-chip"
+  | "stablecoin"
+  | "lst";
+
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  /** Incremented whenever the weights change. */
+  version: number;
+  /** Human-readable profile name. */
+  name: string;
+  /** Short description of what the profile is tuned for. */
+  description: string;
+  weights: ScoringWeights;
+}
+
+/** Profile identity stored alongside every analysis. */
+export interface ScoringProfileRef {
+  id: ScoringProfileId;
+  version: number;
+}
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_SCORING_PROFILE_ID: ScoringProfileId = "default";
+
+export const SCORING_PROFILES: Record<ScoringProfileId, ScoringProfile> = {
+  default: {
+    id: "default",
+    version: 1,
+    name: "Default",
+    description: "Balanced weights suitable for most tokens.",
+    weights: {
+      deployerScore: 0.15,
+      holderQuality: 0.25,
+      distribution: 0.2,
+      age: 0.1,
+      patterns: 0.2,
+      liquidity: 0.1,
+    },
+  },
+  memecoin: {
+    id: "memecoin",
+    version: 1,
+    name: "Memecoin",
+    description:
+      "Emphasizes distribution, safety signals and liquidity for community tokens.",
+    weights: {
+      deployerScore: 0.15,
+      holderQuality: 0.15,
+      distribution: 0.25,
+      age: 0.05,
+      patterns: 0.25,
+      liquidity: 0.15,
+    },
+  },
+  "blue-chip": {
+    id: "blue-chip",
+    version: 1,
+    name: "Blue Chip",
+    description:
+      "Emphasizes holder quality and liquidity depth for established tokens.",
+    weights: {
+      deployerScore: 0.1,
+      holderQuality: 0.25,
+      distribution: 0.15,
+      age: 0.1,
+      patterns: 0.15,
+      liquidity: 0.25,
+    },
+  },
+  stablecoin: {
+    id: "stablecoin",
+    version: 1,
+    name: "Stablecoin",
+    description:
+      "Emphasizes issuer reputation and liquidity; concentrated treasuries are expected.",
+    weights: {
+      deployerScore: 0.2,
+      holderQuality: 0.15,
+      distribution: 0.05,
+      age: 0.1,
+      patterns: 0.25,
+      liquidity: 0.25,
+    },
+  },
+  lst: {
+    id: "lst",
+    version: 1,
+    name: "Liquid Staking Token",
+    description:
+      "Balances issuer reputation, holder quality and redemption liquidity.",
+    weights: {
+      deployerScore: 0.2,
+      holderQuality: 0.2,
+      distribution: 0.1,
+      age: 0.1,
+      patterns: 0.2,
+      liquidity: 0.2,
+    },
+  },
+};
+
+/** All profile ids, in display order. Useful for request validation. */
+export const SCORING_PROFILE_IDS = Object.keys(SCORING_PROFILES) as [
+  ScoringProfileId,
+  ...ScoringProfileId[],
+];
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a scoring profile by id, falling back to the default profile
+ * for unknown or missing ids.
+ */
+export function getScoringProfile(id?: string | null): ScoringProfile {
+  if (id && Object.hasOwn(SCORING_PROFILES, id)) {
+    return SCORING_PROFILES[id as ScoringProfileId];
+  }
+  return SCORING_PROFILES[DEFAULT_SCORING_PROFILE_ID];
+}
+
+// ---------------------------------------------------------------------------
+// Component colors (Tailwind classes)
+// ---------------------------------------------------------------------------
+
+const COMPONENT_COLOR_MAP: Record<keyof ScoringWeights, string> = {
+  deployerScore: "bg-violet-500",
+  holderQuality: "bg-sky-500",
+  distribution: "bg-emerald-500",
+  age: "bg-amber-500",
+  patterns: "bg-rose-500",
+  liquidity: "bg-teal-500",
+};
+
+/**
+ * Get the Tailwind background class used to chart a trust rating component.
+ */
+export function getComponentColor(key: keyof ScoringWeights): string {
+  return COMPONENT_COLOR_MAP[key];
+}
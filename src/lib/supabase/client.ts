@@ -29,3 +29,30 @@ export function getSupabaseClient(): SupabaseClient {
 
   return clientInstance;
 }
+
+/**
+ * Create a client-side Supabase client that authenticates with tokens from
+ * `getAccessToken` instead of the anon key, for Realtime subscriptions to
+ * rows RLS scopes to the signed-in wallet (see
+ * `/api/notifications/realtime-token`).
+ *
+ * Realtime calls `getAccessToken` when it connects and on every heartbeat,
+ * so the callback should cache its token until shortly before it expires.
+ * Not a singleton: each subscriber owns its client and disconnects it.
+ */
+export function createWalletSupabaseClient(
+  getAccessToken: () => Promise<string | null>
+): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl) {
+    throw new Error("Missing environment variable: NEXT_PUBLIC_SUPABASE_URL");
+  }
+
+  if (!supabaseAnonKey) {
+    throw new Error("Missing environment variable: NEXT_PUBLIC_SUPABASE_ANON_KEY");
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, { accessToken: getAccessToken });
+}
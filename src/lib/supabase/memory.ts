@@ -0,0 +1,293 @@
+/**
+ * In-memory stand-in for the server Supabase client, used in fixture mode
+ * (see `@/lib/fixtures`) so the analyzer runs without a Supabase project,
+ * and by tests, which turn it on with `enableMemoryStore`.
+ *
+ * Implements the query-builder subset the services use — `select`,
+ * `insert`, `upsert` (with `onConflict`), `update`, `delete`, the
+ * `eq`/`neq`/`gt`/`gte`/`lt`/`lte`/`in`/`is` filters, `not` with `is`,
+ * `order`, `limit`, `single` and `maybeSingle` — over plain arrays of
+ * rows. Joins, RPCs, auth and storage are not supported.
+ *
+ * Tables are created on first use and shared by every client in the
+ * process. Inserted rows get an `id` and `created_at` (and `recorded_at`
+ * for `*_history` tables) when missing, mirroring the column defaults.
+ *
+ * IMPORTANT: Never import this module from client-side code.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type Row = Record<string, unknown>;
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string; code: string } | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+type Operation = "select" | "insert" | "upsert" | "update" | "delete";
+
+const tables = new Map<string, Row[]>();
+
+let enabled = false;
+
+/**
+ * Serve `createServerSupabaseClient` from the memory store whatever
+ * FIXTURE_MODE says. For tests; pair with `disableMemoryStore`.
+ */
+export function enableMemoryStore(): void {
+  enabled = true;
+}
+
+export function disableMemoryStore(): void {
+  enabled = false;
+}
+
+/** Whether `enableMemoryStore` is in effect. */
+export function isMemoryStoreEnabled(): boolean {
+  return enabled;
+}
+
+function getTable(name: string): Row[] {
+  let table = tables.get(name);
+  if (!table) {
+    table = [];
+    tables.set(name, table);
+  }
+  return table;
+}
+
+/** Clear every table (between tests or fixture runs). */
+export function resetMemoryStore(): void {
+  tables.clear();
+}
+
+/** Rows currently stored in `name`, for inspection and seeding. */
+export function getMemoryTable(name: string): Row[] {
+  return getTable(name);
+}
+
+function withDefaults(table: string, row: Row): Row {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    created_at: now,
+    ...(table.endsWith("_history") ? { recorded_at: now } : {}),
+    ...structuredClone(row),
+  };
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === "*") return structuredClone(row);
+  const picked: Row = {};
+  for (const column of columns.split(",").map((c) => c.trim()).filter(Boolean)) {
+    picked[column] = structuredClone(row[column] ?? null);
+  }
+  return picked;
+}
+
+class MemoryQuery implements PromiseLike<QueryResult> {
+  private operation: Operation = "select";
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private conflictColumns = ["id"];
+  private columns = "*";
+  private returning = false;
+  private filters: Array<(row: Row) => boolean> = [];
+  private orders: Array<{ column: string; ascending: boolean }> = [];
+  private limitCount: number | null = null;
+  private singleMode: "single" | "maybe" | null = null;
+
+  constructor(private readonly table: string) {}
+
+  select(columns: string = "*"): this {
+    this.columns = columns;
+    if (this.operation !== "select") this.returning = true;
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.operation = "insert";
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.operation = "upsert";
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    if (options.onConflict) {
+      this.conflictColumns = options.onConflict.split(",").map((c) => c.trim());
+    }
+    return this;
+  }
+
+  update(patch: Row): this {
+    this.operation = "update";
+    this.patch = patch;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where((row) => row[column] === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where((row) => row[column] !== value);
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) > 0 && row[column] != null);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) >= 0 && row[column] != null);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) < 0 && row[column] != null);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where((row) => compare(row[column], value) <= 0 && row[column] != null);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where((row) => values.includes(row[column]));
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.where((row) => (row[column] ?? null) === value);
+  }
+
+  not(column: string, operator: "is", value: null | boolean): this {
+    return this.where((row) => (row[column] ?? null) !== value);
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleMode = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleMode = "maybe";
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private where(predicate: (row: Row) => boolean): this {
+    this.filters.push(predicate);
+    return this;
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every((f) => f(row));
+  }
+
+  private execute(): QueryResult {
+    const table = getTable(this.table);
+    let rows: Row[];
+
+    switch (this.operation) {
+      case "select":
+        rows = table.filter((row) => this.matches(row));
+        break;
+      case "insert":
+        rows = this.payload.map((row) => withDefaults(this.table, row));
+        table.push(...rows);
+        break;
+      case "upsert":
+        rows = this.payload.map((row) => {
+          const index = table.findIndex((existing) =>
+            this.conflictColumns.every((c) => existing[c] === row[c])
+          );
+          if (index === -1) {
+            const inserted = withDefaults(this.table, row);
+            table.push(inserted);
+            return inserted;
+          }
+          table[index] = { ...table[index], ...structuredClone(row) };
+          return table[index];
+        });
+        break;
+      case "update":
+        rows = table.filter((row) => this.matches(row));
+        for (const row of rows) Object.assign(row, structuredClone(this.patch));
+        break;
+      case "delete":
+        rows = table.filter((row) => this.matches(row));
+        tables.set(this.table, table.filter((row) => !rows.includes(row)));
+        break;
+    }
+
+    if (this.operation !== "select" && !this.returning) {
+      return { data: null, error: null, count: null, status: 201, statusText: "Created" };
+    }
+
+    for (const { column, ascending } of [...this.orders].reverse()) {
+      rows = [...rows].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+    if (this.limitCount !== null) rows = rows.slice(0, this.limitCount);
+    const data = rows.map((row) => project(row, this.columns));
+
+    if (this.singleMode) {
+      if (data.length > 1 || (data.length === 0 && this.singleMode === "single")) {
+        return {
+          data: null,
+          error: {
+            message: `JSON object requested, ${data.length} rows returned`,
+            code: "PGRST116",
+          },
+          count: null,
+          status: 406,
+          statusText: "Not Acceptable",
+        };
+      }
+      return { data: data[0] ?? null, error: null, count: null, status: 200, statusText: "OK" };
+    }
+
+    return { data, error: null, count: data.length, status: 200, statusText: "OK" };
+  }
+}
+
+/**
+ * Create a client backed by the shared in-memory tables. Typed as a
+ * `SupabaseClient` so callers need no changes; unsupported methods throw.
+ */
+export function createMemorySupabaseClient(): SupabaseClient {
+  return {
+    from: (table: string) => new MemoryQuery(table),
+  } as unknown as SupabaseClient;
+}
@@ -0,0 +1,49 @@
+/**
+ * Supabase access tokens for Realtime subscriptions of a signed-in wallet.
+ *
+ * Wallets sign in through NextAuth, not Supabase Auth, so Supabase has no
+ * session of its own. Instead the server mints a short-lived JWT signed
+ * with the project's JWT secret (HS256) that carries the wallet in a
+ * `wallet` claim; RLS policies compare it with `auth.jwt() ->> 'wallet'`
+ * (see the 20260314 migration on `notifications`).
+ *
+ * IMPORTANT: Server-side only (uses node:crypto and SUPABASE_JWT_SECRET).
+ */
+
+import { createHmac } from "node:crypto";
+
+/** Lifetime of a token; the client fetches a new one before it expires. */
+export const REALTIME_TOKEN_TTL_SECONDS = 60 * 60;
+
+export interface RealtimeToken {
+  token: string;
+  /** Expiry as unix seconds (the `exp` claim). */
+  expiresAt: number;
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/** A Supabase `authenticated` role JWT for `wallet`. */
+export function createRealtimeToken(wallet: string, now: number = Date.now()): RealtimeToken {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) throw new Error("Missing environment variable: SUPABASE_JWT_SECRET");
+
+  const issuedAt = Math.floor(now / 1000);
+  const expiresAt = issuedAt + REALTIME_TOKEN_TTL_SECONDS;
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      sub: wallet,
+      wallet,
+      role: "authenticated",
+      aud: "authenticated",
+      iat: issuedAt,
+      exp: expiresAt,
+    })
+  );
+  const signature = base64url(createHmac("sha256", secret).update(`${header}.${payload}`).digest());
+
+  return { token: `${header}.${payload}.${signature}`, expiresAt };
+}
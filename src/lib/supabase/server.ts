@@ -1,15 +1,21 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { getFixtureMode } from "@/lib/fixtures";
+import { createMemorySupabaseClient, isMemoryStoreEnabled } from "@/lib/supabase/memory";
 
 /**
  * Create a server-side Supabase client.
  *
  * Prefers the service role key (bypasses RLS) when available.
  * Falls back to the anon key for read-only operations when the
- * service role key is not configured.
+ * service role key is not configured. In fixture mode (FIXTURE_MODE set),
+ * or once a test calls `enableMemoryStore`, returns the in-memory store
+ * instead, so no Supabase project is needed.
  *
  * IMPORTANT: Never import this module from client-side code.
  */
 export function createServerSupabaseClient(): SupabaseClient {
+  if (getFixtureMode() || isMemoryStoreEnabled()) return createMemorySupabaseClient();
+
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
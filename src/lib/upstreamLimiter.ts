@@ -0,0 +1,389 @@
+/**
+ * Upstream request budgets — one token bucket and concurrency pool per
+ * external API, shared by every request in the process.
+ *
+ * `installUpstreamLimiter` wraps the global `fetch` (like fixture mode, so
+ * the Helius SDK is covered too) and routes each request by host:
+ *   helius       *.helius-rpc.com, *.helius.xyz
+ *   fairscale    api.fairscale.xyz
+ *   dexscreener  api.dexscreener.com
+ *   rugcheck     api.rugcheck.xyz
+ *   jupiter      *.jup.ag
+ *   birdeye      BIRDEYE_API_URL host (public-api.birdeye.so)
+ *   solanaRpc    SOLANA_RPC_URL host, when not Helius
+ * Other hosts (Supabase, PostHog, ...) are not limited.
+ *
+ * A request waits for a free slot and a token, so bursts queue instead of
+ * hitting the upstream at once. 429 and 5xx responses (and network errors)
+ * are retried with jittered exponential backoff, honoring `Retry-After`;
+ * a 429 also pauses the whole upstream so queued requests back off too.
+ * Per-upstream counters are available from `getUpstreamMetrics`.
+ *
+ * Budgets default to the free plans and can be raised with
+ * RATE_LIMIT_<UPSTREAM>_RPS (e.g. RATE_LIMIT_HELIUS_RPS=50).
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type UpstreamId =
+  | "helius"
+  | "fairscale"
+  | "dexscreener"
+  | "rugcheck"
+  | "jupiter"
+  | "birdeye"
+  | "solanaRpc";
+
+export interface UpstreamLimit {
+  /** Sustained request rate (token refill per second). */
+  requestsPerSecond: number;
+  /** Bucket size: requests allowed back to back after an idle period. */
+  burst: number;
+  /** Requests in flight at once. */
+  maxConcurrent: number;
+}
+
+export interface UpstreamMetrics {
+  /** Requests sent to the upstream, retries included. */
+  requests: number;
+  retries: number;
+  /** 429 responses received. */
+  throttled: number;
+  /** 5xx responses and network errors. */
+  errors: number;
+  /** Requests that still failed after the last retry. */
+  exhausted: number;
+  /** Requests that had to wait for a slot or token. */
+  delayed: number;
+  waitMsTotal: number;
+  waitMsMax: number;
+  /** Requests currently waiting. */
+  queued: number;
+  maxQueued: number;
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt. Default 3. */
+  maxRetries?: number;
+  /** First backoff ceiling; doubles per retry. Default 500ms. */
+  baseDelayMs?: number;
+  /** Longest single backoff. Default 10s. */
+  maxDelayMs?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_LIMITS: Record<UpstreamId, UpstreamLimit> = {
+  helius: { requestsPerSecond: 10, burst: 10, maxConcurrent: 8 },
+  fairscale: { requestsPerSecond: 5, burst: 10, maxConcurrent: 5 },
+  dexscreener: { requestsPerSecond: 4, burst: 5, maxConcurrent: 4 },
+  rugcheck: { requestsPerSecond: 2, burst: 4, maxConcurrent: 2 },
+  jupiter: { requestsPerSecond: 1, burst: 5, maxConcurrent: 3 },
+  birdeye: { requestsPerSecond: 1, burst: 2, maxConcurrent: 2 },
+  solanaRpc: { requestsPerSecond: 10, burst: 10, maxConcurrent: 8 },
+};
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+// ---------------------------------------------------------------------------
+// Limiter
+// ---------------------------------------------------------------------------
+
+function emptyMetrics(): UpstreamMetrics {
+  return {
+    requests: 0,
+    retries: 0,
+    throttled: 0,
+    errors: 0,
+    exhausted: 0,
+    delayed: 0,
+    waitMsTotal: 0,
+    waitMsMax: 0,
+    queued: 0,
+    maxQueued: 0,
+  };
+}
+
+/** Token bucket plus concurrency pool for one upstream; waiters are FIFO. */
+export class UpstreamLimiter {
+  readonly metrics: UpstreamMetrics = emptyMetrics();
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(readonly limit: UpstreamLimit) {
+    this.tokens = limit.burst;
+  }
+
+  /** Wait for a slot and a token; call the returned function when done. */
+  async acquire(): Promise<() => void> {
+    const queuedAt = Date.now();
+    if (this.waiters.length > 0 || !this.tryTake()) {
+      this.metrics.queued++;
+      this.metrics.maxQueued = Math.max(this.metrics.maxQueued, this.metrics.queued);
+      await new Promise<void>((resolve) => {
+        this.waiters.push(resolve);
+        this.schedule();
+      });
+      this.metrics.queued--;
+
+      const waited = Date.now() - queuedAt;
+      this.metrics.delayed++;
+      this.metrics.waitMsTotal += waited;
+      this.metrics.waitMsMax = Math.max(this.metrics.waitMsMax, waited);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.schedule();
+    };
+  }
+
+  /** Stop handing out tokens for `ms` (after a 429). */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.refilledAt) / 1000;
+    this.refilledAt = now;
+    if (now < this.pausedUntil) return;
+    this.tokens = Math.min(this.limit.burst, this.tokens + elapsed * this.limit.requestsPerSecond);
+  }
+
+  private tryTake(): boolean {
+    this.refill();
+    if (this.active >= this.limit.maxConcurrent || this.tokens < 1) return false;
+    this.tokens--;
+    this.active++;
+    return true;
+  }
+
+  /** Hand tokens to waiters, then wake up when the next token is due. */
+  private schedule(): void {
+    while (this.waiters.length > 0 && this.tryTake()) {
+      this.waiters.shift()!();
+    }
+    if (this.waiters.length === 0 || this.timer || this.active >= this.limit.maxConcurrent) {
+      return;
+    }
+
+    const untilToken = ((1 - this.tokens) / this.limit.requestsPerSecond) * 1000;
+    const delay = Math.max(this.pausedUntil - Date.now(), untilToken, 1);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.schedule();
+    }, delay);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fetch with budget and retries
+// ---------------------------------------------------------------------------
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** `Retry-After` in ms (seconds or HTTP date), or `null`. */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Full jitter: a random delay up to the exponential ceiling. */
+function backoffDelay(attempt: number, retry: Required<RetryOptions>): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function isAbort(error: unknown): boolean {
+  return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * `fetch` through `limiter`, retrying 429/5xx responses and network errors.
+ * The last response (or error) is returned as-is once retries run out.
+ * Aborted requests (caller timeouts) are not retried.
+ */
+export async function fetchWithBudget(
+  limiter: UpstreamLimiter,
+  liveFetch: typeof fetch,
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  options: RetryOptions = {}
+): Promise<Response> {
+  const retry = { ...DEFAULT_RETRY, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    const release = await limiter.acquire();
+    limiter.metrics.requests++;
+    if (attempt > 0) limiter.metrics.retries++;
+
+    let response: Response;
+    try {
+      response = await liveFetch(input instanceof Request ? input.clone() : input, init);
+    } catch (error) {
+      release();
+      if (isAbort(error) || init?.signal?.aborted) throw error;
+      limiter.metrics.errors++;
+      if (attempt >= retry.maxRetries) {
+        limiter.metrics.exhausted++;
+        throw error;
+      }
+      await sleep(backoffDelay(attempt, retry));
+      continue;
+    }
+    release();
+
+    if (!isRetryableStatus(response.status)) return response;
+
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    if (response.status === 429) {
+      limiter.metrics.throttled++;
+      limiter.pause(retryAfter ?? backoffDelay(attempt, retry));
+    } else {
+      limiter.metrics.errors++;
+    }
+    if (attempt >= retry.maxRetries || init?.signal?.aborted) {
+      limiter.metrics.exhausted++;
+      return response;
+    }
+
+    await response.body?.cancel();
+    await sleep(Math.min(retry.maxDelayMs, retryAfter ?? backoffDelay(attempt, retry)));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const limiters = new Map<UpstreamId, UpstreamLimiter>();
+
+function getLimit(id: UpstreamId): UpstreamLimit {
+  const limit = DEFAULT_LIMITS[id];
+  const envName = `RATE_LIMIT_${id.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase()}_RPS`;
+  const rps = Number(process.env[envName]);
+  if (!Number.isFinite(rps) || rps <= 0) return limit;
+
+  // Scale burst and concurrency with the configured rate
+  const scale = rps / limit.requestsPerSecond;
+  return {
+    requestsPerSecond: rps,
+    burst: Math.max(1, Math.round(limit.burst * scale)),
+    maxConcurrent: Math.max(1, Math.round(limit.maxConcurrent * scale)),
+  };
+}
+
+export function getUpstreamLimiter(id: UpstreamId): UpstreamLimiter {
+  let limiter = limiters.get(id);
+  if (!limiter) {
+    limiter = new UpstreamLimiter(getLimit(id));
+    limiters.set(id, limiter);
+  }
+  return limiter;
+}
+
+function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).host;
+  } catch {
+    return null;
+  }
+}
+
+/** The upstream a URL belongs to, or `null` for unlimited hosts. */
+export function getUpstreamForUrl(url: string): UpstreamId | null {
+  const host = hostOf(url);
+  if (!host) return null;
+
+  if (host.endsWith("helius-rpc.com") || host.endsWith("helius.xyz")) return "helius";
+  if (host === "api.fairscale.xyz") return "fairscale";
+  if (host === "api.dexscreener.com") return "dexscreener";
+  if (host === "api.rugcheck.xyz") return "rugcheck";
+  if (host === "jup.ag" || host.endsWith(".jup.ag")) return "jupiter";
+  if (host === (hostOf(process.env.BIRDEYE_API_URL) ?? "public-api.birdeye.so")) return "birdeye";
+  if (host === hostOf(process.env.SOLANA_RPC_URL)) return "solanaRpc";
+  return null;
+}
+
+/** Metrics and budget of every upstream used so far. */
+export function getUpstreamMetrics(): Partial<
+  Record<UpstreamId, UpstreamMetrics & { limit: UpstreamLimit }>
+> {
+  return Object.fromEntries(
+    [...limiters].map(([id, limiter]) => [id, { ...limiter.metrics, limit: limiter.limit }])
+  );
+}
+
+/** Drop all limiters and metrics (tests). */
+export function resetUpstreamLimiters(): void {
+  limiters.clear();
+}
+
+let installed = false;
+
+/** Route the global `fetch` through the per-upstream limiters. Idempotent. */
+export function installUpstreamLimiter(): void {
+  if (installed) return;
+  installed = true;
+
+  const liveFetch = globalThis.fetch;
+  globalThis.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    const upstream = getUpstreamForUrl(url);
+    return upstream
+      ? fetchWithBudget(getUpstreamLimiter(upstream), liveFetch, input, init)
+      : liveFetch(input, init);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// mapWithConcurrency
+// ---------------------------------------------------------------------------
+
+/**
+ * `Promise.all(items.map(fn))` with at most `concurrency` calls running,
+ * for fan-outs that would otherwise start every request at once.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
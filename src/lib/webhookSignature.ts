@@ -0,0 +1,67 @@
+/**
+ * Signatures for outbound webhook deliveries.
+ *
+ * Every webhook request carries
+ *
+ *   X-TokenTrust-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ *
+ * where the HMAC is computed with the channel's secret over
+ * `<t>.<raw request body>`. Receivers recompute it, compare in constant
+ * time and reject timestamps outside a few minutes to stop replays
+ * (`verifyWebhookSignature` does all three).
+ *
+ * IMPORTANT: Server-side only (uses node:crypto).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-TokenTrust-Signature";
+
+/** Default accepted clock difference when verifying. */
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** A new signing secret for a webhook channel. */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/** The signature header value for `body`. */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Whether `header` is a valid signature of `body` made with `secret`
+ * within `toleranceSeconds` of now.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  if (!header) return false;
+
+  const parts = new Map(
+    header.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=");
+      return [key, value.join("=")] as const;
+    })
+  );
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), "hex");
+  const received = Buffer.from(signature, "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
@@ -0,0 +1,75 @@
+/**
+ * One-time script to rewrite `token_analyses` rows that predate the
+ * current snapshot shape (see ANALYSIS_SNAPSHOT_VERSION in tokenAnalyzer).
+ *
+ * Old rows are missing LP vaults, Jupiter verification and other snapshot
+ * fields. The analyzer already treats them as cache misses, so this script
+ * simply re-analyzes each one eagerly instead of waiting for the next visit.
+ *
+ * Usage: npx tsx src/scripts/backfill-analysis-snapshots.ts [--limit=500]
+ *
+ * Required env vars: the same as the app (Supabase, Helius, FairScale).
+ */
+
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import {
+  analyzeToken,
+  ANALYSIS_SNAPSHOT_VERSION,
+} from "@/services/tokenAnalyzer";
+
+const PAGE_SIZE = 100;
+
+function parseLimit(): number {
+  const arg = process.argv.find((a) => a.startsWith("--limit="));
+  const value = arg ? parseInt(arg.split("=")[1], 10) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : 500;
+}
+
+async function main() {
+  const limit = parseLimit();
+  const supabase = createServerSupabaseClient();
+
+  // Collect stale mints up front so rows that fail to re-analyze
+  // are not picked up again in the same run.
+  const mints: string[] = [];
+  for (let from = 0; mints.length < limit; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("token_analyses")
+      .select("mint")
+      .lt("snapshot_version", ANALYSIS_SNAPSHOT_VERSION)
+      .order("analyzed_at", { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+    mints.push(...data.map((r) => r.mint as string));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  const toProcess = mints.slice(0, limit);
+  console.log(`Found ${toProcess.length} row(s) below snapshot v${ANALYSIS_SNAPSHOT_VERSION}`);
+
+  let rewritten = 0;
+  let failed = 0;
+  for (const mint of toProcess) {
+    try {
+      const analysis = await analyzeToken(mint);
+      if (analysis) {
+        rewritten++;
+      } else {
+        failed++;
+        console.warn(`  ${mint}: token not found`);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`  ${mint}:`, error);
+    }
+  }
+
+  console.log(`Backfill complete: ${rewritten} rewritten, ${failed} failed`);
+}
+
+main().catch((err) => {
+  console.error("Failed:", err);
+  process.exit(1);
+});
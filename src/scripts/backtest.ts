@@ -0,0 +1,164 @@
+/**
+ * Backtest the trust rating against labeled rugs.
+ *
+ *   npm run backtest -- <dataset.json> [--profile <id>] [--json]
+ *       Replay every labeled mint and print precision/recall, ROC AUC,
+ *       rating band calibration and per-flag lift.
+ *
+ *   npm run backtest -- capture <dataset.json> <mint>... [--label rugged|survived]
+ *       Analyze the mints now and append a snapshot of their inputs.
+ *
+ *   npm run backtest -- label <dataset.json> <mint> <rugged|survived> [--rugged-at <iso>]
+ *       Record the outcome of a mint once it is known.
+ *
+ * Capture needs the same environment as the app (`.env.local` is loaded),
+ * or FIXTURE_MODE=replay to capture from recorded responses.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { formatBacktestReport } from "@/lib/backtest";
+import { installFixtureFetch } from "@/lib/fixtures";
+import { SCORING_PROFILE_IDS, getScoringProfile } from "@/lib/scoringProfiles";
+import { installUpstreamLimiter } from "@/lib/upstreamLimiter";
+import {
+  addSnapshot,
+  captureSnapshot,
+  labelEntry,
+  parseBacktestDataset,
+  runBacktest,
+  type BacktestDataset,
+  type BacktestLabel,
+} from "@/services/backtest";
+
+const USAGE = `Usage:
+  npm run backtest -- <dataset.json> [--profile <id>] [--json]
+  npm run backtest -- capture <dataset.json> <mint>... [--label rugged|survived]
+  npm run backtest -- label <dataset.json> <mint> <rugged|survived> [--rugged-at <iso>]`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+/** Split argv into positional arguments and `--name value` / `--flag` options. */
+function parseArgs(argv: string[]): { args: string[]; options: Record<string, string | true> } {
+  const args: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) {
+      args.push(argv[i]);
+      continue;
+    }
+    const name = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      options[name] = next;
+      i++;
+    } else {
+      options[name] = true;
+    }
+  }
+  return { args, options };
+}
+
+function readDataset(file: string, allowMissing = false): BacktestDataset {
+  if (!existsSync(file)) {
+    if (allowMissing) return { entries: [] };
+    fail(`Dataset not found: ${file}`);
+  }
+  return parseBacktestDataset(JSON.parse(readFileSync(file, "utf8")));
+}
+
+function writeDataset(file: string, dataset: BacktestDataset): void {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(dataset, null, 2)}\n`);
+}
+
+function parseOutcome(value: string | true | undefined): BacktestLabel | undefined {
+  if (value === undefined) return undefined;
+  if (value !== "rugged" && value !== "survived") fail(`Unknown label: ${value}`);
+  return value;
+}
+
+async function capture(file: string, mints: string[], label: BacktestLabel | undefined) {
+  if (mints.length === 0) fail("No mints to capture.");
+  if (existsSync(".env.local")) process.loadEnvFile(".env.local");
+  installUpstreamLimiter();
+  installFixtureFetch();
+
+  let dataset = readDataset(file, true);
+  for (const mint of mints) {
+    const snapshot = await captureSnapshot(mint);
+    if (!snapshot) {
+      console.error(`${mint}: token not found, skipped`);
+      continue;
+    }
+    dataset = addSnapshot(dataset, mint, snapshot, label);
+    // Write after every mint so an interrupted run keeps what it captured
+    writeDataset(file, dataset);
+    console.log(`${mint}: captured at ${snapshot.capturedAt}`);
+  }
+}
+
+function label(
+  file: string | undefined,
+  mint: string | undefined,
+  outcome: BacktestLabel | undefined,
+  ruggedAt: string | null
+) {
+  if (!file || !mint || !outcome) fail("label needs a dataset file, a mint and an outcome.");
+  if (ruggedAt !== null && Number.isNaN(Date.parse(ruggedAt))) fail(`Invalid --rugged-at: ${ruggedAt}`);
+
+  const rugTime = ruggedAt ? new Date(ruggedAt).toISOString() : null;
+  const updated = labelEntry(readDataset(file), mint, outcome, rugTime);
+  if (!updated) fail(`${mint} is not in ${file}; capture it first.`);
+  writeDataset(file, updated);
+  console.log(`${mint}: ${outcome}`);
+}
+
+const profileIdSchema = z.enum(SCORING_PROFILE_IDS);
+
+function report(file: string, profileOption: string | true | undefined, json: boolean) {
+  const profileId = profileOption === undefined ? null : profileIdSchema.safeParse(profileOption);
+  if (profileId && !profileId.success) {
+    fail(`Unknown profile: ${profileOption} (expected one of ${SCORING_PROFILE_IDS.join(", ")})`);
+  }
+  const profile = getScoringProfile(profileId?.data);
+  const run = runBacktest(readDataset(file), profile);
+
+  if (json) {
+    const profileRef = { id: profile.id, version: profile.version };
+    console.log(JSON.stringify({ profile: profileRef, ...run }, null, 2));
+    return;
+  }
+  console.log(`Profile: ${profile.name} (v${profile.version})`);
+  if (run.skippedMints.length > 0) {
+    console.log(`Skipped (no snapshot before the rug): ${run.skippedMints.join(", ")}`);
+  }
+  console.log("");
+  console.log(formatBacktestReport(run.report));
+}
+
+async function main() {
+  const { args, options } = parseArgs(process.argv.slice(2));
+  const [command, ...rest] = args;
+
+  if (command === "capture") {
+    if (!rest[0]) fail("capture needs a dataset file.");
+    await capture(rest[0], rest.slice(1), parseOutcome(options.label));
+  } else if (command === "label") {
+    const ruggedAt = typeof options["rugged-at"] === "string" ? options["rugged-at"] : null;
+    label(rest[0], rest[1], parseOutcome(rest[2]), ruggedAt);
+  } else if (command) {
+    report(command, options.profile, options.json === true);
+  } else {
+    fail("Missing dataset file.");
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
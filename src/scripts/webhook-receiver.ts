@@ -0,0 +1,55 @@
+/**
+ * Local receiver for testing webhook notification channels.
+ *
+ *   npm run webhook:receive -- [--port 4000] [--secret whsec_...] [--status 200]
+ *
+ * Add a webhook channel pointing at http://localhost:<port>/ on the
+ * dashboard, paste the signing secret it shows into --secret, then use
+ * "Send test". Every request is printed with its signature check.
+ * --status makes the receiver answer with another status (e.g. 503) to
+ * watch retries and backoff in the delivery log.
+ */
+
+import { createServer } from "node:http";
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from "@/lib/webhookSignature";
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const port = Number(getFlag(args, "--port") ?? 4000);
+  const secret = getFlag(args, "--secret");
+  const status = Number(getFlag(args, "--status") ?? 200);
+
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const signature = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string | undefined;
+      const check = secret
+        ? verifyWebhookSignature(secret, body, signature) ? "valid" : "INVALID"
+        : "not checked (no --secret)";
+
+      console.log(`\n${new Date().toISOString()} ${req.method} ${req.url} -> ${status}`);
+      console.log(`  event:     ${req.headers["x-tokentrust-event"] ?? "-"}`);
+      console.log(`  delivery:  ${req.headers["x-tokentrust-delivery"] ?? "-"}`);
+      console.log(`  signature: ${check}`);
+      try {
+        console.log(JSON.stringify(JSON.parse(body), null, 2));
+      } catch {
+        console.log(body);
+      }
+
+      res.writeHead(status).end();
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`Webhook receiver listening on http://localhost:${port}/`);
+  });
+}
+
+main();
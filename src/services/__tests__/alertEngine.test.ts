@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createAlertRule, type AlertRule } from "@/lib/alertRules";
+import { disableMemoryStore, enableMemoryStore, getMemoryTable, resetMemoryStore } from "@/lib/supabase/memory";
+import type { RiskFlag } from "@/types/database";
+
+const analyses = vi.hoisted(() => ({
+  ratings: {} as Record<string, { trustRating: number; riskFlags: RiskFlag[] }>,
+  calls: [] as string[],
+}));
+
+vi.mock("@/services/tokenAnalyzer", () => ({
+  analyzeToken: async (mint: string) => {
+    analyses.calls.push(mint);
+    const analysis = analyses.ratings[mint];
+    if (!analysis) return null;
+    return {
+      mint,
+      name: mint.toUpperCase(),
+      liquidity: null,
+      topHolderConcentration: 5,
+      deployerTier: null,
+      ...analysis,
+    };
+  },
+}));
+
+import { runAlertEngine } from "@/services/alertEngine";
+
+const LONG_AGO = "2026-01-01T00:00:00.000Z";
+
+function watch(wallet: string, mint: string, alertRules: AlertRule[] | null = null, entityType = "token") {
+  getMemoryTable("watchlist").push({
+    id: getMemoryTable("watchlist").length + 1,
+    user_wallet: wallet,
+    token_mint: mint,
+    entity_type: entityType,
+    alert_rules: alertRules,
+    alerts_checked_at: null,
+  });
+}
+
+function belowRule(threshold: number, cooldownHours: number): AlertRule {
+  return { id: "below-40", kind: "rating_below", threshold, enabled: true, cooldownHours };
+}
+
+function snapshot(mint: string, trustRating: number) {
+  getMemoryTable("alert_snapshots").push({
+    mint,
+    token_name: mint.toUpperCase(),
+    trust_rating: trustRating,
+    risk_flag_codes: [],
+    liquidity_usd: null,
+    top_holder_percent: 5,
+    deployer_tier: null,
+    checked_at: LONG_AGO,
+  });
+}
+
+describe("runAlertEngine", () => {
+  beforeEach(() => {
+    enableMemoryStore();
+    resetMemoryStore();
+    analyses.ratings = {};
+    analyses.calls = [];
+  });
+
+  afterEach(() => {
+    disableMemoryStore();
+  });
+
+  it("analyzes each mint once and evaluates every watcher's own rules", async () => {
+    watch("alice", "aaa");
+    watch("bob", "aaa", [belowRule(40, 24)]);
+    watch("bob", "bbb");
+    snapshot("aaa", 70);
+    snapshot("bbb", 50);
+    analyses.ratings = {
+      aaa: { trustRating: 55, riskFlags: [] },
+      bbb: { trustRating: 52, riskFlags: [] },
+    };
+
+    const summary = await runAlertEngine();
+
+    expect(analyses.calls.sort()).toEqual(["aaa", "bbb"]);
+    expect(summary).toMatchObject({ watchlistEntries: 3, mints: 2, checked: 2, failed: 0, notifications: 1 });
+    expect(getMemoryTable("notifications").map((n) => [n.user_wallet, n.mint, n.type, n.alert_rule_key])).toEqual([
+      ["alice", "aaa", "score_change", "aaa:default-rating-change"],
+    ]);
+    expect(getMemoryTable("alert_snapshots").find((s) => s.mint === "aaa")?.trust_rating).toBe(55);
+  });
+
+  it("reads watchlists longer than one page", async () => {
+    for (let i = 0; i < 1001; i++) watch(`wallet${i}`, "aaa");
+    analyses.ratings = { aaa: { trustRating: 55, riskFlags: [] } };
+
+    const summary = await runAlertEngine();
+
+    expect(summary).toMatchObject({ watchlistEntries: 1001, mints: 1 });
+  });
+
+  it("rotates mints whose analysis fails behind the rest", async () => {
+    for (let i = 0; i < 50; i++) watch("alice", `dead${i}`);
+    watch("alice", "aaa");
+    getMemoryTable("alert_check_attempts").push({ mint: "aaa", attempted_at: LONG_AGO });
+    analyses.ratings = { aaa: { trustRating: 55, riskFlags: [] } };
+
+    const first = await runAlertEngine();
+    expect(first).toMatchObject({ checked: 0, failed: 50, deferred: 1 });
+    expect(analyses.calls).not.toContain("aaa");
+
+    analyses.calls = [];
+    await runAlertEngine();
+    expect(analyses.calls[0]).toBe("aaa");
+  });
+
+  it("keeps a rule quiet during its cooldown", async () => {
+    watch("alice", "aaa", [belowRule(40, 6), createAlertRule("flag_raised", "flags")]);
+    snapshot("aaa", 30);
+    getMemoryTable("notifications").push({
+      user_wallet: "alice",
+      mint: "aaa",
+      type: "rating_below",
+      alert_rule_key: "aaa:below-40",
+      created_at: new Date().toISOString(),
+    });
+    analyses.ratings = {
+      aaa: {
+        trustRating: 30,
+        riskFlags: [{ id: "ACTIVE_MINT_AUTHORITY", code: "ACTIVE_MINT_AUTHORITY", severity: "low", label: "Active Mint Authority", description: "" }],
+      },
+    };
+
+    const summary = await runAlertEngine();
+
+    expect(summary.notifications).toBe(1);
+    expect(getMemoryTable("notifications").map((n) => n.type)).toEqual(["rating_below", "new_risk_flag"]);
+  });
+
+  it("notifies deployer watchers of tokens first seen since their last check", async () => {
+    watch("alice", "deployer1", null, "deployer");
+    getMemoryTable("watchlist")[0].alerts_checked_at = LONG_AGO;
+    getMemoryTable("token_analyses").push(
+      { mint: "old", name: "Old", deployer_wallet: "deployer1", created_at: "2025-12-01T00:00:00.000Z" },
+      { mint: "new", name: "New", deployer_wallet: "deployer1", created_at: "2026-02-01T00:00:00.000Z" }
+    );
+
+    const summary = await runAlertEngine();
+
+    expect(summary).toMatchObject({ deployers: 1, notifications: 1 });
+    const [notification] = getMemoryTable("notifications");
+    expect(notification).toMatchObject({ mint: "new", type: "deployer_new_token" });
+    expect(notification.message).toBe("Deployer deploy...yer1 launched 1 new token: New");
+    expect(getMemoryTable("watchlist")[0].alerts_checked_at).not.toBe(LONG_AGO);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+
+const analyses = vi.hoisted(() => ({ running: 0, peak: 0, calls: [] as string[] }));
+
+vi.mock("@/services/tokenAnalyzer", () => ({
+  analyzeToken: async (mint: string) => {
+    analyses.calls.push(mint);
+    analyses.running++;
+    analyses.peak = Math.max(analyses.peak, analyses.running);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    analyses.running--;
+    if (mint === "broken") throw new Error("upstream down");
+    return null;
+  },
+}));
+
+import { enqueueAnalysisRefresh } from "@/services/analysisRefresh";
+
+describe("enqueueAnalysisRefresh", () => {
+  it("refreshes a queued mint once and caps concurrent analyses", async () => {
+    await Promise.all([
+      enqueueAnalysisRefresh("a"),
+      enqueueAnalysisRefresh("a"),
+      enqueueAnalysisRefresh("b"),
+      enqueueAnalysisRefresh("c"),
+      enqueueAnalysisRefresh("broken"),
+    ]);
+
+    expect(analyses.calls.sort()).toEqual(["a", "b", "broken", "c"]);
+    expect(analyses.peak).toBe(2);
+
+    // Finished refreshes can be queued again
+    await enqueueAnalysisRefresh("a");
+    expect(analyses.calls.filter((mint) => mint === "a")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { disableMemoryStore, enableMemoryStore, getMemoryTable, resetMemoryStore } from "@/lib/supabase/memory";
+import { getDeployerTrackRecord } from "@/services/deployerHistory";
+
+const DEPLOYER = "Dep1oyerWa11et11111111111111111111111111111";
+
+function priorToken(mint: string, liquidityUsd: number) {
+  getMemoryTable("token_analyses").push({
+    mint,
+    name: mint,
+    symbol: null,
+    deployer_wallet: DEPLOYER,
+    token_created_at: "2026-02-01T00:00:00.000Z",
+    analyzed_at: "2026-02-01T00:00:00.000Z",
+    liquidity: { totalLiquidityUsd: liquidityUsd, priceUsd: 0.01 },
+    risk_flags: [],
+    mint_authority_active: false,
+  });
+  getMemoryTable("token_score_history").push({
+    id: crypto.randomUUID(),
+    mint,
+    liquidity_usd: liquidityUsd,
+    price_usd: 0.01,
+    supply: null,
+    recorded_at: "2026-02-01T00:00:00.000Z",
+  });
+}
+
+describe("deployer track record", () => {
+  beforeEach(() => {
+    enableMemoryStore();
+    resetMemoryStore();
+  });
+
+  afterEach(() => {
+    disableMemoryStore();
+    vi.unstubAllGlobals();
+  });
+
+  it("counts a token whose pairs are gone as liquidity pulled", async () => {
+    priorToken("mintPULLED", 50_000);
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json([])));
+
+    const record = await getDeployerTrackRecord(DEPLOYER);
+
+    expect(record.ruggedCount).toBe(1);
+    expect(record.tokens[0]).toMatchObject({
+      signals: ["liquidity_pulled"],
+      peakLiquidityUsd: 50_000,
+      currentLiquidityUsd: 0,
+    });
+  });
+
+  it("keeps the stored liquidity when DexScreener cannot be reached", async () => {
+    priorToken("mintHEALTHY", 50_000);
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 503 })));
+
+    const record = await getDeployerTrackRecord(DEPLOYER);
+
+    expect(record.ruggedCount).toBe(0);
+    expect(record.tokens[0]).toMatchObject({ signals: [], currentLiquidityUsd: 50_000 });
+  });
+});
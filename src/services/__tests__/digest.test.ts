@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { disableMemoryStore, enableMemoryStore, getMemoryTable, resetMemoryStore } from "@/lib/supabase/memory";
+import { renderDigestText } from "@/lib/digestTemplates";
+import {
+  buildDigest,
+  getConfirmToken,
+  getUnsubscribeToken,
+  runDigests,
+  sendConfirmationEmail,
+  verifyConfirmToken,
+  verifyUnsubscribeToken,
+} from "@/services/digest";
+import type { MailMessage, MailTransport } from "@/services/mailTransport";
+
+const ALICE = "A1iceWa11et1111111111111111111111111111111";
+const DEPLOYER = "Dep1oyerWa11et11111111111111111111111111111";
+const NOW = new Date("2026-03-14T12:00:00.000Z");
+const WEEK_START = new Date("2026-03-07T12:00:00.000Z");
+const CONFIRMED = "2026-03-01T00:00:00.000Z";
+
+function watch(mint: string, entityType: "token" | "wallet" | "deployer", wallet = ALICE) {
+  getMemoryTable("watchlist").push({
+    id: crypto.randomUUID(),
+    user_wallet: wallet,
+    token_mint: mint,
+    entity_type: entityType,
+    created_at: "2026-03-01T00:00:00.000Z",
+  });
+}
+
+function tokenSnapshot(mint: string, trustRating: number, recordedAt: string) {
+  getMemoryTable("token_score_history").push({ id: crypto.randomUUID(), mint, trust_rating: trustRating, recorded_at: recordedAt });
+}
+
+function captureTransport(): MailTransport & { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+  return {
+    name: "console",
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+  };
+}
+
+describe("watchlist digest", () => {
+  beforeEach(() => {
+    enableMemoryStore();
+    vi.stubEnv("NEXTAUTH_SECRET", "test-secret");
+    vi.stubEnv("NEXTAUTH_URL", "https://tokentrust.test");
+    resetMemoryStore();
+  });
+
+  afterEach(() => {
+    disableMemoryStore();
+    vi.unstubAllEnvs();
+  });
+
+  it("collects rating moves, risk flags, launches and wallet moves for the period", async () => {
+    watch("mintAAA", "token");
+    watch("mintBBB", "token");
+    watch(DEPLOYER, "deployer");
+    getMemoryTable("token_analyses").push(
+      { mint: "mintAAA", name: "AAA", symbol: "AAA", trust_rating: 40, deployer_wallet: null, created_at: "2026-02-01T00:00:00.000Z" },
+      { mint: "mintNEW", name: "New Coin", symbol: "NEW", trust_rating: 22, deployer_wallet: DEPLOYER, created_at: "2026-03-10T00:00:00.000Z" },
+      { mint: "mintOLD", name: "Old Coin", symbol: "OLD", trust_rating: 60, deployer_wallet: DEPLOYER, created_at: "2026-02-10T00:00:00.000Z" }
+    );
+    // AAA: baseline before the period, two snapshots in it; BBB unchanged
+    tokenSnapshot("mintAAA", 70, "2026-03-05T00:00:00.000Z");
+    tokenSnapshot("mintAAA", 60, "2026-03-09T00:00:00.000Z");
+    tokenSnapshot("mintAAA", 40, "2026-03-13T00:00:00.000Z");
+    tokenSnapshot("mintBBB", 55, "2026-03-05T00:00:00.000Z");
+    tokenSnapshot("mintBBB", 55, "2026-03-12T00:00:00.000Z");
+    getMemoryTable("notifications").push(
+      { id: crypto.randomUUID(), user_wallet: ALICE, mint: "mintAAA", token_name: "AAA", type: "new_risk_flag", message: "New risk flag for AAA: Active Mint Authority", created_at: "2026-03-11T00:00:00.000Z" },
+      { id: crypto.randomUUID(), user_wallet: ALICE, mint: "mintAAA", token_name: "AAA", type: "new_risk_flag", message: "Too old", created_at: "2026-03-01T00:00:00.000Z" }
+    );
+    getMemoryTable("wallet_score_history").push(
+      { id: crypto.randomUUID(), wallet: DEPLOYER, score_integer: 300, tier: "bronze", recorded_at: "2026-03-06T00:00:00.000Z" },
+      { id: crypto.randomUUID(), wallet: DEPLOYER, score_integer: 520, tier: "silver", recorded_at: "2026-03-12T00:00:00.000Z" }
+    );
+
+    const digest = await buildDigest(ALICE, "weekly", WEEK_START, NOW);
+
+    expect(digest.watched).toEqual({ tokens: 2, wallets: 0, deployers: 1 });
+    expect(digest.ratingMoves).toEqual([{ mint: "mintAAA", name: "AAA", from: 70, to: 40 }]);
+    expect(digest.riskFlags.map((f) => f.message)).toEqual(["New risk flag for AAA: Active Mint Authority"]);
+    expect(digest.launches).toMatchObject([{ deployer: DEPLOYER, mint: "mintNEW", trustRating: 22 }]);
+    expect(digest.walletMoves).toMatchObject([
+      { wallet: DEPLOYER, entityType: "deployer", fromScore: 300, toScore: 520, fromTier: "bronze", toTier: "silver" },
+    ]);
+
+    const text = renderDigestText(digest);
+    expect(text).toContain("AAA: 70 → 40 (-30)");
+    expect(text).toContain("https://tokentrust.test/token/mintNEW");
+    expect(text).toContain(`Unsubscribe: ${digest.unsubscribeUrl}`);
+  });
+
+  it("signs unsubscribe links per wallet", () => {
+    const token = getUnsubscribeToken(ALICE);
+    expect(verifyUnsubscribeToken(ALICE, token)).toBe(true);
+    expect(verifyUnsubscribeToken(DEPLOYER, token)).toBe(false);
+    expect(verifyUnsubscribeToken(ALICE, "forged")).toBe(false);
+  });
+
+  it("emails a confirmation link signed for the wallet and address", async () => {
+    const transport = captureTransport();
+    await sendConfirmationEmail(ALICE, "alice@example.com", transport);
+
+    const [mail] = transport.sent;
+    expect(mail.to).toBe("alice@example.com");
+    const link = new URL(mail.text.match(/https:\S+/)![0]);
+    expect(link.pathname).toBe("/api/notifications/digest/confirm");
+    expect(link.searchParams.get("token")).toBe(getConfirmToken(ALICE, "alice@example.com"));
+    expect(verifyConfirmToken(ALICE, "alice@example.com", link.searchParams.get("token")!)).toBe(true);
+    expect(verifyConfirmToken(ALICE, "other@example.com", link.searchParams.get("token")!)).toBe(false);
+  });
+
+  it("sends due digests with changes and advances every due subscription", async () => {
+    const BOB = "BobWa11et111111111111111111111111111111111";
+    const CAROL = "Caro1Wa11et1111111111111111111111111111111";
+    watch("mintAAA", "token");
+    watch("mintAAA", "token", BOB);
+    tokenSnapshot("mintAAA", 70, "2026-03-13T00:00:00.000Z");
+    tokenSnapshot("mintAAA", 45, "2026-03-14T00:00:00.000Z");
+    getMemoryTable("digest_subscriptions").push(
+      // Due and has a change
+      { wallet: ALICE, email: "alice@example.com", frequency: "daily", last_sent_at: "2026-03-13T12:00:00.000Z", confirmed_at: CONFIRMED },
+      // Sent recently, not due yet
+      { wallet: BOB, email: "bob@example.com", frequency: "weekly", last_sent_at: "2026-03-12T12:00:00.000Z", confirmed_at: CONFIRMED },
+      // Due but nothing on its watchlist
+      { wallet: CAROL, email: "carol@example.com", frequency: "weekly", last_sent_at: null, confirmed_at: CONFIRMED },
+      { wallet: DEPLOYER, email: "off@example.com", frequency: "off", last_sent_at: null, confirmed_at: CONFIRMED },
+      // Address never confirmed
+      { wallet: "Unconfirmed111111111111111111111111111111111", email: "someone@example.com", frequency: "daily", last_sent_at: null, confirmed_at: null }
+    );
+
+    const transport = captureTransport();
+    const summary = await runDigests(transport, NOW);
+
+    expect(summary).toEqual({ due: 2, sent: 1, empty: 1, failed: 0 });
+    expect(transport.sent).toHaveLength(1);
+    const [mail] = transport.sent;
+    expect(mail.to).toBe("alice@example.com");
+    expect(mail.subject).toBe("Your daily TokenTrust digest: 1 watchlist change");
+    expect(mail.headers?.["List-Unsubscribe"]).toContain("/api/notifications/digest/unsubscribe?wallet=");
+
+    const lastSent = Object.fromEntries(
+      getMemoryTable("digest_subscriptions").map((s) => [s.wallet, s.last_sent_at])
+    );
+    expect(lastSent[ALICE]).toBe(NOW.toISOString());
+    expect(lastSent[CAROL]).toBe(NOW.toISOString());
+    expect(lastSent[BOB]).toBe("2026-03-12T12:00:00.000Z");
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { disableMemoryStore, enableMemoryStore, getMemoryTable, resetMemoryStore } from "@/lib/supabase/memory";
+import { getQuickScore, getQuickScoreResults } from "@/services/fairscale";
+
+const WALLET_A = "A".repeat(44);
+const WALLET_B = "B".repeat(44);
+const UNKNOWN = "C".repeat(44);
+
+/** FairScale /fairScore stand-in that counts requests per wallet. */
+function stubFairScale(scores: Record<string, number>) {
+  const requested: string[] = [];
+  vi.stubGlobal("fetch", async (input: string) => {
+    const wallet = new URL(input).searchParams.get("wallet")!;
+    requested.push(wallet);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    if (!(wallet in scores)) return new Response(null, { status: 404 });
+    return Response.json({ fair_score: scores[wallet] });
+  });
+  return requested;
+}
+
+describe("quick-score batching", () => {
+  beforeEach(() => {
+    // Serve Supabase from the in-memory store
+    enableMemoryStore();
+    vi.stubEnv("FAIRSCALE_API_KEY", "test");
+    resetMemoryStore();
+  });
+
+  afterEach(() => {
+    disableMemoryStore();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("looks up duplicate and concurrent wallets once", async () => {
+    const requested = stubFairScale({ [WALLET_A]: 720, [WALLET_B]: 150 });
+
+    const [batch, single] = await Promise.all([
+      getQuickScoreResults([WALLET_A, WALLET_B, WALLET_A, UNKNOWN]),
+      getQuickScore(WALLET_A),
+    ]);
+
+    expect(requested.sort()).toEqual([WALLET_A, WALLET_B, UNKNOWN]);
+    expect(single).toBe(720);
+    expect([...batch]).toEqual([
+      [WALLET_A, { status: "ok", data: 720 }],
+      [WALLET_B, { status: "ok", data: 150 }],
+      [UNKNOWN, { status: "empty", data: null }],
+    ]);
+  });
+
+  it("serves fresh scores from the cache and refetches expired ones", async () => {
+    const requested = stubFairScale({ [WALLET_A]: 720, [WALLET_B]: 150 });
+    getMemoryTable("cached_quick_scores").push(
+      { wallet: WALLET_A, score_integer: 700, fetched_at: new Date().toISOString() },
+      { wallet: WALLET_B, score_integer: 100, fetched_at: "2020-01-01T00:00:00.000Z" }
+    );
+
+    const results = await getQuickScoreResults([WALLET_A, WALLET_B]);
+
+    expect(requested).toEqual([WALLET_B]);
+    expect(results.get(WALLET_A)?.data).toBe(700);
+    expect(results.get(WALLET_B)?.data).toBe(150);
+    const cachedB = getMemoryTable("cached_quick_scores").filter((row) => row.wallet === WALLET_B);
+    expect(cachedB).toHaveLength(1);
+    expect(cachedB[0].score_integer).toBe(150);
+  });
+
+  it("caches unknown wallets too", async () => {
+    const requested = stubFairScale({});
+
+    await getQuickScoreResults([UNKNOWN]);
+    const results = await getQuickScoreResults([UNKNOWN]);
+
+    expect(requested).toEqual([UNKNOWN]);
+    expect(results.get(UNKNOWN)).toEqual({ status: "empty", data: null });
+    expect(getMemoryTable("cached_quick_scores")).toMatchObject([{ wallet: UNKNOWN, score_integer: null }]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Golden rating snapshot — every canned scenario scored under every
+ * scoring profile, compared against the committed snapshot so an edit to
+ * weights or thresholds shows exactly which token ratings move.
+ *
+ * Update the snapshot after an intended change with
+ * `npm run test:golden:update`.
+ */
+
+import { getRatingBand, type RatingBand } from "@/lib/ratingBands";
+import { SCORING_PROFILE_IDS, getScoringProfile } from "@/lib/scoringProfiles";
+import { scoreToken } from "@/services/tokenAnalyzer";
+import type { TokenScenario } from "./scenarios";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface GoldenEntry {
+  trustRating: number;
+  band: RatingBand;
+  confidence: number;
+  ratingCapped: boolean;
+  /** Component sub-scores by key. */
+  components: Record<string, number>;
+  /** Risk flag codes with severity, sorted. */
+  flags: string[];
+}
+
+/** Entries keyed by `<scenario>/<profile>`. */
+export type GoldenSnapshot = Record<string, GoldenEntry>;
+
+export interface GoldenChange {
+  key: string;
+  before: GoldenEntry | null;
+  after: GoldenEntry | null;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot
+// ---------------------------------------------------------------------------
+
+export function buildGoldenSnapshot(scenarios: TokenScenario[]): GoldenSnapshot {
+  const snapshot: GoldenSnapshot = {};
+  for (const scenario of scenarios) {
+    for (const profileId of SCORING_PROFILE_IDS) {
+      const score = scoreToken(scenario.inputs, getScoringProfile(profileId));
+      snapshot[`${scenario.id}/${profileId}`] = {
+        trustRating: score.trustRating,
+        band: getRatingBand(score.trustRating),
+        confidence: Math.round(score.confidence * 100) / 100,
+        ratingCapped: score.ratingCapped,
+        components: Object.fromEntries(
+          score.components.map((c) => [c.key, Math.round(c.score * 10) / 10])
+        ),
+        flags: score.riskFlags.map((f) => `${f.code}:${f.severity}`).sort(),
+      };
+    }
+  }
+  return snapshot;
+}
+
+/** Entries that differ between two snapshots, including added/removed keys. */
+export function diffGoldenSnapshots(
+  before: GoldenSnapshot,
+  after: GoldenSnapshot
+): GoldenChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return keys
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({ key, before: before[key] ?? null, after: after[key] ?? null }));
+}
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+function describeChange({ before, after }: GoldenChange): string[] {
+  if (!before) return ["new scenario"];
+  if (!after) return ["removed"];
+
+  const lines: string[] = [];
+  if (before.trustRating !== after.trustRating) {
+    const band =
+      before.band !== after.band ? `  (${before.band} → ${after.band})` : `  (${after.band})`;
+    lines.push(`rating ${before.trustRating} → ${after.trustRating}${band}`);
+  }
+  if (before.confidence !== after.confidence || before.ratingCapped !== after.ratingCapped) {
+    lines.push(
+      `confidence ${before.confidence} → ${after.confidence}` +
+        (before.ratingCapped !== after.ratingCapped
+          ? `, ${after.ratingCapped ? "now capped" : "no longer capped"}`
+          : "")
+    );
+  }
+  for (const key of Object.keys({ ...before.components, ...after.components })) {
+    const from = before.components[key];
+    const to = after.components[key];
+    if (from !== to) lines.push(`${key} ${from ?? "-"} → ${to ?? "-"}`);
+  }
+  const added = after.flags.filter((f) => !before.flags.includes(f));
+  const removed = before.flags.filter((f) => !after.flags.includes(f));
+  if (added.length > 0) lines.push(`+ ${added.join(", ")}`);
+  if (removed.length > 0) lines.push(`- ${removed.join(", ")}`);
+  return lines;
+}
+
+/** Human-readable list of rating changes, one block per scenario/profile. */
+export function formatGoldenReport(changes: GoldenChange[], total: number): string {
+  if (changes.length === 0) return `No rating changes across ${total} scenario/profile pairs.`;
+
+  const ratingChanges = changes.filter(
+    (c) => c.before?.trustRating !== c.after?.trustRating
+  ).length;
+  const header =
+    `${changes.length} of ${total} scenario/profile pairs changed ` +
+    `(${ratingChanges} with a different trust rating):`;
+  const blocks = changes.map(
+    (change) =>
+      `  ${change.key}\n${describeChange(change)
+        .map((line) => `    ${line}`)
+        .join("\n")}`
+  );
+  return [header, ...blocks].join("\n");
+}
@@ -0,0 +1,124 @@
+import { createServer, type Server, type Socket } from "node:net";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { buildMimeMessage, createSmtpTransport, getMailTransport } from "@/services/mailTransport";
+
+// Minimal SMTP server recording the envelope and message data
+const smtp = {
+  commands: [] as string[],
+  data: "",
+  rejectRecipient: false,
+};
+let server: Server;
+let port: number;
+
+function handle(socket: Socket) {
+  let buffer = "";
+  let inData = false;
+  socket.write("220 test ESMTP\r\n");
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    if (inData) {
+      const end = buffer.indexOf("\r\n.\r\n");
+      if (end === -1) return;
+      smtp.data = buffer.slice(0, end);
+      buffer = buffer.slice(end + 5);
+      inData = false;
+      socket.write("250 queued\r\n");
+    }
+
+    let end: number;
+    while (!inData && (end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      smtp.commands.push(line);
+      const verb = line.split(/[ :]/)[0].toUpperCase();
+      if (verb === "EHLO") socket.write("250-test\r\n250 8BITMIME\r\n");
+      else if (verb === "RCPT" && smtp.rejectRecipient) socket.write("550 no such user\r\n");
+      else if (verb === "DATA") {
+        inData = true;
+        socket.write("354 go ahead\r\n");
+      } else if (verb === "QUIT") socket.end("221 bye\r\n");
+      else socket.write("250 ok\r\n");
+    }
+  });
+}
+
+beforeAll(async () => {
+  server = createServer(handle);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const message = {
+  to: "Alice <alice@example.com>",
+  subject: "Your weekly TokenTrust digest",
+  text: "Hello",
+  html: "<p>Hello</p>",
+  headers: { "List-Unsubscribe": "<https://tokentrust.test/unsubscribe>" },
+};
+
+describe("mail transport", () => {
+  beforeEach(() => {
+    smtp.commands = [];
+    smtp.data = "";
+    smtp.rejectRecipient = false;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("sends a multipart message over SMTP", async () => {
+    const transport = createSmtpTransport({ host: "127.0.0.1", port, secure: false, from: "TokenTrust <digest@tokentrust.test>" });
+
+    await transport.send(message);
+
+    expect(smtp.commands).toEqual([
+      "EHLO tokentrust",
+      "MAIL FROM:<digest@tokentrust.test>",
+      "RCPT TO:<alice@example.com>",
+      "DATA",
+    ]);
+    expect(smtp.data).toContain("To: Alice <alice@example.com>");
+    expect(smtp.data).toContain("List-Unsubscribe: <https://tokentrust.test/unsubscribe>");
+    expect(smtp.data).toContain("Content-Type: multipart/alternative");
+    expect(smtp.data).toContain(message.html);
+  });
+
+  it("fails when the server rejects the recipient", async () => {
+    smtp.rejectRecipient = true;
+    const transport = createSmtpTransport({ host: "127.0.0.1", port, secure: false, from: "digest@tokentrust.test" });
+
+    await expect(transport.send(message)).rejects.toThrow("550 no such user");
+  });
+
+  it("keeps injected headers out of the message", async () => {
+    const mime = (await buildMimeMessage("digest@tokentrust.test", {
+      ...message,
+      subject: "Digest\r\nBcc: b@example.com",
+    })).toString("utf8");
+
+    expect(mime).not.toMatch(/^Bcc:/m);
+  });
+
+  it("refuses the file and console transports in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("SMTP_HOST", undefined);
+    vi.stubEnv("MAIL_TRANSPORT", "file");
+    expect(() => getMailTransport()).toThrow("MAIL_TRANSPORT file is for development only");
+
+    vi.stubEnv("MAIL_TRANSPORT", undefined);
+    expect(() => getMailTransport()).toThrow("MAIL_TRANSPORT console is for development only");
+
+    vi.stubEnv("MAIL_TRANSPORT", "smtp");
+    vi.stubEnv("SMTP_HOST", "smtp.tokentrust.test");
+    expect(getMailTransport().name).toBe("smtp");
+  });
+});
@@ -0,0 +1,188 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { disableMemoryStore, enableMemoryStore, getMemoryTable, resetMemoryStore } from "@/lib/supabase/memory";
+import { verifyWebhookSignature } from "@/lib/webhookSignature";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  deliverNotifications,
+  retryDueDeliveries,
+  sendTestNotification,
+} from "@/services/notificationDelivery";
+import type { Notification, NotificationChannel } from "@/types/database";
+
+// Local HTTP receiver standing in for the user's webhook endpoint
+const receiver = {
+  requests: [] as Array<{ headers: Record<string, string | string[] | undefined>; body: string }>,
+  status: 200,
+};
+let server: Server;
+let receiverUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      receiver.requests.push({ headers: req.headers, body });
+      res.writeHead(receiver.status).end(receiver.status === 200 ? "" : "internal error details");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const SECRET = "whsec_test";
+
+function addChannel(overrides: Partial<NotificationChannel> = {}): NotificationChannel {
+  const channel = {
+    id: crypto.randomUUID(),
+    user_wallet: "alice",
+    kind: "webhook",
+    name: "Team webhook",
+    config: { url: receiverUrl, secret: SECRET },
+    filters: { types: [], mints: [] },
+    enabled: true,
+    created_at: "2026-03-01T00:00:00.000Z",
+    updated_at: "2026-03-01T00:00:00.000Z",
+    ...overrides,
+  } as NotificationChannel;
+  getMemoryTable("notification_channels").push(channel);
+  return channel;
+}
+
+function notification(overrides: Partial<Notification> = {}): Notification {
+  return {
+    id: crypto.randomUUID(),
+    user_wallet: "alice",
+    mint: "aaa",
+    token_name: "AAA",
+    type: "score_change",
+    message: "AAA trust rating changed from 70 to 55",
+    old_value: 70,
+    new_value: 55,
+    read: false,
+    alert_rule_key: "aaa:default-rating-change",
+    created_at: "2026-03-12T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("notification delivery", () => {
+  beforeEach(() => {
+    enableMemoryStore();
+    resetMemoryStore();
+    receiver.requests = [];
+    receiver.status = 200;
+  });
+
+  afterEach(() => {
+    disableMemoryStore();
+    vi.unstubAllEnvs();
+  });
+
+  it("posts signed notifications to matching webhook channels", async () => {
+    addChannel();
+    addChannel({ filters: { types: ["new_risk_flag"], mints: [] } });
+    addChannel({ user_wallet: "bob" });
+
+    const delivered = await deliverNotifications([notification()]);
+
+    expect(delivered).toBe(1);
+    expect(receiver.requests).toHaveLength(1);
+    const [request] = receiver.requests;
+    expect(verifyWebhookSignature(SECRET, request.body, request.headers["x-tokentrust-signature"] as string)).toBe(true);
+    expect(verifyWebhookSignature("whsec_other", request.body, request.headers["x-tokentrust-signature"] as string)).toBe(false);
+    expect(JSON.parse(request.body)).toMatchObject({
+      event: "notification",
+      type: "score_change",
+      mint: "aaa",
+      message: "AAA trust rating changed from 70 to 55",
+    });
+    expect(getMemoryTable("notification_deliveries")).toMatchObject([
+      { status: "delivered", attempts: 1, response_status: 200, next_attempt_at: null },
+    ]);
+  });
+
+  it("matches the mint filter on the watched deployer of launch alerts", async () => {
+    addChannel({ filters: { types: [], mints: ["deployer1"] } });
+    addChannel({ filters: { types: [], mints: ["other"] } });
+
+    const delivered = await deliverNotifications([
+      notification({ mint: "newmint", type: "deployer_new_token", alert_rule_key: "deployer1:default-deployer-new-token" }),
+    ]);
+
+    expect(delivered).toBe(1);
+    expect(receiver.requests).toHaveLength(1);
+  });
+
+  it("retries failed deliveries with backoff until they go through", async () => {
+    addChannel();
+    receiver.status = 503;
+
+    await deliverNotifications([notification()]);
+
+    const [delivery] = getMemoryTable("notification_deliveries");
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1, response_status: 503 });
+    const delayMs = new Date(delivery.next_attempt_at as string).getTime() - Date.now();
+    expect(delayMs).toBeGreaterThan(60_000);
+
+    // Not due yet
+    expect(await retryDueDeliveries()).toMatchObject({ due: 0 });
+
+    delivery.next_attempt_at = new Date(Date.now() - 1000).toISOString();
+    receiver.status = 200;
+    expect(await retryDueDeliveries()).toEqual({ due: 1, delivered: 1, rescheduled: 0, failed: 0 });
+    expect(getMemoryTable("notification_deliveries")[0]).toMatchObject({ status: "delivered", attempts: 2 });
+    expect(receiver.requests).toHaveLength(2);
+  });
+
+  it("gives up after the last attempt or a non-retryable response", async () => {
+    addChannel();
+    receiver.status = 500;
+    await deliverNotifications([notification()]);
+    const [delivery] = getMemoryTable("notification_deliveries");
+    delivery.attempts = MAX_DELIVERY_ATTEMPTS - 1;
+    delivery.next_attempt_at = new Date(Date.now() - 1000).toISOString();
+
+    expect(await retryDueDeliveries()).toMatchObject({ due: 1, failed: 1 });
+    expect(getMemoryTable("notification_deliveries")[0]).toMatchObject({ status: "failed", next_attempt_at: null });
+
+    receiver.status = 410;
+    await deliverNotifications([notification({ id: crypto.randomUUID() })]);
+    expect(getMemoryTable("notification_deliveries")[1]).toMatchObject({ status: "failed", attempts: 1, response_status: 410 });
+  });
+
+  it("sends test messages once and logs them", async () => {
+    const channel = addChannel();
+    receiver.status = 500;
+
+    const delivery = await sendTestNotification(channel);
+
+    expect(delivery).toMatchObject({ status: "failed", attempts: 1, notification_id: null, last_error: "HTTP 500" });
+    expect(JSON.parse(receiver.requests[0].body)).toMatchObject({ event: "test", notificationId: null });
+    expect(receiver.requests[0].headers["x-tokentrust-event"]).toBe("test");
+  });
+
+  it("refuses private addresses, and loopback in production", async () => {
+    const internal = addChannel({ config: { url: "http://10.0.0.1/hooks", secret: SECRET } } as Partial<NotificationChannel>);
+
+    expect(await sendTestNotification(internal)).toMatchObject({
+      status: "failed",
+      response_status: null,
+      last_error: "Host resolves to a blocked address",
+    });
+
+    vi.stubEnv("NODE_ENV", "production");
+    expect(await sendTestNotification(addChannel())).toMatchObject({
+      status: "failed",
+      last_error: "Host resolves to a blocked address",
+    });
+    expect(receiver.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,508 @@
+/**
+ * Canned token scenarios for the golden tests — scoring inputs as the
+ * analyzer would gather them for a rug, a blue chip, a fresh memecoin and
+ * a fiat-backed stablecoin.
+ *
+ * Addresses are placeholders except where the address registry matters
+ * (DEX vaults, exchanges, vesting), which use real registry entries so
+ * holders are classified as they would be on-chain.
+ */
+
+import type { ScoringProfileId } from "@/lib/scoringProfiles";
+import {
+  EMPTY_TOKEN_EXTENSIONS,
+  type HolderSet,
+  type TokenMetadata,
+} from "@/services/helius";
+import type { TokenLiquidity } from "@/services/dexscreener";
+import type { RugCheckResult } from "@/services/rugcheck";
+import type { TokenScoringInputs } from "@/services/tokenAnalyzer";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TokenScenario {
+  id: string;
+  description: string;
+  /** Profile a user would pick for this kind of token. */
+  profile: ScoringProfileId;
+  inputs: TokenScoringInputs;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const RAYDIUM_AMM = "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1";
+const RAYDIUM_CPMM = "GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL";
+const ORCA_WHIRLPOOL = "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc";
+const BINANCE = "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9";
+const COINBASE = "H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS";
+const STREAMFLOW = "strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m";
+
+const FETCHED_AT = "2026-01-01T00:00:00.000Z";
+
+const ALL_SOURCES_OK: TokenScoringInputs["sources"] = {
+  heliusHolders: "ok",
+  fairscaleDeployer: "ok",
+  dexscreener: "ok",
+  jupiter: "ok",
+  rugcheck: "ok",
+};
+
+// ---------------------------------------------------------------------------
+// Builders
+// ---------------------------------------------------------------------------
+
+function metadata(overrides: Partial<TokenMetadata> & Pick<TokenMetadata, "mint" | "name" | "symbol">): TokenMetadata {
+  return {
+    description: "",
+    image: null,
+    decimals: 6,
+    supply: 1_000_000_000_000_000,
+    updateAuthority: null,
+    mintAuthority: null,
+    freezeAuthority: null,
+    extensions: EMPTY_TOKEN_EXTENSIONS,
+    raw: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Holder set from `[owner, percent]` pairs, padded with `fillerCount`
+ * wallets sharing `fillerPercent` with a long tail (the n-th filler holds
+ * in proportion to 1/n, as real holder lists roughly do).
+ */
+function holderSet(
+  named: Array<[string, number]>,
+  fillerCount: number,
+  fillerPercent: number,
+  supply = 1_000_000_000_000_000
+): HolderSet {
+  const weights = Array.from({ length: fillerCount }, (_, i) => 1 / (i + 1));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const filler: Array<[string, number]> = weights.map((w, i) => [
+    `holder-${String(i + 1).padStart(4, "0")}`,
+    (fillerPercent * w) / totalWeight,
+  ]);
+  const holders = [...named, ...filler]
+    .map(([owner, percentage]) => ({
+      owner,
+      amount: Math.round((percentage / 100) * supply),
+      percentage,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+  return { holders, accountCount: holders.length, complete: true };
+}
+
+function liquidity(overrides: Partial<TokenLiquidity> & Pick<TokenLiquidity, "totalLiquidityUsd" | "volume24h">): TokenLiquidity {
+  return {
+    volumeLiquidityRatio: overrides.volume24h / overrides.totalLiquidityUsd,
+    poolCount: 1,
+    primaryDex: "raydium",
+    fdv: 0,
+    marketCap: 0,
+    priceUsd: 0,
+    lpOwnership: null,
+    fetchedAt: FETCHED_AT,
+    ...overrides,
+  };
+}
+
+function rugCheck(riskLevel: RugCheckResult["riskLevel"], risks: RugCheckResult["risks"]): RugCheckResult {
+  return {
+    riskLevel,
+    riskCount: risks.length,
+    score: risks.reduce((sum, r) => sum + r.score, 0),
+    risks,
+  };
+}
+
+function scored(owners: string[], score: number | null): TokenScoringInputs["holderScores"] {
+  return owners.map((owner) => ({ owner, score, status: score === null ? "empty" : "ok" }));
+}
+
+// ---------------------------------------------------------------------------
+// Scenarios
+// ---------------------------------------------------------------------------
+
+const RUG_DEPLOYER = "RugDep1oyer1111111111111111111111111111111";
+const RUG_SNIPERS = ["Sniper111", "Sniper222", "Sniper333", "Sniper444", "Sniper555"].map(
+  (s) => `${s}1111111111111111111111111111111111`
+);
+
+/** Serial deployer, authorities kept, bundled snipers, unsellable. */
+const rug: TokenScenario = {
+  id: "rug",
+  description: "Serial rugger's launch: bundled snipers, unlocked LP and a failing sell",
+  profile: "memecoin",
+  inputs: {
+    metadata: metadata({
+      mint: "RugMint111111111111111111111111111111111111",
+      name: "Moon Rocket",
+      symbol: "MOONR",
+      updateAuthority: RUG_DEPLOYER,
+      mintAuthority: RUG_DEPLOYER,
+      freezeAuthority: RUG_DEPLOYER,
+    }),
+    holderSet: holderSet(
+      [
+        [RUG_DEPLOYER, 55],
+        [RAYDIUM_AMM, 8],
+        ...RUG_SNIPERS.map((w): [string, number] => [w, 5]),
+      ],
+      12,
+      12
+    ),
+    deployerWallet: RUG_DEPLOYER,
+    deployerScore: 120,
+    deployerTier: "bronze",
+    deployerFeatures: { wallet_age_score: 4, active_days: 3 },
+    deployerTrackRecord: {
+      wallet: RUG_DEPLOYER,
+      tokenCount: 9,
+      evaluatedCount: 6,
+      ruggedCount: 5,
+      rugRate: 5 / 6,
+      serialDeployer: true,
+      maxLaunchesInWindow: 7,
+      tokens: [],
+    },
+    holderScores: scored(RUG_SNIPERS, 90),
+    holderClusters: [
+      {
+        id: RUG_SNIPERS[0],
+        wallets: RUG_SNIPERS,
+        reasons: ["shared_funder"],
+        funder: RUG_DEPLOYER,
+        supplyPercent: 25,
+      },
+    ],
+    bundledLaunch: {
+      creationSlot: 300_000_000,
+      creationTime: 1_767_225_600,
+      slotWindow: 3,
+      wallets: RUG_SNIPERS.map((wallet, i) => ({
+        wallet,
+        slot: 300_000_000 + (i % 2),
+        acquiredAmount: 50_000_000_000_000,
+        heldPercent: 5,
+      })),
+      heldPercent: 25,
+    },
+    sellSimulation: {
+      status: "failed",
+      reason: "The transfer hook rejected the sell.",
+      seller: RUG_SNIPERS[0],
+      pool: { label: "Raydium", ammKey: "RugPoo1111111111111111111111111111111111111" },
+      amountIn: "1000000000",
+      expectedLamports: 50_000_000,
+      receivedLamports: null,
+      priceImpactPercent: 4.2,
+      effectiveTaxPercent: null,
+      logs: ["Program log: Error: sells are disabled"],
+      simulatedAt: FETCHED_AT,
+    },
+    dexData: liquidity({
+      totalLiquidityUsd: 800,
+      volume24h: 42_000,
+      fdv: 16_000,
+      marketCap: 16_000,
+      priceUsd: 0.000016,
+      lpOwnership: {
+        pools: [
+          {
+            pairAddress: "RugPoo1111111111111111111111111111111111111",
+            dex: "Raydium AMM",
+            liquidityUsd: 800,
+            lpMint: "RugLpMint11111111111111111111111111111111111",
+            burnedPercent: 0,
+            lockedPercent: 0,
+            unlockedPercent: 100,
+            lockExpiresAt: null,
+            unlockedHolders: [{ owner: RUG_DEPLOYER, percentage: 100 }],
+          },
+        ],
+        unverifiedPoolCount: 0,
+        burnedPercent: 0,
+        lockedPercent: 0,
+        unlockedPercent: 100,
+        lockExpiresAt: null,
+      },
+    }),
+    rugCheck: rugCheck("Danger", [
+      { name: "Mint Authority still enabled", description: "More tokens can be minted", level: "danger", score: 2500 },
+      { name: "Freeze Authority still enabled", description: "Tokens can be frozen", level: "danger", score: 7500 },
+      { name: "Top 10 holders high ownership", description: "", level: "danger", score: 4000 },
+    ]),
+    sources: ALL_SOURCES_OK,
+  },
+};
+
+const BLUE_CHIP_DEPLOYER = "BlueDep1oyer111111111111111111111111111111";
+
+/** Established token: renounced authorities, deep and burned liquidity. */
+const blueChip: TokenScenario = {
+  id: "blueChip",
+  description: "Established DeFi token with renounced authorities and deep liquidity",
+  profile: "blue-chip",
+  inputs: {
+    metadata: metadata({
+      mint: "BLUEmint11111111111111111111111111111111111",
+      name: "Blue Chip",
+      symbol: "BLUE",
+    }),
+    holderSet: holderSet(
+      [
+        [STREAMFLOW, 10],
+        [BINANCE, 6],
+        [COINBASE, 4],
+        [RAYDIUM_AMM, 4],
+        [ORCA_WHIRLPOOL, 3],
+      ],
+      400,
+      73
+    ),
+    deployerWallet: BLUE_CHIP_DEPLOYER,
+    deployerScore: 880,
+    deployerTier: "platinum",
+    deployerFeatures: { wallet_age_score: 95, active_days: 640 },
+    deployerTrackRecord: {
+      wallet: BLUE_CHIP_DEPLOYER,
+      tokenCount: 1,
+      evaluatedCount: 1,
+      ruggedCount: 0,
+      rugRate: 0,
+      serialDeployer: false,
+      maxLaunchesInWindow: 1,
+      tokens: [],
+    },
+    holderScores: scored(
+      Array.from({ length: 10 }, (_, i) => `holder-${String(i + 1).padStart(4, "0")}`),
+      720
+    ),
+    holderClusters: [],
+    bundledLaunch: null,
+    sellSimulation: {
+      status: "success",
+      reason: null,
+      seller: "holder-0001",
+      pool: { label: "Orca", ammKey: "BluePoo1111111111111111111111111111111111111" },
+      amountIn: "10000000",
+      expectedLamports: 62_500_000,
+      receivedLamports: 62_495_000,
+      priceImpactPercent: 0.01,
+      effectiveTaxPercent: 0,
+      logs: [],
+      simulatedAt: FETCHED_AT,
+    },
+    dexData: liquidity({
+      totalLiquidityUsd: 24_000_000,
+      volume24h: 19_000_000,
+      poolCount: 38,
+      primaryDex: "orca",
+      fdv: 1_200_000_000,
+      marketCap: 950_000_000,
+      priceUsd: 1.2,
+      lpOwnership: {
+        pools: [],
+        unverifiedPoolCount: 2,
+        burnedPercent: 62,
+        lockedPercent: 8,
+        unlockedPercent: 30,
+        lockExpiresAt: null,
+      },
+    }),
+    rugCheck: rugCheck("Good", []),
+    sources: ALL_SOURCES_OK,
+  },
+};
+
+const MEME_DEPLOYER = "MemeDep1oyer111111111111111111111111111111";
+const MEME_SNIPERS = ["MemeSnipe1", "MemeSnipe2", "MemeSnipe3"].map(
+  (s) => `${s}11111111111111111111111111111111`
+);
+
+/** Day-old memecoin: renounced, burned LP, a few snipers, one DEX. */
+const freshMemecoin: TokenScenario = {
+  id: "freshMemecoin",
+  description: "Day-old memecoin from an unscored deployer with a few launch snipers",
+  profile: "memecoin",
+  inputs: {
+    metadata: metadata({
+      mint: "MEMEmint11111111111111111111111111111111111",
+      name: "Frog Coin",
+      symbol: "FROG",
+      updateAuthority: MEME_DEPLOYER,
+    }),
+    holderSet: holderSet(
+      [
+        [RAYDIUM_CPMM, 22],
+        [MEME_DEPLOYER, 4],
+        [MEME_SNIPERS[0], 3.5],
+        [MEME_SNIPERS[1], 3],
+        [MEME_SNIPERS[2], 2.5],
+      ],
+      180,
+      65
+    ),
+    deployerWallet: MEME_DEPLOYER,
+    deployerScore: null,
+    deployerTier: null,
+    deployerFeatures: null,
+    deployerTrackRecord: {
+      wallet: MEME_DEPLOYER,
+      tokenCount: 2,
+      evaluatedCount: 1,
+      ruggedCount: 0,
+      rugRate: 0,
+      serialDeployer: false,
+      maxLaunchesInWindow: 2,
+      tokens: [],
+    },
+    holderScores: [
+      ...scored(MEME_SNIPERS, 150),
+      ...scored(["holder-0001", "holder-0002", "holder-0003"], 260),
+      ...scored(["holder-0004", "holder-0005"], null),
+    ],
+    holderClusters: [
+      {
+        id: MEME_SNIPERS[0],
+        wallets: MEME_SNIPERS,
+        reasons: ["shared_funder"],
+        funder: "MemeFunder11111111111111111111111111111111",
+        supplyPercent: 9,
+      },
+    ],
+    bundledLaunch: {
+      creationSlot: 310_000_000,
+      creationTime: 1_767_225_600,
+      slotWindow: 3,
+      wallets: MEME_SNIPERS.map((wallet) => ({
+        wallet,
+        slot: 310_000_001,
+        acquiredAmount: 40_000_000_000_000,
+        heldPercent: 3,
+      })),
+      heldPercent: 9,
+    },
+    sellSimulation: {
+      status: "success",
+      reason: null,
+      seller: "holder-0001",
+      pool: { label: "Raydium CP", ammKey: "MemePoo1111111111111111111111111111111111111" },
+      amountIn: "250000000000",
+      expectedLamports: 62_000_000,
+      receivedLamports: 61_900_000,
+      priceImpactPercent: 0.8,
+      effectiveTaxPercent: 0.16,
+      logs: [],
+      simulatedAt: FETCHED_AT,
+    },
+    dexData: liquidity({
+      totalLiquidityUsd: 48_000,
+      volume24h: 310_000,
+      primaryDex: "raydium",
+      fdv: 220_000,
+      marketCap: 220_000,
+      priceUsd: 0.00022,
+      lpOwnership: {
+        pools: [
+          {
+            pairAddress: "MemePoo1111111111111111111111111111111111111",
+            dex: "Raydium CPMM",
+            liquidityUsd: 48_000,
+            lpMint: "MemeLpMint1111111111111111111111111111111111",
+            burnedPercent: 100,
+            lockedPercent: 0,
+            unlockedPercent: 0,
+            lockExpiresAt: null,
+            unlockedHolders: [],
+          },
+        ],
+        unverifiedPoolCount: 0,
+        burnedPercent: 100,
+        lockedPercent: 0,
+        unlockedPercent: 0,
+        lockExpiresAt: null,
+      },
+    }),
+    rugCheck: rugCheck("Warning", [
+      { name: "Low amount of LP Providers", description: "Only a few users are providing liquidity", level: "warn", score: 400 },
+      { name: "Mutable metadata", description: "Token metadata can be changed by the owner", level: "warn", score: 100 },
+    ]),
+    sources: { ...ALL_SOURCES_OK, fairscaleDeployer: "empty" },
+  },
+};
+
+const STABLE_ISSUER = "StabIssuer1111111111111111111111111111111";
+
+/** Fiat-backed stablecoin: issuer keeps mint and freeze by design. */
+const stablecoin: TokenScenario = {
+  id: "stablecoin",
+  description: "Fiat-backed stablecoin whose issuer keeps mint and freeze authority",
+  profile: "stablecoin",
+  inputs: {
+    metadata: metadata({
+      mint: "STABmint11111111111111111111111111111111111",
+      name: "USD Stable",
+      symbol: "USDS",
+      updateAuthority: STABLE_ISSUER,
+      mintAuthority: STABLE_ISSUER,
+      freezeAuthority: STABLE_ISSUER,
+    }),
+    holderSet: holderSet(
+      [
+        [BINANCE, 9],
+        [COINBASE, 7],
+        [RAYDIUM_AMM, 5],
+        [ORCA_WHIRLPOOL, 6],
+        [STABLE_ISSUER, 3],
+      ],
+      500,
+      70
+    ),
+    deployerWallet: STABLE_ISSUER,
+    deployerScore: 690,
+    deployerTier: "gold",
+    deployerFeatures: { wallet_age_score: 90, active_days: 900 },
+    deployerTrackRecord: null,
+    holderScores: scored(
+      Array.from({ length: 10 }, (_, i) => `holder-${String(i + 1).padStart(4, "0")}`),
+      610
+    ),
+    holderClusters: [],
+    bundledLaunch: null,
+    sellSimulation: {
+      status: "success",
+      reason: null,
+      seller: "holder-0001",
+      pool: { label: "Orca", ammKey: "StabPoo1111111111111111111111111111111111111" },
+      amountIn: "10000000",
+      expectedLamports: 62_500_000,
+      receivedLamports: 62_497_000,
+      priceImpactPercent: 0,
+      effectiveTaxPercent: 0,
+      logs: [],
+      simulatedAt: FETCHED_AT,
+    },
+    dexData: liquidity({
+      totalLiquidityUsd: 310_000_000,
+      volume24h: 240_000_000,
+      poolCount: 120,
+      primaryDex: "orca",
+      fdv: 8_500_000_000,
+      marketCap: 8_500_000_000,
+      priceUsd: 1,
+    }),
+    rugCheck: rugCheck("Warning", [
+      { name: "Mint Authority still enabled", description: "More tokens can be minted", level: "warn", score: 250 },
+      { name: "Freeze Authority still enabled", description: "Tokens can be frozen", level: "warn", score: 250 },
+    ]),
+    sources: ALL_SOURCES_OK,
+  },
+};
+
+export const TOKEN_SCENARIOS: TokenScenario[] = [rug, blueChip, freshMemecoin, stablecoin];
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/services/jupiter", () => ({
+  getDirectSwapQuote: vi.fn(async () => ({
+    inputMint: "mintAAA",
+    outputMint: "So11111111111111111111111111111111111111112",
+    inAmount: "1000",
+    outAmount: "50000000",
+    priceImpactPct: "0.01",
+    routePlan: [{ swapInfo: { ammKey: "pool1", label: "Raydium", inputMint: "mintAAA", outputMint: "wsol" } }],
+  })),
+  buildSwapTransaction: vi.fn(async () => "dHg="),
+}));
+
+import { isEnvironmentError, simulateSell } from "@/services/sellSimulation";
+import type { SolanaRpcClient } from "@/services/solanaRpc";
+
+const SOL = 1_000_000_000;
+
+/** RPC stand-in: per seller balance and simulation outcome. */
+function fakeRpc(
+  sellers: Record<string, { lamports: number; err?: unknown; logs?: string[] }>
+): SolanaRpcClient {
+  let current = "";
+  return {
+    endpoint: "fake",
+    async request<T>(method: string, params: unknown[]): Promise<T> {
+      if (method === "getBalance") {
+        current = params[0] as string;
+        return { value: sellers[current].lamports } as T;
+      }
+      const { lamports, err = null, logs = [] } = sellers[current];
+      return {
+        value: { err, logs, accounts: [{ lamports: lamports + (err ? 0 : 49_000_000) }] },
+      } as T;
+    },
+  };
+}
+
+const holder = (owner: string) => ({ owner, amount: 1_000_000, percentage: 5 });
+
+describe("sell simulation", () => {
+  it("tells seller problems apart from token and pool errors", () => {
+    expect(isEnvironmentError("InsufficientFundsForFee", [])).toBe(true);
+    expect(isEnvironmentError({ InsufficientFundsForRent: { account_index: 0 } }, [])).toBe(true);
+    expect(isEnvironmentError({ InstructionError: [2, "MissingRequiredSignature"] }, [])).toBe(true);
+    expect(
+      isEnvironmentError({ InstructionError: [1, { Custom: 1 }] }, [
+        "Program ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA1knL invoke [1]",
+        "Program 11111111111111111111111111111111 failed: custom program error: 0x1",
+        "Program ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA1knL failed: custom program error: 0x1",
+      ])
+    ).toBe(true);
+    // Frozen token account in the token program, a transfer hook rejecting the sell
+    expect(
+      isEnvironmentError({ InstructionError: [3, { Custom: 17 }] }, [
+        "Program TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA failed: custom program error: 0x11",
+      ])
+    ).toBe(false);
+    expect(
+      isEnvironmentError({ InstructionError: [3, { Custom: 6000 }] }, [
+        "Program HookProgram1111111111111111111111111111111 failed: custom program error: 0x1770",
+      ])
+    ).toBe(false);
+  });
+
+  it("skips holders that cannot pay for the sell instead of failing the token", async () => {
+    const rpc = fakeRpc({
+      poor: { lamports: 0 },
+      vault: { lamports: SOL, err: "InsufficientFundsForFee" },
+    });
+
+    const result = await simulateSell("mintAAA", [holder("poor"), holder("vault")], 6, null, { rpc });
+
+    expect(result.status).toBe("skipped");
+  });
+
+  it("fails on program errors and succeeds when one seller can sell", async () => {
+    const hook = {
+      lamports: SOL,
+      err: { InstructionError: [3, { Custom: 6000 }] },
+      logs: ["Program HookProgram1111111111111111111111111111111 failed: custom program error: 0x1770"],
+    };
+
+    const failed = await simulateSell("mintAAA", [holder("a")], 6, null, { rpc: fakeRpc({ a: hook }) });
+    expect(failed.status).toBe("failed");
+
+    const succeeded = await simulateSell("mintAAA", [holder("poor"), holder("b")], 6, null, {
+      rpc: fakeRpc({ poor: { lamports: 0 }, b: { lamports: SOL } }),
+    });
+    expect(succeeded).toMatchObject({ status: "success", seller: "b", receivedLamports: 49_000_000 });
+  });
+});
@@ -0,0 +1,92 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { getRatingBand } from "@/lib/ratingBands";
+import { getScoringProfile } from "@/lib/scoringProfiles";
+import { scoreToken } from "@/services/tokenAnalyzer";
+import {
+  buildGoldenSnapshot,
+  diffGoldenSnapshots,
+  formatGoldenReport,
+  type GoldenSnapshot,
+} from "./goldenReport";
+import { TOKEN_SCENARIOS, type TokenScenario } from "./scenarios";
+
+const GOLDEN_FILE = path.join(__dirname, "__golden__", "ratings.json");
+
+function scenario(id: string): TokenScenario {
+  const found = TOKEN_SCENARIOS.find((s) => s.id === id);
+  if (!found) throw new Error(`Unknown scenario ${id}`);
+  return found;
+}
+
+function score(id: string, profileId = "default") {
+  const result = scoreToken(scenario(id).inputs, getScoringProfile(profileId));
+  return {
+    ...result,
+    band: getRatingBand(result.trustRating),
+    flagCodes: result.riskFlags.map((f) => f.code),
+  };
+}
+
+describe("scoreToken golden scenarios", () => {
+  it("rates a rug as Risky and raises its critical flags", () => {
+    const rug = score("rug");
+    expect(rug.band).toBe("Risky");
+    expect(rug.flagCodes).toEqual(
+      expect.arrayContaining([
+        "ACTIVE_MINT_AUTHORITY",
+        "ACTIVE_FREEZE_AUTHORITY",
+        "CREATOR_HOLDS_MAJORITY",
+        "BUNDLED_LAUNCH",
+        "CONNECTED_WALLETS",
+        "UNLOCKED_LP_HELD_BY_DEPLOYER",
+        "SELL_SIMULATION_FAILED",
+        "LOW_LIQUIDITY",
+        "RUGCHECK_DANGER",
+      ])
+    );
+    expect(score("rug", "memecoin").band).toBe("Risky");
+  });
+
+  it("rates a blue chip as Trusted without high-severity flags", () => {
+    const blueChip = score("blueChip");
+    expect(blueChip.band).toBe("Trusted");
+    expect(blueChip.riskFlags.filter((f) => f.severity === "critical" || f.severity === "high"))
+      .toEqual([]);
+    expect(score("blueChip", "blue-chip").band).toBe("Trusted");
+  });
+
+  it("rates a fresh memecoin as Caution with medium-severity launch flags", () => {
+    const memecoin = score("freshMemecoin");
+    expect(memecoin.band).toBe("Caution");
+    expect(memecoin.flagCodes).toEqual(expect.arrayContaining(["SINGLE_DEX", "MUTABLE_METADATA"]));
+    expect(memecoin.riskFlags.find((f) => f.code === "BUNDLED_LAUNCH")?.severity).toBe("medium");
+    expect(memecoin.flagCodes).not.toContain("SELL_SIMULATION_FAILED");
+  });
+
+  it("flags a stablecoin's issuer authorities but does not rate it Risky", () => {
+    const stablecoin = score("stablecoin", "stablecoin");
+    expect(stablecoin.flagCodes).toEqual(
+      expect.arrayContaining(["ACTIVE_MINT_AUTHORITY", "ACTIVE_FREEZE_AUTHORITY"])
+    );
+    expect(stablecoin.band).not.toBe("Risky");
+    expect(stablecoin.flagCodes).not.toContain("LOW_LIQUIDITY");
+  });
+
+  it("matches the golden rating snapshot", () => {
+    const current = buildGoldenSnapshot(TOKEN_SCENARIOS);
+
+    if (process.env.UPDATE_GOLDEN) {
+      writeFileSync(GOLDEN_FILE, `${JSON.stringify(current, null, 2)}\n`);
+      return;
+    }
+
+    const golden = JSON.parse(readFileSync(GOLDEN_FILE, "utf8")) as GoldenSnapshot;
+    const changes = diffGoldenSnapshots(golden, current);
+    const report = formatGoldenReport(changes, Object.keys(current).length);
+    expect(changes.length, `${report}\n\nRun \`npm run test:golden:update\` if intended.`)
+      .toBe(0);
+  });
+});
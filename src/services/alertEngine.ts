@@ -0,0 +1,515 @@
+/**
+ * Alert engine — checks every watchlist entry on a schedule and notifies
+ * its owner when one of the entry's alert rules (see `@/lib/alertRules`)
+ * fires.
+ *
+ * Each run:
+ *   1. Collects every watchlist entry with enabled rules and groups token
+ *      entries by mint, so each mint is analyzed once per run.
+ *   2. Picks the least recently attempted mints (up to `MAX_MINTS_PER_RUN`)
+ *      and records the attempt in `alert_check_attempts`, so large
+ *      watchlists are covered over consecutive runs and mints whose
+ *      analysis keeps failing don't hold up the rest.
+ *   3. Analyzes them a few at a time (cached analyses under an hour old
+ *      are reused) and evaluates each watcher's rules against the mint's
+ *      last `alert_snapshots` row, or the cached analysis for a mint seen
+ *      for the first time.
+ *   4. Looks for tokens first seen since the last check for every watched
+ *      deployer.
+ *   5. Writes one notification per fired rule, skipping rules still in
+ *      their cooldown, delivers it to the owner's outbound channels
+ *      (`@/services/notificationDelivery`), then stores the new snapshots.
+ *
+ * Driven by GET /api/cron/alerts.
+ *
+ * IMPORTANT: Server-side only (uses the service role Supabase client).
+ */
+
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { mapWithConcurrency } from "@/lib/upstreamLimiter";
+import {
+  ALERT_RULE_KINDS,
+  evaluateTokenAlertRules,
+  getAlertRuleKey,
+  resolveAlertRules,
+  type AlertEntityType,
+  type AlertRule,
+  type AlertRuleMatch,
+  type TokenAlertState,
+} from "@/lib/alertRules";
+import { analyzeToken, type TrustAnalysis } from "@/services/tokenAnalyzer";
+import { deliverNotifications } from "@/services/notificationDelivery";
+import type { TokenLiquidity } from "@/services/dexscreener";
+import type {
+  AlertCheckAttempt,
+  AlertSnapshot,
+  FairScoreTier,
+  Notification,
+  NotificationInsert,
+  RiskFlag,
+} from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AlertRunSummary {
+  /** Watchlist entries with at least one enabled rule. */
+  watchlistEntries: number;
+  /** Distinct watched token mints. */
+  mints: number;
+  /** Mints analyzed and evaluated this run. */
+  checked: number;
+  /** Mints left for a later run (beyond `MAX_MINTS_PER_RUN`). */
+  deferred: number;
+  /** Mints whose analysis failed or found no token. */
+  failed: number;
+  /** Distinct watched deployers checked for new tokens. */
+  deployers: number;
+  /** Notifications written. */
+  notifications: number;
+}
+
+interface WatchlistRow {
+  id: string | number;
+  user_wallet: string;
+  token_mint: string;
+  entity_type: AlertEntityType | null;
+  alert_rules: AlertRule[] | null;
+  alerts_checked_at: string | null;
+}
+
+interface TokenWatcher {
+  wallet: string;
+  rules: AlertRule[];
+}
+
+interface DeployerWatch {
+  id: string | number;
+  wallet: string;
+  deployer: string;
+  rule: AlertRule;
+  checkedAt: string | null;
+}
+
+/** A fired rule for one user, before cooldowns are applied. */
+interface AlertCandidate {
+  wallet: string;
+  mint: string;
+  tokenName: string | null;
+  ruleKey: string;
+  match: AlertRuleMatch;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Mints analyzed per run; the rest wait for the next run. */
+const MAX_MINTS_PER_RUN = 50;
+
+/** Token analyses run at once. */
+const ANALYSIS_CONCURRENCY = 3;
+
+/** Mints per `in (...)` filter, to keep query URLs short. */
+const QUERY_CHUNK = 100;
+
+/** Watchlist rows per page; at most PostgREST's default max-rows (1000). */
+const WATCHLIST_PAGE_SIZE = 1000;
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+/** The alert state of a fresh analysis. */
+function toTokenAlertState(
+  analysis: Pick<TrustAnalysis, "trustRating" | "riskFlags" | "liquidity" | "topHolderConcentration" | "deployerTier">
+): TokenAlertState {
+  return {
+    trustRating: analysis.trustRating,
+    riskFlagCodes: analysis.riskFlags.map((f) => f.code),
+    liquidityUsd: analysis.liquidity?.totalLiquidityUsd ?? null,
+    topHolderPercent: analysis.topHolderConcentration,
+    deployerTier: analysis.deployerTier,
+  };
+}
+
+function snapshotToState(snapshot: AlertSnapshot): TokenAlertState {
+  return {
+    trustRating: snapshot.trust_rating,
+    riskFlagCodes: snapshot.risk_flag_codes,
+    liquidityUsd: snapshot.liquidity_usd,
+    topHolderPercent: snapshot.top_holder_percent,
+    deployerTier: snapshot.deployer_tier,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Supabase helpers
+// ---------------------------------------------------------------------------
+
+type ServerSupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** Run an `in (...)` query over `values` in chunks and concatenate the rows. */
+async function selectInChunks<T>(
+  values: string[],
+  query: (chunk: string[]) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < values.length; i += QUERY_CHUNK) {
+    const { data, error } = await query(values.slice(i, i + QUERY_CHUNK));
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as T[]));
+  }
+  return rows;
+}
+
+/**
+ * Watchlist entries with enabled rules: token watchers grouped by mint
+ * (one watcher per wallet) and deployer entries watching for new tokens.
+ */
+async function getWatches(supabase: ServerSupabaseClient): Promise<{
+  entries: number;
+  tokenWatchers: Map<string, TokenWatcher[]>;
+  deployerWatches: DeployerWatch[];
+}> {
+  // Keyset pages: PostgREST silently caps a plain select at max-rows
+  const rows: WatchlistRow[] = [];
+  let cursor: WatchlistRow["id"] | null = null;
+  for (;;) {
+    let query = supabase
+      .from("watchlist")
+      .select("id, user_wallet, token_mint, entity_type, alert_rules, alerts_checked_at")
+      .order("id", { ascending: true })
+      .limit(WATCHLIST_PAGE_SIZE);
+    if (cursor !== null) query = query.gt("id", cursor);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Watchlist fetch failed: ${error.message}`);
+
+    const page = (data ?? []) as WatchlistRow[];
+    rows.push(...page);
+    if (page.length < WATCHLIST_PAGE_SIZE) break;
+    cursor = page[page.length - 1].id;
+  }
+
+  let entries = 0;
+  const tokenWatchers = new Map<string, TokenWatcher[]>();
+  const deployerWatches: DeployerWatch[] = [];
+
+  for (const row of rows) {
+    const entityType = row.entity_type ?? "token";
+    const rules = resolveAlertRules(row.alert_rules, entityType).filter(
+      (rule) => rule.enabled && ALERT_RULE_KINDS[rule.kind].entityTypes.includes(entityType)
+    );
+    if (rules.length === 0) continue;
+    entries++;
+
+    if (entityType === "token") {
+      const watchers = tokenWatchers.get(row.token_mint) ?? [];
+      if (!watchers.some((w) => w.wallet === row.user_wallet)) {
+        watchers.push({ wallet: row.user_wallet, rules });
+      }
+      tokenWatchers.set(row.token_mint, watchers);
+    } else if (entityType === "deployer") {
+      for (const rule of rules) {
+        deployerWatches.push({
+          id: row.id,
+          wallet: row.user_wallet,
+          deployer: row.token_mint,
+          rule,
+          checkedAt: row.alerts_checked_at,
+        });
+      }
+    }
+  }
+
+  return { entries, tokenWatchers, deployerWatches };
+}
+
+/**
+ * Last known state per mint: the alert snapshot, or the cached analysis
+ * for mints the engine has not checked yet.
+ */
+async function getBaselines(
+  supabase: ServerSupabaseClient,
+  mints: string[]
+): Promise<Map<string, TokenAlertState>> {
+  const snapshots = await selectInChunks<AlertSnapshot>(mints, (chunk) =>
+    supabase.from("alert_snapshots").select("*").in("mint", chunk)
+  );
+
+  const baselines = new Map<string, TokenAlertState>();
+  for (const snapshot of snapshots) {
+    baselines.set(snapshot.mint, snapshotToState(snapshot));
+  }
+
+  const unseen = mints.filter((mint) => !baselines.has(mint));
+  const cached = await selectInChunks<{
+    mint: string;
+    trust_rating: number;
+    risk_flags: RiskFlag[] | null;
+    liquidity: TokenLiquidity | null;
+    top_holder_concentration: number;
+    deployer_tier: FairScoreTier | null;
+  }>(unseen, (chunk) =>
+    supabase
+      .from("token_analyses")
+      .select("mint, trust_rating, risk_flags, liquidity, top_holder_concentration, deployer_tier")
+      .in("mint", chunk)
+  );
+  for (const row of cached) {
+    baselines.set(
+      row.mint,
+      toTokenAlertState({
+        trustRating: row.trust_rating,
+        riskFlags: Array.isArray(row.risk_flags) ? row.risk_flags : [],
+        liquidity: row.liquidity,
+        topHolderConcentration: row.top_holder_concentration,
+        deployerTier: row.deployer_tier,
+      })
+    );
+  }
+
+  return baselines;
+}
+
+/**
+ * Up to `MAX_MINTS_PER_RUN` of `mints`, never-attempted first, then the
+ * least recently attempted, with the attempt recorded as `attemptedAt`.
+ */
+async function pickMints(
+  supabase: ServerSupabaseClient,
+  mints: string[],
+  attemptedAt: string
+): Promise<string[]> {
+  const attempts = await selectInChunks<AlertCheckAttempt>(mints, (chunk) =>
+    supabase.from("alert_check_attempts").select("mint, attempted_at").in("mint", chunk)
+  );
+  const lastAttempt = new Map(attempts.map((a) => [a.mint, a.attempted_at]));
+
+  const picked = [...mints]
+    .sort((a, b) => (lastAttempt.get(a) ?? "").localeCompare(lastAttempt.get(b) ?? ""))
+    .slice(0, MAX_MINTS_PER_RUN);
+  if (picked.length === 0) return picked;
+
+  const { error } = await supabase
+    .from("alert_check_attempts")
+    .upsert(picked.map((mint) => ({ mint, attempted_at: attemptedAt })), { onConflict: "mint" });
+  if (error) throw new Error(`Alert check attempt upsert failed: ${error.message}`);
+
+  return picked;
+}
+
+/**
+ * Notification rows for the candidates whose rule is out of its cooldown,
+ * i.e. has not notified the same user within `cooldownHours`.
+ */
+async function applyCooldowns(
+  supabase: ServerSupabaseClient,
+  candidates: AlertCandidate[]
+): Promise<NotificationInsert[]> {
+  if (candidates.length === 0) return [];
+
+  const longestCooldownHours = Math.max(...candidates.map((c) => c.match.rule.cooldownHours));
+  const since = new Date(Date.now() - longestCooldownHours * 60 * 60 * 1000).toISOString();
+  const { data: recent, error } = await supabase
+    .from("notifications")
+    .select("user_wallet, alert_rule_key, created_at")
+    .in("alert_rule_key", [...new Set(candidates.map((c) => c.ruleKey))])
+    .gte("created_at", since);
+
+  if (error) throw new Error(`Recent notifications fetch failed: ${error.message}`);
+
+  const lastFired = new Map<string, number>();
+  for (const n of (recent ?? []) as Array<Pick<Notification, "user_wallet" | "alert_rule_key" | "created_at">>) {
+    const key = `${n.user_wallet}|${n.alert_rule_key}`;
+    lastFired.set(key, Math.max(lastFired.get(key) ?? 0, new Date(n.created_at).getTime()));
+  }
+
+  return candidates
+    .filter((c) => {
+      const fired = lastFired.get(`${c.wallet}|${c.ruleKey}`);
+      return fired === undefined || Date.now() - fired >= c.match.rule.cooldownHours * 60 * 60 * 1000;
+    })
+    .map((c) => ({
+      user_wallet: c.wallet,
+      mint: c.mint,
+      token_name: c.tokenName,
+      type: c.match.type,
+      message: c.match.message,
+      old_value: c.match.oldValue,
+      new_value: c.match.newValue,
+      read: false,
+      alert_rule_key: c.ruleKey,
+    }));
+}
+
+/** Write the notifications out of cooldown and send them to their owners' channels. */
+async function notify(supabase: ServerSupabaseClient, candidates: AlertCandidate[]): Promise<number> {
+  const rows = await applyCooldowns(supabase, candidates);
+  if (rows.length === 0) return 0;
+  const { data, error } = await supabase.from("notifications").insert(rows).select();
+  if (error) throw new Error(`Notification insert failed: ${error.message}`);
+  await deliverNotifications((data ?? []) as Notification[]);
+  return rows.length;
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/** Analyze one mint, notify watchers whose rules fire and store the snapshot. */
+async function checkMint(
+  supabase: ServerSupabaseClient,
+  mint: string,
+  watchers: TokenWatcher[],
+  previous: TokenAlertState | null
+): Promise<number | null> {
+  const fresh = await analyzeToken(mint);
+  if (!fresh) return null;
+
+  const current = toTokenAlertState(fresh);
+  const tokenName = fresh.name ?? mint.slice(0, 8);
+  const candidates = watchers.flatMap((watcher) =>
+    evaluateTokenAlertRules(watcher.rules, previous, current, tokenName).map((match) => ({
+      wallet: watcher.wallet,
+      mint,
+      tokenName: fresh.name,
+      ruleKey: getAlertRuleKey(mint, match.rule),
+      match,
+    }))
+  );
+  const notified = await notify(supabase, candidates);
+
+  const snapshot: AlertSnapshot = {
+    mint,
+    token_name: fresh.name,
+    trust_rating: current.trustRating,
+    risk_flag_codes: current.riskFlagCodes,
+    liquidity_usd: current.liquidityUsd,
+    top_holder_percent: current.topHolderPercent,
+    deployer_tier: fresh.deployerTier,
+    checked_at: new Date().toISOString(),
+  };
+  const { error } = await supabase
+    .from("alert_snapshots")
+    .upsert(snapshot, { onConflict: "mint" });
+  if (error) throw new Error(`Alert snapshot upsert failed: ${error.message}`);
+
+  return notified;
+}
+
+/**
+ * Notify deployer watchers of tokens first seen (in `token_analyses`)
+ * since their entry was last checked. An entry checked for the first
+ * time only records the check. Tokens are counted up to `checkedAt`, so
+ * one seen during the run is left for the next.
+ */
+async function checkDeployers(
+  supabase: ServerSupabaseClient,
+  watches: DeployerWatch[],
+  checkedAt: string
+): Promise<number> {
+  const deployers = [...new Set(watches.map((w) => w.deployer))];
+  const candidates: AlertCandidate[] = [];
+
+  for (const deployer of deployers) {
+    const deployerWatches = watches.filter((w) => w.deployer === deployer && w.checkedAt !== null);
+    if (deployerWatches.length === 0) continue;
+
+    const since = deployerWatches.map((w) => w.checkedAt!).sort()[0];
+    const { data, error } = await supabase
+      .from("token_analyses")
+      .select("mint, name, symbol, created_at")
+      .eq("deployer_wallet", deployer)
+      .gt("created_at", since)
+      .lte("created_at", checkedAt)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error(`New token lookup for deployer ${deployer} failed:`, error.message);
+      continue;
+    }
+    const tokens = (data ?? []) as Array<{ mint: string; name: string | null; symbol: string | null; created_at: string }>;
+
+    for (const watch of deployerWatches) {
+      const newTokens = tokens.filter((t) => t.created_at > watch.checkedAt!);
+      if (newTokens.length === 0) continue;
+
+      const names = newTokens.map((t) => t.name ?? t.symbol ?? t.mint.slice(0, 8));
+      candidates.push({
+        wallet: watch.wallet,
+        mint: newTokens[0].mint,
+        tokenName: newTokens[0].name,
+        ruleKey: getAlertRuleKey(deployer, watch.rule),
+        match: {
+          rule: watch.rule,
+          type: ALERT_RULE_KINDS[watch.rule.kind].notificationType,
+          message: `Deployer ${deployer.slice(0, 6)}...${deployer.slice(-4)} launched ${newTokens.length} new token${newTokens.length > 1 ? "s" : ""}: ${names.join(", ")}`,
+          oldValue: null,
+          newValue: newTokens.length,
+        },
+      });
+    }
+  }
+
+  const notified = await notify(supabase, candidates);
+
+  const { error } = await supabase
+    .from("watchlist")
+    .update({ alerts_checked_at: checkedAt })
+    .in("id", [...new Set(watches.map((w) => w.id))]);
+  if (error) throw new Error(`Watchlist check time update failed: ${error.message}`);
+
+  return notified;
+}
+
+// ---------------------------------------------------------------------------
+// runAlertEngine — scheduled entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Check watchlist entries against their alert rules and notify their
+ * owners. Failures of a single mint are logged and counted, not thrown.
+ */
+export async function runAlertEngine(): Promise<AlertRunSummary> {
+  const supabase = createServerSupabaseClient();
+  const startedAt = new Date().toISOString();
+  const { entries, tokenWatchers, deployerWatches } = await getWatches(supabase);
+  const allMints = [...tokenWatchers.keys()];
+  const mints = await pickMints(supabase, allMints, startedAt);
+  const baselines = await getBaselines(supabase, mints);
+
+  let failed = 0;
+  let notifications = 0;
+
+  await mapWithConcurrency(mints, ANALYSIS_CONCURRENCY, async (mint) => {
+    try {
+      const notified = await checkMint(supabase, mint, tokenWatchers.get(mint) ?? [], baselines.get(mint) ?? null);
+      if (notified === null) failed++;
+      else notifications += notified;
+    } catch (error) {
+      console.error(`Alert check for ${mint} failed:`, error);
+      failed++;
+    }
+  });
+
+  if (deployerWatches.length > 0) {
+    try {
+      notifications += await checkDeployers(supabase, deployerWatches, startedAt);
+    } catch (error) {
+      console.error("Deployer alert check failed:", error);
+    }
+  }
+
+  return {
+    watchlistEntries: entries,
+    mints: allMints.length,
+    checked: mints.length - failed,
+    deferred: allMints.length - mints.length,
+    failed,
+    deployers: new Set(deployerWatches.map((w) => w.deployer)).size,
+    notifications,
+  };
+}
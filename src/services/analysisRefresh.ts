@@ -0,0 +1,65 @@
+/**
+ * Analysis refresh queue — re-analyzes tokens in the background after a
+ * stale cached analysis was served (stale-while-revalidate).
+ *
+ * Refreshes run the default scoring profile with `skipCache`, so the
+ * shared `token_analyses` row is rewritten. Clients subscribed to that
+ * row through Supabase Realtime (`useTokenAnalysis`) then refetch.
+ *
+ * The queue lives in the server process: a mint already queued or
+ * refreshing is not queued again, and at most `MAX_CONCURRENT_REFRESHES`
+ * analyses run at once so a burst of stale pages cannot fan out into
+ * dozens of full analyses.
+ *
+ * IMPORTANT: Server-side only (analysis uses API keys).
+ */
+
+import { analyzeToken } from "@/services/tokenAnalyzer";
+
+const MAX_CONCURRENT_REFRESHES = 2;
+
+/** Mints queued or refreshing, with the promise that settles when done. */
+const pendingRefreshes = new Map<string, Promise<void>>();
+const waiting: Array<() => void> = [];
+let running = 0;
+
+async function acquireSlot(): Promise<void> {
+  if (running < MAX_CONCURRENT_REFRESHES) {
+    running++;
+    return;
+  }
+  // The releasing refresh hands its slot over without decrementing
+  await new Promise<void>((resolve) => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) next();
+  else running--;
+}
+
+async function refresh(mint: string): Promise<void> {
+  await acquireSlot();
+  try {
+    await analyzeToken(mint, { skipCache: true });
+  } catch (error) {
+    console.error(`Background refresh of ${mint} failed:`, error);
+  } finally {
+    releaseSlot();
+    pendingRefreshes.delete(mint);
+  }
+}
+
+/**
+ * Queue a background re-analysis of `mint`. Returns a promise that
+ * settles once the refresh has finished (it never rejects), so callers
+ * can hand it to `after()` to keep the request alive until then.
+ */
+export function enqueueAnalysisRefresh(mint: string): Promise<void> {
+  const pending = pendingRefreshes.get(mint);
+  if (pending) return pending;
+
+  const request = refresh(mint);
+  pendingRefreshes.set(mint, request);
+  return request;
+}
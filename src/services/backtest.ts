@@ -0,0 +1,195 @@
+/**
+ * Backtest datasets — labeled mints with recorded scoring inputs, replayed
+ * through `scoreToken` to measure how well the trust rating predicts rugs.
+ *
+ * A dataset is a JSON file of entries, one per mint:
+ *   { mint, label: "rugged" | "survived" | "unlabeled", ruggedAt?,
+ *     snapshots: [{ capturedAt, inputs }] }
+ * Snapshots are captured from a live (or fixture-mode) analysis; the raw
+ * provider metadata is dropped to keep files small. Each labeled mint is
+ * scored from its earliest snapshot taken before `ruggedAt`, so the rating
+ * is the one a user would have seen before the outcome was known.
+ *
+ * Replaying is pure and offline; capturing runs the full analyzer.
+ *
+ * IMPORTANT: Server-side only (capture uses API keys and Supabase).
+ */
+
+import { z } from "zod";
+import { computeBacktestReport, type BacktestReport, type BacktestSample } from "@/lib/backtest";
+import type { ScoringProfile } from "@/lib/scoringProfiles";
+import {
+  analyzeToken,
+  scoreToken,
+  type TokenScoringInputs,
+} from "@/services/tokenAnalyzer";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type BacktestLabel = "rugged" | "survived" | "unlabeled";
+
+export interface BacktestSnapshot {
+  capturedAt: string;
+  inputs: TokenScoringInputs;
+}
+
+export interface BacktestEntry {
+  mint: string;
+  label: BacktestLabel;
+  /** When the token rugged (ISO); later snapshots are ignored. */
+  ruggedAt?: string | null;
+  snapshots: BacktestSnapshot[];
+}
+
+export interface BacktestDataset {
+  entries: BacktestEntry[];
+}
+
+export interface BacktestRun {
+  report: BacktestReport;
+  samples: BacktestSample[];
+  /** Labeled mints without a snapshot from before the rug. */
+  skippedMints: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Scoring inputs are checked for shape only; they are written by
+ * `captureSnapshot`.
+ */
+const scoringInputsSchema = z.custom<TokenScoringInputs>(
+  (value) =>
+    typeof value === "object" &&
+    value !== null &&
+    "metadata" in value &&
+    typeof value.metadata === "object" &&
+    value.metadata !== null,
+  "Expected scoring inputs with metadata"
+);
+
+const datasetSchema: z.ZodType<BacktestDataset, z.ZodTypeDef, unknown> = z.object({
+  entries: z.array(
+    z.object({
+      mint: z.string().min(1),
+      label: z.enum(["rugged", "survived", "unlabeled"]),
+      ruggedAt: z.string().datetime().nullish(),
+      snapshots: z.array(
+        z.object({
+          capturedAt: z.string().datetime(),
+          inputs: scoringInputsSchema,
+        })
+      ),
+    })
+  ),
+});
+
+/** Parse a dataset, throwing a readable error for malformed files. */
+export function parseBacktestDataset(json: unknown): BacktestDataset {
+  const parsed = datasetSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid backtest dataset at ${issue.path.join(".")}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/** Earliest snapshot captured before the rug (any snapshot for survivors). */
+export function selectSnapshot(entry: BacktestEntry): BacktestSnapshot | null {
+  const cutoff = entry.ruggedAt ? new Date(entry.ruggedAt).getTime() : Infinity;
+  const eligible = entry.snapshots
+    .filter((s) => new Date(s.capturedAt).getTime() < cutoff)
+    .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+  return eligible[0] ?? null;
+}
+
+/** Score every labeled mint with `profile` and compute the report. */
+export function runBacktest(dataset: BacktestDataset, profile: ScoringProfile): BacktestRun {
+  const samples: BacktestSample[] = [];
+  const skippedMints: string[] = [];
+
+  for (const entry of dataset.entries) {
+    if (entry.label === "unlabeled") continue;
+    const snapshot = selectSnapshot(entry);
+    if (!snapshot) {
+      skippedMints.push(entry.mint);
+      continue;
+    }
+    const score = scoreToken(snapshot.inputs, profile);
+    samples.push({
+      mint: entry.mint,
+      rugged: entry.label === "rugged",
+      trustRating: score.trustRating,
+      flags: [...new Set(score.riskFlags.map((f) => f.code))],
+    });
+  }
+
+  return { report: computeBacktestReport(samples), samples, skippedMints };
+}
+
+// ---------------------------------------------------------------------------
+// Capture
+// ---------------------------------------------------------------------------
+
+/**
+ * Analyze `mint` afresh and return its scoring inputs as a snapshot, or
+ * `null` when the token is not found.
+ */
+export async function captureSnapshot(mint: string): Promise<BacktestSnapshot | null> {
+  const captured: { inputs?: TokenScoringInputs } = {};
+  const analysis = await analyzeToken(mint, {
+    skipCache: true,
+    onScoringInputs: (inputs) => {
+      captured.inputs = inputs;
+    },
+  });
+  if (!analysis || !captured.inputs) return null;
+
+  const { metadata, ...rest } = captured.inputs;
+  return {
+    capturedAt: analysis.analyzedAt,
+    inputs: { ...rest, metadata: { ...metadata, raw: {} } },
+  };
+}
+
+/** Add a snapshot (and optionally a label) for `mint`, creating its entry. */
+export function addSnapshot(
+  dataset: BacktestDataset,
+  mint: string,
+  snapshot: BacktestSnapshot,
+  label?: BacktestLabel
+): BacktestDataset {
+  const existing = dataset.entries.find((e) => e.mint === mint);
+  const entry: BacktestEntry = existing
+    ? { ...existing, snapshots: [...existing.snapshots, snapshot] }
+    : { mint, label: "unlabeled", snapshots: [snapshot] };
+  if (label) entry.label = label;
+  return {
+    entries: existing
+      ? dataset.entries.map((e) => (e.mint === mint ? entry : e))
+      : [...dataset.entries, entry],
+  };
+}
+
+/** Set the outcome of `mint`; `null` when the dataset has no such entry. */
+export function labelEntry(
+  dataset: BacktestDataset,
+  mint: string,
+  label: BacktestLabel,
+  ruggedAt: string | null = null
+): BacktestDataset | null {
+  if (!dataset.entries.some((e) => e.mint === mint)) return null;
+  return {
+    entries: dataset.entries.map((e) =>
+      e.mint === mint ? { ...e, label, ruggedAt: label === "rugged" ? ruggedAt : null } : e
+    ),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Birdeye service — token market data from a Birdeye-compatible
+ * `token_overview` API, used as a fallback when DexScreener is down.
+ *
+ * Requires BIRDEYE_API_KEY. BIRDEYE_API_URL points the service at another
+ * deployment with the same API shape. Results carry no LP verification,
+ * since the overview does not list pool addresses.
+ */
+
+import type { SourceResult } from "@/lib/dataSources";
+import type { TokenLiquidity } from "@/services/dexscreener";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Subset of the Birdeye /defi/token_overview response. */
+interface BirdeyeTokenOverview {
+  price?: number | null;
+  liquidity?: number | null;
+  v24hUSD?: number | null;
+  mc?: number | null;
+  marketCap?: number | null;
+  fdv?: number | null;
+  numberMarkets?: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const BIRDEYE_DEFAULT_URL = "https://public-api.birdeye.so";
+
+// ---------------------------------------------------------------------------
+// getBirdeyeMarketData
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch price, liquidity and volume for a token. `skipped` when no API key
+ * is configured; `empty` when Birdeye has no market for the token.
+ */
+export async function getBirdeyeMarketDataResult(
+  mint: string
+): Promise<SourceResult<TokenLiquidity>> {
+  const apiKey = process.env.BIRDEYE_API_KEY;
+  if (!apiKey) return { status: "skipped", data: null };
+
+  try {
+    const baseUrl = process.env.BIRDEYE_API_URL ?? BIRDEYE_DEFAULT_URL;
+    const res = await fetch(
+      `${baseUrl}/defi/token_overview?address=${encodeURIComponent(mint)}`,
+      {
+        headers: { "X-API-KEY": apiKey, "x-chain": "solana", Accept: "application/json" },
+        signal: AbortSignal.timeout(10_000),
+      }
+    );
+
+    if (res.status === 404) return { status: "empty", data: null };
+    if (!res.ok) {
+      console.error(`Birdeye API returned ${res.status} for ${mint}`);
+      return { status: "failed", data: null };
+    }
+
+    const json = (await res.json()) as { success?: boolean; data?: BirdeyeTokenOverview | null };
+    const overview = json.data;
+    if (!json.success || !overview || !overview.liquidity) {
+      return { status: "empty", data: null };
+    }
+
+    const totalLiquidityUsd = overview.liquidity;
+    const volume24h = overview.v24hUSD ?? 0;
+    const marketCap = overview.marketCap ?? overview.mc ?? 0;
+
+    return {
+      status: "ok",
+      data: {
+        totalLiquidityUsd,
+        volume24h,
+        volumeLiquidityRatio: totalLiquidityUsd > 0 ? volume24h / totalLiquidityUsd : 0,
+        poolCount: overview.numberMarkets ?? 0,
+        primaryDex: null,
+        fdv: overview.fdv ?? marketCap,
+        marketCap,
+        priceUsd: overview.price ?? 0,
+        lpOwnership: null,
+        fetchedAt: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    console.error(`Birdeye fetch failed for ${mint}:`, error);
+    return { status: "failed", data: null };
+  }
+}
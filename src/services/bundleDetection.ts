@@ -0,0 +1,109 @@
+/**
+ * Bundled-launch detection — same-slot sniper analysis for new tokens.
+ *
+ * Many rugs launch with the deployer buying through dozens of wallets in
+ * the creation slot, so the supply looks distributed while one entity
+ * controls it. This service reads the mint's earliest transactions, finds
+ * wallets that acquired the token in the creation slot or the next few
+ * slots, and reports how much of the supply they still hold.
+ *
+ * The creation transaction itself (initial mint / bonding-curve seeding),
+ * the deployer and labeled addresses (LP vaults, custodians) are ignored.
+ *
+ * IMPORTANT: Server-side only (uses the transaction data providers).
+ */
+
+import { getAddressLabel } from "@/lib/addressRegistry";
+import { fetchEarliestMintActivity } from "@/services/dataProviders";
+import type { TokenHolder } from "@/services/helius";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BundledWallet {
+  wallet: string;
+  /** Slot of the wallet's first acquisition. */
+  slot: number;
+  /** Raw token amount acquired inside the launch window. */
+  acquiredAmount: number;
+  /** Percentage of supply the wallet still holds (0 if sold). */
+  heldPercent: number;
+}
+
+export interface BundledLaunchAnalysis {
+  creationSlot: number;
+  creationTime: number | null;
+  /** Slots after the creation slot that count as the launch window. */
+  slotWindow: number;
+  /** Wallets that acquired in the launch window, by slot then amount. */
+  wallets: BundledWallet[];
+  /** Combined percentage of supply the launch wallets still hold. */
+  heldPercent: number;
+}
+
+export interface DetectBundledLaunchOptions {
+  /** Deployer wallet to exclude from the sniper list. */
+  deployerWallet?: string | null;
+  /** Slots after creation to include. Default 3. */
+  slotWindow?: number;
+  /** Earliest transactions to scan. Default 100. */
+  txLimit?: number;
+}
+
+/** Minimum launch-window buyers before a launch counts as bundled. */
+export const BUNDLE_MIN_WALLETS = 3;
+
+// ---------------------------------------------------------------------------
+// detectBundledLaunch
+// ---------------------------------------------------------------------------
+
+/**
+ * Analyze a mint's launch for same-slot sniping.
+ *
+ * `holders` should be the current holder set (percentages of supply), used
+ * to compute how much the launch wallets still hold. Returns `null` if the
+ * mint's history could not be read.
+ */
+export async function detectBundledLaunch(
+  mint: string,
+  holders: TokenHolder[],
+  options: DetectBundledLaunchOptions = {}
+): Promise<BundledLaunchAnalysis | null> {
+  const { deployerWallet = null, slotWindow = 3, txLimit = 100 } = options;
+
+  const { data: activity } = await fetchEarliestMintActivity(mint, txLimit);
+  if (!activity) return null;
+
+  const lastSlot = activity.creationSlot + slotWindow;
+  const byWallet = new Map<string, { slot: number; amount: number }>();
+  for (const acq of activity.acquisitions) {
+    if (acq.slot > lastSlot) break;
+    if (acq.signature === activity.creationSignature) continue;
+    if (acq.owner === deployerWallet || getAddressLabel(acq.owner)) continue;
+
+    const existing = byWallet.get(acq.owner);
+    byWallet.set(acq.owner, {
+      slot: existing?.slot ?? acq.slot,
+      amount: (existing?.amount ?? 0) + acq.amount,
+    });
+  }
+
+  const heldByOwner = new Map(holders.map((h) => [h.owner, h.percentage]));
+  const wallets: BundledWallet[] = [...byWallet.entries()]
+    .map(([wallet, { slot, amount }]) => ({
+      wallet,
+      slot,
+      acquiredAmount: amount,
+      heldPercent: heldByOwner.get(wallet) ?? 0,
+    }))
+    .sort((a, b) => a.slot - b.slot || b.acquiredAmount - a.acquiredAmount);
+
+  return {
+    creationSlot: activity.creationSlot,
+    creationTime: activity.creationTime,
+    slotWindow,
+    wallets,
+    heldPercent: wallets.reduce((sum, w) => sum + w.heldPercent, 0),
+  };
+}
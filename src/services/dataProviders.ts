@@ -0,0 +1,182 @@
+/**
+ * Data providers — interchangeable sources for token metadata, holders,
+ * transaction history and market data, with automatic fallback.
+ *
+ * Each kind of data has an ordered provider chain:
+ *   metadata      Helius DAS → Solana RPC (parsed mint + Metaplex metadata)
+ *   holders       Helius DAS → Solana RPC (`getTokenLargestAccounts`, top 20)
+ *   transactions  Helius enhanced history → Solana RPC (signature walk)
+ *   market data   DexScreener → Birdeye → Jupiter token stats
+ *
+ * A provider that fails or is not configured (`failed` / `skipped`) hands
+ * over to the next one; the first answer (`ok` or `empty`) wins and is
+ * returned with the id of the provider that gave it.
+ *
+ * IMPORTANT: Server-side only (providers use API keys).
+ */
+
+import type {
+  DataSourceStatus,
+  ProviderId,
+  SourceResult,
+} from "@/lib/dataSources";
+import {
+  getTokenMetadataResult,
+  getAllTokenHoldersResult,
+  getFundingSourceResult,
+  getEarliestMintActivityResult,
+  type TokenMetadata,
+  type HolderSet,
+  type FundingSource,
+  type EarliestMintActivity,
+} from "@/services/helius";
+import {
+  getRpcTokenMetadataResult,
+  getRpcTokenHoldersResult,
+  getRpcFundingSourceResult,
+  getRpcEarliestMintActivityResult,
+} from "@/services/rpcTokenData";
+import { getTokenLiquidityResult, type TokenLiquidity } from "@/services/dexscreener";
+import { getBirdeyeMarketDataResult } from "@/services/birdeye";
+import { getJupiterMarketDataResult } from "@/services/jupiter";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MetadataProvider {
+  id: ProviderId;
+  getTokenMetadata(mint: string): Promise<SourceResult<TokenMetadata>>;
+}
+
+export interface HolderProvider {
+  id: ProviderId;
+  /** Holders with percentages of `supply` (raw, on-chain) when known. */
+  getTokenHolders(mint: string, supply: number | null): Promise<SourceResult<HolderSet>>;
+}
+
+export interface TransactionProvider {
+  id: ProviderId;
+  getFundingSource(wallet: string): Promise<SourceResult<FundingSource>>;
+  getEarliestMintActivity(
+    mint: string,
+    limit: number
+  ): Promise<SourceResult<EarliestMintActivity>>;
+}
+
+export interface MarketDataProvider {
+  id: ProviderId;
+  getMarketData(mint: string): Promise<SourceResult<TokenLiquidity>>;
+}
+
+/** A `SourceResult` plus the provider that produced it. */
+export interface ProvidedResult<T> extends SourceResult<T> {
+  provider: ProviderId | null;
+}
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+export const heliusProvider: MetadataProvider & HolderProvider & TransactionProvider = {
+  id: "helius",
+  getTokenMetadata: (mint) => getTokenMetadataResult(mint),
+  getTokenHolders: (mint, supply) => getAllTokenHoldersResult(mint, supply),
+  getFundingSource: (wallet) => getFundingSourceResult(wallet),
+  getEarliestMintActivity: (mint, limit) => getEarliestMintActivityResult(mint, limit),
+};
+
+export const solanaRpcProvider: MetadataProvider & HolderProvider & TransactionProvider = {
+  id: "solanaRpc",
+  getTokenMetadata: (mint) => getRpcTokenMetadataResult(mint),
+  getTokenHolders: (mint, supply) => getRpcTokenHoldersResult(mint, supply),
+  getFundingSource: (wallet) => getRpcFundingSourceResult(wallet),
+  getEarliestMintActivity: (mint, limit) => getRpcEarliestMintActivityResult(mint, limit),
+};
+
+export const dexscreenerProvider: MarketDataProvider = {
+  id: "dexscreener",
+  getMarketData: (mint) => getTokenLiquidityResult(mint, { verifyLp: true }),
+};
+
+export const birdeyeProvider: MarketDataProvider = {
+  id: "birdeye",
+  getMarketData: (mint) => getBirdeyeMarketDataResult(mint),
+};
+
+export const jupiterProvider: MarketDataProvider = {
+  id: "jupiter",
+  getMarketData: (mint) => getJupiterMarketDataResult(mint),
+};
+
+const METADATA_PROVIDERS: MetadataProvider[] = [heliusProvider, solanaRpcProvider];
+const HOLDER_PROVIDERS: HolderProvider[] = [heliusProvider, solanaRpcProvider];
+const TRANSACTION_PROVIDERS: TransactionProvider[] = [heliusProvider, solanaRpcProvider];
+const MARKET_DATA_PROVIDERS: MarketDataProvider[] = [
+  dexscreenerProvider,
+  birdeyeProvider,
+  jupiterProvider,
+];
+
+// ---------------------------------------------------------------------------
+// withFallback
+// ---------------------------------------------------------------------------
+
+/**
+ * Call `providers` in order until one answers. When none does, the status
+ * is `failed` if any provider failed and `skipped` if none was configured.
+ * A provider that throws counts as failed.
+ */
+export async function withFallback<P extends { id: ProviderId }, T>(
+  providers: P[],
+  call: (provider: P) => Promise<SourceResult<T>>
+): Promise<ProvidedResult<T>> {
+  let status: DataSourceStatus = "skipped";
+
+  for (const provider of providers) {
+    let result: SourceResult<T>;
+    try {
+      result = await call(provider);
+    } catch (error) {
+      console.error(`Data provider ${provider.id} threw:`, error);
+      result = { status: "failed", data: null };
+    }
+
+    if (result.status === "ok" || result.status === "empty") {
+      return { ...result, provider: provider.id };
+    }
+    if (result.status === "failed") status = "failed";
+  }
+
+  return { status, data: null, provider: null };
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+export function fetchTokenMetadata(mint: string): Promise<ProvidedResult<TokenMetadata>> {
+  return withFallback(METADATA_PROVIDERS, (p) => p.getTokenMetadata(mint));
+}
+
+export function fetchTokenHolders(
+  mint: string,
+  supply: number | null
+): Promise<ProvidedResult<HolderSet>> {
+  return withFallback(HOLDER_PROVIDERS, (p) => p.getTokenHolders(mint, supply));
+}
+
+export function fetchFundingSource(wallet: string): Promise<ProvidedResult<FundingSource>> {
+  return withFallback(TRANSACTION_PROVIDERS, (p) => p.getFundingSource(wallet));
+}
+
+export function fetchEarliestMintActivity(
+  mint: string,
+  limit: number
+): Promise<ProvidedResult<EarliestMintActivity>> {
+  return withFallback(TRANSACTION_PROVIDERS, (p) => p.getEarliestMintActivity(mint, limit));
+}
+
+export function fetchMarketData(mint: string): Promise<ProvidedResult<TokenLiquidity>> {
+  return withFallback(MARKET_DATA_PROVIDERS, (p) => p.getMarketData(mint));
+}
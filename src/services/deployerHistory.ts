@@ -0,0 +1,273 @@
+/**
+ * Deployer history service — rug track record from a deployer's prior tokens.
+ *
+ * For every earlier token with the same deployer in `token_analyses`, the
+ * latest DexScreener snapshot is compared against the peak recorded in
+ * `token_score_history` to detect:
+ *   liquidity_pulled — liquidity fell >90% from a meaningful peak (or vanished)
+ *   price_collapse   — price fell >90% from its recorded peak
+ *   authority_abuse  — trap extensions (permanent delegate, non-transferable,
+ *                      frozen by default) or supply inflated by the mint authority
+ *
+ * A token with any signal counts as rugged. The rug rate and a serial
+ * deployer signal (many launches in a short window) feed the deployer
+ * component of the trust rating and the deployer risk flags.
+ *
+ * IMPORTANT: Server-side only (uses Supabase service role + DexScreener).
+ */
+
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { hasRiskFlag } from "@/lib/riskFlagCatalog";
+import type { SourceResult } from "@/lib/dataSources";
+import { getTokenLiquidityResult, type TokenLiquidity } from "@/services/dexscreener";
+import type { RiskFlag } from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RugSignal = "liquidity_pulled" | "price_collapse" | "authority_abuse";
+
+export interface DeployedTokenOutcome {
+  mint: string;
+  name: string | null;
+  symbol: string | null;
+  /** Launch time (token creation, or first analysis when unknown). */
+  launchedAt: string;
+  signals: RugSignal[];
+  rugged: boolean;
+  peakLiquidityUsd: number | null;
+  currentLiquidityUsd: number | null;
+  peakPriceUsd: number | null;
+  currentPriceUsd: number | null;
+}
+
+export interface DeployerTrackRecord {
+  wallet: string;
+  /** Prior tokens found for the deployer, up to `MAX_PRIOR_TOKENS`. */
+  tokenCount: number;
+  /** Prior tokens with enough market history to judge. */
+  evaluatedCount: number;
+  ruggedCount: number;
+  /** ruggedCount / evaluatedCount (0 when nothing could be evaluated). */
+  rugRate: number;
+  /** Deployed `SERIAL_DEPLOYER_MIN_TOKENS`+ tokens within the serial window. */
+  serialDeployer: boolean;
+  /** Most tokens launched within any `SERIAL_DEPLOYER_WINDOW_DAYS` window. */
+  maxLaunchesInWindow: number;
+  tokens: DeployedTokenOutcome[];
+}
+
+export interface DeployerTrackRecordOptions {
+  /** Mint to leave out (the token currently being analyzed). */
+  excludeMint?: string;
+  /** Most recent prior tokens to evaluate. Default 10. */
+  maxTokens?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Drop from peak that counts as a liquidity pull or price collapse. */
+const COLLAPSE_RATIO = 0.1;
+/** Peak liquidity below this is too thin to call a pull. */
+const MIN_PEAK_LIQUIDITY_USD = 1000;
+/** Supply growth that counts as mint-authority abuse. */
+const SUPPLY_INFLATION_RATIO = 1.1;
+
+/**
+ * Most recent prior tokens read per deployer, for the token count and the
+ * launch window. Far more than a serial deployer needs to show up.
+ */
+const MAX_PRIOR_TOKENS = 200;
+
+export const SERIAL_DEPLOYER_MIN_TOKENS = 5;
+export const SERIAL_DEPLOYER_WINDOW_DAYS = 30;
+
+const TRAP_FLAGS = ["PERMANENT_DELEGATE", "NON_TRANSFERABLE", "DEFAULT_ACCOUNT_FROZEN"] as const;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+interface HistoryPoint {
+  price_usd: number | null;
+  liquidity_usd: number | null;
+  supply: number | null;
+  recorded_at: string;
+}
+
+function maxOf(values: Array<number | null | undefined>): number | null {
+  const nums = values.filter((v): v is number => typeof v === "number" && v > 0);
+  return nums.length > 0 ? Math.max(...nums) : null;
+}
+
+/** Most launches inside any sliding window of `windowDays`. */
+function maxLaunchesInWindow(launches: string[], windowDays: number): number {
+  const times = launches.map((t) => new Date(t).getTime()).sort((a, b) => a - b);
+  const windowMs = windowDays * 24 * 60 * 60 * 1000;
+  let best = 0;
+  let start = 0;
+  for (let end = 0; end < times.length; end++) {
+    while (times[end] - times[start] > windowMs) start++;
+    best = Math.max(best, end - start + 1);
+  }
+  return best;
+}
+
+function evaluateToken(
+  row: {
+    mint: string;
+    name: string | null;
+    symbol: string | null;
+    token_created_at: string | null;
+    analyzed_at: string;
+    liquidity: TokenLiquidity | null;
+    risk_flags: RiskFlag[] | null;
+    mint_authority_active: boolean | null;
+  },
+  history: HistoryPoint[],
+  live: SourceResult<TokenLiquidity>
+): DeployedTokenOutcome & { evaluable: boolean } {
+  // No pairs left (`empty`) means zero liquidity now; only when DexScreener
+  // could not be reached fall back to the liquidity stored with the analysis
+  const pulled = live.status === "empty";
+  const current = live.status === "ok" ? live.data : pulled ? null : row.liquidity;
+  const peakLiquidityUsd = maxOf([
+    ...history.map((h) => h.liquidity_usd),
+    row.liquidity?.totalLiquidityUsd,
+    current?.totalLiquidityUsd,
+  ]);
+  const peakPriceUsd = maxOf([
+    ...history.map((h) => h.price_usd),
+    row.liquidity?.priceUsd,
+    current?.priceUsd,
+  ]);
+  const currentLiquidityUsd = pulled ? 0 : current ? current.totalLiquidityUsd : null;
+  const currentPriceUsd = current ? current.priceUsd : null;
+
+  const signals: RugSignal[] = [];
+
+  if (peakLiquidityUsd !== null && peakLiquidityUsd >= MIN_PEAK_LIQUIDITY_USD) {
+    // No live pairs at all after having real liquidity counts as a pull;
+    // unknown current liquidity (DexScreener down, nothing stored) does not
+    if (currentLiquidityUsd !== null && currentLiquidityUsd < peakLiquidityUsd * COLLAPSE_RATIO) {
+      signals.push("liquidity_pulled");
+    }
+  }
+
+  if (
+    peakPriceUsd !== null &&
+    currentPriceUsd !== null &&
+    currentPriceUsd < peakPriceUsd * COLLAPSE_RATIO
+  ) {
+    signals.push("price_collapse");
+  }
+
+  const supplies = history.map((h) => h.supply).filter((s): s is number => !!s);
+  const inflated =
+    !!row.mint_authority_active &&
+    supplies.length >= 2 &&
+    supplies[supplies.length - 1] > supplies[0] * SUPPLY_INFLATION_RATIO;
+  if (inflated || TRAP_FLAGS.some((code) => hasRiskFlag(row.risk_flags, code))) {
+    signals.push("authority_abuse");
+  }
+
+  return {
+    mint: row.mint,
+    name: row.name,
+    symbol: row.symbol,
+    launchedAt: row.token_created_at ?? row.analyzed_at,
+    signals,
+    rugged: signals.length > 0,
+    peakLiquidityUsd,
+    currentLiquidityUsd,
+    peakPriceUsd,
+    currentPriceUsd,
+    evaluable: peakLiquidityUsd !== null || signals.length > 0,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// getDeployerTrackRecord
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the rug track record for a deployer from their prior tokens.
+ *
+ * Returns a record with `tokenCount: 0` for first-time deployers.
+ */
+export async function getDeployerTrackRecord(
+  wallet: string,
+  options: DeployerTrackRecordOptions = {}
+): Promise<DeployerTrackRecord> {
+  const { excludeMint, maxTokens = 10 } = options;
+  const supabase = createServerSupabaseClient();
+
+  let query = supabase
+    .from("token_analyses")
+    .select(
+      "mint, name, symbol, token_created_at, analyzed_at, liquidity, risk_flags, mint_authority_active"
+    )
+    .eq("deployer_wallet", wallet)
+    .order("analyzed_at", { ascending: false })
+    .limit(MAX_PRIOR_TOKENS);
+  if (excludeMint) query = query.neq("mint", excludeMint);
+
+  const { data: rows, error } = await query;
+  if (error) {
+    console.error(`Deployer track record query failed for ${wallet}:`, error);
+  }
+
+  const priorTokens = rows ?? [];
+  const launches = priorTokens.map((r) => r.token_created_at ?? r.analyzed_at);
+  const maxInWindow = maxLaunchesInWindow(launches, SERIAL_DEPLOYER_WINDOW_DAYS);
+
+  const evaluated = priorTokens.slice(0, maxTokens);
+  const mints = evaluated.map((r) => r.mint);
+
+  const [historyResult, liveLiquidity] = await Promise.all([
+    mints.length > 0
+      ? supabase
+          .from("token_score_history")
+          .select("mint, price_usd, liquidity_usd, supply, recorded_at")
+          .in("mint", mints)
+          .order("recorded_at", { ascending: true })
+      : Promise.resolve({ data: [] as Array<HistoryPoint & { mint: string }> }),
+    Promise.all(evaluated.map((r) => getTokenLiquidityResult(r.mint))),
+  ]);
+
+  const historyByMint = new Map<string, HistoryPoint[]>();
+  for (const h of historyResult.data ?? []) {
+    historyByMint.set(h.mint, [...(historyByMint.get(h.mint) ?? []), h]);
+  }
+
+  const outcomes = evaluated.map((row, i) =>
+    evaluateToken(row, historyByMint.get(row.mint) ?? [], liveLiquidity[i])
+  );
+  const evaluable = outcomes.filter((o) => o.evaluable);
+  const ruggedCount = outcomes.filter((o) => o.rugged).length;
+
+  return {
+    wallet,
+    tokenCount: priorTokens.length,
+    evaluatedCount: evaluable.length,
+    ruggedCount,
+    rugRate: evaluable.length > 0 ? ruggedCount / evaluable.length : 0,
+    serialDeployer: maxInWindow >= SERIAL_DEPLOYER_MIN_TOKENS,
+    maxLaunchesInWindow: maxInWindow,
+    tokens: outcomes.map((o) => ({
+      mint: o.mint,
+      name: o.name,
+      symbol: o.symbol,
+      launchedAt: o.launchedAt,
+      signals: o.signals,
+      rugged: o.rugged,
+      peakLiquidityUsd: o.peakLiquidityUsd,
+      currentLiquidityUsd: o.currentLiquidityUsd,
+      peakPriceUsd: o.peakPriceUsd,
+      currentPriceUsd: o.currentPriceUsd,
+    })),
+  };
+}
@@ -3,10 +3,16 @@
  * DexScreener public API. No API key required.
  *
  * Results are cached in Supabase with a 1-hour TTL to avoid
- * rate limits and slow responses.
+ * rate limits and slow responses. On request (`verifyLp`), liquidity
+ * results include on-chain LP burn/lock verification for the largest pools.
  */
 
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { SourceResult } from "@/lib/dataSources";
+import {
+  analyzeLpOwnership,
+  type LpOwnershipSummary,
+} from "@/services/lpOwnership";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -53,16 +59,33 @@ export interface TokenLiquidity {
   marketCap: number;
   /** Current price (USD). */
   priceUsd: number;
+  /**
+   * Burned / locked / unlocked LP shares for pools with a fungible LP
+   * mint; `null` when no pool could be verified, absent when verification
+   * was not requested (see `TokenLiquidityOptions.verifyLp`).
+   */
+  lpOwnership?: LpOwnershipSummary | null;
   /** Timestamp of when this data was fetched. */
   fetchedAt: string;
 }
 
+export interface TokenLiquidityOptions {
+  /**
+   * Verify LP ownership of the largest pools on-chain. Costs a few RPC
+   * reads per pool, so only the lookups for the token being shown or
+   * analyzed set it, not per-token probes such as deployer track records.
+   */
+  verifyLp?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
 const DEXSCREENER_BASE_URL = "https://api.dexscreener.com/tokens/v1/solana";
 const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+/** Largest pools (by liquidity) to verify LP ownership for. */
+const LP_VERIFY_MAX_POOLS = 5;
 
 // ---------------------------------------------------------------------------
 // Latest profiles cache (5 minutes)
@@ -81,8 +104,21 @@ const PROFILES_CACHE_TTL_MS = 5 * 60 * 1000;
  * Returns null if no pairs found or on failure.
  */
 export async function getTokenLiquidity(
-  mint: string
+  mint: string,
+  options: TokenLiquidityOptions = {}
 ): Promise<TokenLiquidity | null> {
+  return (await getTokenLiquidityResult(mint, options)).data;
+}
+
+/**
+ * `getTokenLiquidity`, reporting whether the token has no pairs (empty) or
+ * the request failed.
+ */
+export async function getTokenLiquidityResult(
+  mint: string,
+  options: TokenLiquidityOptions = {}
+): Promise<SourceResult<TokenLiquidity>> {
+  const { verifyLp = false } = options;
   const supabase = createServerSupabaseClient();
 
   // 1. Check cache
@@ -96,8 +132,10 @@ export async function getTokenLiquidity(
 
   if (cached) {
     const age = Date.now() - new Date(cached.fetched_at).getTime();
-    if (age < CACHE_TTL_MS) {
-      return cached.data as TokenLiquidity;
+    const data = cached.data as TokenLiquidity;
+    // An entry cached without LP verification is refetched when it is wanted
+    if (age < CACHE_TTL_MS && (!verifyLp || data.lpOwnership !== undefined)) {
+      return { status: "ok", data };
     }
   }
 
@@ -107,10 +145,10 @@ export async function getTokenLiquidity(
       signal: AbortSignal.timeout(10000),
     });
 
-    if (!response.ok) return null;
+    if (!response.ok) return { status: "failed", data: null };
 
     const pairs: DexScreenerPair[] = await response.json();
-    if (!pairs || pairs.length === 0) return null;
+    if (!pairs || pairs.length === 0) return { status: "empty", data: null };
 
     // Aggregate across all pairs
     const totalLiquidityUsd = pairs.reduce(
@@ -131,6 +169,15 @@ export async function getTokenLiquidity(
     // Use the highest-liquidity pair for price/fdv/mcap
     const topPair = sortedByLiquidity[0];
 
+    const lpOwnership = verifyLp
+      ? await analyzeLpOwnership(
+          sortedByLiquidity.slice(0, LP_VERIFY_MAX_POOLS).map((p) => ({
+            pairAddress: p.pairAddress,
+            liquidityUsd: p.liquidity?.usd ?? 0,
+          }))
+        )
+      : undefined;
+
     const result: TokenLiquidity = {
       totalLiquidityUsd,
       volume24h,
@@ -141,6 +188,7 @@ export async function getTokenLiquidity(
       fdv: topPair?.fdv ?? 0,
       marketCap: topPair?.marketCap ?? 0,
       priceUsd: parseFloat(topPair?.priceUsd ?? "0"),
+      lpOwnership,
       fetchedAt: new Date().toISOString(),
     };
 
@@ -154,10 +202,10 @@ export async function getTokenLiquidity(
       { onConflict: "mint" }
     );
 
-    return result;
+    return { status: "ok", data: result };
   } catch (error) {
     console.error(`DexScreener fetch failed for ${mint}:`, error);
-    return null;
+    return { status: "failed", data: null };
   }
 }
 
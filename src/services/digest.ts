@@ -0,0 +1,466 @@
+/**
+ * Watchlist digest — a daily or weekly email summarizing what changed for
+ * the tokens, wallets and deployers on a user's watchlist:
+ *
+ *   trust rating moves  first vs last rating in `token_score_history`
+ *                       (the last snapshot before the period is the baseline)
+ *   new risk flags      the user's `new_risk_flag` alerts in the period
+ *   deployer activity   tokens of watched deployers first seen in
+ *                       `token_analyses` during the period
+ *   wallet reputation   FairScore moves in `wallet_score_history` for
+ *                       watched wallets and deployers
+ *
+ * Subscriptions live in `digest_subscriptions`, one per wallet. An
+ * address only gets digests once it is confirmed: saving a new address
+ * sends it a confirmation link signed for the wallet and address
+ * (`sendConfirmationEmail`). GET /api/cron/digest calls `runDigests`
+ * hourly; a confirmed subscription is due once its period has passed since
+ * the last digest. Digests without changes are not sent (the period still
+ * advances). Every email carries an unsubscribe link signed for the wallet
+ * (`getUnsubscribeUrl`).
+ *
+ * IMPORTANT: Server-side only (uses the service role Supabase client and
+ * NEXTAUTH_SECRET).
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { mapWithConcurrency } from "@/lib/upstreamLimiter";
+import {
+  countDigestChanges,
+  renderDigest,
+  renderDigestConfirmation,
+  type DigestLaunch,
+  type DigestRatingMove,
+  type DigestRiskFlagAlert,
+  type DigestWalletMove,
+  type WatchlistDigest,
+} from "@/lib/digestTemplates";
+import { getMailTransport, type MailTransport } from "@/services/mailTransport";
+import type { DigestFrequency, DigestSubscription, FairScoreTier } from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DigestRunSummary {
+  /** Active, confirmed subscriptions whose period has passed. */
+  due: number;
+  sent: number;
+  /** Due digests without changes, not sent. */
+  empty: number;
+  failed: number;
+}
+
+type ServerSupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DIGEST_PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+
+/** The cron runs hourly; sending up to an hour early keeps digests on schedule. */
+const DUE_SLACK_MS = HOUR_MS;
+
+/** How far back to look for the snapshot a rating move starts from. */
+const HISTORY_LOOKBACK_MS = 30 * 24 * HOUR_MS;
+
+/** Digests built per cron run; the rest wait for the next run. */
+const MAX_DIGESTS_PER_RUN = 200;
+
+const DIGEST_CONCURRENCY = 4;
+
+/** Addresses per `in (...)` filter, to keep query URLs short. */
+const QUERY_CHUNK = 100;
+
+// ---------------------------------------------------------------------------
+// Signed links
+// ---------------------------------------------------------------------------
+
+function getAppUrl(): string {
+  return (process.env.NEXTAUTH_URL ?? "http://localhost:3000").replace(/\/$/, "");
+}
+
+function getLinkSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) throw new Error("Missing environment variable: NEXTAUTH_SECRET");
+  return secret;
+}
+
+function signLink(value: string): string {
+  return createHmac("sha256", getLinkSecret()).update(value).digest("base64url");
+}
+
+function tokensMatch(expected: string, token: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Token that lets the holder of a digest email unsubscribe its wallet. */
+export function getUnsubscribeToken(wallet: string): string {
+  return signLink(`digest-unsubscribe:${wallet}`);
+}
+
+export function verifyUnsubscribeToken(wallet: string, token: string): boolean {
+  return tokensMatch(getUnsubscribeToken(wallet), token);
+}
+
+export function getUnsubscribeUrl(wallet: string): string {
+  const params = new URLSearchParams({ wallet, token: getUnsubscribeToken(wallet) });
+  return `${getAppUrl()}/api/notifications/digest/unsubscribe?${params}`;
+}
+
+/**
+ * Token that confirms `email` for `wallet`'s digest. It covers the address,
+ * so a link sent to an earlier address cannot confirm a later one.
+ */
+export function getConfirmToken(wallet: string, email: string): string {
+  return signLink(`digest-confirm:${wallet}:${email}`);
+}
+
+export function verifyConfirmToken(wallet: string, email: string, token: string): boolean {
+  return tokensMatch(getConfirmToken(wallet, email), token);
+}
+
+export function getConfirmUrl(wallet: string, email: string): string {
+  const params = new URLSearchParams({ wallet, email, token: getConfirmToken(wallet, email) });
+  return `${getAppUrl()}/api/notifications/digest/confirm?${params}`;
+}
+
+/** Send `email` the link that confirms it for `wallet`'s digest. */
+export async function sendConfirmationEmail(
+  wallet: string,
+  email: string,
+  transport: MailTransport = getMailTransport()
+): Promise<void> {
+  await transport.send({
+    to: email,
+    ...renderDigestConfirmation({ wallet, confirmUrl: getConfirmUrl(wallet, email) }),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Digest data
+// ---------------------------------------------------------------------------
+
+/** Run an `in (...)` query over `values` in chunks and concatenate the rows. */
+async function selectInChunks<T>(
+  values: string[],
+  query: (chunk: string[]) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < values.length; i += QUERY_CHUNK) {
+    const { data, error } = await query(values.slice(i, i + QUERY_CHUNK));
+    if (error) throw new Error(error.message);
+    rows.push(...((data ?? []) as T[]));
+  }
+  return rows;
+}
+
+/**
+ * Per key, the snapshot a period starts from (the last one before
+ * `start`, else the first in the period) and the last one in the period.
+ * `rows` must be sorted by `recorded_at`, oldest first.
+ */
+function getPeriodEnds<T extends { recorded_at: string }>(
+  rows: T[],
+  key: (row: T) => string,
+  start: string
+): Map<string, { from: T; to: T }> {
+  const baselines = new Map<string, T>();
+  const ends = new Map<string, { from: T; to: T }>();
+
+  for (const row of rows) {
+    const k = key(row);
+    if (row.recorded_at < start) {
+      baselines.set(k, row);
+      continue;
+    }
+    const current = ends.get(k);
+    ends.set(k, { from: current?.from ?? baselines.get(k) ?? row, to: row });
+  }
+  return ends;
+}
+
+async function getRatingMoves(
+  supabase: ServerSupabaseClient,
+  mints: string[],
+  start: string,
+  end: string
+): Promise<DigestRatingMove[]> {
+  if (mints.length === 0) return [];
+
+  const lookback = new Date(new Date(start).getTime() - HISTORY_LOOKBACK_MS).toISOString();
+  const history = await selectInChunks<{ mint: string; trust_rating: number; recorded_at: string }>(mints, (chunk) =>
+    supabase
+      .from("token_score_history")
+      .select("mint, trust_rating, recorded_at")
+      .in("mint", chunk)
+      .gte("recorded_at", lookback)
+      .lt("recorded_at", end)
+      .order("recorded_at", { ascending: true })
+  );
+  const names = await selectInChunks<{ mint: string; name: string | null }>(mints, (chunk) =>
+    supabase.from("token_analyses").select("mint, name").in("mint", chunk)
+  );
+  const nameByMint = new Map(names.map((n) => [n.mint, n.name]));
+
+  return [...getPeriodEnds(history, (row) => row.mint, start)]
+    .filter(([, { from, to }]) => from.trust_rating !== to.trust_rating)
+    .map(([mint, { from, to }]) => ({
+      mint,
+      name: nameByMint.get(mint) ?? null,
+      from: from.trust_rating,
+      to: to.trust_rating,
+    }))
+    .sort((a, b) => Math.abs(b.to - b.from) - Math.abs(a.to - a.from));
+}
+
+async function getRiskFlagAlerts(
+  supabase: ServerSupabaseClient,
+  wallet: string,
+  start: string,
+  end: string
+): Promise<DigestRiskFlagAlert[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("mint, token_name, message, created_at")
+    .eq("user_wallet", wallet)
+    .eq("type", "new_risk_flag")
+    .gte("created_at", start)
+    .lt("created_at", end)
+    .order("created_at", { ascending: false });
+
+  if (error) throw new Error(`Risk flag alerts fetch failed: ${error.message}`);
+
+  return ((data ?? []) as Array<{ mint: string; token_name: string | null; message: string; created_at: string }>).map(
+    (n) => ({ mint: n.mint, name: n.token_name, message: n.message, createdAt: n.created_at })
+  );
+}
+
+async function getLaunches(
+  supabase: ServerSupabaseClient,
+  deployers: string[],
+  start: string,
+  end: string
+): Promise<DigestLaunch[]> {
+  if (deployers.length === 0) return [];
+
+  const rows = await selectInChunks<{
+    mint: string;
+    name: string | null;
+    symbol: string | null;
+    trust_rating: number | null;
+    deployer_wallet: string;
+    created_at: string;
+  }>(deployers, (chunk) =>
+    supabase
+      .from("token_analyses")
+      .select("mint, name, symbol, trust_rating, deployer_wallet, created_at")
+      .in("deployer_wallet", chunk)
+      .gte("created_at", start)
+      .lt("created_at", end)
+      .order("created_at", { ascending: false })
+  );
+
+  return rows.map((row) => ({
+    deployer: row.deployer_wallet,
+    mint: row.mint,
+    name: row.name,
+    symbol: row.symbol,
+    trustRating: row.trust_rating,
+    createdAt: row.created_at,
+  }));
+}
+
+async function getWalletMoves(
+  supabase: ServerSupabaseClient,
+  entries: Array<{ address: string; entityType: "wallet" | "deployer" }>,
+  start: string,
+  end: string
+): Promise<DigestWalletMove[]> {
+  if (entries.length === 0) return [];
+
+  const lookback = new Date(new Date(start).getTime() - HISTORY_LOOKBACK_MS).toISOString();
+  const history = await selectInChunks<{
+    wallet: string;
+    score_integer: number;
+    tier: FairScoreTier | null;
+    recorded_at: string;
+  }>([...new Set(entries.map((e) => e.address))], (chunk) =>
+    supabase
+      .from("wallet_score_history")
+      .select("wallet, score_integer, tier, recorded_at")
+      .in("wallet", chunk)
+      .gte("recorded_at", lookback)
+      .lt("recorded_at", end)
+      .order("recorded_at", { ascending: true })
+  );
+  const ends = getPeriodEnds(history, (row) => row.wallet, start);
+
+  return entries
+    .flatMap(({ address, entityType }) => {
+      const move = ends.get(address);
+      if (!move || (move.from.score_integer === move.to.score_integer && move.from.tier === move.to.tier)) return [];
+      return [{
+        wallet: address,
+        entityType,
+        fromScore: move.from.score_integer,
+        toScore: move.to.score_integer,
+        fromTier: move.from.tier,
+        toTier: move.to.tier,
+      }];
+    })
+    .sort((a, b) => Math.abs(b.toScore - b.fromScore) - Math.abs(a.toScore - a.fromScore));
+}
+
+/** Gather what changed for `wallet`'s watchlist between `start` and `end`. */
+export async function buildDigest(
+  wallet: string,
+  frequency: DigestFrequency,
+  start: Date,
+  end: Date
+): Promise<WatchlistDigest> {
+  const supabase = createServerSupabaseClient();
+  const { data, error } = await supabase
+    .from("watchlist")
+    .select("token_mint, entity_type")
+    .eq("user_wallet", wallet);
+
+  if (error) throw new Error(`Watchlist fetch failed: ${error.message}`);
+
+  const entries = (data ?? []) as Array<{ token_mint: string; entity_type: string | null }>;
+  const tokens = entries.filter((e) => !e.entity_type || e.entity_type === "token").map((e) => e.token_mint);
+  const wallets = entries
+    .filter((e) => e.entity_type === "wallet" || e.entity_type === "deployer")
+    .map((e) => ({ address: e.token_mint, entityType: e.entity_type as "wallet" | "deployer" }));
+  const deployers = wallets.filter((w) => w.entityType === "deployer").map((w) => w.address);
+
+  const periodStart = start.toISOString();
+  const periodEnd = end.toISOString();
+  const [ratingMoves, riskFlags, launches, walletMoves] = await Promise.all([
+    getRatingMoves(supabase, tokens, periodStart, periodEnd),
+    getRiskFlagAlerts(supabase, wallet, periodStart, periodEnd),
+    getLaunches(supabase, deployers, periodStart, periodEnd),
+    getWalletMoves(supabase, wallets, periodStart, periodEnd),
+  ]);
+
+  return {
+    wallet,
+    frequency,
+    periodStart,
+    periodEnd,
+    watched: { tokens: tokens.length, wallets: wallets.length - deployers.length, deployers: deployers.length },
+    ratingMoves,
+    riskFlags,
+    launches,
+    walletMoves,
+    appUrl: getAppUrl(),
+    unsubscribeUrl: getUnsubscribeUrl(wallet),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// runDigests — scheduled entry point
+// ---------------------------------------------------------------------------
+
+type DueSubscription = DigestSubscription & { frequency: DigestFrequency };
+
+/**
+ * Up to `MAX_DIGESTS_PER_RUN` confirmed subscriptions whose period has
+ * passed, never-sent first, then the longest waiting. Filtered, ordered
+ * and limited in SQL, so the select never hits PostgREST's max-rows.
+ */
+async function getDueSubscriptions(supabase: ServerSupabaseClient, now: number): Promise<DueSubscription[]> {
+  const due: DueSubscription[] = [];
+  for (const frequency of Object.keys(DIGEST_PERIOD_MS) as DigestFrequency[]) {
+    const cutoff = new Date(now - DIGEST_PERIOD_MS[frequency] + DUE_SLACK_MS).toISOString();
+    const confirmed = () =>
+      supabase
+        .from("digest_subscriptions")
+        .select("*")
+        .eq("frequency", frequency)
+        .not("confirmed_at", "is", null);
+
+    const [neverSent, waiting] = await Promise.all([
+      confirmed().is("last_sent_at", null).order("confirmed_at", { ascending: true }).limit(MAX_DIGESTS_PER_RUN),
+      confirmed().lte("last_sent_at", cutoff).order("last_sent_at", { ascending: true }).limit(MAX_DIGESTS_PER_RUN),
+    ]);
+    for (const { data, error } of [neverSent, waiting]) {
+      if (error) throw new Error(`Digest subscriptions fetch failed: ${error.message}`);
+      due.push(...((data ?? []) as DueSubscription[]));
+    }
+  }
+
+  return due
+    .sort((a, b) => (a.last_sent_at ?? "").localeCompare(b.last_sent_at ?? ""))
+    .slice(0, MAX_DIGESTS_PER_RUN);
+}
+
+/** Build and send one due digest; resolves to whether it had changes. */
+async function sendDigest(
+  subscription: DueSubscription,
+  transport: MailTransport,
+  now: Date
+): Promise<boolean> {
+  const period = DIGEST_PERIOD_MS[subscription.frequency];
+  const lastSent = subscription.last_sent_at ? new Date(subscription.last_sent_at).getTime() : null;
+  // Continue from the last digest, unless it is long ago (re-enabled, or the cron was down)
+  const start = new Date(lastSent !== null && now.getTime() - lastSent <= 2 * period ? lastSent : now.getTime() - period);
+
+  const digest = await buildDigest(subscription.wallet, subscription.frequency, start, now);
+  const hasChanges = countDigestChanges(digest) > 0;
+
+  if (hasChanges) {
+    await transport.send({
+      to: subscription.email,
+      ...renderDigest(digest),
+      headers: {
+        "List-Unsubscribe": `<${digest.unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+    });
+  }
+
+  const supabase = createServerSupabaseClient();
+  const { error } = await supabase
+    .from("digest_subscriptions")
+    .update({ last_sent_at: now.toISOString() })
+    .eq("wallet", subscription.wallet);
+  if (error) throw new Error(`Digest send time update failed: ${error.message}`);
+
+  return hasChanges;
+}
+
+/**
+ * Send every due digest. Failures of a single digest are logged and
+ * counted, not thrown; its period does not advance, so the next run
+ * tries again.
+ */
+export async function runDigests(
+  transport: MailTransport = getMailTransport(),
+  now: Date = new Date()
+): Promise<DigestRunSummary> {
+  const due = await getDueSubscriptions(createServerSupabaseClient(), now.getTime());
+
+  const summary: DigestRunSummary = { due: due.length, sent: 0, empty: 0, failed: 0 };
+
+  await mapWithConcurrency(due, DIGEST_CONCURRENCY, async (subscription) => {
+    try {
+      if (await sendDigest(subscription, transport, now)) summary.sent++;
+      else summary.empty++;
+    } catch (error) {
+      console.error(`Digest for ${subscription.wallet} failed:`, error);
+      summary.failed++;
+    }
+  });
+
+  return summary;
+}
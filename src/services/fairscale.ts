@@ -8,21 +8,35 @@
  *   /walletScore — wallet-only integer score
  *
  * Results from /score are cached in the Supabase `cached_scores` table
- * with a 1-hour TTL to respect rate limits.
+ * and /fairScore integers in `cached_quick_scores`, both with a 1-hour TTL
+ * to respect rate limits. Quick scores are also batched and concurrent
+ * lookups for the same wallet share one request.
+ *
+ * `*Result` variants distinguish unknown wallets (empty) from failed
+ * requests for data-completeness tracking.
  */
 
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { SourceResult } from "@/lib/dataSources";
+import { mapWithConcurrency } from "@/lib/upstreamLimiter";
 import type {
   FairScoreTier,
   FairScoreData,
   FairScaleAction,
   Badge,
+  CachedQuickScore,
+  CachedQuickScoreInsert,
   CachedScoreInsert,
   WalletFeatures,
 } from "@/types/database";
 
 const FAIRSCALE_BASE_URL = "https://api.fairscale.xyz";
 const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const QUICK_SCORE_TTL_MS = 60 * 60 * 1000; // 1 hour
+/** FairScale /fairScore requests in flight at once for a batch. */
+const QUICK_SCORE_CONCURRENCY = 8;
+/** Wallets per cache query, to keep the `in (...)` filter URL short. */
+const QUICK_SCORE_CACHE_CHUNK = 100;
 
 // ---------------------------------------------------------------------------
 // Tier classification
@@ -105,7 +119,7 @@ function getFairScaleApiKey(): string {
 async function fairscaleFetch<T>(
   endpoint: string,
   wallet: string
-): Promise<T | null> {
+): Promise<SourceResult<T>> {
   const url = `${FAIRSCALE_BASE_URL}${endpoint}?wallet=${encodeURIComponent(wallet)}`;
 
   try {
@@ -118,21 +132,21 @@ async function fairscaleFetch<T>(
     });
 
     if (response.status === 404) {
-      // Unknown wallet — return null gracefully
-      return null;
+      // Unknown wallet — no data, but not a failure
+      return { status: "empty", data: null };
     }
 
     if (!response.ok) {
       console.error(
         `FairScale ${endpoint} error: ${response.status} ${response.statusText}`
       );
-      return null;
+      return { status: "failed", data: null };
     }
 
-    return (await response.json()) as T;
+    return { status: "ok", data: (await response.json()) as T };
   } catch (error) {
     console.error(`FairScale ${endpoint} fetch failed:`, error);
-    return null;
+    return { status: "failed", data: null };
   }
 }
 
@@ -174,6 +188,13 @@ interface FairScaleScoreResponse {
 export async function getFullScore(
   wallet: string
 ): Promise<FairScoreData | null> {
+  return (await getFullScoreResult(wallet)).data;
+}
+
+/** `getFullScore`, reporting whether the wallet was unknown or the request failed. */
+export async function getFullScoreResult(
+  wallet: string
+): Promise<SourceResult<FairScoreData>> {
   const supabase = createServerSupabaseClient();
 
   // 1. Check cache
@@ -197,21 +218,25 @@ export async function getFullScore(
     if (age < CACHE_TTL_MS && hasValidScores) {
       const cachedFeatures = ((cached.raw_response as Record<string, unknown>)?.features ?? {}) as WalletFeatures;
       return {
-        wallet: cached.wallet,
-        score: cached.score_decimal,
-        tier: cached.tier,
-        badges: (cached.badges ?? []) as Badge[],
-        updatedAt: cached.fetched_at,
-        decimalScore: cached.score_decimal,
-        integerScore: cached.score_integer,
-        features: cachedFeatures,
+        status: "ok",
+        data: {
+          wallet: cached.wallet,
+          score: cached.score_decimal,
+          tier: cached.tier,
+          badges: (cached.badges ?? []) as Badge[],
+          updatedAt: cached.fetched_at,
+          decimalScore: cached.score_decimal,
+          integerScore: cached.score_integer,
+          features: cachedFeatures,
+        },
       };
     }
   }
 
   // 2. Fetch from FairScale /score
-  const data = await fairscaleFetch<FairScaleScoreResponse>("/score", wallet);
-  if (!data) return null;
+  const response = await fairscaleFetch<FairScaleScoreResponse>("/score", wallet);
+  const data = response.data;
+  if (!data) return { status: response.status, data: null };
 
   // The /score endpoint returns `fairscore` (decimal 0-100) and `tier` directly.
   // Also fetch the integer score for caching/display.
@@ -273,15 +298,18 @@ export async function getFullScore(
   }
 
   return {
-    wallet,
-    score: data.fairscore,
-    tier,
-    badges,
-    actions,
-    updatedAt: cacheRow.fetched_at,
-    decimalScore: data.fairscore,
-    integerScore: effectiveIntegerScore,
-    features,
+    status: "ok",
+    data: {
+      wallet,
+      score: data.fairscore,
+      tier,
+      badges,
+      actions,
+      updatedAt: cacheRow.fetched_at,
+      decimalScore: data.fairscore,
+      integerScore: effectiveIntegerScore,
+      features,
+    },
   };
 }
 
@@ -298,14 +326,150 @@ interface FairScaleQuickResponse {
  * Fetch a lightweight integer score (0-1000+) from the FairScale
  * `/fairScore` endpoint. Suitable for batch / holder analysis.
  *
+ * Served from the shared quick-score cache when possible (see
+ * `getQuickScoreResults`).
+ *
  * Returns `null` for unknown wallets or on failure.
  */
 export async function getQuickScore(wallet: string): Promise<number | null> {
-  const data = await fairscaleFetch<FairScaleQuickResponse>(
+  return (await getQuickScoreResult(wallet)).data;
+}
+
+/** `getQuickScore`, reporting whether the wallet was unknown or the request failed. */
+export async function getQuickScoreResult(
+  wallet: string
+): Promise<SourceResult<number>> {
+  const results = await getQuickScoreResults([wallet]);
+  return results.get(wallet) ?? { status: "failed", data: null };
+}
+
+/**
+ * Quick scores for many wallets at once, keyed by wallet.
+ *
+ * Returns `null` for unknown wallets or on failure.
+ */
+export async function getQuickScores(
+  wallets: string[]
+): Promise<Map<string, number | null>> {
+  const results = await getQuickScoreResults(wallets);
+  return new Map([...results].map(([wallet, result]) => [wallet, result.data]));
+}
+
+/** Quick-score requests currently in flight, shared between callers. */
+const inFlightQuickScores = new Map<string, Promise<SourceResult<number>>>();
+
+/**
+ * Quick scores for many wallets, reporting per wallet whether it was
+ * unknown or the request failed.
+ *
+ * Duplicate wallets are looked up once, wallets already being fetched by
+ * another caller share that request, fresh scores come from the Supabase
+ * `cached_quick_scores` table in one query, and only the misses go to
+ * FairScale (at most `QUICK_SCORE_CONCURRENCY` at a time). New scores, and
+ * wallets FairScale does not know, are written back to the cache in one
+ * upsert; failed requests are not cached.
+ */
+export async function getQuickScoreResults(
+  wallets: string[]
+): Promise<Map<string, SourceResult<number>>> {
+  const unique = [...new Set(wallets)];
+  const pending = unique.filter((wallet) => !inFlightQuickScores.has(wallet));
+
+  if (pending.length > 0) {
+    const batch = loadQuickScores(pending);
+    for (const wallet of pending) {
+      const request = batch
+        .then((results) => results.get(wallet) ?? { status: "failed" as const, data: null })
+        .finally(() => inFlightQuickScores.delete(wallet));
+      inFlightQuickScores.set(wallet, request);
+    }
+  }
+
+  const results = await Promise.all(
+    unique.map(async (wallet) => [wallet, await inFlightQuickScores.get(wallet)!] as const)
+  );
+  return new Map(results);
+}
+
+async function loadQuickScores(
+  wallets: string[]
+): Promise<Map<string, SourceResult<number>>> {
+  const results = await readCachedQuickScores(wallets);
+  const misses = wallets.filter((wallet) => !results.has(wallet));
+  if (misses.length === 0) return results;
+
+  const fetched = await mapWithConcurrency(misses, QUICK_SCORE_CONCURRENCY, fetchQuickScore);
+  const fetchedAt = new Date().toISOString();
+  const cacheRows: CachedQuickScoreInsert[] = [];
+  misses.forEach((wallet, i) => {
+    results.set(wallet, fetched[i]);
+    if (fetched[i].status !== "failed") {
+      cacheRows.push({ wallet, score_integer: fetched[i].data, fetched_at: fetchedAt });
+    }
+  });
+
+  await writeCachedQuickScores(cacheRows);
+  return results;
+}
+
+async function fetchQuickScore(wallet: string): Promise<SourceResult<number>> {
+  const { status, data } = await fairscaleFetch<FairScaleQuickResponse>(
     "/fairScore",
     wallet
   );
-  return data?.fair_score ?? null;
+  const score = data?.fair_score ?? null;
+  return { status: status === "ok" && score === null ? "empty" : status, data: score };
+}
+
+/**
+ * Fresh cached scores for the given wallets (`empty` for cached unknown
+ * wallets). Cache errors count as misses.
+ */
+async function readCachedQuickScores(
+  wallets: string[]
+): Promise<Map<string, SourceResult<number>>> {
+  const results = new Map<string, SourceResult<number>>();
+  const cutoff = new Date(Date.now() - QUICK_SCORE_TTL_MS).toISOString();
+
+  try {
+    const supabase = createServerSupabaseClient();
+    for (let i = 0; i < wallets.length; i += QUICK_SCORE_CACHE_CHUNK) {
+      const { data, error } = await supabase
+        .from("cached_quick_scores")
+        .select("wallet, score_integer")
+        .in("wallet", wallets.slice(i, i + QUICK_SCORE_CACHE_CHUNK))
+        .gte("fetched_at", cutoff);
+
+      if (error) {
+        console.error("Quick score cache read failed:", error.message);
+        break;
+      }
+      for (const row of (data ?? []) as Pick<CachedQuickScore, "wallet" | "score_integer">[]) {
+        results.set(
+          row.wallet,
+          row.score_integer === null
+            ? { status: "empty", data: null }
+            : { status: "ok", data: row.score_integer }
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Quick score cache read failed:", error);
+  }
+  return results;
+}
+
+async function writeCachedQuickScores(rows: CachedQuickScoreInsert[]): Promise<void> {
+  if (rows.length === 0) return;
+  try {
+    const supabase = createServerSupabaseClient();
+    const { error } = await supabase
+      .from("cached_quick_scores")
+      .upsert(rows, { onConflict: "wallet" });
+    if (error) console.error("Quick score cache write failed:", error.message);
+  } catch (error) {
+    console.error("Quick score cache write failed:", error);
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -323,7 +487,7 @@ interface FairScaleWalletResponse {
  * Returns `null` for unknown wallets or on failure.
  */
 export async function getWalletScore(wallet: string): Promise<number | null> {
-  const data = await fairscaleFetch<FairScaleWalletResponse>(
+  const { data } = await fairscaleFetch<FairScaleWalletResponse>(
     "/walletScore",
     wallet
   );
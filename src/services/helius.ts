@@ -12,11 +12,14 @@
 import { createHelius, type HeliusClient } from "helius-sdk";
 import type {
   Asset,
+  MintExtensions,
   TokenAccounts,
 } from "helius-sdk/types/das";
 import type {
   TransactionForAddressSignature,
 } from "helius-sdk/types/types";
+import { getAddressLabel, type AddressLabel } from "@/lib/addressRegistry";
+import type { SourceResult } from "@/lib/dataSources";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -36,10 +39,50 @@ export interface TokenMetadata {
   mintAuthority: string | null;
   /** Freeze authority address, if any. */
   freezeAuthority: string | null;
-  /** Raw Helius Asset object for further inspection. */
-  raw: Asset;
+  /** Token-2022 extensions relevant to holder safety. */
+  extensions: TokenExtensions;
+  /**
+   * Raw provider response for further inspection (the Helius Asset, or the
+   * parsed mint account for the plain RPC provider).
+   */
+  raw: Asset | Record<string, unknown>;
 }
 
+/**
+ * Risk-relevant Token-2022 mint extensions. Legacy SPL tokens have none,
+ * which is represented by `EMPTY_TOKEN_EXTENSIONS`.
+ */
+export interface TokenExtensions {
+  /**
+   * Transfer fee in basis points, or `null` without a fee extension.
+   * The higher of the current and scheduled fee, since the scheduled one
+   * takes effect at the next epoch.
+   */
+  transferFeeBps: number | null;
+  /** Authority that can change the transfer fee, if any. */
+  transferFeeAuthority: string | null;
+  /** Program invoked on every transfer, if a transfer hook is set. */
+  transferHookProgram: string | null;
+  /** Address that can transfer or burn tokens from any account. */
+  permanentDelegate: string | null;
+  /** Whether confidential (encrypted-balance) transfers are enabled. */
+  confidentialTransfers: boolean;
+  /** Whether the token cannot be transferred at all (soulbound). */
+  nonTransferable: boolean;
+  /** Whether new token accounts start frozen until the issuer thaws them. */
+  defaultAccountStateFrozen: boolean;
+}
+
+export const EMPTY_TOKEN_EXTENSIONS: TokenExtensions = {
+  transferFeeBps: null,
+  transferFeeAuthority: null,
+  transferHookProgram: null,
+  permanentDelegate: null,
+  confidentialTransfers: false,
+  nonTransferable: false,
+  defaultAccountStateFrozen: false,
+};
+
 export interface TokenHolder {
   /** Wallet address of the holder. */
   owner: string;
@@ -49,14 +92,14 @@ export interface TokenHolder {
   percentage: number;
 }
 
-/** Known Solana DEX program IDs for LP vault detection. */
-const DEX_PROGRAMS: Record<string, string> = {
-  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8": "Raydium AMM",
-  "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK": "Raydium CLMM",
-  "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc": "Orca Whirlpool",
-  "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo": "Meteora DLMM",
-  "Eo7WjKq67rjJQSZxS6z3YkapzY3eBj6xGaBpnh77SXfQ": "Meteora Pools",
-};
+export interface HolderSet {
+  /** Holders aggregated by owner, sorted by amount descending. */
+  holders: TokenHolder[];
+  /** Number of token accounts retrieved. */
+  accountCount: number;
+  /** Whether pagination reached the end of the token's accounts. */
+  complete: boolean;
+}
 
 export interface LPVault {
   /** DEX name (e.g., "Raydium AMM"). */
@@ -69,13 +112,28 @@ export interface LPVault {
   percentage: number;
 }
 
+export interface LabeledHolder extends TokenHolder {
+  /** Registry label (burn address, exchange, vesting program, bridge). */
+  label: AddressLabel;
+}
+
 export interface HolderAnalysis {
-  /** Regular (non-LP) holders. */
+  /** Regular holders — excludes LP vaults and labeled addresses. */
   holders: TokenHolder[];
   /** Identified LP vault positions. */
   lpVaults: LPVault[];
   /** Total percentage of supply in LP vaults. */
   lpSupplyPercent: number;
+  /** Non-LP holders matched in the address registry. */
+  labeledHolders: LabeledHolder[];
+}
+
+export interface RawAccount {
+  address: string;
+  /** Program that owns the account. */
+  owner: string;
+  /** Raw account data. */
+  data: Buffer;
 }
 
 export interface WalletTransaction {
@@ -86,6 +144,59 @@ export interface WalletTransaction {
   memo: string | null;
 }
 
+export interface FundingSource {
+  /** Wallet that was funded. */
+  wallet: string;
+  /** Account whose SOL paid for the funding transfer. */
+  funder: string;
+  /** Lamports received by the wallet. */
+  lamports: number;
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+}
+
+export interface TokenAcquisition {
+  /** Wallet whose balance of the mint increased. */
+  owner: string;
+  /** Raw token amount gained in the transaction. */
+  amount: number;
+  signature: string;
+  slot: number;
+}
+
+export interface EarliestMintActivity {
+  /** Signature of the mint's first transaction (its creation). */
+  creationSignature: string;
+  creationSlot: number;
+  creationTime: number | null;
+  /** Every balance increase of the mint, oldest first. */
+  acquisitions: TokenAcquisition[];
+}
+
+export interface ParsedTokenBalance {
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string };
+}
+
+/** Subset of a `jsonParsed` transaction used for funding and launch detection. */
+export interface ParsedTransaction {
+  slot: number;
+  blockTime: number | null;
+  transaction: {
+    signatures: string[];
+    message: { accountKeys: Array<{ pubkey: string } | string> };
+  };
+  meta: {
+    err: unknown;
+    preBalances: number[];
+    postBalances: number[];
+    preTokenBalances?: ParsedTokenBalance[];
+    postTokenBalances?: ParsedTokenBalance[];
+  } | null;
+}
+
 // ---------------------------------------------------------------------------
 // Singleton Helius client
 // ---------------------------------------------------------------------------
@@ -125,11 +236,18 @@ export function getWebhookClient() {
 export async function getTokenMetadata(
   mint: string
 ): Promise<TokenMetadata | null> {
+  return (await getTokenMetadataResult(mint)).data;
+}
+
+/** `getTokenMetadata`, reporting a failed request instead of `null`. */
+export async function getTokenMetadataResult(
+  mint: string
+): Promise<SourceResult<TokenMetadata>> {
   try {
     const helius = getHelius();
     const asset: Asset = await helius.getAsset({ id: mint });
 
-    if (!asset) return null;
+    if (!asset) return { status: "empty", data: null };
 
     const metadata = asset.content?.metadata;
     const tokenInfo = asset.token_info;
@@ -149,39 +267,123 @@ export async function getTokenMetadata(
     }
 
     return {
-      mint: asset.id,
-      name: metadata?.name ?? "",
-      symbol: metadata?.symbol ?? "",
-      description: metadata?.description ?? "",
-      image: asset.content?.links?.image ?? null,
-      decimals: tokenInfo?.decimals ?? null,
-      supply: tokenInfo?.supply ?? null,
-      updateAuthority,
-      mintAuthority: tokenInfo?.mint_authority ?? null,
-      freezeAuthority: tokenInfo?.freeze_authority ?? null,
-      raw: asset,
+      status: "ok",
+      data: {
+        mint: asset.id,
+        name: metadata?.name ?? "",
+        symbol: metadata?.symbol ?? "",
+        description: metadata?.description ?? "",
+        image: asset.content?.links?.image ?? null,
+        decimals: tokenInfo?.decimals ?? null,
+        supply: tokenInfo?.supply ?? null,
+        updateAuthority,
+        mintAuthority: tokenInfo?.mint_authority ?? null,
+        freezeAuthority: tokenInfo?.freeze_authority ?? null,
+        extensions: parseMintExtensions(asset.mint_extensions),
+        raw: asset,
+      },
     };
   } catch (error) {
+    // DAS answers unknown ids with a JSON-RPC "not found" error
+    if (error instanceof Error && /not found/i.test(error.message)) {
+      return { status: "empty", data: null };
+    }
     console.error(`Helius getTokenMetadata failed for ${mint}:`, error);
-    return null;
+    return { status: "failed", data: null };
   }
 }
 
+/**
+ * Parse the Helius `mint_extensions` object into `TokenExtensions`.
+ *
+ * The SDK types lag behind the API (the newer fee schedule and
+ * non-transferable extension are untyped), so a few fields are read
+ * defensively from the raw object.
+ */
+export function parseMintExtensions(
+  ext: MintExtensions | undefined
+): TokenExtensions {
+  if (!ext) return EMPTY_TOKEN_EXTENSIONS;
+
+  const raw = ext as unknown as Record<string, unknown>;
+  const toBps = (value: unknown): number => {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : 0;
+  };
+
+  let transferFeeBps: number | null = null;
+  if (ext.transfer_fee_config) {
+    const newerFee = ext.transfer_fee_config.newer_transfer_fee as
+      | { transfer_fee_basis_points?: string }
+      | undefined;
+    transferFeeBps = Math.max(
+      toBps(ext.transfer_fee_config.older_transfer_fee?.transfer_fee_basis_points),
+      toBps(newerFee?.transfer_fee_basis_points)
+    );
+  }
+
+  return {
+    transferFeeBps,
+    transferFeeAuthority: ext.transfer_fee_config?.transfer_fee_config_authority || null,
+    transferHookProgram: ext.transfer_hook?.programId || null,
+    permanentDelegate: ext.permanent_delegate?.delegate || null,
+    confidentialTransfers: !!ext.confidential_transfer_mint,
+    nonTransferable: "non_transferable" in raw,
+    defaultAccountStateFrozen:
+      ext.default_account_state?.state?.toLowerCase() === "frozen",
+  };
+}
+
 // ---------------------------------------------------------------------------
 // getTokenHolders
 // ---------------------------------------------------------------------------
 
+/** Max token accounts per `getTokenAccounts` page (Helius limit). */
+const HOLDER_PAGE_SIZE = 1000;
+/** Page cap for full holder retrieval, to bound cost on very large tokens. */
+const MAX_HOLDER_PAGES = 5;
+
+/**
+ * Aggregate token accounts by owner and compute each owner's percentage.
+ *
+ * Percentages are relative to `supply` (raw, on-chain) when known, and
+ * fall back to the sum of the given balances otherwise.
+ */
+export function toTokenHolders(
+  accounts: Array<Pick<TokenAccounts, "owner" | "amount">>,
+  supply: number | null
+): TokenHolder[] {
+  const byOwner = new Map<string, number>();
+  for (const acc of accounts) {
+    if (!acc.owner || (acc.amount ?? 0) <= 0) continue;
+    byOwner.set(acc.owner, (byOwner.get(acc.owner) ?? 0) + (acc.amount ?? 0));
+  }
+
+  const sampledTotal = [...byOwner.values()].reduce((sum, a) => sum + a, 0);
+  const denominator = supply && supply > 0 ? supply : sampledTotal;
+  if (denominator === 0) return [];
+
+  return [...byOwner.entries()]
+    .map(([owner, amount]) => ({
+      owner,
+      amount,
+      percentage: (amount / denominator) * 100,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
 /**
  * Fetch the top holders for a given token mint.
  *
  * Uses the Helius DAS `getTokenAccounts` endpoint filtered by mint.
  * Returns holder entries sorted by amount descending, with percentage
- * calculated relative to total supply (if known) or to the sum of
- * returned balances.
+ * calculated relative to `supply` (if known) or to the sum of returned
+ * balances.
  */
 export async function getTokenHolders(
   mint: string,
-  limit: number = 20
+  limit: number = 20,
+  supply: number | null = null
 ): Promise<TokenHolder[]> {
   try {
     const helius = getHelius();
@@ -191,30 +393,74 @@ export async function getTokenHolders(
       limit,
     });
 
-    const accounts: TokenAccounts[] = response.token_accounts ?? [];
+    return toTokenHolders(response.token_accounts ?? [], supply);
+  } catch (error) {
+    console.error(`Helius getTokenHolders failed for ${mint}:`, error);
+    return [];
+  }
+}
 
-    if (accounts.length === 0) return [];
+/**
+ * Fetch every holder of a token by paginating `getTokenAccounts` with a
+ * cursor, up to `maxPages` pages of 1000 accounts.
+ *
+ * Percentages are computed against the on-chain `supply` when provided.
+ * `complete` is false when the page cap was hit (or a page failed), in
+ * which case the result is a partial holder set.
+ */
+export async function getAllTokenHolders(
+  mint: string,
+  supply: number | null,
+  maxPages: number = MAX_HOLDER_PAGES
+): Promise<HolderSet> {
+  const accounts: TokenAccounts[] = [];
+  let cursor: string | undefined;
+  let complete = false;
 
-    // Calculate total from the returned accounts as a fallback
-    const totalAmount = accounts.reduce(
-      (sum, acc) => sum + (acc.amount ?? 0),
-      0
-    );
+  try {
+    const helius = getHelius();
 
-    if (totalAmount === 0) return [];
+    for (let page = 0; page < maxPages; page++) {
+      const response = await helius.getTokenAccounts({
+        mint,
+        limit: HOLDER_PAGE_SIZE,
+        ...(cursor ? { cursor } : {}),
+      });
 
-    return accounts
-      .filter((acc) => acc.owner && (acc.amount ?? 0) > 0)
-      .map((acc) => ({
-        owner: acc.owner!,
-        amount: acc.amount ?? 0,
-        percentage: ((acc.amount ?? 0) / totalAmount) * 100,
-      }))
-      .sort((a, b) => b.amount - a.amount);
+      const pageAccounts = response.token_accounts ?? [];
+      accounts.push(...pageAccounts);
+      cursor = response.cursor;
+
+      if (pageAccounts.length < HOLDER_PAGE_SIZE || !cursor) {
+        complete = true;
+        break;
+      }
+    }
   } catch (error) {
-    console.error(`Helius getTokenHolders failed for ${mint}:`, error);
-    return [];
+    console.error(`Helius getAllTokenHolders failed for ${mint}:`, error);
   }
+
+  return {
+    holders: toTokenHolders(accounts, supply),
+    accountCount: accounts.length,
+    complete,
+  };
+}
+
+/**
+ * `getAllTokenHolders` as a `SourceResult`. A holder set that is empty
+ * without reaching the end of pagination means the first page failed.
+ */
+export async function getAllTokenHoldersResult(
+  mint: string,
+  supply: number | null,
+  maxPages: number = MAX_HOLDER_PAGES
+): Promise<SourceResult<HolderSet>> {
+  const holderSet = await getAllTokenHolders(mint, supply, maxPages);
+  if (holderSet.holders.length > 0) return { status: "ok", data: holderSet };
+  return holderSet.complete
+    ? { status: "empty", data: holderSet }
+    : { status: "failed", data: null };
 }
 
 // ---------------------------------------------------------------------------
@@ -222,22 +468,26 @@ export async function getTokenHolders(
 // ---------------------------------------------------------------------------
 
 /**
- * Analyze token holders to separate regular holders from LP vault positions.
- * Identifies accounts owned by known DEX programs.
+ * Analyze token holders to separate regular holders from LP vault positions
+ * and other labeled addresses (burn, exchange, vesting, bridge). Accounts
+ * owned by known DEX programs become LP vaults; see `@/lib/addressRegistry`.
  */
 export function analyzeHolders(holders: TokenHolder[]): HolderAnalysis {
   const lpVaults: LPVault[] = [];
+  const labeledHolders: LabeledHolder[] = [];
   const regularHolders: TokenHolder[] = [];
 
   for (const holder of holders) {
-    const dex = DEX_PROGRAMS[holder.owner];
-    if (dex) {
+    const label = getAddressLabel(holder.owner);
+    if (label?.category === "dex") {
       lpVaults.push({
-        dex,
+        dex: label.name,
         owner: holder.owner,
         amount: holder.amount,
         percentage: holder.percentage,
       });
+    } else if (label) {
+      labeledHolders.push({ ...holder, label });
     } else {
       regularHolders.push(holder);
     }
@@ -249,6 +499,7 @@ export function analyzeHolders(holders: TokenHolder[]): HolderAnalysis {
     holders: regularHolders,
     lpVaults,
     lpSupplyPercent,
+    labeledHolders,
   };
 }
 
@@ -291,53 +542,257 @@ export async function getWalletTransactions(
 }
 
 // ---------------------------------------------------------------------------
-// checkHolderConnections — basic Sybil detection
+// getFundingSource
 // ---------------------------------------------------------------------------
 
 /**
- * Check if any of the given wallets share recent transaction history.
+ * Find the first successful transaction in `txs` (oldest first) that
+ * increased `wallet`'s SOL balance. The funder is the account whose
+ * balance dropped the most in that transaction — normally the sender of
+ * the transfer.
+ */
+export function findFundingTransfer(
+  wallet: string,
+  txs: ParsedTransaction[]
+): FundingSource | null {
+  for (const tx of txs) {
+    const { meta } = tx;
+    if (!meta || meta.err) continue;
+
+    const keys = tx.transaction.message.accountKeys.map((k) =>
+      typeof k === "string" ? k : k.pubkey
+    );
+    const walletIndex = keys.indexOf(wallet);
+    if (walletIndex === -1) continue;
+
+    const received =
+      meta.postBalances[walletIndex] - meta.preBalances[walletIndex];
+    if (received <= 0) continue;
+
+    let funderIndex = -1;
+    let largestDrop = 0;
+    keys.forEach((_, i) => {
+      if (i === walletIndex) return;
+      const drop = meta.preBalances[i] - meta.postBalances[i];
+      if (drop > largestDrop) {
+        largestDrop = drop;
+        funderIndex = i;
+      }
+    });
+    if (funderIndex === -1) continue;
+
+    return {
+      wallet,
+      funder: keys[funderIndex],
+      lamports: received,
+      signature: tx.transaction.signatures[0],
+      slot: tx.slot,
+      blockTime: tx.blockTime,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Find the transaction that first funded a wallet with SOL.
  *
- * Fetches recent transaction signatures for each wallet and looks for
- * overlapping signatures — meaning two wallets participated in the same
- * on-chain transaction (e.g. direct SOL transfer, funding from the same
- * source). This catches basic Sybil patterns where one entity controls
- * multiple top-holder wallets.
+ * Reads the wallet's oldest transactions (ascending) and returns the first
+ * successful one that increased its SOL balance (see `findFundingTransfer`).
  *
- * Returns the number of wallets that share at least one transaction with
- * another wallet in the set.
+ * Returns `null` if no funding transaction is found or the request fails.
  */
-export async function checkHolderConnections(
-  wallets: string[],
-  txLimit: number = 50
-): Promise<number> {
-  if (wallets.length < 2) return 0;
-
-  // Fetch recent transaction signatures for each wallet in parallel
-  const results = await Promise.all(
-    wallets.map(async (wallet) => {
-      const txs = await getWalletTransactions(wallet, txLimit);
-      return {
-        wallet,
-        signatures: new Set(txs.map((tx) => tx.signature)),
-      };
-    })
-  );
-
-  // Find wallets that share at least one transaction with another top holder
-  const connectedWallets = new Set<string>();
-  for (let i = 0; i < results.length; i++) {
-    for (let j = i + 1; j < results.length; j++) {
-      for (const sig of results[i].signatures) {
-        if (results[j].signatures.has(sig)) {
-          connectedWallets.add(results[i].wallet);
-          connectedWallets.add(results[j].wallet);
-          break;
-        }
-      }
+export async function getFundingSource(
+  wallet: string,
+  scanLimit: number = 10
+): Promise<FundingSource | null> {
+  return (await getFundingSourceResult(wallet, scanLimit)).data;
+}
+
+/** `getFundingSource`, reporting a failed request instead of `null`. */
+export async function getFundingSourceResult(
+  wallet: string,
+  scanLimit: number = 10
+): Promise<SourceResult<FundingSource>> {
+  try {
+    const helius = getHelius();
+
+    const result = await helius.getTransactionsForAddress([
+      wallet,
+      {
+        transactionDetails: "full",
+        sortOrder: "asc",
+        limit: scanLimit,
+        encoding: "jsonParsed",
+        maxSupportedTransactionVersion: 0,
+        filters: { status: "succeeded" },
+      },
+    ]);
+
+    const txs = result.data as unknown as ParsedTransaction[];
+    const funding = findFundingTransfer(wallet, txs);
+    return { status: funding ? "ok" : "empty", data: funding };
+  } catch (error) {
+    console.error(`Helius getFundingSource failed for ${wallet}:`, error);
+    return { status: "failed", data: null };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Raw accounts
+// ---------------------------------------------------------------------------
+
+/** Max accounts per `getMultipleAccounts` request (RPC limit). */
+const MULTIPLE_ACCOUNTS_BATCH = 100;
+
+type RpcAddress = Parameters<HeliusClient["getMultipleAccounts"]>[0][number];
+
+/**
+ * Fetch raw account data for a list of addresses, batched through
+ * `getMultipleAccounts`. Results are aligned with `addresses`; missing
+ * accounts (and failed batches) are `null`.
+ */
+export async function getRawAccounts(
+  addresses: string[]
+): Promise<Array<RawAccount | null>> {
+  const results: Array<RawAccount | null> = [];
+
+  for (let i = 0; i < addresses.length; i += MULTIPLE_ACCOUNTS_BATCH) {
+    const batch = addresses.slice(i, i + MULTIPLE_ACCOUNTS_BATCH);
+    try {
+      const helius = getHelius();
+      const response = await helius.getMultipleAccounts(
+        batch as RpcAddress[],
+        { encoding: "base64" }
+      );
+      response.value.forEach((account, j) => {
+        results.push(
+          account
+            ? {
+                address: batch[j],
+                owner: account.owner,
+                data: Buffer.from(account.data[0], "base64"),
+              }
+            : null
+        );
+      });
+    } catch (error) {
+      console.error("Helius getMultipleAccounts failed:", error);
+      results.push(...batch.map(() => null));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fetch the raw on-chain supply of a mint. Returns `null` on failure.
+ */
+export async function getMintSupply(mint: string): Promise<number | null> {
+  try {
+    const helius = getHelius();
+    const response = await helius.getTokenSupply(mint as RpcAddress);
+    return Number(response.value.amount);
+  } catch (error) {
+    console.error(`Helius getTokenSupply failed for ${mint}:`, error);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// getEarliestMintActivity
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract who acquired `mint` from its earliest transactions (oldest
+ * first) by diffing pre/post token balances per owner. Returns `null` for
+ * an empty list.
+ */
+export function extractMintActivity(
+  mint: string,
+  txs: ParsedTransaction[]
+): EarliestMintActivity | null {
+  if (txs.length === 0) return null;
+
+  const acquisitions: TokenAcquisition[] = [];
+  for (const tx of txs) {
+    if (!tx.meta || tx.meta.err) continue;
+
+    const deltas = new Map<string, number>();
+    for (const b of tx.meta.preTokenBalances ?? []) {
+      if (b.mint !== mint || !b.owner) continue;
+      deltas.set(b.owner, (deltas.get(b.owner) ?? 0) - Number(b.uiTokenAmount.amount));
+    }
+    for (const b of tx.meta.postTokenBalances ?? []) {
+      if (b.mint !== mint || !b.owner) continue;
+      deltas.set(b.owner, (deltas.get(b.owner) ?? 0) + Number(b.uiTokenAmount.amount));
+    }
+
+    for (const [owner, amount] of deltas) {
+      if (amount <= 0) continue;
+      acquisitions.push({
+        owner,
+        amount,
+        signature: tx.transaction.signatures[0],
+        slot: tx.slot,
+      });
     }
   }
 
-  return connectedWallets.size;
+  return {
+    creationSignature: txs[0].transaction.signatures[0],
+    creationSlot: txs[0].slot,
+    creationTime: txs[0].blockTime,
+    acquisitions,
+  };
+}
+
+/**
+ * Fetch a mint's earliest transactions and extract who acquired the token.
+ *
+ * Reads up to `limit` transactions referencing the mint, oldest first (see
+ * `extractMintActivity`). Only transactions that touch the mint account
+ * are returned by Helius, which covers mint creation, initial distribution
+ * and `transferChecked`-based swaps.
+ *
+ * Returns `null` if no transactions are found or the request fails.
+ */
+export async function getEarliestMintActivity(
+  mint: string,
+  limit: number = 100
+): Promise<EarliestMintActivity | null> {
+  return (await getEarliestMintActivityResult(mint, limit)).data;
+}
+
+/** `getEarliestMintActivity`, reporting a failed request instead of `null`. */
+export async function getEarliestMintActivityResult(
+  mint: string,
+  limit: number = 100
+): Promise<SourceResult<EarliestMintActivity>> {
+  try {
+    const helius = getHelius();
+
+    const result = await helius.getTransactionsForAddress([
+      mint,
+      {
+        transactionDetails: "full",
+        sortOrder: "asc",
+        limit,
+        encoding: "jsonParsed",
+        maxSupportedTransactionVersion: 0,
+        filters: { status: "succeeded" },
+      },
+    ]);
+
+    const activity = extractMintActivity(
+      mint,
+      result.data as unknown as ParsedTransaction[]
+    );
+    return { status: activity ? "ok" : "empty", data: activity };
+  } catch (error) {
+    console.error(`Helius getEarliestMintActivity failed for ${mint}:`, error);
+    return { status: "failed", data: null };
+  }
 }
 
 // ---------------------------------------------------------------------------
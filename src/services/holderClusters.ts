@@ -0,0 +1,202 @@
+/**
+ * Holder clustering service — funding-source Sybil detection.
+ *
+ * Traces each top holder's first SOL funding transaction a few hops back
+ * and groups holders that either share a funding ancestor (or funded one
+ * another) or were first funded within the same narrow slot window.
+ * Wallets controlled by one entity are usually bootstrapped from the same
+ * source, often in a single burst, so both signals catch common patterns.
+ *
+ * Labeled addresses (exchanges, bridges, ...) fund thousands of unrelated
+ * wallets, so tracing stops at them and they never link holders together.
+ *
+ * IMPORTANT: Server-side only (uses the transaction data providers).
+ */
+
+import { getAddressLabel } from "@/lib/addressRegistry";
+import { fetchFundingSource } from "@/services/dataProviders";
+import type { FundingSource, TokenHolder } from "@/services/helius";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ClusterReason = "shared_funder" | "slot_window";
+
+export interface HolderCluster {
+  /** Deterministic id: the cluster's first wallet by holding size. */
+  id: string;
+  /** Member wallets, largest holding first. */
+  wallets: string[];
+  /** Why the wallets were grouped. */
+  reasons: ClusterReason[];
+  /** Common funding ancestor, when the cluster shares one. */
+  funder: string | null;
+  /** Combined percentage of supply held by the members. */
+  supplyPercent: number;
+}
+
+export interface HolderClusterAnalysis {
+  clusters: HolderCluster[];
+  /** First-hop funding edges for the traced holders. */
+  fundingSources: FundingSource[];
+  /** Number of traced wallets that belong to a cluster. */
+  clusteredWalletCount: number;
+  /** Combined supply share of all clustered wallets. */
+  clusteredSupplyPercent: number;
+}
+
+export interface ClusterHoldersOptions {
+  /** How many top holders to trace. Default 10. */
+  maxHolders?: number;
+  /** Funding hops to follow back from each holder. Default 3. */
+  maxHops?: number;
+  /** Holders first funded within this many slots are grouped. Default 10 (~4s). */
+  slotWindow?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Funding trace
+// ---------------------------------------------------------------------------
+
+/**
+ * Follow funding sources back from `wallet`, stopping at labeled addresses,
+ * cycles or `maxHops`. Lookups are memoized across holders since clustered
+ * wallets share most of their ancestry.
+ */
+async function traceFundingChain(
+  wallet: string,
+  maxHops: number,
+  lookup: (wallet: string) => Promise<FundingSource | null>
+): Promise<FundingSource[]> {
+  const chain: FundingSource[] = [];
+  const seen = new Set([wallet]);
+  let current = wallet;
+
+  for (let hop = 0; hop < maxHops; hop++) {
+    const source = await lookup(current);
+    if (!source || seen.has(source.funder)) break;
+    if (getAddressLabel(source.funder)) break;
+
+    chain.push(source);
+    seen.add(source.funder);
+    current = source.funder;
+  }
+
+  return chain;
+}
+
+// ---------------------------------------------------------------------------
+// clusterHolders
+// ---------------------------------------------------------------------------
+
+/**
+ * Group the top holders of a token into funding clusters.
+ *
+ * Holders are expected sorted by amount (as returned by `analyzeHolders`),
+ * with LP vaults and labeled custodians already removed.
+ */
+export async function clusterHolders(
+  holders: TokenHolder[],
+  options: ClusterHoldersOptions = {}
+): Promise<HolderClusterAnalysis> {
+  const { maxHolders = 10, maxHops = 3, slotWindow = 10 } = options;
+  const traced = holders.slice(0, maxHolders);
+
+  const empty: HolderClusterAnalysis = {
+    clusters: [],
+    fundingSources: [],
+    clusteredWalletCount: 0,
+    clusteredSupplyPercent: 0,
+  };
+  if (traced.length < 2) return empty;
+
+  const cache = new Map<string, Promise<FundingSource | null>>();
+  const lookup = (wallet: string) => {
+    let pending = cache.get(wallet);
+    if (!pending) {
+      pending = fetchFundingSource(wallet).then((r) => r.data);
+      cache.set(wallet, pending);
+    }
+    return pending;
+  };
+
+  const chains = await Promise.all(
+    traced.map((h) => traceFundingChain(h.owner, maxHops, lookup))
+  );
+
+  // Union-find over holder indices
+  const parent = traced.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const reasons = new Map<number, Set<ClusterReason>>();
+  const union = (a: number, b: number, reason: ClusterReason) => {
+    const ra = find(a);
+    const rb = find(b);
+    const merged = new Set([
+      ...(reasons.get(ra) ?? []),
+      ...(reasons.get(rb) ?? []),
+      reason,
+    ]);
+    parent[rb] = ra;
+    reasons.set(ra, merged);
+  };
+
+  // Shared ancestor (including one holder funding another)
+  const ancestors = chains.map(
+    (chain, i) => new Set([traced[i].owner, ...chain.map((s) => s.funder)])
+  );
+  const sharedFunder = new Map<number, string>();
+  for (let i = 0; i < traced.length; i++) {
+    for (let j = i + 1; j < traced.length; j++) {
+      const common = [...ancestors[i]].find((a) => ancestors[j].has(a));
+      if (common) {
+        union(i, j, "shared_funder");
+        sharedFunder.set(i, common);
+        sharedFunder.set(j, common);
+      }
+    }
+  }
+
+  // First funded within the same slot window
+  for (let i = 0; i < traced.length; i++) {
+    const a = chains[i][0];
+    if (!a) continue;
+    for (let j = i + 1; j < traced.length; j++) {
+      const b = chains[j][0];
+      if (b && Math.abs(a.slot - b.slot) <= slotWindow) {
+        union(i, j, "slot_window");
+      }
+    }
+  }
+
+  // Collect clusters with two or more members
+  const groups = new Map<number, number[]>();
+  traced.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  const clusters: HolderCluster[] = [...groups.entries()]
+    .filter(([, members]) => members.length >= 2)
+    .map(([root, members]) => {
+      const funders = new Set(
+        members.map((i) => sharedFunder.get(i)).filter((f) => f !== undefined)
+      );
+      return {
+        id: traced[members[0]].owner,
+        wallets: members.map((i) => traced[i].owner),
+        reasons: [...(reasons.get(root) ?? [])].sort(),
+        funder: funders.size === 1 ? [...funders][0] : null,
+        supplyPercent: members.reduce((sum, i) => sum + traced[i].percentage, 0),
+      };
+    })
+    .sort((a, b) => b.supplyPercent - a.supplyPercent);
+
+  return {
+    clusters,
+    fundingSources: chains.flatMap((chain) => chain.slice(0, 1)),
+    clusteredWalletCount: clusters.reduce((sum, c) => sum + c.wallets.length, 0),
+    clusteredSupplyPercent: clusters.reduce((sum, c) => sum + c.supplyPercent, 0),
+  };
+}
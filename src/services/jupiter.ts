@@ -4,8 +4,13 @@
  *
  * Verified list: free API, no key required. Cached in-memory for 1 hour.
  * Recent tokens: requires JUPITER_API_KEY. Cached in-memory for 5 minutes.
+ * Swap quotes/transactions: used by the sell simulation, not cached.
+ * Market data: token search stats, a fallback market data provider.
  */
 
+import type { SourceResult } from "@/lib/dataSources";
+import type { TokenLiquidity } from "@/services/dexscreener";
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -19,6 +24,21 @@ export interface JupiterRecentToken {
   created_at?: string;
 }
 
+/** Subset of the Jupiter /swap/v1/quote response used by the sell simulation. */
+export interface JupiterQuote {
+  inputMint: string;
+  outputMint: string;
+  /** Raw input amount. */
+  inAmount: string;
+  /** Raw expected output amount (before slippage). */
+  outAmount: string;
+  /** Price impact as a fraction string (e.g. "0.0123"). */
+  priceImpactPct: string;
+  routePlan: Array<{
+    swapInfo: { ammKey: string; label?: string; inputMint: string; outputMint: string };
+  }>;
+}
+
 /** Raw shape returned by Jupiter /tokens/v2/recent */
 interface JupiterRecentRaw {
   id: string;
@@ -29,6 +49,16 @@ interface JupiterRecentRaw {
   createdAt?: string;
 }
 
+/** Subset of a Jupiter /tokens/v2/search result used for market data. */
+interface JupiterTokenStats {
+  id: string;
+  usdPrice?: number | null;
+  liquidity?: number | null;
+  mcap?: number | null;
+  fdv?: number | null;
+  stats24h?: { buyVolume?: number | null; sellVolume?: number | null } | null;
+}
+
 // ---------------------------------------------------------------------------
 // Verified list cache (1 hour)
 // ---------------------------------------------------------------------------
@@ -46,10 +76,17 @@ let recentCachedAt = 0;
 const RECENT_CACHE_TTL_MS = 5 * 60 * 1000;
 
 export async function isJupiterVerified(mint: string): Promise<boolean> {
+  return (await isJupiterVerifiedResult(mint)).data ?? false;
+}
+
+/** `isJupiterVerified`, reporting a failed list fetch instead of `false`. */
+export async function isJupiterVerifiedResult(
+  mint: string
+): Promise<SourceResult<boolean>> {
   try {
     const now = Date.now();
     if (cachedTokens && now - cachedAt < CACHE_TTL_MS) {
-      return cachedTokens.has(mint);
+      return { status: "ok", data: cachedTokens.has(mint) };
     }
 
     const apiKey = process.env.JUPITER_API_KEY;
@@ -61,15 +98,15 @@ export async function isJupiterVerified(mint: string): Promise<boolean> {
       signal: AbortSignal.timeout(10_000),
     });
 
-    if (!res.ok) return false;
+    if (!res.ok) return { status: "failed", data: null };
 
     const tokens = (await res.json()) as Array<{ address?: string; mint?: string }>;
     cachedTokens = new Set(tokens.map((t) => t.address ?? t.mint ?? ""));
     cachedAt = now;
 
-    return cachedTokens.has(mint);
+    return { status: "ok", data: cachedTokens.has(mint) };
   } catch {
-    return false;
+    return { status: "failed", data: null };
   }
 }
 
@@ -126,3 +163,138 @@ export async function fetchRecentTokens(
     return [];
   }
 }
+
+// ---------------------------------------------------------------------------
+// Market data
+// ---------------------------------------------------------------------------
+
+/**
+ * Price, liquidity and volume from Jupiter's token search. Jupiter reports
+ * aggregate stats only, so pool count, primary DEX and LP verification are
+ * unavailable. `empty` when Jupiter has no liquidity for the token.
+ */
+export async function getJupiterMarketDataResult(
+  mint: string
+): Promise<SourceResult<TokenLiquidity>> {
+  try {
+    const apiKey = process.env.JUPITER_API_KEY;
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (apiKey) headers["x-api-key"] = apiKey;
+
+    const res = await fetch(
+      `https://api.jup.ag/tokens/v2/search?query=${encodeURIComponent(mint)}`,
+      { headers, signal: AbortSignal.timeout(10_000) }
+    );
+
+    if (!res.ok) {
+      console.error(`Jupiter token search API returned ${res.status}`);
+      return { status: "failed", data: null };
+    }
+
+    const tokens = (await res.json()) as JupiterTokenStats[];
+    const token = tokens.find((t) => t.id === mint);
+    if (!token || !token.liquidity) return { status: "empty", data: null };
+
+    const totalLiquidityUsd = token.liquidity;
+    const volume24h =
+      (token.stats24h?.buyVolume ?? 0) + (token.stats24h?.sellVolume ?? 0);
+
+    return {
+      status: "ok",
+      data: {
+        totalLiquidityUsd,
+        volume24h,
+        volumeLiquidityRatio: volume24h / totalLiquidityUsd,
+        poolCount: 0,
+        primaryDex: null,
+        fdv: token.fdv ?? 0,
+        marketCap: token.mcap ?? 0,
+        priceUsd: token.usdPrice ?? 0,
+        lpOwnership: null,
+        fetchedAt: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    console.error(`Jupiter market data failed for ${mint}:`, error);
+    return { status: "failed", data: null };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Swap quotes
+// ---------------------------------------------------------------------------
+
+const JUPITER_SWAP_BASE_URL = "https://api.jup.ag/swap/v1";
+
+function swapHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+    "Content-Type": "application/json",
+  };
+  const apiKey = process.env.JUPITER_API_KEY;
+  if (apiKey) headers["x-api-key"] = apiKey;
+  return headers;
+}
+
+/**
+ * Quote a direct (single-pool) swap of `amount` raw units of `inputMint`.
+ * Returns null if no direct route exists or the request fails.
+ */
+export async function getDirectSwapQuote(
+  inputMint: string,
+  outputMint: string,
+  amount: bigint,
+  slippageBps: number = 5000
+): Promise<JupiterQuote | null> {
+  try {
+    const params = new URLSearchParams({
+      inputMint,
+      outputMint,
+      amount: amount.toString(),
+      slippageBps: slippageBps.toString(),
+      onlyDirectRoutes: "true",
+    });
+
+    const res = await fetch(`${JUPITER_SWAP_BASE_URL}/quote?${params}`, {
+      headers: swapHeaders(),
+      signal: AbortSignal.timeout(10_000),
+    });
+
+    if (!res.ok) return null;
+    return (await res.json()) as JupiterQuote;
+  } catch (error) {
+    console.error(`Jupiter quote failed for ${inputMint}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build an unsigned swap transaction (base64) for a quote, paid by and
+ * settled to `userPublicKey`. SOL output is unwrapped to native lamports.
+ * Returns null on failure.
+ */
+export async function buildSwapTransaction(
+  quote: JupiterQuote,
+  userPublicKey: string
+): Promise<string | null> {
+  try {
+    const res = await fetch(`${JUPITER_SWAP_BASE_URL}/swap`, {
+      method: "POST",
+      headers: swapHeaders(),
+      body: JSON.stringify({
+        quoteResponse: quote,
+        userPublicKey,
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+      }),
+      signal: AbortSignal.timeout(10_000),
+    });
+
+    if (!res.ok) return null;
+    const json = (await res.json()) as { swapTransaction?: string };
+    return json.swapTransaction ?? null;
+  } catch (error) {
+    console.error("Jupiter swap build failed:", error);
+    return null;
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * LP ownership service — verifies whether pool LP tokens are burned,
+ * locked or still withdrawable.
+ *
+ * USD depth alone says nothing about whether liquidity can be pulled. For
+ * pools with a fungible LP mint (Raydium AMM v4, Raydium CPMM, Meteora
+ * Pools) this service reads the pool account to find the LP mint, then
+ * classifies the LP supply:
+ *   burned   — destroyed via SPL burn (supply below the pool's recorded LP
+ *              reserve) or held by a burn address
+ *   locked   — held by an account owned by a known locker program
+ *   unlocked — anything else, i.e. withdrawable by its holder
+ *
+ * Concentrated-liquidity pools (Raydium CLMM, Orca Whirlpool, Meteora DLMM)
+ * have no LP mint — liquidity lives in position NFTs — so they are reported
+ * as unverified.
+ *
+ * IMPORTANT: Server-side only (uses the Helius client).
+ */
+
+import bs58 from "bs58";
+import { DEX_PROGRAMS, getAddressLabel } from "@/lib/addressRegistry";
+import {
+  getRawAccounts,
+  getMintSupply,
+  getTokenHolders,
+  type RawAccount,
+} from "@/services/helius";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LpHolder {
+  owner: string;
+  /** Percentage of the pool's original LP supply. */
+  percentage: number;
+}
+
+export interface PoolLpOwnership {
+  pairAddress: string;
+  /** DEX name from the address registry (e.g. "Raydium AMM"). */
+  dex: string;
+  /** Pool liquidity (USD) reported by DexScreener. */
+  liquidityUsd: number;
+  lpMint: string;
+  burnedPercent: number;
+  lockedPercent: number;
+  unlockedPercent: number;
+  /** Earliest unlock among timed locks (ISO); `null` if none or permanent. */
+  lockExpiresAt: string | null;
+  /** Largest unlocked LP holders. */
+  unlockedHolders: LpHolder[];
+}
+
+export interface LpOwnershipSummary {
+  /** Pools whose LP mint could be read. */
+  pools: PoolLpOwnership[];
+  /** Position-based or unreadable pools, not included in the percentages. */
+  unverifiedPoolCount: number;
+  /** Liquidity-weighted share of LP burned across verified pools. */
+  burnedPercent: number;
+  /** Liquidity-weighted share of LP locked across verified pools. */
+  lockedPercent: number;
+  /** Liquidity-weighted share of LP withdrawable across verified pools. */
+  unlockedPercent: number;
+  /** Earliest unlock across all verified pools (ISO). */
+  lockExpiresAt: string | null;
+}
+
+export interface LpPoolRef {
+  pairAddress: string;
+  liquidityUsd: number;
+}
+
+// ---------------------------------------------------------------------------
+// Pool layouts
+// ---------------------------------------------------------------------------
+
+interface PoolLayout {
+  /** Byte offset of the LP mint pubkey. */
+  lpMintOffset: number;
+  /** Byte offset of the pool's own LP supply counter (u64), if tracked. */
+  lpReserveOffset?: number;
+}
+
+/** Pool programs with a fungible LP mint, keyed by program id. */
+const FUNGIBLE_LP_POOLS: Record<string, PoolLayout> = {
+  // Raydium AMM v4: LiquidityStateV4.lpMint / lpReserve
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8": { lpMintOffset: 464, lpReserveOffset: 720 },
+  // Raydium CPMM: PoolState.lp_mint / lp_supply
+  "GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL": { lpMintOffset: 136, lpReserveOffset: 333 },
+  // Meteora Pools (dynamic AMM): Pool.lp_mint
+  "Eo7WjKq67rjJQSZxS6z3YkapzY3eBj6xGaBpnh77SXfQ": { lpMintOffset: 8 },
+};
+
+// ---------------------------------------------------------------------------
+// Lockers
+// ---------------------------------------------------------------------------
+
+interface LockerSpec {
+  name: string;
+  /** Decode the unlock time (unix seconds) from the lock account, if timed. */
+  unlockTime?: (data: Buffer) => number | null;
+}
+
+/**
+ * Programs that hold LP tokens in escrow. An LP token account whose owner
+ * is a data account owned by one of these programs counts as locked.
+ */
+const LP_LOCKERS: Record<string, LockerSpec> = {
+  // Raydium Burn & Earn — permanent
+  LockrWmn6K5twhz3y9w1dQERbmgSaRkfnTeTKbpofwE: { name: "Raydium Burn & Earn" },
+  // Meteora lock escrows are owned by the pool program itself — permanent
+  Eo7WjKq67rjJQSZxS6z3YkapzY3eBj6xGaBpnh77SXfQ: { name: "Meteora Lock Escrow" },
+  // Jupiter Lock: VestingEscrow { cliff_time @144, frequency @152, number_of_period @176 }
+  LocpQgucEQHbqNABEYvBvwoxCPsSbG91A1QaQhQQqjn: {
+    name: "Jupiter Lock",
+    unlockTime: (data) => {
+      if (data.length < 184) return null;
+      const cliff = Number(data.readBigUInt64LE(144));
+      const frequency = Number(data.readBigUInt64LE(152));
+      const periods = Number(data.readBigUInt64LE(176));
+      return cliff + frequency * periods;
+    },
+  },
+  strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m: { name: "Streamflow" },
+};
+
+/** LP holders to inspect per pool. */
+const LP_HOLDER_LIMIT = 20;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function readPubkey(data: Buffer, offset: number): string | null {
+  if (data.length < offset + 32) return null;
+  return bs58.encode(data.subarray(offset, offset + 32));
+}
+
+/** Liquidity-weighted average of a per-pool percentage. */
+function weighted(
+  pools: PoolLpOwnership[],
+  pick: (p: PoolLpOwnership) => number
+): number {
+  const totalUsd = pools.reduce((sum, p) => sum + p.liquidityUsd, 0);
+  if (totalUsd > 0) {
+    return pools.reduce((sum, p) => sum + pick(p) * p.liquidityUsd, 0) / totalUsd;
+  }
+  return pools.reduce((sum, p) => sum + pick(p), 0) / pools.length;
+}
+
+function earliest(times: Array<string | null>): string | null {
+  const set = times.filter((t): t is string => t !== null).sort();
+  return set[0] ?? null;
+}
+
+/**
+ * Classify the LP supply of one pool. Returns `null` when the LP mint or
+ * its holders cannot be read.
+ */
+async function analyzePool(
+  pool: LpPoolRef,
+  account: RawAccount,
+  layout: PoolLayout
+): Promise<PoolLpOwnership | null> {
+  const lpMint = readPubkey(account.data, layout.lpMintOffset);
+  if (!lpMint) return null;
+
+  const supply = await getMintSupply(lpMint);
+  if (supply === null) return null;
+
+  // Supply burned via SPL burn no longer shows up in any account, so the
+  // pool's own LP counter is the denominator when the layout tracks it
+  const reserve =
+    layout.lpReserveOffset !== undefined &&
+    account.data.length >= layout.lpReserveOffset + 8
+      ? Number(account.data.readBigUInt64LE(layout.lpReserveOffset))
+      : 0;
+  const original = Math.max(supply, reserve);
+  if (original === 0) return null;
+
+  const holders = await getTokenHolders(lpMint, LP_HOLDER_LIMIT, original);
+  const ownerAccounts = await getRawAccounts(holders.map((h) => h.owner));
+
+  let burnedPercent = ((original - supply) / original) * 100;
+  let lockedPercent = 0;
+  const unlockedHolders: LpHolder[] = [];
+  const unlockTimes: Array<string | null> = [];
+
+  holders.forEach((holder, i) => {
+    if (getAddressLabel(holder.owner)?.category === "burn") {
+      burnedPercent += holder.percentage;
+      return;
+    }
+
+    const ownerAccount = ownerAccounts[i];
+    const locker = ownerAccount ? LP_LOCKERS[ownerAccount.owner] : undefined;
+    if (ownerAccount && locker) {
+      lockedPercent += holder.percentage;
+      const unlockAt = locker.unlockTime?.(ownerAccount.data);
+      unlockTimes.push(unlockAt ? new Date(unlockAt * 1000).toISOString() : null);
+      return;
+    }
+
+    unlockedHolders.push({ owner: holder.owner, percentage: holder.percentage });
+  });
+
+  // Unlocked = whatever is neither burned nor locked, including holders
+  // beyond the inspected top accounts
+  const unlockedPercent = Math.max(0, 100 - burnedPercent - lockedPercent);
+
+  return {
+    pairAddress: pool.pairAddress,
+    dex: DEX_PROGRAMS[account.owner] ?? "Unknown DEX",
+    liquidityUsd: pool.liquidityUsd,
+    lpMint,
+    burnedPercent,
+    lockedPercent,
+    unlockedPercent,
+    lockExpiresAt: earliest(unlockTimes),
+    unlockedHolders: unlockedHolders.slice(0, 5),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// analyzeLpOwnership
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify LP burn/lock status for a token's trading pools.
+ *
+ * Returns `null` when no pool could be verified (e.g. only concentrated
+ * liquidity pools, or RPC failures).
+ */
+export async function analyzeLpOwnership(
+  pools: LpPoolRef[]
+): Promise<LpOwnershipSummary | null> {
+  if (pools.length === 0) return null;
+
+  const poolAccounts = await getRawAccounts(pools.map((p) => p.pairAddress));
+
+  const analyzed = await Promise.all(
+    pools.map((pool, i) => {
+      const account = poolAccounts[i];
+      const layout = account ? FUNGIBLE_LP_POOLS[account.owner] : undefined;
+      return account && layout ? analyzePool(pool, account, layout) : null;
+    })
+  );
+  const verified = analyzed.filter((p): p is PoolLpOwnership => p !== null);
+  if (verified.length === 0) return null;
+
+  return {
+    pools: verified,
+    unverifiedPoolCount: pools.length - verified.length,
+    burnedPercent: weighted(verified, (p) => p.burnedPercent),
+    lockedPercent: weighted(verified, (p) => p.lockedPercent),
+    unlockedPercent: weighted(verified, (p) => p.unlockedPercent),
+    lockExpiresAt: earliest(verified.map((p) => p.lockExpiresAt)),
+  };
+}
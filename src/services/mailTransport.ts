@@ -0,0 +1,176 @@
+/**
+ * Mail transports for outgoing email (the watchlist digest).
+ *
+ *   smtp     SMTP submission through nodemailer: implicit TLS
+ *            (SMTP_SECURE=true, usually port 465) or STARTTLS when the
+ *            server offers it, authenticated with SMTP_USER / SMTP_PASS
+ *   file     writes each message as an .eml file to MAIL_FILE_DIR
+ *            (default `.mail/`), for local testing
+ *   console  logs the plain-text body
+ *
+ * MAIL_TRANSPORT picks one; without it, SMTP is used when SMTP_HOST is
+ * set and the console otherwise. The file and console transports are for
+ * development and refuse to start in production. MAIL_FROM sets the
+ * sender. Messages are multipart/alternative (plain text + HTML).
+ *
+ * IMPORTANT: Server-side only (uses nodemailer and node:fs).
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createTransport, type SendMailOptions } from "nodemailer";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Extra headers, e.g. List-Unsubscribe. */
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  name: "smtp" | "file" | "console";
+  send: (message: MailMessage) => Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte; otherwise STARTTLS when offered. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_FROM = "TokenTrust <digest@localhost>";
+const DEFAULT_FILE_DIR = ".mail";
+const SMTP_TIMEOUT_MS = 30_000;
+
+// ---------------------------------------------------------------------------
+// MIME
+// ---------------------------------------------------------------------------
+
+/** The bare address of a mailbox like `Name <user@host>`. */
+function getAddress(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+function toMailOptions(from: string, message: MailMessage): SendMailOptions {
+  return {
+    from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    headers: message.headers,
+  };
+}
+
+/** The message as an RFC 5322 multipart/alternative document. */
+export async function buildMimeMessage(from: string, message: MailMessage): Promise<Buffer> {
+  const compiler = createTransport({ streamTransport: true, buffer: true, newline: "windows" });
+  const { message: compiled } = await compiler.sendMail(toMailOptions(from, message));
+  // `buffer: true` compiles to a Buffer rather than a stream
+  if (!Buffer.isBuffer(compiled)) throw new Error("Mail compiler returned a stream");
+  return compiled;
+}
+
+function isLocalHost(host: string): boolean {
+  return host === "localhost" || host === "127.0.0.1" || host === "::1";
+}
+
+// ---------------------------------------------------------------------------
+// Transports
+// ---------------------------------------------------------------------------
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    // Never send credentials in plain text, except to a local relay
+    requireTLS: Boolean(options.user) && !options.secure && !isLocalHost(options.host),
+    auth: options.user ? { user: options.user, pass: options.pass ?? "" } : undefined,
+    name: "tokentrust",
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail(toMailOptions(options.from, message));
+    },
+  };
+}
+
+export function createFileTransport(dir: string = DEFAULT_FILE_DIR, from: string = DEFAULT_FROM): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const recipient = getAddress(message.to).replace(/[^\w.@-]/g, "_");
+      const file = path.join(dir, `${stamp}-${recipient}-${randomUUID().slice(0, 8)}.eml`);
+      await writeFile(file, await buildMimeMessage(from, message));
+      console.log(`Mail to ${message.to} written to ${file}`);
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`--- Mail to ${message.to}: ${message.subject}\n${message.text}\n---`);
+    },
+  };
+}
+
+/**
+ * The transport configured by MAIL_TRANSPORT / SMTP_* (see the header).
+ * Throws in production unless it is SMTP, so mail is never silently
+ * logged or written to disk instead of sent.
+ */
+export function getMailTransport(): MailTransport {
+  const from = process.env.MAIL_FROM ?? DEFAULT_FROM;
+  const kind = process.env.MAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "console");
+
+  if ((kind === "file" || kind === "console") && process.env.NODE_ENV === "production") {
+    throw new Error(`MAIL_TRANSPORT ${kind} is for development only; configure SMTP_HOST in production`);
+  }
+
+  switch (kind) {
+    case "smtp": {
+      const host = process.env.SMTP_HOST;
+      if (!host) throw new Error("Missing environment variable: SMTP_HOST");
+      const secure = process.env.SMTP_SECURE === "true";
+      return createSmtpTransport({
+        host,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        from,
+      });
+    }
+    case "file":
+      return createFileTransport(process.env.MAIL_FILE_DIR ?? DEFAULT_FILE_DIR, from);
+    case "console":
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
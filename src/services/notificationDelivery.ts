@@ -0,0 +1,439 @@
+/**
+ * Notification delivery — sends alerts to the outbound channels users
+ * configure (see `@/lib/notificationChannels`) and logs every attempt in
+ * `notification_deliveries`.
+ *
+ * Each notification the alert engine writes is matched against its
+ * owner's enabled channels and their filters. Every match gets a delivery
+ * row and is sent right away. A send that may succeed later (network
+ * error, timeout, 408, 429, 5xx) stays `pending` and is retried by
+ * GET /api/cron/deliveries after a growing delay (`RETRY_DELAYS_MS`);
+ * other error responses, or `MAX_DELIVERY_ATTEMPTS` failed attempts, mark
+ * it `failed`. Test messages are sent once and never retried. Requests go
+ * only to public addresses (see `@/lib/outboundAddress`), and only the
+ * response status is logged.
+ *
+ * IMPORTANT: Server-side only (uses the service role Supabase client and
+ * channel credentials).
+ */
+
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP } from "node:net";
+
+import { createServerSupabaseClient } from "@/lib/supabase/server";
+import { BLOCKED_ADDRESS_ERROR, isAllowedAddress, safeLookup } from "@/lib/outboundAddress";
+import { mapWithConcurrency } from "@/lib/upstreamLimiter";
+import { matchesChannelFilters, type DeliveryMessage } from "@/lib/notificationChannels";
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from "@/lib/webhookSignature";
+import type {
+  Notification,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationDeliveryInsert,
+} from "@/types/database";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DeliveryRetrySummary {
+  /** Pending deliveries whose retry time had come. */
+  due: number;
+  delivered: number;
+  /** Failed again and scheduled for another retry. */
+  rescheduled: number;
+  /** Out of attempts, rejected by the channel, or the channel was disabled. */
+  failed: number;
+}
+
+interface SendResult {
+  ok: boolean;
+  /** HTTP status; `null` when no response was received. */
+  status: number | null;
+  /** Short reason for the failure; never upstream response content. */
+  error: string | null;
+  /** Whether a later attempt may succeed. */
+  retryable: boolean;
+}
+
+type ServerSupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Attempts per delivery, the first one included. */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+/** Wait before each retry: after the 1st failed attempt, the 2nd, ... */
+const RETRY_DELAYS_MS = [2 * 60_000, 10 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Sends run at once. */
+const DELIVERY_CONCURRENCY = 4;
+
+/** Due deliveries retried per cron run. */
+const RETRY_BATCH_SIZE = 100;
+
+/**
+ * How long a delivery being sent is hidden from the retry cron, so an
+ * overlapping run does not send it twice. Also covers the first attempt:
+ * if the process dies before recording the outcome, the cron picks the
+ * delivery up once the lease runs out.
+ */
+const DELIVERY_LEASE_MS = 5 * 60_000;
+
+/** Wallets per `in (...)` filter, to keep query URLs short. */
+const QUERY_CHUNK = 100;
+
+const USER_AGENT = "TokenTrust-Notifications/1.0";
+
+/** `last_error` of a send refused by `@/lib/outboundAddress`. */
+const BLOCKED_ADDRESS_MESSAGE = "Host resolves to a blocked address";
+
+const DISCORD_COLOR_ALERT = 0xf59e0b;
+const DISCORD_COLOR_TEST = 0x10b981;
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+function getTokenUrl(mint: string | null): string | null {
+  const baseUrl = process.env.NEXTAUTH_URL;
+  if (!baseUrl || !mint) return null;
+  return `${baseUrl.replace(/\/$/, "")}/token/${mint}`;
+}
+
+/** The message sent to channels for a notification. */
+export function toDeliveryMessage(notification: Notification): DeliveryMessage {
+  return {
+    event: "notification",
+    notificationId: notification.id,
+    type: notification.type,
+    mint: notification.mint,
+    tokenName: notification.token_name,
+    message: notification.message,
+    oldValue: notification.old_value,
+    newValue: notification.new_value,
+    url: getTokenUrl(notification.mint),
+    createdAt: notification.created_at,
+  };
+}
+
+function createTestMessage(): DeliveryMessage {
+  return {
+    event: "test",
+    notificationId: null,
+    type: null,
+    mint: null,
+    tokenName: null,
+    message: "Test notification from TokenTrust: this channel is set up correctly.",
+    oldValue: null,
+    newValue: null,
+    url: null,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function getTitle(message: DeliveryMessage): string {
+  if (message.event === "test") return "TokenTrust test notification";
+  return message.tokenName ? `TokenTrust alert: ${message.tokenName}` : "TokenTrust alert";
+}
+
+// ---------------------------------------------------------------------------
+// Sending
+// ---------------------------------------------------------------------------
+
+function describeRequestError(error: NodeJS.ErrnoException): string {
+  if (error.code === BLOCKED_ADDRESS_ERROR) return BLOCKED_ADDRESS_MESSAGE;
+  if (error.name === "AbortError") return "Timed out";
+  if (error.code === "ENOTFOUND") return "Host not found";
+  return "Connection failed";
+}
+
+/**
+ * POST `body` to `url`. Only the response status is kept: the body of the
+ * response is never read, so a channel cannot be used to read back what an
+ * endpoint returns.
+ */
+function post(url: string, body: string, headers: Record<string, string> = {}): Promise<SendResult> {
+  const target = new URL(url);
+  const request = target.protocol === "https:" ? httpsRequest : httpRequest;
+
+  // IP literal hosts connect without a lookup, so `safeLookup` never sees them
+  const literal = target.hostname.replace(/^\[(.*)\]$/, "$1");
+  if (isIP(literal) && !isAllowedAddress(literal)) {
+    return Promise.resolve({ ok: false, status: null, error: BLOCKED_ADDRESS_MESSAGE, retryable: false });
+  }
+
+  return new Promise((resolve) => {
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body),
+          "User-Agent": USER_AGENT,
+          ...headers,
+        },
+        // Checked on connect, so a webhook host cannot resolve to an internal address
+        lookup: safeLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        // Redirects are not followed: they could point a webhook at an internal address
+        const status = response.statusCode ?? 0;
+        response.destroy();
+        const ok = status >= 200 && status < 300;
+        resolve({
+          ok,
+          status,
+          error: ok ? null : `HTTP ${status}`,
+          retryable: status === 408 || status === 429 || status >= 500,
+        });
+      }
+    );
+
+    req.on("error", (error: NodeJS.ErrnoException) => {
+      resolve({
+        ok: false,
+        status: null,
+        error: describeRequestError(error),
+        retryable: error.code !== BLOCKED_ADDRESS_ERROR,
+      });
+    });
+    req.end(body);
+  });
+}
+
+function sendToChannel(
+  channel: NotificationChannel,
+  deliveryId: string,
+  message: DeliveryMessage
+): Promise<SendResult> {
+  switch (channel.kind) {
+    case "webhook": {
+      const body = JSON.stringify({ id: deliveryId, ...message });
+      return post(channel.config.url, body, {
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(channel.config.secret, body),
+        "X-TokenTrust-Event": message.event,
+        "X-TokenTrust-Delivery": deliveryId,
+      });
+    }
+
+    case "telegram":
+      return post(
+        `https://api.telegram.org/bot${channel.config.botToken}/sendMessage`,
+        JSON.stringify({
+          chat_id: channel.config.chatId,
+          text: [getTitle(message), message.message, message.url].filter(Boolean).join("\n\n"),
+          disable_web_page_preview: true,
+        })
+      );
+
+    case "discord":
+      return post(
+        `${channel.config.webhookUrl}?wait=true`,
+        JSON.stringify({
+          username: "TokenTrust",
+          embeds: [
+            {
+              title: getTitle(message),
+              description: message.message,
+              url: message.url ?? undefined,
+              color: message.event === "test" ? DISCORD_COLOR_TEST : DISCORD_COLOR_ALERT,
+              timestamp: message.createdAt,
+            },
+          ],
+        })
+      );
+  }
+}
+
+/**
+ * Send a delivery and record the outcome on its row. With `retry`, a
+ * retryable failure is rescheduled while attempts remain.
+ */
+async function attemptDelivery(
+  supabase: ServerSupabaseClient,
+  channel: NotificationChannel,
+  delivery: NotificationDelivery,
+  retry = true
+): Promise<NotificationDelivery> {
+  const result = await sendToChannel(channel, delivery.id, delivery.payload);
+  const attempts = delivery.attempts + 1;
+  const now = Date.now();
+  const reschedule = !result.ok && retry && result.retryable && attempts < MAX_DELIVERY_ATTEMPTS;
+
+  const update = {
+    attempts,
+    status: result.ok ? "delivered" : reschedule ? "pending" : "failed",
+    response_status: result.status,
+    last_error: result.error,
+    next_attempt_at: reschedule ? new Date(now + RETRY_DELAYS_MS[attempts - 1]).toISOString() : null,
+    delivered_at: result.ok ? new Date(now).toISOString() : null,
+  } satisfies Partial<NotificationDelivery>;
+
+  const { error } = await supabase
+    .from("notification_deliveries")
+    .update(update)
+    .eq("id", delivery.id);
+  if (error) console.error(`Delivery ${delivery.id} update failed:`, error.message);
+
+  return { ...delivery, ...update };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Deliver freshly written notifications to their owners' enabled channels.
+ * Never throws: failures are logged, and failed sends are left to the
+ * retry cron. Resolves to the number of deliveries sent successfully.
+ */
+export async function deliverNotifications(notifications: Notification[]): Promise<number> {
+  if (notifications.length === 0) return 0;
+
+  try {
+    const supabase = createServerSupabaseClient();
+    const wallets = [...new Set(notifications.map((n) => n.user_wallet))];
+    const channels: NotificationChannel[] = [];
+    for (let i = 0; i < wallets.length; i += QUERY_CHUNK) {
+      const { data, error } = await supabase
+        .from("notification_channels")
+        .select("*")
+        .in("user_wallet", wallets.slice(i, i + QUERY_CHUNK))
+        .eq("enabled", true);
+      if (error) throw new Error(`Channel fetch failed: ${error.message}`);
+      channels.push(...((data ?? []) as NotificationChannel[]));
+    }
+
+    const leaseUntil = new Date(Date.now() + DELIVERY_LEASE_MS).toISOString();
+    const rows: NotificationDeliveryInsert[] = notifications.flatMap((notification) =>
+      channels
+        .filter((c) => c.user_wallet === notification.user_wallet && matchesChannelFilters(c.filters, notification))
+        .map((channel) => ({
+          channel_id: channel.id,
+          user_wallet: notification.user_wallet,
+          notification_id: notification.id,
+          payload: toDeliveryMessage(notification),
+          status: "pending",
+          attempts: 0,
+          response_status: null,
+          last_error: null,
+          next_attempt_at: leaseUntil,
+          delivered_at: null,
+        }))
+    );
+    if (rows.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from("notification_deliveries")
+      .insert(rows)
+      .select();
+    if (error) throw new Error(`Delivery insert failed: ${error.message}`);
+
+    const channelsById = new Map(channels.map((c) => [c.id, c]));
+    const results = await mapWithConcurrency((data ?? []) as NotificationDelivery[], DELIVERY_CONCURRENCY, (delivery) =>
+      attemptDelivery(supabase, channelsById.get(delivery.channel_id)!, delivery)
+    );
+    return results.filter((d) => d.status === "delivered").length;
+  } catch (error) {
+    console.error("Notification delivery failed:", error);
+    return 0;
+  }
+}
+
+/**
+ * Send a test message to `channel` once and log it. Returns the logged
+ * delivery, or null when it could not be recorded.
+ */
+export async function sendTestNotification(
+  channel: NotificationChannel
+): Promise<NotificationDelivery | null> {
+  const supabase = createServerSupabaseClient();
+  const row: NotificationDeliveryInsert = {
+    channel_id: channel.id,
+    user_wallet: channel.user_wallet,
+    notification_id: null,
+    payload: createTestMessage(),
+    status: "pending",
+    attempts: 0,
+    response_status: null,
+    last_error: null,
+    next_attempt_at: null,
+    delivered_at: null,
+  };
+
+  const { data, error } = await supabase
+    .from("notification_deliveries")
+    .insert(row)
+    .select()
+    .single();
+  if (error || !data) {
+    console.error("Test delivery insert failed:", error?.message);
+    return null;
+  }
+
+  return attemptDelivery(supabase, channel, data as NotificationDelivery, false);
+}
+
+/**
+ * Retry pending deliveries whose retry time has come, oldest first, up to
+ * `RETRY_BATCH_SIZE` per call. Driven by GET /api/cron/deliveries.
+ */
+export async function retryDueDeliveries(): Promise<DeliveryRetrySummary> {
+  const supabase = createServerSupabaseClient();
+  const { data, error } = await supabase
+    .from("notification_deliveries")
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(RETRY_BATCH_SIZE);
+
+  if (error) throw new Error(`Due deliveries fetch failed: ${error.message}`);
+
+  const due = (data ?? []) as NotificationDelivery[];
+  const summary: DeliveryRetrySummary = { due: due.length, delivered: 0, rescheduled: 0, failed: 0 };
+  if (due.length === 0) return summary;
+
+  const { data: channelRows, error: channelError } = await supabase
+    .from("notification_channels")
+    .select("*")
+    .in("id", [...new Set(due.map((d) => d.channel_id))]);
+  if (channelError) throw new Error(`Channel fetch failed: ${channelError.message}`);
+  const channelsById = new Map(((channelRows ?? []) as NotificationChannel[]).map((c) => [c.id, c]));
+
+  await mapWithConcurrency(due, DELIVERY_CONCURRENCY, async (delivery) => {
+    // Claim the delivery; a concurrent run that claimed it first wins
+    const { data: claimed } = await supabase
+      .from("notification_deliveries")
+      .update({ next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_MS).toISOString() })
+      .eq("id", delivery.id)
+      .eq("next_attempt_at", delivery.next_attempt_at)
+      .select("id");
+    if (!claimed?.length) return;
+
+    const channel = channelsById.get(delivery.channel_id);
+    if (!channel?.enabled) {
+      await supabase
+        .from("notification_deliveries")
+        .update({ status: "failed", next_attempt_at: null, last_error: "Channel disabled" })
+        .eq("id", delivery.id);
+      summary.failed++;
+      return;
+    }
+
+    const result = await attemptDelivery(supabase, channel, delivery);
+    if (result.status === "delivered") summary.delivered++;
+    else if (result.status === "pending") summary.rescheduled++;
+    else summary.failed++;
+  });
+
+  return summary;
+}
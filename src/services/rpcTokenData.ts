@@ -0,0 +1,368 @@
+/**
+ * Plain RPC token data — metadata, holders and transaction history from
+ * standard Solana JSON-RPC methods only.
+ *
+ * This is the fallback when the Helius DAS / enhanced endpoints are down,
+ * and works against any RPC endpoint. It is less complete than Helius:
+ *   metadata     — `getAccountInfo` (jsonParsed) for the mint; name and
+ *                  symbol from the Token-2022 metadata extension or the
+ *                  Metaplex metadata account. No image or description.
+ *   holders      — `getTokenLargestAccounts`, i.e. only the 20 largest
+ *                  token accounts, so the holder set is never complete.
+ *   transactions — `getSignaturesForAddress` walked back to the oldest
+ *                  signature (bounded), then `getTransaction` per signature.
+ *
+ * The endpoint is `SOLANA_RPC_URL`; without it (or when it is a Helius URL)
+ * every call is `skipped`, since Helius RPC fails together with the Helius
+ * APIs this replaces.
+ *
+ * IMPORTANT: Server-side only (the endpoint may embed an API key).
+ */
+
+import bs58 from "bs58";
+import { PublicKey } from "@solana/web3.js";
+import type { SourceResult } from "@/lib/dataSources";
+import { getFallbackRpcClient, type SolanaRpcClient } from "@/services/solanaRpc";
+import {
+  toTokenHolders,
+  findFundingTransfer,
+  extractMintActivity,
+  EMPTY_TOKEN_EXTENSIONS,
+  type TokenMetadata,
+  type TokenExtensions,
+  type HolderSet,
+  type FundingSource,
+  type EarliestMintActivity,
+  type ParsedTransaction,
+} from "@/services/helius";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ParsedMintExtension {
+  extension: string;
+  state?: Record<string, unknown>;
+}
+
+interface ParsedMintInfo {
+  decimals: number;
+  supply: string;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  extensions?: ParsedMintExtension[];
+}
+
+interface ParsedAccountInfo {
+  value: {
+    owner: string;
+    data: { program: string; parsed: { type: string; info: ParsedMintInfo } } | [string, string];
+  } | null;
+}
+
+interface Base64AccountInfo {
+  value: { owner: string; data: [string, string] } | null;
+}
+
+interface MetaplexMetadata {
+  updateAuthority: string;
+  name: string;
+  symbol: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const METAPLEX_METADATA_PROGRAM = new PublicKey(
+  "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+);
+
+/** Max signatures per `getSignaturesForAddress` page (RPC limit). */
+const SIGNATURE_PAGE_SIZE = 1000;
+/** Signature pages walked back before giving up on reaching the oldest. */
+const MAX_SIGNATURE_PAGES = 5;
+/** Parallel `getTransaction` requests. */
+const TRANSACTION_FETCH_BATCH = 10;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function parseRpcExtensions(extensions: ParsedMintExtension[] | undefined): TokenExtensions {
+  if (!extensions || extensions.length === 0) return EMPTY_TOKEN_EXTENSIONS;
+
+  const state = (name: string) =>
+    extensions.find((e) => e.extension === name)?.state as Record<string, unknown> | undefined;
+  const has = (name: string) => extensions.some((e) => e.extension === name);
+
+  const fee = state("transferFeeConfig") as
+    | {
+        transferFeeConfigAuthority?: string | null;
+        olderTransferFee?: { transferFeeBasisPoints?: number };
+        newerTransferFee?: { transferFeeBasisPoints?: number };
+      }
+    | undefined;
+
+  return {
+    transferFeeBps: fee
+      ? Math.max(
+          fee.olderTransferFee?.transferFeeBasisPoints ?? 0,
+          fee.newerTransferFee?.transferFeeBasisPoints ?? 0
+        )
+      : null,
+    transferFeeAuthority: fee?.transferFeeConfigAuthority || null,
+    transferHookProgram: (state("transferHook")?.programId as string | null) || null,
+    permanentDelegate: (state("permanentDelegate")?.delegate as string | null) || null,
+    confidentialTransfers: has("confidentialTransferMint"),
+    nonTransferable: has("nonTransferable"),
+    defaultAccountStateFrozen: state("defaultAccountState")?.accountState === "frozen",
+  };
+}
+
+/** Read a Borsh string (u32 length prefix) at `offset`; Metaplex pads with NULs. */
+function readBorshString(data: Buffer, offset: number): [string, number] {
+  const length = data.readUInt32LE(offset);
+  const start = offset + 4;
+  const value = data.subarray(start, start + length).toString("utf8").replace(/\0+$/, "");
+  return [value.trim(), start + length];
+}
+
+/**
+ * Read name, symbol and update authority from the mint's Metaplex metadata
+ * account. Layout: key (1) | update_authority (32) | mint (32) | name | symbol.
+ */
+async function getMetaplexMetadata(
+  rpc: SolanaRpcClient,
+  mint: string
+): Promise<MetaplexMetadata | null> {
+  const [pda] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("metadata"),
+      METAPLEX_METADATA_PROGRAM.toBuffer(),
+      new PublicKey(mint).toBuffer(),
+    ],
+    METAPLEX_METADATA_PROGRAM
+  );
+
+  const info = await rpc.request<Base64AccountInfo>("getAccountInfo", [
+    pda.toBase58(),
+    { encoding: "base64" },
+  ]);
+  if (!info.value) return null;
+
+  const data = Buffer.from(info.value.data[0], "base64");
+  if (data.length < 73) return null;
+  const [name, symbolOffset] = readBorshString(data, 65);
+  const [symbol] = readBorshString(data, symbolOffset);
+
+  return {
+    updateAuthority: bs58.encode(data.subarray(1, 33)),
+    name,
+    symbol,
+  };
+}
+
+/**
+ * Signatures of the oldest successful transactions for `address`, oldest
+ * first. Returns `null` when the history is longer than the page cap, since
+ * the oldest transactions cannot be reached.
+ */
+async function getOldestSignatures(
+  rpc: SolanaRpcClient,
+  address: string,
+  count: number
+): Promise<string[] | null> {
+  const signatures: Array<{ signature: string; err: unknown }> = [];
+  let before: string | undefined;
+
+  for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+    const batch = await rpc.request<Array<{ signature: string; err: unknown }>>(
+      "getSignaturesForAddress",
+      [address, { limit: SIGNATURE_PAGE_SIZE, ...(before ? { before } : {}) }]
+    );
+    signatures.push(...batch);
+
+    if (batch.length < SIGNATURE_PAGE_SIZE) {
+      return signatures
+        .filter((s) => s.err === null)
+        .slice(-count)
+        .reverse()
+        .map((s) => s.signature);
+    }
+    before = batch[batch.length - 1].signature;
+  }
+
+  return null;
+}
+
+async function getParsedTransactions(
+  rpc: SolanaRpcClient,
+  signatures: string[]
+): Promise<ParsedTransaction[]> {
+  const txs: ParsedTransaction[] = [];
+  for (let i = 0; i < signatures.length; i += TRANSACTION_FETCH_BATCH) {
+    const batch = await Promise.all(
+      signatures.slice(i, i + TRANSACTION_FETCH_BATCH).map((signature) =>
+        rpc.request<ParsedTransaction | null>("getTransaction", [
+          signature,
+          { encoding: "jsonParsed", maxSupportedTransactionVersion: 0 },
+        ])
+      )
+    );
+    txs.push(...batch.filter((tx): tx is ParsedTransaction => tx !== null));
+  }
+  return txs;
+}
+
+// ---------------------------------------------------------------------------
+// getRpcTokenMetadata
+// ---------------------------------------------------------------------------
+
+/**
+ * Token metadata from the parsed mint account. `empty` when the address is
+ * not a token mint; `skipped` without an RPC endpoint.
+ */
+export async function getRpcTokenMetadataResult(
+  mint: string,
+  rpc: SolanaRpcClient | null = getFallbackRpcClient()
+): Promise<SourceResult<TokenMetadata>> {
+  if (!rpc) return { status: "skipped", data: null };
+
+  try {
+    const account = await rpc.request<ParsedAccountInfo>("getAccountInfo", [
+      mint,
+      { encoding: "jsonParsed" },
+    ]);
+    const data = account.value?.data;
+    if (!data || Array.isArray(data) || data.parsed.type !== "mint") {
+      return { status: "empty", data: null };
+    }
+
+    const info = data.parsed.info;
+    const tokenMetadata = info.extensions?.find((e) => e.extension === "tokenMetadata")
+      ?.state as { updateAuthority?: string | null; name?: string; symbol?: string } | undefined;
+    const metaplex = tokenMetadata ? null : await getMetaplexMetadata(rpc, mint);
+
+    return {
+      status: "ok",
+      data: {
+        mint,
+        name: tokenMetadata?.name ?? metaplex?.name ?? "",
+        symbol: tokenMetadata?.symbol ?? metaplex?.symbol ?? "",
+        description: "",
+        image: null,
+        decimals: info.decimals,
+        supply: Number(info.supply),
+        updateAuthority: tokenMetadata?.updateAuthority ?? metaplex?.updateAuthority ?? null,
+        mintAuthority: info.mintAuthority,
+        freezeAuthority: info.freezeAuthority,
+        extensions: parseRpcExtensions(info.extensions),
+        raw: { program: data.program, ...info },
+      },
+    };
+  } catch (error) {
+    console.error(`RPC token metadata failed for ${mint} via ${rpc.endpoint}:`, error);
+    return { status: "failed", data: null };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// getRpcTokenHolders
+// ---------------------------------------------------------------------------
+
+/**
+ * The largest holders of a token from `getTokenLargestAccounts`, with
+ * owners resolved from the parsed token accounts. Always partial
+ * (`complete: false`) unless the token has no accounts at all.
+ */
+export async function getRpcTokenHoldersResult(
+  mint: string,
+  supply: number | null,
+  rpc: SolanaRpcClient | null = getFallbackRpcClient()
+): Promise<SourceResult<HolderSet>> {
+  if (!rpc) return { status: "skipped", data: null };
+
+  try {
+    const largest = await rpc.request<{ value: Array<{ address: string; amount: string }> }>(
+      "getTokenLargestAccounts",
+      [mint]
+    );
+    if (largest.value.length === 0) {
+      return { status: "empty", data: { holders: [], accountCount: 0, complete: true } };
+    }
+
+    const accounts = await rpc.request<{
+      value: Array<{ data: { parsed?: { info?: { owner?: string } } } } | null>;
+    }>("getMultipleAccounts", [
+      largest.value.map((a) => a.address),
+      { encoding: "jsonParsed" },
+    ]);
+
+    const holders = toTokenHolders(
+      largest.value.map((a, i) => ({
+        owner: accounts.value[i]?.data.parsed?.info?.owner,
+        amount: Number(a.amount),
+      })),
+      supply
+    );
+
+    return {
+      status: holders.length > 0 ? "ok" : "empty",
+      data: { holders, accountCount: largest.value.length, complete: false },
+    };
+  } catch (error) {
+    console.error(`RPC token holders failed for ${mint} via ${rpc.endpoint}:`, error);
+    return { status: "failed", data: null };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Transactions
+// ---------------------------------------------------------------------------
+
+/**
+ * `getFundingSource` over plain RPC. `failed` when the wallet's history is
+ * too long to reach its first transaction.
+ */
+export async function getRpcFundingSourceResult(
+  wallet: string,
+  scanLimit: number = 10,
+  rpc: SolanaRpcClient | null = getFallbackRpcClient()
+): Promise<SourceResult<FundingSource>> {
+  if (!rpc) return { status: "skipped", data: null };
+
+  try {
+    const signatures = await getOldestSignatures(rpc, wallet, scanLimit);
+    if (!signatures) return { status: "failed", data: null };
+
+    const funding = findFundingTransfer(wallet, await getParsedTransactions(rpc, signatures));
+    return { status: funding ? "ok" : "empty", data: funding };
+  } catch (error) {
+    console.error(`RPC funding source failed for ${wallet} via ${rpc.endpoint}:`, error);
+    return { status: "failed", data: null };
+  }
+}
+
+/**
+ * `getEarliestMintActivity` over plain RPC. `failed` when the mint's
+ * history is too long to reach its creation.
+ */
+export async function getRpcEarliestMintActivityResult(
+  mint: string,
+  limit: number = 100,
+  rpc: SolanaRpcClient | null = getFallbackRpcClient()
+): Promise<SourceResult<EarliestMintActivity>> {
+  if (!rpc) return { status: "skipped", data: null };
+
+  try {
+    const signatures = await getOldestSignatures(rpc, mint, limit);
+    if (!signatures) return { status: "failed", data: null };
+
+    const activity = extractMintActivity(mint, await getParsedTransactions(rpc, signatures));
+    return { status: activity ? "ok" : "empty", data: activity };
+  } catch (error) {
+    console.error(`RPC mint activity failed for ${mint} via ${rpc.endpoint}:`, error);
+    return { status: "failed", data: null };
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { createServerSupabaseClient } from "@/lib/supabase/server";
+import type { SourceResult } from "@/lib/dataSources";
 
 export interface RugCheckRisk {
   name: string;
@@ -22,6 +23,13 @@ export interface RugCheckResult {
 const CACHE_TTL_MS = 60 * 60 * 1000;
 
 export async function getRugCheckReport(mint: string): Promise<RugCheckResult | null> {
+  return (await getRugCheckReportResult(mint)).data;
+}
+
+/** `getRugCheckReport`, reporting unknown tokens (404) apart from failures. */
+export async function getRugCheckReportResult(
+  mint: string
+): Promise<SourceResult<RugCheckResult>> {
   try {
     const supabase = createServerSupabaseClient();
 
@@ -38,7 +46,7 @@ export async function getRugCheckReport(mint: string): Promise<RugCheckResult |
         const cachedResult = cached.data as RugCheckResult;
         // Backfill risks array for old cache entries
         if (!cachedResult.risks) cachedResult.risks = [];
-        return cachedResult;
+        return { status: "ok", data: cachedResult };
       }
     }
 
@@ -48,7 +56,8 @@ export async function getRugCheckReport(mint: string): Promise<RugCheckResult |
       { signal: AbortSignal.timeout(10_000) }
     );
 
-    if (!res.ok) return null;
+    if (res.status === 404) return { status: "empty", data: null };
+    if (!res.ok) return { status: "failed", data: null };
 
     const raw = await res.json();
 
@@ -76,9 +85,9 @@ export async function getRugCheckReport(mint: string): Promise<RugCheckResult |
         { onConflict: "mint" }
       );
 
-    return result;
+    return { status: "ok", data: result };
   } catch {
-    return null;
+    return { status: "failed", data: null };
   }
 }
 
@@ -0,0 +1,310 @@
+/**
+ * Sell simulation service — honeypot detection via transaction simulation.
+ *
+ * A token can pass every static check and still be unsellable: a transfer
+ * hook that rejects sells, frozen accounts, or a pool program that blocks
+ * withdrawals. This service asks Jupiter for a direct (single-pool) swap of
+ * a small amount of the token into SOL on behalf of a real holder, then
+ * runs `simulateTransaction` (signature verification off, blockhash
+ * replaced) and reads the holder's simulated SOL balance.
+ *
+ * The effective tax is the shortfall between the quoted SOL output and
+ * what the simulation actually credited, which captures transfer fees and
+ * custom sell taxes on top of normal price impact.
+ *
+ * Only errors raised by the token or pool programs count as a failed sell.
+ * Errors about the seller rather than the token (no SOL for fees or rent,
+ * a PDA or vault owner that cannot sign, accounts that fail to load)
+ * skip that seller, as does a seller too poor to pay for the swap.
+ *
+ * The RPC is pluggable (`options.rpc`), so a local validator or a test
+ * stand-in can replace the default endpoint.
+ *
+ * IMPORTANT: Server-side only.
+ */
+
+import { getDirectSwapQuote, buildSwapTransaction } from "@/services/jupiter";
+import { getSolanaRpcClient, type SolanaRpcClient } from "@/services/solanaRpc";
+import type { TokenHolder } from "@/services/helius";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SellSimulationStatus = "success" | "failed" | "skipped";
+
+export interface SellSimulationResult {
+  status: SellSimulationStatus;
+  /** Why the simulation failed or was skipped; `null` on success. */
+  reason: string | null;
+  /** Holder wallet the sell was simulated for. */
+  seller: string | null;
+  /** Pool the quote routed through (Jupiter label and AMM account). */
+  pool: { label: string | null; ammKey: string } | null;
+  /** Raw token amount sold. */
+  amountIn: string | null;
+  /** Quoted SOL output (lamports). */
+  expectedLamports: number | null;
+  /** SOL credited in the simulation (lamports, net of the tx fee). */
+  receivedLamports: number | null;
+  /** Quote price impact (%). */
+  priceImpactPercent: number | null;
+  /** Shortfall of received vs quoted output (%); transfer fees, sell taxes. */
+  effectiveTaxPercent: number | null;
+  /** Tail of the program logs when the simulation failed. */
+  logs: string[];
+  simulatedAt: string;
+}
+
+export interface SimulateSellOptions {
+  /** RPC client to simulate with. Defaults to `getSolanaRpcClient()`. */
+  rpc?: SolanaRpcClient | null;
+  /** USD value to sell when the price is known. Default 10. */
+  amountUsd?: number;
+  /** Holders to try before reporting a failure. Default 2. */
+  maxSellers?: number;
+}
+
+interface SimulateTransactionResult {
+  value: {
+    err: unknown;
+    logs: string[] | null;
+    accounts: Array<{ lamports: number } | null> | null;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const WSOL_MINT = "So11111111111111111111111111111111111111112";
+
+/** Share of a holder's balance sold when the price is unknown. */
+const FALLBACK_SELL_FRACTION = 0.01;
+/** Never sell more than this share of the seller's balance. */
+const MAX_SELL_FRACTION = 0.5;
+/** Program log lines kept on failure. */
+const LOG_TAIL = 10;
+
+/** SOL a seller needs for fees and the WSOL account rent (0.005 SOL). */
+const MIN_SELLER_LAMPORTS = 5_000_000;
+
+/**
+ * Programs whose errors concern the seller's funding or accounts, not the
+ * token: System (SOL transfers, rent), Compute Budget and Associated
+ * Token Account (creating the WSOL account).
+ */
+const ENVIRONMENT_PROGRAMS = new Set([
+  "11111111111111111111111111111111",
+  "ComputeBudget111111111111111111111111111111",
+  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA1knL",
+]);
+
+/** Instruction errors that mean the seller could not authorize the swap. */
+const ENVIRONMENT_INSTRUCTION_ERRORS = new Set([
+  "MissingRequiredSignature",
+  "InsufficientFunds",
+]);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sellAmount(
+  holder: TokenHolder,
+  decimals: number | null,
+  priceUsd: number | null,
+  amountUsd: number
+): bigint {
+  const balance = holder.amount;
+  let amount = balance * FALLBACK_SELL_FRACTION;
+  if (priceUsd && priceUsd > 0 && decimals !== null) {
+    amount = Math.min((amountUsd / priceUsd) * 10 ** decimals, balance * MAX_SELL_FRACTION);
+  }
+  return BigInt(Math.max(1, Math.floor(amount)));
+}
+
+/**
+ * Whether a `simulateTransaction` error is about the seller rather than
+ * the token. Transaction-level errors (a string or an object other than
+ * `InstructionError`: fee payer, account loading, rent) happen before any
+ * program runs. Instruction errors count when the failing program, read
+ * from the logs, is one of `ENVIRONMENT_PROGRAMS`, or the error itself is
+ * a signature or lamport shortage.
+ */
+export function isEnvironmentError(err: unknown, logs: string[]): boolean {
+  if (typeof err === "string") return true;
+  if (!err || typeof err !== "object" || !("InstructionError" in err)) return true;
+
+  const [, detail] = (err as { InstructionError: [number, unknown] }).InstructionError;
+  if (typeof detail === "string" && ENVIRONMENT_INSTRUCTION_ERRORS.has(detail)) return true;
+  if (logs.some((line) => /insufficient lamports/i.test(line))) return true;
+
+  const failedProgram = logs
+    .map((line) => line.match(/^Program (\w+) failed/)?.[1])
+    .findLast((id) => id !== undefined);
+  return failedProgram !== undefined && ENVIRONMENT_PROGRAMS.has(failedProgram);
+}
+
+function skipped(reason: string): SellSimulationResult {
+  return {
+    status: "skipped",
+    reason,
+    seller: null,
+    pool: null,
+    amountIn: null,
+    expectedLamports: null,
+    receivedLamports: null,
+    priceImpactPercent: null,
+    effectiveTaxPercent: null,
+    logs: [],
+    simulatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Simulate one sell for `seller`. Returns `null` when no transaction could
+ * be built (no route), which is not evidence of a honeypot, and a skipped
+ * result when the seller cannot pay for the swap.
+ */
+async function simulateFor(
+  rpc: SolanaRpcClient,
+  mint: string,
+  seller: TokenHolder,
+  amount: bigint
+): Promise<SellSimulationResult | null> {
+  const preLamports = await rpc.request<{ value: number }>("getBalance", [
+    seller.owner,
+    { commitment: "confirmed" },
+  ]);
+  if (preLamports.value < MIN_SELLER_LAMPORTS) {
+    return skipped("The holder has too little SOL to pay for a sell.");
+  }
+
+  const quote = await getDirectSwapQuote(mint, WSOL_MINT, amount);
+  if (!quote) return null;
+
+  const transaction = await buildSwapTransaction(quote, seller.owner);
+  if (!transaction) return null;
+
+  const route = quote.routePlan[0]?.swapInfo;
+  const expectedLamports = Number(quote.outAmount);
+  const priceImpactPercent = Number(quote.priceImpactPct) * 100;
+  const simulation = await rpc.request<SimulateTransactionResult>(
+    "simulateTransaction",
+    [
+      transaction,
+      {
+        encoding: "base64",
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: "confirmed",
+        accounts: { encoding: "base64", addresses: [seller.owner] },
+      },
+    ]
+  );
+
+  const base = {
+    seller: seller.owner,
+    pool: route ? { label: route.label ?? null, ammKey: route.ammKey } : null,
+    amountIn: amount.toString(),
+    expectedLamports,
+    priceImpactPercent,
+    simulatedAt: new Date().toISOString(),
+  };
+
+  const { err, logs, accounts } = simulation.value;
+  if (err) {
+    const environment = isEnvironmentError(err, logs ?? []);
+    return {
+      ...base,
+      status: environment ? "skipped" : "failed",
+      reason: environment
+        ? `The holder could not pay for or sign the sell: ${JSON.stringify(err)}`
+        : `Simulation error: ${JSON.stringify(err)}`,
+      receivedLamports: null,
+      effectiveTaxPercent: null,
+      logs: (logs ?? []).slice(-LOG_TAIL),
+    };
+  }
+
+  const postLamports = accounts?.[0]?.lamports ?? null;
+  const receivedLamports =
+    postLamports !== null ? postLamports - preLamports.value : null;
+  const effectiveTaxPercent =
+    receivedLamports !== null && expectedLamports > 0
+      ? Math.max(0, (1 - receivedLamports / expectedLamports) * 100)
+      : null;
+
+  if (receivedLamports !== null && receivedLamports <= 0) {
+    return {
+      ...base,
+      status: "failed",
+      reason: "The sell succeeded but credited no SOL to the seller.",
+      receivedLamports,
+      effectiveTaxPercent: 100,
+      logs: (logs ?? []).slice(-LOG_TAIL),
+    };
+  }
+
+  return {
+    ...base,
+    status: "success",
+    reason: null,
+    receivedLamports,
+    effectiveTaxPercent,
+    logs: [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// simulateSell
+// ---------------------------------------------------------------------------
+
+/**
+ * Simulate selling a small amount of `mint` into SOL through its primary
+ * direct pool.
+ *
+ * `holders` should be regular holders (LP vaults and custodians removed),
+ * largest first; the first `maxSellers` are tried as sellers so a single
+ * odd account does not produce a false positive. The token only counts as
+ * failed when no seller succeeds and at least one sell failed in the token
+ * or pool program; sellers that could not pay or sign are skipped.
+ */
+export async function simulateSell(
+  mint: string,
+  holders: TokenHolder[],
+  decimals: number | null,
+  priceUsd: number | null,
+  options: SimulateSellOptions = {}
+): Promise<SellSimulationResult> {
+  const { amountUsd = 10, maxSellers = 2 } = options;
+  const rpc = options.rpc === undefined ? getSolanaRpcClient() : options.rpc;
+  if (!rpc) return skipped("No Solana RPC endpoint configured.");
+
+  const sellers = holders.filter((h) => h.amount > 0).slice(0, maxSellers);
+  if (sellers.length === 0) return skipped("No holder available to simulate a sell.");
+
+  let lastFailure: SellSimulationResult | null = null;
+  let lastSkip: SellSimulationResult | null = null;
+  for (const seller of sellers) {
+    try {
+      const result = await simulateFor(
+        rpc,
+        mint,
+        seller,
+        sellAmount(seller, decimals, priceUsd, amountUsd)
+      );
+      if (!result) return skipped("No direct swap route to SOL.");
+      if (result.status === "success") return result;
+      // The seller could not sell for reasons of its own; try the next one
+      if (result.status === "skipped") lastSkip = result;
+      else lastFailure = result;
+    } catch (error) {
+      console.error(`Sell simulation failed for ${mint} via ${rpc.endpoint}:`, error);
+      return skipped("RPC error during simulation.");
+    }
+  }
+
+  return lastFailure ?? lastSkip ?? skipped("No sell could be simulated.");
+}
@@ -0,0 +1,106 @@
+/**
+ * Solana JSON-RPC client — a minimal `fetch`-based client for standard RPC
+ * methods, usable against any endpoint (Helius, a public RPC, or a local
+ * `solana-test-validator`).
+ *
+ * The endpoint is `SOLANA_RPC_URL` when set, otherwise the Helius mainnet
+ * RPC for `HELIUS_API_KEY`. The fallback data provider (`rpcTokenData`)
+ * only uses an endpoint independent of Helius (`getFallbackRpcClient`):
+ * falling back to Helius RPC during a Helius outage would not help.
+ *
+ * IMPORTANT: Server-side only (the Helius URL embeds the API key).
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SolanaRpcClient {
+  /** RPC endpoint, for logging. The Helius API key is redacted. */
+  readonly endpoint: string;
+  /**
+   * Call an RPC method. Returns the `result` field; throws on transport
+   * errors and JSON-RPC error responses.
+   */
+  request<T>(method: string, params: unknown[]): Promise<T>;
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+const RPC_TIMEOUT_MS = 15_000;
+
+/** Create a JSON-RPC client for `url`. */
+export function createSolanaRpcClient(url: string): SolanaRpcClient {
+  let nextId = 1;
+
+  return {
+    endpoint: url.replace(/api-key=[^&]+/, "api-key=***"),
+    async request<T>(method: string, params: unknown[]): Promise<T> {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: nextId++, method, params }),
+        signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+      });
+
+      if (!res.ok) {
+        throw new Error(`RPC ${method} returned HTTP ${res.status}`);
+      }
+
+      const json = (await res.json()) as {
+        result?: T;
+        error?: { code: number; message: string };
+      };
+      if (json.error) {
+        throw new Error(`RPC ${method} failed: ${json.error.message} (${json.error.code})`);
+      }
+      return json.result as T;
+    },
+  };
+}
+
+/**
+ * Resolve the default RPC endpoint: `SOLANA_RPC_URL`, falling back to the
+ * Helius mainnet RPC. Returns `null` if neither is configured.
+ */
+export function getSolanaRpcUrl(): string | null {
+  if (process.env.SOLANA_RPC_URL) return process.env.SOLANA_RPC_URL;
+  const heliusKey = process.env.HELIUS_API_KEY;
+  return heliusKey ? `https://mainnet.helius-rpc.com/?api-key=${heliusKey}` : null;
+}
+
+let defaultClient: SolanaRpcClient | null = null;
+
+/** Shared client for the default endpoint, or `null` if unconfigured. */
+export function getSolanaRpcClient(): SolanaRpcClient | null {
+  if (defaultClient) return defaultClient;
+  const url = getSolanaRpcUrl();
+  if (!url) return null;
+  defaultClient = createSolanaRpcClient(url);
+  return defaultClient;
+}
+
+/** Whether `url` points at a Helius RPC host. */
+function isHeliusUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname.endsWith("helius-rpc.com");
+  } catch {
+    return false;
+  }
+}
+
+let fallbackClient: SolanaRpcClient | null = null;
+
+/**
+ * Shared client for `SOLANA_RPC_URL` when it is independent of Helius, for
+ * use as a Helius fallback. `null` when unset or itself a Helius endpoint.
+ */
+export function getFallbackRpcClient(): SolanaRpcClient | null {
+  if (fallbackClient) return fallbackClient;
+  const url = process.env.SOLANA_RPC_URL;
+  if (!url || isHeliusUrl(url)) return null;
+  fallbackClient = createSolanaRpcClient(url);
+  return fallbackClient;
+}
@@ -3,7 +3,8 @@
  * reputation scores to produce a comprehensive trust analysis for any
  * Solana token.
  *
- * Trust Rating Weights:
+ * Trust rating weights come from a named, versioned scoring profile (see
+ * `@/lib/scoringProfiles`). The default profile weights are:
  *   Deployer FairScore:  15%
  *   Holder Quality:      25%
  *   Distribution:        20%
@@ -11,41 +12,89 @@
  *   Safety Signals:      20%
  *   Liquidity:           10%
  *
- * Results are cached in the Supabase `token_analyses` table.
+ * Default-profile results are cached in the Supabase `token_analyses` table
+ * together with the profile id and version that produced them.
  */
 
 import { createServerSupabaseClient } from "@/lib/supabase/server";
 import {
-  getTokenMetadata,
-  getTokenHolders,
   identifyDeployer,
   analyzeHolders,
-  checkHolderConnections,
   type TokenMetadata,
   type TokenHolder,
   type LPVault,
+  type LabeledHolder,
+  type HolderAnalysis,
+  type HolderSet,
+  type TokenExtensions,
+  EMPTY_TOKEN_EXTENSIONS,
 } from "@/services/helius";
+import type { TokenLiquidity } from "@/services/dexscreener";
 import {
-  getTokenLiquidity,
-  type TokenLiquidity,
-} from "@/services/dexscreener";
-import { isJupiterVerified } from "@/services/jupiter";
-import { getRugCheckReport, type RugCheckResult } from "@/services/rugcheck";
+  fetchTokenMetadata,
+  fetchTokenHolders,
+  fetchMarketData,
+} from "@/services/dataProviders";
+import { isJupiterVerifiedResult } from "@/services/jupiter";
+import { clusterHolders, type HolderCluster } from "@/services/holderClusters";
 import {
-  getFullScore,
-  getQuickScore,
+  detectBundledLaunch,
+  BUNDLE_MIN_WALLETS,
+  type BundledLaunchAnalysis,
+} from "@/services/bundleDetection";
+import { getRugCheckReportResult, type RugCheckResult } from "@/services/rugcheck";
+import {
+  getDeployerTrackRecord,
+  SERIAL_DEPLOYER_WINDOW_DAYS,
+  type DeployerTrackRecord,
+} from "@/services/deployerHistory";
+import { simulateSell, type SellSimulationResult } from "@/services/sellSimulation";
+import {
+  getFullScoreResult,
+  getQuickScoreResults,
   classifyTier,
 } from "@/services/fairscale";
+import {
+  computeDistributionMetrics,
+  type DistributionMetrics,
+} from "@/lib/distributionMetrics";
+import { RISK_FLAG_CATALOG, type RiskFlagCode } from "@/lib/riskFlagCatalog";
+import { isSharedAuthority } from "@/lib/addressRegistry";
+import {
+  computeDataCompleteness,
+  isAnswered,
+  LOW_CONFIDENCE_THRESHOLD,
+  LOW_CONFIDENCE_RATING_CAP,
+  type DataSourceReport,
+  type DataSourceStatus,
+  type ProviderReport,
+} from "@/lib/dataSources";
+import {
+  getScoringProfile,
+  DEFAULT_SCORING_PROFILE_ID,
+  type ScoringProfile,
+  type ScoringProfileId,
+  type ScoringProfileRef,
+  type ScoringWeights,
+} from "@/lib/scoringProfiles";
 import type {
   RiskFlag,
   FairScoreTier,
+  ScoreComponent,
+  TokenAnalysis,
   TokenAnalysisInsert,
+  WalletFeatures,
 } from "@/types/database";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+export interface RatingRange {
+  low: number;
+  high: number;
+}
+
 export interface TrustAnalysis {
   /** Token mint address. */
   mint: string;
@@ -65,12 +114,31 @@ export interface TrustAnalysis {
 
   /** Composite trust rating (0-100). */
   trustRating: number;
+  /** Weighted sub-scores that sum to the trust rating. */
+  components: ScoreComponent[];
+  /** Weighted confidence in the rating (0-1). */
+  confidence: number;
+  /** Plausible rating range when confidence is low; `null` otherwise. */
+  ratingRange: RatingRange | null;
+  /** Whether the rating was capped below "Trusted" for low confidence. */
+  ratingCapped: boolean;
+  /** Status of each upstream data source. */
+  dataSources: DataSourceReport | null;
+  /** Provider that supplied metadata, holders and market data. */
+  providers: ProviderReport | null;
+  /** Percentage of queried data sources that answered (0-100). */
+  dataCompleteness: number;
   /** Average quality score of top holders (0-100). */
   holderQualityScore: number;
-  /** Total number of holders sampled. */
+  /** Total number of holders retrieved. */
   holderCount: number;
-  /** Concentration of the top holder as a percentage of sampled supply. */
+  /**
+   * Concentration of the top regular holder as a percentage of total supply.
+   * LP vaults and labeled addresses (see `labeledHolders`) are excluded.
+   */
   topHolderConcentration: number;
+  /** Gini / HHI / Nakamoto metrics over unlabeled (non-LP, non-custodial) holders, if computed. */
+  distribution: DistributionMetrics | null;
 
   /** Detected risk flags. */
   riskFlags: RiskFlag[];
@@ -81,6 +149,16 @@ export interface TrustAnalysis {
   lpSupplyPercent: number;
   /** Identified LP vault positions. */
   lpVaults: LPVault[];
+  /** Burn, exchange, vesting and bridge addresses among the holders. */
+  labeledHolders: LabeledHolder[];
+  /** Top holders grouped by shared funding source or funding slot. */
+  holderClusters: HolderCluster[];
+  /** Launch-window sniper analysis; `null` when not run (older tokens). */
+  bundledLaunch: BundledLaunchAnalysis | null;
+  /** Rug history of the deployer's earlier tokens; `null` without a deployer. */
+  deployerTrackRecord: DeployerTrackRecord | null;
+  /** Honeypot check: simulated sell into SOL; `null` without DEX pairs. */
+  sellSimulation: SellSimulationResult | null;
 
   /** Whether the token is in Jupiter's verified list. */
   jupiterVerified: boolean;
@@ -94,9 +172,38 @@ export interface TrustAnalysis {
   mintAuthorityActive: boolean;
   /** Whether freeze authority is still active. */
   freezeAuthorityActive: boolean;
+  /** Token-2022 extensions (transfer fee, hooks, permanent delegate, ...). */
+  tokenExtensions: TokenExtensions;
+
+  /** Scoring profile (id + version) used to weight the trust rating. */
+  scoringProfile: ScoringProfileRef;
 
   /** Timestamp of the analysis. */
   analyzedAt: string;
+  /**
+   * Set when an expired cached analysis was served (`allowStale`); the
+   * caller is expected to refresh it in the background.
+   */
+  stale?: boolean;
+}
+
+export interface AnalyzeTokenOptions {
+  /** Scoring profile to weight the trust rating with. Defaults to "default". */
+  profileId?: ScoringProfileId;
+  /**
+   * Run bundled-launch detection regardless of token age. By default it
+   * only runs for tokens younger than `BUNDLE_CHECK_MAX_AGE_DAYS`.
+   */
+  forceBundleCheck?: boolean;
+  /** Ignore the cached analysis and gather fresh inputs. */
+  skipCache?: boolean;
+  /**
+   * Serve an expired cached analysis (up to `ANALYSIS_STALE_MAX_AGE_MS`
+   * old) flagged `stale: true` instead of re-analyzing on the spot.
+   */
+  allowStale?: boolean;
+  /** Receives the gathered scoring inputs, e.g. to record backtest snapshots. */
+  onScoringInputs?: (inputs: TokenScoringInputs) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -104,33 +211,44 @@ export interface TrustAnalysis {
 // ---------------------------------------------------------------------------
 
 const ANALYSIS_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+/** Oldest cached analysis `allowStale` will serve while it refreshes. */
+const ANALYSIS_STALE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
-/** Trust rating weight factors (must sum to 1.0). */
-const WEIGHTS = {
-  deployerScore: 0.15,
-  holderQuality: 0.25,
-  distribution: 0.20,
-  age: 0.10,
-  patterns: 0.20,
-  liquidity: 0.10,
-} as const;
+/**
+ * Tokens younger than this (or of unknown age) get bundled-launch
+ * detection. Override with the BUNDLE_CHECK_MAX_AGE_DAYS env var.
+ */
+const BUNDLE_CHECK_MAX_AGE_DAYS =
+  Number(process.env.BUNDLE_CHECK_MAX_AGE_DAYS) || 7;
+
+/** Share of a pool's LP the deployer must hold unlocked to be flagged. */
+const UNLOCKED_LP_DEPLOYER_MIN_PERCENT = 10;
+
+/**
+ * Version of the persisted `token_analyses` snapshot shape. Rows written
+ * with an older version are missing fields and are re-analyzed instead of
+ * being served from cache. Bump when new snapshot columns are added.
+ */
+export const ANALYSIS_SNAPSHOT_VERSION = 11;
 
 // ---------------------------------------------------------------------------
 // Risk Flag Detection
 // ---------------------------------------------------------------------------
 
-let riskFlagCounter = 0;
-
+/**
+ * Build a risk flag from its catalog entry. Severity defaults to the
+ * catalog's and can be overridden for flags raised at several levels.
+ */
 function makeRiskFlag(
-  severity: RiskFlag["severity"],
-  label: string,
-  description: string
+  code: RiskFlagCode,
+  description: string,
+  severity: RiskFlag["severity"] = RISK_FLAG_CATALOG[code].severity
 ): RiskFlag {
-  riskFlagCounter += 1;
   return {
-    id: `rf-${riskFlagCounter}`,
+    id: code,
+    code,
     severity,
-    label,
+    label: RISK_FLAG_CATALOG[code].label,
     description,
   };
 }
@@ -140,50 +258,75 @@ function detectRiskFlags(
   deployerTier: FairScoreTier | null,
   holders: TokenHolder[],
   metadata: TokenMetadata,
-  connectedHolderCount: number = 0,
+  holderClusters: HolderCluster[] = [],
   deployerWallet: string | null = null,
-  lpVaults: LPVault[] = [],
+  holderAnalysis: HolderAnalysis = analyzeHolders(holders),
   dexData: TokenLiquidity | null = null,
   rugCheckResult: RugCheckResult | null = null,
+  bundledLaunch: BundledLaunchAnalysis | null = null,
+  deployerTrackRecord: DeployerTrackRecord | null = null,
+  sellSimulation: SellSimulationResult | null = null,
 ): RiskFlag[] {
   const flags: RiskFlag[] = [];
+  const { lpVaults } = holderAnalysis;
+  // Concentration checks skip LP vaults, burn addresses and custodians
+  const circulatingHolders = holderAnalysis.holders;
 
   // 1. Low deployer score
   if (deployerScore !== null && deployerScore < 100) {
     flags.push(
       makeRiskFlag(
-        "medium",
-        "Low Deployer Score",
+        "LOW_DEPLOYER_SCORE",
         `The token deployer has a FairScore of ${deployerScore}.`
       )
     );
   }
 
+  // 1b. Deployer rug history — earlier tokens pulled liquidity or collapsed
+  if (deployerTrackRecord && deployerTrackRecord.ruggedCount > 0) {
+    const { ruggedCount, evaluatedCount, rugRate } = deployerTrackRecord;
+    flags.push(
+      makeRiskFlag(
+        "DEPLOYER_RUG_HISTORY",
+        `${ruggedCount} of ${evaluatedCount} earlier token(s) from this deployer show rug signals (liquidity pulled, price collapse or authority abuse).`,
+        ruggedCount >= 2 && rugRate >= 0.5 ? "critical" : "high"
+      )
+    );
+  }
+
+  // 1c. Serial deployer — many launches in a short window
+  if (deployerTrackRecord?.serialDeployer) {
+    flags.push(
+      makeRiskFlag(
+        "SERIAL_DEPLOYER",
+        `The deployer launched ${deployerTrackRecord.maxLaunchesInWindow} tokens within ${SERIAL_DEPLOYER_WINDOW_DAYS} days.`
+      )
+    );
+  }
+
   // 2. Concentrated holdings — top holder owns >25%
-  if (holders.length > 0) {
-    const topHolder = holders[0];
+  if (circulatingHolders.length > 0) {
+    const topHolder = circulatingHolders[0];
     if (topHolder.percentage > 80) {
       flags.push(
         makeRiskFlag(
-          "high",
-          "Concentrated Holdings",
-          `The top holder owns ${topHolder.percentage.toFixed(1)}% of the sampled supply.`
+          "CONCENTRATED_HOLDINGS",
+          `The top holder owns ${topHolder.percentage.toFixed(1)}% of the supply.`
         )
       );
     } else if (topHolder.percentage > 50) {
       flags.push(
         makeRiskFlag(
-          "medium",
-          "Concentrated Holdings",
-          `The top holder owns ${topHolder.percentage.toFixed(1)}% of the sampled supply.`
+          "CONCENTRATED_HOLDINGS",
+          `The top holder owns ${topHolder.percentage.toFixed(1)}% of the supply.`,
+          "medium"
         )
       );
     } else if (topHolder.percentage > 25) {
       flags.push(
         makeRiskFlag(
-          "low",
-          "Significant Concentration",
-          `The top holder owns ${topHolder.percentage.toFixed(1)}% of the sampled supply.`
+          "SIGNIFICANT_CONCENTRATION",
+          `The top holder owns ${topHolder.percentage.toFixed(1)}% of the supply.`
         )
       );
     }
@@ -193,8 +336,7 @@ function detectRiskFlags(
   if (holders.length < 5) {
     flags.push(
       makeRiskFlag(
-        "medium",
-        "Low Holder Count",
+        "LOW_HOLDER_COUNT",
         `Only ${holders.length} holder(s) found, indicating very low distribution.`
       )
     );
@@ -204,8 +346,7 @@ function detectRiskFlags(
   if (metadata.mintAuthority) {
     flags.push(
       makeRiskFlag(
-        "low",
-        "Active Mint Authority",
+        "ACTIVE_MINT_AUTHORITY",
         "The token still has an active mint authority, allowing additional supply to be minted."
       )
     );
@@ -215,28 +356,44 @@ function detectRiskFlags(
   if (metadata.freezeAuthority) {
     flags.push(
       makeRiskFlag(
-        "low",
-        "Active Freeze Authority",
+        "ACTIVE_FREEZE_AUTHORITY",
         "The token has an active freeze authority, which can freeze holder accounts."
       )
     );
   }
 
-  // 6. Connected wallets — Sybil detection
-  if (connectedHolderCount >= 4) {
+  // 6. Connected wallets — Sybil detection via funding clusters
+  const clusteredCount = holderClusters.reduce((sum, c) => sum + c.wallets.length, 0);
+  const clusteredPct = holderClusters.reduce((sum, c) => sum + c.supplyPercent, 0);
+  const clusterSummary =
+    `${clusteredCount} of the top holders fall into ${holderClusters.length} funding ` +
+    `cluster(s) controlling ${clusteredPct.toFixed(1)}% of the supply`;
+  if (clusteredCount >= 4 || (clusteredCount >= 2 && clusteredPct > 20)) {
     flags.push(
       makeRiskFlag(
-        "high",
-        "Connected Wallets",
-        `${connectedHolderCount} of the top holders share recent transaction history, suggesting coordinated control.`
+        "CONNECTED_WALLETS",
+        `${clusterSummary}, suggesting coordinated control.`
       )
     );
-  } else if (connectedHolderCount >= 2) {
+  } else if (clusteredCount >= 2) {
+    flags.push(
+      makeRiskFlag("CONNECTED_WALLETS", `${clusterSummary}.`, "medium")
+    );
+  }
+
+  // 6b. Bundled launch — wallets sniping the creation slot
+  if (bundledLaunch && bundledLaunch.wallets.length >= BUNDLE_MIN_WALLETS) {
+    const { wallets, heldPercent, slotWindow } = bundledLaunch;
+    const listed = wallets
+      .slice(0, 5)
+      .map((w) => `${w.wallet.slice(0, 4)}...${w.wallet.slice(-4)}`)
+      .join(", ");
+    const more = wallets.length > 5 ? ` and ${wallets.length - 5} more` : "";
     flags.push(
       makeRiskFlag(
-        "medium",
-        "Connected Wallets",
-        `${connectedHolderCount} of the top holders share recent transaction history.`
+        "BUNDLED_LAUNCH",
+        `${wallets.length} wallets bought within ${slotWindow + 1} slots of launch and still hold ${heldPercent.toFixed(1)}% of the supply: ${listed}${more}.`,
+        heldPercent > 30 ? "critical" : heldPercent > 10 ? "high" : "medium"
       )
     );
   }
@@ -248,17 +405,15 @@ function detectRiskFlags(
       if (deployerHolding.percentage > 50) {
         flags.push(
           makeRiskFlag(
-            "high",
-            "Creator Holds Majority",
-            `The token deployer holds ${deployerHolding.percentage.toFixed(1)}% of the sampled supply.`
+            "CREATOR_HOLDS_MAJORITY",
+            `The token deployer holds ${deployerHolding.percentage.toFixed(1)}% of the supply.`
           )
         );
       } else if (deployerHolding.percentage > 20) {
         flags.push(
           makeRiskFlag(
-            "medium",
-            "Creator Holds Supply",
-            `The token deployer holds ${deployerHolding.percentage.toFixed(1)}% of the sampled supply.`
+            "CREATOR_HOLDS_SUPPLY",
+            `The token deployer holds ${deployerHolding.percentage.toFixed(1)}% of the supply.`
           )
         );
       }
@@ -266,28 +421,26 @@ function detectRiskFlags(
   }
 
   // 8. Top 5 concentration
-  if (holders.length >= 5) {
-    const top5Pct = holders.slice(0, 5).reduce((sum, h) => sum + h.percentage, 0);
+  if (circulatingHolders.length >= 5) {
+    const top5Pct = circulatingHolders.slice(0, 5).reduce((sum, h) => sum + h.percentage, 0);
     if (top5Pct > 80) {
       flags.push(
         makeRiskFlag(
-          "high",
-          "Top 5 Concentration",
-          `The top 5 holders control ${top5Pct.toFixed(1)}% of the sampled supply.`
+          "TOP_5_CONCENTRATION",
+          `The top 5 holders control ${top5Pct.toFixed(1)}% of the supply.`
         )
       );
     }
   }
 
   // 9. Top 10 concentration
-  if (holders.length >= 10) {
-    const top10Pct = holders.slice(0, 10).reduce((sum, h) => sum + h.percentage, 0);
+  if (circulatingHolders.length >= 10) {
+    const top10Pct = circulatingHolders.slice(0, 10).reduce((sum, h) => sum + h.percentage, 0);
     if (top10Pct > 90) {
       flags.push(
         makeRiskFlag(
-          "medium",
-          "Top 10 Concentration",
-          `The top 10 holders control ${top10Pct.toFixed(1)}% of the sampled supply.`
+          "TOP_10_CONCENTRATION",
+          `The top 10 holders control ${top10Pct.toFixed(1)}% of the supply.`
         )
       );
     }
@@ -297,8 +450,7 @@ function detectRiskFlags(
   if (lpVaults.length === 0 && !dexData) {
     flags.push(
       makeRiskFlag(
-        "high",
-        "No DEX Liquidity",
+        "NO_DEX_LIQUIDITY",
         "No liquidity pools or DEX trading pairs detected for this token."
       )
     );
@@ -308,19 +460,46 @@ function detectRiskFlags(
   if (dexData && dexData.totalLiquidityUsd < 1000) {
     flags.push(
       makeRiskFlag(
-        "medium",
-        "Low Liquidity",
+        "LOW_LIQUIDITY",
         `Total DEX liquidity is only $${dexData.totalLiquidityUsd.toFixed(0)}.`
       )
     );
   }
 
+  // 11b. Unlocked LP held by deployer — liquidity can be pulled at will
+  if (deployerWallet && dexData?.lpOwnership) {
+    const deployerPools = dexData.lpOwnership.pools.flatMap((pool) => {
+      const held = pool.unlockedHolders.find((h) => h.owner === deployerWallet);
+      return held && held.percentage >= UNLOCKED_LP_DEPLOYER_MIN_PERCENT
+        ? [`${held.percentage.toFixed(1)}% of the ${pool.dex} pool`]
+        : [];
+    });
+    if (deployerPools.length > 0) {
+      const listed = deployerPools.join(", ");
+      flags.push(
+        makeRiskFlag(
+          "UNLOCKED_LP_HELD_BY_DEPLOYER",
+          `The deployer holds unlocked LP tokens (${listed}) and can withdraw the liquidity at any time.`
+        )
+      );
+    }
+  }
+
+  // 11c. Sell simulation failed — likely honeypot
+  if (sellSimulation?.status === "failed") {
+    flags.push(
+      makeRiskFlag(
+        "SELL_SIMULATION_FAILED",
+        `A simulated sell into SOL${sellSimulation.pool?.label ? ` on ${sellSimulation.pool.label}` : ""} failed. ${sellSimulation.reason ?? ""}`.trim()
+      )
+    );
+  }
+
   // 12. Single DEX
   if (lpVaults.length === 1 && dexData) {
     flags.push(
       makeRiskFlag(
-        "low",
-        "Single DEX",
+        "SINGLE_DEX",
         `Liquidity exists on only one DEX (${lpVaults[0].dex}), creating a single point of failure.`
       )
     );
@@ -330,8 +509,7 @@ function detectRiskFlags(
   if (metadata.updateAuthority) {
     flags.push(
       makeRiskFlag(
-        "low",
-        "Mutable Metadata",
+        "MUTABLE_METADATA",
         "The token's metadata can be changed by the update authority."
       )
     );
@@ -348,8 +526,7 @@ function detectRiskFlags(
     if (rugCheckResult.riskLevel === "Danger") {
       flags.push(
         makeRiskFlag(
-          "high",
-          "RugCheck: Danger",
+          "RUGCHECK_DANGER",
           riskDetails ||
             (rugCheckResult.riskCount > 0
               ? `RugCheck flagged this token as dangerous with ${rugCheckResult.riskCount} risk(s) detected.`
@@ -359,8 +536,7 @@ function detectRiskFlags(
     } else if (rugCheckResult.riskCount >= 3) {
       flags.push(
         makeRiskFlag(
-          "medium",
-          "RugCheck: Multiple Warnings",
+          "RUGCHECK_WARNINGS",
           riskDetails ||
             `RugCheck detected ${rugCheckResult.riskCount} risks for this token.`
         )
@@ -368,6 +544,76 @@ function detectRiskFlags(
     }
   }
 
+  // 15. Token-2022 extensions
+  const ext = metadata.extensions;
+  if (ext.permanentDelegate) {
+    flags.push(
+      makeRiskFlag(
+        "PERMANENT_DELEGATE",
+        `${ext.permanentDelegate} can transfer or burn tokens from any holder's account at any time.`
+      )
+    );
+  }
+
+  if (ext.transferFeeBps !== null && ext.transferFeeBps > 0) {
+    const feePct = (ext.transferFeeBps / 100).toFixed(2);
+    const adjustable = ext.transferFeeAuthority
+      ? " The fee authority can still change it."
+      : "";
+    if (ext.transferFeeBps >= 1000) {
+      flags.push(
+        makeRiskFlag(
+          "HIGH_TRANSFER_FEE",
+          `Every transfer pays a ${feePct}% fee to the issuer.${adjustable}`
+        )
+      );
+    } else {
+      flags.push(
+        makeRiskFlag(
+          "TRANSFER_FEE",
+          `Every transfer pays a ${feePct}% fee to the issuer.${adjustable}`,
+          ext.transferFeeBps >= 100 || ext.transferFeeAuthority ? "medium" : "low"
+        )
+      );
+    }
+  }
+
+  if (ext.transferHookProgram) {
+    flags.push(
+      makeRiskFlag(
+        "TRANSFER_HOOK",
+        `Every transfer invokes program ${ext.transferHookProgram}, which can block or alter transfers (e.g. sells).`
+      )
+    );
+  }
+
+  if (ext.nonTransferable) {
+    flags.push(
+      makeRiskFlag(
+        "NON_TRANSFERABLE",
+        "The token cannot be transferred between wallets, so it cannot be sold."
+      )
+    );
+  }
+
+  if (ext.defaultAccountStateFrozen) {
+    flags.push(
+      makeRiskFlag(
+        "DEFAULT_ACCOUNT_FROZEN",
+        "New token accounts start frozen and must be thawed by the issuer before they can transfer."
+      )
+    );
+  }
+
+  if (ext.confidentialTransfers) {
+    flags.push(
+      makeRiskFlag(
+        "CONFIDENTIAL_TRANSFERS",
+        "Balances and transfer amounts can be encrypted, hiding holder concentration from analysis."
+      )
+    );
+  }
+
   return flags;
 }
 
@@ -380,12 +626,38 @@ function detectRiskFlags(
  * Unknown deployers get a neutral score of 50 — most legitimate token
  * deployers are program wallets that don't actively trade, so absence
  * of a FairScale score is normal, not suspicious.
+ *
+ * The deployer's track record then deducts up to 60 points for the share
+ * of earlier tokens that rugged and 15 for serial deploying.
  */
-function computeDeployerComponent(deployerScore: number | null): number {
-  if (deployerScore === null) return 50;
+function computeDeployerComponent(
+  deployerScore: number | null,
+  trackRecord: DeployerTrackRecord | null = null
+): number {
   // Use a generous curve: any deployer with a FairScale score gets at least 30.
   // Gold (600+) maps to 80+, Platinum (850+) approaches 100.
-  return Math.max(30, Math.min(100, (deployerScore / 850) * 100));
+  const base =
+    deployerScore === null
+      ? 50
+      : Math.max(30, Math.min(100, (deployerScore / 850) * 100));
+  if (!trackRecord) return base;
+
+  const rugPenalty = trackRecord.evaluatedCount > 0 ? trackRecord.rugRate * 60 : 0;
+  const serialPenalty = trackRecord.serialDeployer ? 15 : 0;
+  return Math.max(0, Math.min(100, base - rugPenalty - serialPenalty));
+}
+
+/** Explanation suffix for the track-record deductions, if any. */
+function describeTrackRecordPenalty(trackRecord: DeployerTrackRecord | null): string {
+  if (!trackRecord || trackRecord.tokenCount === 0) return "";
+  const parts: string[] = [];
+  if (trackRecord.ruggedCount > 0) {
+    parts.push(
+      `minus ${Math.round(trackRecord.rugRate * 60)} for ${trackRecord.ruggedCount} of ${trackRecord.evaluatedCount} earlier token(s) rugged`
+    );
+  }
+  if (trackRecord.serialDeployer) parts.push("minus 15 for serial deploying");
+  return parts.length > 0 ? `, ${parts.join(", ")}` : "";
 }
 
 /**
@@ -409,21 +681,19 @@ function computeHolderQualityComponent(
 }
 
 /**
- * Compute distribution score (0-100) based on how spread out holdings are.
- * A perfectly even distribution gets 100; single-holder gets ~0.
+ * Compute distribution score (0-100) from concentration metrics over the
+ * unlabeled holder set (no LP vaults, burn or custodial addresses). Blends
+ * HHI (50%), Gini (20%) and the Nakamoto coefficient (30%, saturating at
+ * 10 holders). A single holder gets 0.
  */
-function computeDistributionComponent(holders: TokenHolder[]): number {
-  if (holders.length <= 1) return 0;
-
-  // Use a simplified Gini-like measure: invert top holder concentration
-  const topConcentration = holders[0]?.percentage ?? 100;
-  // If top holder has 100%, score is 0. If top holder has 0%, score is 100.
-  const baseScore = Math.max(0, 100 - topConcentration);
+function computeDistributionComponent(metrics: DistributionMetrics): number {
+  if (metrics.holderCount <= 1) return 0;
 
-  // Bonus for having more holders
-  const holderBonus = Math.min(20, holders.length);
+  const hhiScore = 100 * (1 - Math.sqrt(metrics.hhi));
+  const giniScore = 100 * (1 - metrics.gini);
+  const nakamotoScore = Math.min(100, metrics.nakamotoCoefficient * 10);
 
-  return Math.min(100, baseScore + holderBonus);
+  return Math.round(0.5 * hhiScore + 0.2 * giniScore + 0.3 * nakamotoScore);
 }
 
 /**
@@ -477,6 +747,8 @@ function computePatternComponent(riskFlags: RiskFlag[]): number {
 /**
  * Compute liquidity score (0-100) based on DexScreener data and LP vault positions.
  * Tokens with more liquidity and healthy volume/liquidity ratios score higher.
+ * When LP ownership was verified, withdrawable (unlocked) LP deducts up to
+ * 30 points, since that depth can disappear in one transaction.
  */
 function computeLiquidityComponent(
   dexData: TokenLiquidity | null,
@@ -500,9 +772,431 @@ function computeLiquidityComponent(
     score = Math.min(100, score + 10);
   }
 
+  if (dexData.lpOwnership) {
+    score = Math.max(0, score - (dexData.lpOwnership.unlockedPercent / 100) * 30);
+  }
+
   return Math.round(score);
 }
 
+// ---------------------------------------------------------------------------
+// Component breakdown
+// ---------------------------------------------------------------------------
+
+/** Display labels for each trust rating component. */
+const COMPONENT_LABELS: Record<keyof ScoringWeights, string> = {
+  deployerScore: "Deployer Reputation",
+  holderQuality: "Holder Quality",
+  distribution: "Distribution",
+  age: "Wallet Age",
+  patterns: "Safety Signals",
+  liquidity: "Liquidity",
+};
+
+type UnweightedComponent = Omit<ScoreComponent, "weight" | "contribution" | "confidence"> & {
+  confidence?: number;
+};
+
+function makeComponent(
+  key: keyof ScoringWeights,
+  score: number,
+  confidence: number,
+  inputs: ScoreComponent["inputs"],
+  explanation: string
+): UnweightedComponent {
+  return { key, label: COMPONENT_LABELS[key], score, confidence, inputs, explanation };
+}
+
+/** Confidence contributed by one source status (see `computeComponentConfidence`). */
+const STATUS_CONFIDENCE: Record<DataSourceStatus, number> = {
+  ok: 1,
+  empty: 0.5,
+  failed: 0,
+  skipped: 0.5,
+};
+
+/**
+ * Confidence (0-1) in each component sub-score, from the status of the
+ * sources it depends on. Neutral fallbacks (unknown deployer, unrated
+ * holders) count as half-confident; failed upstreams as zero.
+ */
+function computeComponentConfidence(
+  sources: DataSourceReport,
+  holderStatuses: DataSourceStatus[],
+  completeHolderSet: boolean,
+  hasWalletAgeData: boolean
+): Record<keyof ScoringWeights, number> {
+  const holderQuality =
+    holderStatuses.length > 0
+      ? holderStatuses.reduce((sum, s) => sum + STATUS_CONFIDENCE[s], 0) /
+        holderStatuses.length
+      : 0.5;
+
+  const patternSources = [sources.heliusHolders, sources.dexscreener, sources.rugcheck];
+  const patterns =
+    patternSources.filter(isAnswered).length / patternSources.length;
+
+  return {
+    deployerScore: STATUS_CONFIDENCE[sources.fairscaleDeployer],
+    holderQuality,
+    distribution:
+      sources.heliusHolders === "failed" ? 0 : completeHolderSet ? 1 : 0.8,
+    age: hasWalletAgeData ? 1 : STATUS_CONFIDENCE[sources.fairscaleDeployer] * 0.5,
+    patterns,
+    // No pairs is real data; on failure the LP vault share is still on-chain
+    liquidity:
+      sources.dexscreener === "ok" ? 1 : sources.dexscreener === "empty" ? 0.8 : 0.3,
+  };
+}
+
+interface ScoredRating {
+  components: ScoreComponent[];
+  trustRating: number;
+  /** Weighted component confidence (0-1). */
+  confidence: number;
+  /** Plausible rating range when confidence is low; `null` otherwise. */
+  ratingRange: RatingRange | null;
+  /** Whether the rating was capped because confidence is low. */
+  ratingCapped: boolean;
+}
+
+/**
+ * Weight component sub-scores with a scoring profile and sum them into the
+ * composite trust rating. Components are independent of the weights, so
+ * stored components can be re-weighted under any profile.
+ *
+ * When the weighted confidence falls below `LOW_CONFIDENCE_THRESHOLD`, the
+ * rating is capped below the "Trusted" band and a range is reported: each
+ * component's unconfident share could lie anywhere between 0 and 100.
+ */
+function applyScoringProfile(
+  components: UnweightedComponent[],
+  profile: ScoringProfile
+): ScoredRating {
+  const weighted = components.map((c) => {
+    const weight = profile.weights[c.key];
+    // Components persisted before confidence tracking count as confident
+    const confidence = c.confidence ?? 1;
+    return { ...c, confidence, weight, contribution: c.score * weight };
+  });
+
+  const rawRating = Math.round(
+    weighted.reduce((sum, c) => sum + c.contribution, 0)
+  );
+  const confidence = weighted.reduce((sum, c) => sum + c.confidence * c.weight, 0);
+
+  if (confidence >= LOW_CONFIDENCE_THRESHOLD) {
+    return {
+      components: weighted,
+      trustRating: rawRating,
+      confidence,
+      ratingRange: null,
+      ratingCapped: false,
+    };
+  }
+
+  const low = weighted.reduce((sum, c) => sum + c.weight * c.confidence * c.score, 0);
+  const high = weighted.reduce(
+    (sum, c) => sum + c.weight * (c.confidence * c.score + (1 - c.confidence) * 100),
+    0
+  );
+  const trustRating = Math.min(rawRating, LOW_CONFIDENCE_RATING_CAP);
+
+  return {
+    components: weighted,
+    trustRating,
+    confidence,
+    ratingRange: {
+      low: Math.round(low),
+      high: Math.round(high),
+    },
+    ratingCapped: trustRating < rawRating,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cache rehydration
+// ---------------------------------------------------------------------------
+
+function computeTokenAgeDays(tokenCreatedAt: string | null): number | null {
+  if (!tokenCreatedAt) return null;
+  return Math.floor(
+    (Date.now() - new Date(tokenCreatedAt).getTime()) / (1000 * 60 * 60 * 24)
+  );
+}
+
+/**
+ * Rebuild a full `TrustAnalysis` from a persisted `token_analyses` row,
+ * re-weighting its component breakdown with the requested profile.
+ */
+function hydrateCachedAnalysis(
+  row: TokenAnalysis,
+  profile: ScoringProfile
+): TrustAnalysis {
+  const cachedComponents = row.score_components ?? [];
+  const rescored: ScoredRating =
+    cachedComponents.length > 0
+      ? applyScoringProfile(cachedComponents, profile)
+      : {
+          components: [],
+          trustRating: row.trust_rating,
+          confidence: 1,
+          ratingRange: null,
+          ratingCapped: false,
+        };
+
+  return {
+    mint: row.mint,
+    name: row.name,
+    symbol: row.symbol,
+    imageUrl: row.image_url,
+    deployerWallet: row.deployer_wallet,
+    deployerScore: row.deployer_score,
+    deployerTier: row.deployer_tier,
+    trustRating: rescored.trustRating,
+    components: rescored.components,
+    confidence: rescored.confidence,
+    ratingRange: rescored.ratingRange,
+    ratingCapped: rescored.ratingCapped,
+    dataSources: row.data_sources,
+    providers: row.data_providers,
+    dataCompleteness: row.data_completeness ?? 100,
+    holderQualityScore: row.holder_quality_score,
+    holderCount: row.holder_count,
+    topHolderConcentration: row.top_holder_concentration,
+    distribution: row.distribution_metrics,
+    riskFlags: row.risk_flags ?? [],
+    liquidity: row.liquidity,
+    lpSupplyPercent: row.lp_supply_percent,
+    lpVaults: row.lp_vaults ?? [],
+    labeledHolders: row.labeled_holders ?? [],
+    holderClusters: row.holder_clusters ?? [],
+    bundledLaunch: row.bundled_launch,
+    deployerTrackRecord: row.deployer_track_record,
+    sellSimulation: row.sell_simulation,
+    jupiterVerified: row.jupiter_verified,
+    rugCheck: row.rug_check,
+    tokenCreatedAt: row.token_created_at,
+    tokenAgeDays: computeTokenAgeDays(row.token_created_at) ?? row.token_age_days,
+    mintAuthorityActive: row.mint_authority_active,
+    freezeAuthorityActive: row.freeze_authority_active,
+    tokenExtensions: row.token_extensions ?? EMPTY_TOKEN_EXTENSIONS,
+    scoringProfile: { id: profile.id, version: profile.version },
+    analyzedAt: row.analyzed_at,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// scoreToken — flags and rating from gathered inputs
+// ---------------------------------------------------------------------------
+
+/** Everything the rating is computed from, as gathered by `analyzeToken`. */
+export interface TokenScoringInputs {
+  metadata: TokenMetadata;
+  /** Holder set with percentages of on-chain supply. */
+  holderSet: HolderSet;
+  deployerWallet: string | null;
+  deployerScore: number | null;
+  deployerTier: FairScoreTier | null;
+  /** FairScale features of the deployer (wallet age, active days). */
+  deployerFeatures: Pick<WalletFeatures, "wallet_age_score" | "active_days"> | null;
+  deployerTrackRecord: DeployerTrackRecord | null;
+  /** Quick scores of the top regular holders. */
+  holderScores: Array<{ owner: string; score: number | null; status: DataSourceStatus }>;
+  holderClusters: HolderCluster[];
+  bundledLaunch: BundledLaunchAnalysis | null;
+  sellSimulation: SellSimulationResult | null;
+  dexData: TokenLiquidity | null;
+  rugCheck: RugCheckResult | null;
+  /** Source statuses; the holder FairScale status is derived from `holderScores`. */
+  sources: Omit<DataSourceReport, "fairscaleHolders">;
+}
+
+export interface TokenScore extends ScoredRating {
+  riskFlags: RiskFlag[];
+  holderAnalysis: HolderAnalysis;
+  distribution: DistributionMetrics;
+  dataSources: DataSourceReport;
+  dataCompleteness: number;
+  holderQualityScore: number;
+  topHolderConcentration: number;
+}
+
+/**
+ * Detect risk flags and compute the component breakdown and trust rating
+ * for one token. Pure: no I/O, so stored or canned inputs can be re-scored
+ * (golden tests, backtests, weight changes).
+ */
+export function scoreToken(
+  inputs: TokenScoringInputs,
+  profile: ScoringProfile
+): TokenScore {
+  const {
+    metadata,
+    holderSet,
+    deployerWallet,
+    deployerScore,
+    deployerTier,
+    deployerFeatures,
+    deployerTrackRecord,
+    holderScores,
+    holderClusters,
+    bundledLaunch,
+    sellSimulation,
+    dexData,
+    rugCheck,
+    sources,
+  } = inputs;
+  const holders = holderSet.holders;
+  const holderAnalysis = analyzeHolders(holders);
+  const distribution = computeDistributionMetrics(
+    holderAnalysis.holders.map((h) => h.amount),
+    holderSet.complete
+  );
+
+  const riskFlags = detectRiskFlags(
+    deployerScore,
+    deployerTier,
+    holders,
+    metadata,
+    holderClusters,
+    deployerWallet,
+    holderAnalysis,
+    dexData,
+    rugCheck,
+    bundledLaunch,
+    deployerTrackRecord,
+    sellSimulation
+  );
+
+  const holderStatuses = holderScores.map((h) => h.status);
+  const dataSources: DataSourceReport = {
+    ...sources,
+    fairscaleHolders:
+      holderStatuses.length === 0
+        ? "skipped"
+        : holderStatuses.includes("ok")
+          ? "ok"
+          : holderStatuses.every((s) => s === "failed")
+            ? "failed"
+            : "empty",
+  };
+
+  const deployerComponent = computeDeployerComponent(deployerScore, deployerTrackRecord);
+  const holderQualityComponent = computeHolderQualityComponent(holderScores);
+  const distributionComponent = computeDistributionComponent(distribution);
+  const walletAgeScore = deployerFeatures?.wallet_age_score ?? null;
+  const activeDays = deployerFeatures?.active_days ?? null;
+  const ageComponent = computeAgeComponent(walletAgeScore, activeDays);
+  const patternComponent = computePatternComponent(riskFlags);
+  const liquidityComponent = computeLiquidityComponent(
+    dexData,
+    holderAnalysis.lpSupplyPercent
+  );
+
+  const ratedHolderCount = holderScores.filter((h) => h.score !== null).length;
+  const componentConfidence = computeComponentConfidence(
+    dataSources,
+    holderStatuses,
+    distribution.complete,
+    walletAgeScore !== null
+  );
+  const topHolderPct = holderAnalysis.holders[0]?.percentage ?? null;
+
+  const rating = applyScoringProfile(
+    [
+      makeComponent(
+        "deployerScore",
+        deployerComponent,
+        componentConfidence.deployerScore,
+        {
+          deployerScore,
+          priorTokens: deployerTrackRecord?.tokenCount ?? null,
+          ruggedTokens: deployerTrackRecord?.ruggedCount ?? null,
+          rugRate: deployerTrackRecord?.rugRate ?? null,
+          serialDeployer: deployerTrackRecord?.serialDeployer ?? null,
+        },
+        (deployerScore === null
+          ? "Deployer has no FairScale score, so a neutral 50 is applied"
+          : `Deployer FairScore ${deployerScore} scaled against the Platinum threshold (850), with a floor of 30`) +
+          describeTrackRecordPenalty(deployerTrackRecord) +
+          "."
+      ),
+      makeComponent(
+        "holderQuality",
+        holderQualityComponent,
+        componentConfidence.holderQuality,
+        { sampledHolders: holderScores.length, ratedHolders: ratedHolderCount },
+        holderScores.length === 0
+          ? "No holders to score, so a neutral 50 is applied."
+          : `Average FairScore of the top ${holderScores.length} holders; ${holderScores.length - ratedHolderCount} unrated holder(s) count as a neutral 50.`
+      ),
+      makeComponent(
+        "distribution",
+        distributionComponent,
+        componentConfidence.distribution,
+        {
+          holderCount: distribution.holderCount,
+          topHolderPercent: topHolderPct,
+          gini: distribution.gini,
+          hhi: distribution.hhi,
+          nakamotoCoefficient: distribution.nakamotoCoefficient,
+          completeHolderSet: distribution.complete,
+        },
+        distribution.holderCount <= 1
+          ? "One or no unlabeled holders found, so supply is not distributed."
+          : `${distribution.nakamotoCoefficient} holder(s) control a majority of ${distribution.holderCount}${distribution.complete ? "" : "+"} unlabeled holders (HHI ${distribution.hhi.toFixed(3)}, Gini ${distribution.gini.toFixed(2)}).`
+      ),
+      makeComponent(
+        "age",
+        ageComponent,
+        componentConfidence.age,
+        { walletAgeScore, activeDays },
+        walletAgeScore === null
+          ? "No deployer wallet age data, so a neutral 50 is applied."
+          : `Deployer wallet age score ${walletAgeScore}${activeDays !== null && activeDays > 70 ? `, plus 10 for ${activeDays} active days` : ""}.`
+      ),
+      makeComponent(
+        "patterns",
+        patternComponent,
+        componentConfidence.patterns,
+        { riskFlagCount: riskFlags.length },
+        riskFlags.length === 0
+          ? "No risk flags detected."
+          : `${riskFlags.length} risk flag(s) deducted ${100 - patternComponent} points.`
+      ),
+      makeComponent(
+        "liquidity",
+        liquidityComponent,
+        componentConfidence.liquidity,
+        {
+          totalLiquidityUsd: dexData?.totalLiquidityUsd ?? null,
+          volumeLiquidityRatio: dexData?.volumeLiquidityRatio ?? null,
+          lpSupplyPercent: holderAnalysis.lpSupplyPercent,
+          lpBurnedPercent: dexData?.lpOwnership?.burnedPercent ?? null,
+          lpLockedPercent: dexData?.lpOwnership?.lockedPercent ?? null,
+          lpUnlockedPercent: dexData?.lpOwnership?.unlockedPercent ?? null,
+        },
+        dexData
+          ? `$${dexData.totalLiquidityUsd.toFixed(0)} DEX liquidity${dexData.volumeLiquidityRatio > 0.5 ? ", plus 10 for a healthy volume/liquidity ratio" : ""}${dexData.lpOwnership ? `, minus ${Math.round((dexData.lpOwnership.unlockedPercent / 100) * 30)} for ${dexData.lpOwnership.unlockedPercent.toFixed(0)}% unlocked LP` : ""}.`
+          : `No DEX market data; scored on ${holderAnalysis.lpSupplyPercent.toFixed(1)}% of supply in LP vaults.`
+      ),
+    ],
+    profile
+  );
+
+  return {
+    ...rating,
+    riskFlags,
+    holderAnalysis,
+    distribution,
+    dataSources,
+    dataCompleteness: computeDataCompleteness(dataSources),
+    holderQualityScore: Math.round(holderQualityComponent),
+    topHolderConcentration: holderAnalysis.holders[0]?.percentage ?? 0,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // analyzeToken — main entry point
 // ---------------------------------------------------------------------------
@@ -510,21 +1204,32 @@ function computeLiquidityComponent(
 /**
  * Perform a full trust analysis on a Solana token.
  *
- * 1. Check Supabase cache (1-hour TTL)
+ * 1. Check Supabase cache (1-hour TTL). Complete snapshots are rehydrated
+ *    in full and their component breakdowns re-weighted with the
+ *    requested scoring profile. With `allowStale`, expired snapshots are
+ *    returned flagged `stale: true`.
  * 2. Fetch token metadata from Helius
- * 3. Fetch top holders from Helius
- * 4. Fetch deployer FairScore
- * 5. Fetch holder FairScores (batch quick scores)
- * 6. Detect risk flags
- * 7. Calculate composite trust rating
- * 8. Cache results in Supabase
+ * 3. Fetch the full holder set from Helius and compute distribution metrics
+ * 4. Fetch deployer FairScore and the rug track record of its earlier tokens
+ * 5. Fetch holder FairScores (batch quick scores), trace holder funding
+ *    clusters and simulate a sell
+ * 6–7. Detect risk flags, then calculate component sub-scores and the
+ *    composite trust rating using the scoring profile weights (`scoreToken`)
+ * 8. Cache results in Supabase (default profile only, so the shared
+ *    `token_analyses` row always reflects the default rating)
  *
  * Returns `null` if the token is not found.
  */
 export async function analyzeToken(
-  mint: string
+  mint: string,
+  options: AnalyzeTokenOptions = {}
 ): Promise<TrustAnalysis | null> {
   const supabase = createServerSupabaseClient();
+  const profile = getScoringProfile(options.profileId);
+  const scoringProfile: ScoringProfileRef = {
+    id: profile.id,
+    version: profile.version,
+  };
 
   // 1. Check cache
   const { data: cached } = await supabase
@@ -535,127 +1240,166 @@ export async function analyzeToken(
     .limit(1)
     .maybeSingle();
 
-  if (cached) {
-    const age = Date.now() - new Date(cached.analyzed_at).getTime();
+  const cachedRow = cached as TokenAnalysis | null;
+  const cacheMatchesProfile =
+    cachedRow?.scoring_profile === scoringProfile.id &&
+    cachedRow?.scoring_profile_version === scoringProfile.version;
+
+  // Only complete snapshots are served from cache. Rows with a component
+  // breakdown can be re-weighted for any profile; rows without one are only
+  // reusable for the profile that made them.
+  if (
+    !options.skipCache &&
+    cachedRow &&
+    (cachedRow.snapshot_version ?? 0) >= ANALYSIS_SNAPSHOT_VERSION &&
+    ((cachedRow.score_components ?? []).length > 0 || cacheMatchesProfile)
+  ) {
+    const age = Date.now() - new Date(cachedRow.analyzed_at).getTime();
     if (age < ANALYSIS_CACHE_TTL_MS) {
-      return {
-        mint: cached.mint,
-        name: cached.name,
-        symbol: cached.symbol,
-        imageUrl: cached.image_url,
-        deployerWallet: cached.deployer_wallet,
-        deployerScore: cached.deployer_score,
-        deployerTier: cached.deployer_tier,
-        trustRating: cached.trust_rating,
-        holderQualityScore: cached.holder_quality_score,
-        holderCount: cached.holder_count,
-        topHolderConcentration: cached.top_holder_concentration,
-        riskFlags: (cached.risk_flags ?? []) as RiskFlag[],
-        liquidity: null,
-        lpSupplyPercent: 0,
-        lpVaults: [],
-        jupiterVerified: false,
-        rugCheck: null,
-        tokenCreatedAt: null,
-        tokenAgeDays: null,
-        mintAuthorityActive: false,
-        freezeAuthorityActive: false,
-        analyzedAt: cached.analyzed_at,
-      };
+      return hydrateCachedAnalysis(cachedRow, profile);
+    }
+    if (options.allowStale && age < ANALYSIS_STALE_MAX_AGE_MS) {
+      return { ...hydrateCachedAnalysis(cachedRow, profile), stale: true };
     }
   }
 
-  // 2. Fetch token metadata
-  const metadata = await getTokenMetadata(mint);
+  // 2. Fetch token metadata (Helius, falling back to plain RPC)
+  const metadataResult = await fetchTokenMetadata(mint);
+  const metadata = metadataResult.data;
   if (!metadata) return null;
 
-  // 3. Fetch top holders
-  const holders = await getTokenHolders(mint, 20);
+  // 3. Fetch the full holder set, with percentages of on-chain supply. The
+  //    RPC fallback only returns the largest holders, as a partial set.
+  const holderResult = await fetchTokenHolders(mint, metadata.supply);
+  const holderSet = holderResult.data ?? { holders: [], accountCount: 0, complete: false };
+  const holders = holderSet.holders;
 
-  // 3b. Analyze holders for LP vaults
+  // 3b. Separate regular holders from LP vaults and labeled addresses
   const holderAnalysis = analyzeHolders(holders);
 
-  // 4. Fetch deployer score + DexScreener liquidity in parallel
+  // 4. Fetch deployer score and track record, market data and
+  //    (for young tokens) launch bundling in parallel
   const deployerWallet = identifyDeployer(metadata);
 
-  const [deployerResult, dexData, jupiterVerified, rugCheckResult] = await Promise.all([
+  const rawCreatedAt = (metadata.raw as unknown as Record<string, unknown>)?.created_at;
+  const metadataCreatedAt = rawCreatedAt ? new Date(rawCreatedAt as string).toISOString() : null;
+  const metadataAgeDays = computeTokenAgeDays(metadataCreatedAt);
+  const runBundleCheck =
+    options.forceBundleCheck ||
+    metadataAgeDays === null ||
+    metadataAgeDays < BUNDLE_CHECK_MAX_AGE_DAYS;
+
+  const [
+    deployerResult,
+    dexResult,
+    jupiterResult,
+    rugCheckSource,
+    bundledLaunch,
+    deployerTrackRecord,
+  ] = await Promise.all([
     (async () => {
-      if (!deployerWallet) return { score: null, tier: null, features: null };
-      const fullScore = await getFullScore(deployerWallet);
-      if (!fullScore) return { score: null, tier: null, features: null };
+      if (!deployerWallet) {
+        return { status: "skipped" as const, score: null, tier: null, features: null };
+      }
+      const { status, data: fullScore } = await getFullScoreResult(deployerWallet);
+      if (!fullScore) return { status, score: null, tier: null, features: null };
       return {
+        status,
         score: fullScore.integerScore,
         tier: fullScore.tier,
         features: fullScore.features ?? null,
       };
     })(),
-    getTokenLiquidity(mint),
-    isJupiterVerified(mint),
-    getRugCheckReport(mint),
+    fetchMarketData(mint),
+    isJupiterVerifiedResult(mint),
+    getRugCheckReportResult(mint),
+    runBundleCheck
+      ? detectBundledLaunch(mint, holders, { deployerWallet })
+      : Promise.resolve(null),
+    // A launchpad's shared update authority has strangers' tokens, not a track record
+    deployerWallet && !isSharedAuthority(deployerWallet)
+      ? getDeployerTrackRecord(deployerWallet, { excludeMint: mint })
+      : Promise.resolve(null),
   ]);
 
   let deployerScore: number | null = deployerResult.score;
   let deployerTier: FairScoreTier | null = deployerResult.tier;
   const deployerFeatures = deployerResult.features;
-
-  // 5. Fetch holder FairScores + check wallet connections in parallel
-  const topHolderWallets = holderAnalysis.holders.slice(0, 5).map((h) => h.owner);
-  const [holderScores, connectedHolderCount] = await Promise.all([
-    Promise.all(
-      holders.slice(0, 10).map(async (holder) => {
-        const score = await getQuickScore(holder.owner);
-        return { owner: holder.owner, score };
+  const dexData = dexResult.data;
+  const jupiterVerified = jupiterResult.data ?? false;
+  const rugCheckResult = rugCheckSource.data;
+
+  // 5. Fetch holder FairScores, trace funding clusters and simulate a
+  //    sell in parallel
+  const topHolders = holderAnalysis.holders.slice(0, 10);
+  const [holderScores, clusterAnalysis, sellSimulation] = await Promise.all([
+    getQuickScoreResults(topHolders.map((holder) => holder.owner)).then((results) =>
+      topHolders.map((holder) => {
+        const result = results.get(holder.owner);
+        return {
+          owner: holder.owner,
+          score: result?.data ?? null,
+          status: result?.status ?? ("failed" as const),
+        };
       })
     ),
-    checkHolderConnections(topHolderWallets),
+    clusterHolders(holderAnalysis.holders),
+    dexData
+      ? simulateSell(mint, holderAnalysis.holders, metadata.decimals, dexData.priceUsd)
+      : Promise.resolve(null),
   ]);
 
-  // 6. Detect risk flags
-  const riskFlags = detectRiskFlags(
-    deployerScore,
-    deployerTier,
-    holders,
+  // 6-7. Detect risk flags and compute the component sub-scores and
+  //      composite trust rating
+  const scoringInputs: TokenScoringInputs = {
     metadata,
-    connectedHolderCount,
+    holderSet,
     deployerWallet,
-    holderAnalysis.lpVaults,
-    dexData,
-    rugCheckResult
-  );
-
-  // 7. Calculate composite trust rating
-  const deployerComponent = computeDeployerComponent(deployerScore);
-  const holderQualityComponent = computeHolderQualityComponent(holderScores);
-  const distributionComponent = computeDistributionComponent(holders);
-  const ageComponent = computeAgeComponent(
-    deployerFeatures?.wallet_age_score ?? null,
-    deployerFeatures?.active_days ?? null
-  );
-  const patternComponent = computePatternComponent(riskFlags);
-  const liquidityComponent = computeLiquidityComponent(
+    deployerScore,
+    deployerTier,
+    deployerFeatures,
+    deployerTrackRecord,
+    holderScores,
+    holderClusters: clusterAnalysis.clusters,
+    bundledLaunch,
+    sellSimulation,
     dexData,
-    holderAnalysis.lpSupplyPercent
-  );
-
-  const trustRating = Math.round(
-    deployerComponent * WEIGHTS.deployerScore +
-      holderQualityComponent * WEIGHTS.holderQuality +
-      distributionComponent * WEIGHTS.distribution +
-      ageComponent * WEIGHTS.age +
-      patternComponent * WEIGHTS.patterns +
-      liquidityComponent * WEIGHTS.liquidity
-  );
-
-  const topHolderConcentration = holders[0]?.percentage ?? 0;
-  const holderQualityScore = Math.round(holderQualityComponent);
+    rugCheck: rugCheckResult,
+    sources: {
+      heliusHolders: holderResult.status,
+      fairscaleDeployer: deployerResult.status,
+      dexscreener: dexResult.status,
+      jupiter: jupiterResult.status,
+      rugcheck: rugCheckSource.status,
+    },
+  };
+  options.onScoringInputs?.(scoringInputs);
+  const {
+    riskFlags,
+    distribution,
+    dataSources,
+    dataCompleteness,
+    components,
+    trustRating,
+    confidence,
+    ratingRange,
+    ratingCapped,
+    holderQualityScore,
+    topHolderConcentration,
+  } = scoreToken(scoringInputs, profile);
+  const providers: ProviderReport = {
+    metadata: metadataResult.provider,
+    holders: holderResult.provider,
+    marketData: dexResult.provider,
+  };
   const analyzedAt = new Date().toISOString();
 
-  // Compute token age from metadata
-  const tokenCreatedAtRaw = (metadata.raw as unknown as Record<string, unknown>)?.created_at ?? null;
-  const tokenCreatedAt = tokenCreatedAtRaw ? new Date(tokenCreatedAtRaw as string).toISOString() : null;
-  const tokenAgeDays = tokenCreatedAt
-    ? Math.floor((Date.now() - new Date(tokenCreatedAt).getTime()) / (1000 * 60 * 60 * 24))
-    : null;
+  // Compute token age from metadata, falling back to the mint's first
+  // transaction when the bundle check read it
+  const tokenCreatedAt =
+    metadataCreatedAt ??
+    (bundledLaunch?.creationTime ? new Date(bundledLaunch.creationTime * 1000).toISOString() : null);
+  const tokenAgeDays = computeTokenAgeDays(tokenCreatedAt);
 
   // 8. Cache result in Supabase
   const analysisRow: TokenAnalysisInsert = {
@@ -667,39 +1411,68 @@ export async function analyzeToken(
     deployer_score: deployerScore,
     deployer_tier: deployerTier,
     trust_rating: trustRating,
+    score_components: components,
     holder_quality_score: holderQualityScore,
     holder_count: holders.length,
     top_holder_concentration: topHolderConcentration,
+    distribution_metrics: distribution,
     risk_flags: riskFlags,
     token_age_days: tokenAgeDays,
+    token_created_at: tokenCreatedAt,
+    liquidity: dexData,
+    lp_supply_percent: holderAnalysis.lpSupplyPercent,
+    lp_vaults: holderAnalysis.lpVaults,
+    labeled_holders: holderAnalysis.labeledHolders,
+    holder_clusters: clusterAnalysis.clusters,
+    bundled_launch: bundledLaunch,
+    deployer_track_record: deployerTrackRecord,
+    sell_simulation: sellSimulation,
+    data_sources: dataSources,
+    data_providers: providers,
+    data_completeness: dataCompleteness,
+    jupiter_verified: jupiterVerified,
+    rug_check: rugCheckResult,
+    mint_authority_active: !!metadata.mintAuthority,
+    freeze_authority_active: !!metadata.freezeAuthority,
+    token_extensions: metadata.extensions,
+    snapshot_version: ANALYSIS_SNAPSHOT_VERSION,
     raw_metadata: metadata.raw as unknown as Record<string, unknown>,
+    scoring_profile: scoringProfile.id,
+    scoring_profile_version: scoringProfile.version,
     analyzed_at: analyzedAt,
   };
 
-  await supabase
-    .from("token_analyses")
-    .upsert(analysisRow, { onConflict: "mint" })
-    .select()
-    .maybeSingle();
-
-  // Log token score history (one snapshot per token per day)
-  const today = new Date().toISOString().slice(0, 10);
-  const { data: existingSnapshot } = await supabase
-    .from("token_score_history")
-    .select("id")
-    .eq("mint", mint)
-    .gte("recorded_at", `${today}T00:00:00Z`)
-    .lt("recorded_at", `${today}T23:59:59Z`)
-    .limit(1)
-    .maybeSingle();
-
-  if (!existingSnapshot) {
-    await supabase.from("token_score_history").insert({
-      mint,
-      trust_rating: trustRating,
-      holder_count: holders.length,
-      risk_flag_count: riskFlags.length,
-    });
+  if (scoringProfile.id === DEFAULT_SCORING_PROFILE_ID) {
+    await supabase
+      .from("token_analyses")
+      .upsert(analysisRow, { onConflict: "mint" })
+      .select()
+      .maybeSingle();
+
+    // Log token score history (one snapshot per token per day)
+    const today = new Date().toISOString().slice(0, 10);
+    const { data: existingSnapshot } = await supabase
+      .from("token_score_history")
+      .select("id")
+      .eq("mint", mint)
+      .gte("recorded_at", `${today}T00:00:00Z`)
+      .lt("recorded_at", `${today}T23:59:59Z`)
+      .limit(1)
+      .maybeSingle();
+
+    if (!existingSnapshot) {
+      await supabase.from("token_score_history").insert({
+        mint,
+        trust_rating: trustRating,
+        holder_count: holders.length,
+        risk_flag_count: riskFlags.length,
+        price_usd: dexData?.priceUsd ?? null,
+        liquidity_usd: dexData?.totalLiquidityUsd ?? null,
+        supply: metadata.supply,
+        scoring_profile: scoringProfile.id,
+        scoring_profile_version: scoringProfile.version,
+      });
+    }
   }
 
   return {
@@ -711,19 +1484,34 @@ export async function analyzeToken(
     deployerScore,
     deployerTier,
     trustRating,
+    components,
+    confidence,
+    ratingRange,
+    ratingCapped,
+    dataSources,
+    dataCompleteness,
+    providers,
     holderQualityScore,
     holderCount: holders.length,
     topHolderConcentration,
+    distribution,
     riskFlags,
     liquidity: dexData,
     lpSupplyPercent: holderAnalysis.lpSupplyPercent,
     lpVaults: holderAnalysis.lpVaults,
+    labeledHolders: holderAnalysis.labeledHolders,
+    holderClusters: clusterAnalysis.clusters,
+    bundledLaunch,
+    deployerTrackRecord,
+    sellSimulation,
     jupiterVerified,
     rugCheck: rugCheckResult,
     tokenCreatedAt,
     tokenAgeDays,
     mintAuthorityActive: !!metadata.mintAuthority,
     freezeAuthorityActive: !!metadata.freezeAuthority,
+    tokenExtensions: metadata.extensions,
+    scoringProfile,
     analyzedAt,
   };
 }
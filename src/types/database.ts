@@ -5,6 +5,25 @@
  * application for type-safe database operations.
  */
 
+import type { ScoringWeights } from "@/lib/scoringProfiles";
+import type { DistributionMetrics } from "@/lib/distributionMetrics";
+import type { TokenLiquidity } from "@/services/dexscreener";
+import type { LPVault, LabeledHolder, TokenExtensions } from "@/services/helius";
+import type { RugCheckResult } from "@/services/rugcheck";
+import type { HolderCluster } from "@/services/holderClusters";
+import type { BundledLaunchAnalysis } from "@/services/bundleDetection";
+import type { DeployerTrackRecord } from "@/services/deployerHistory";
+import type { SellSimulationResult } from "@/services/sellSimulation";
+import type { DataSourceReport, ProviderReport } from "@/lib/dataSources";
+import type { RiskFlagCode, RiskFlagSeverity } from "@/lib/riskFlagCatalog";
+import type { AlertNotificationType, AlertRule } from "@/lib/alertRules";
+import type {
+  DeliveryMessage,
+  DeliveryStatus,
+  NotificationChannelFilters,
+  NotificationChannelTarget,
+} from "@/lib/notificationChannels";
+
 // ---------------------------------------------------------------------------
 // Enums & Shared Types
 // ---------------------------------------------------------------------------
@@ -45,12 +64,35 @@ export interface WalletFeatures {
 
 /** Risk flag attached to a token analysis. */
 export interface RiskFlag {
+  /** Stable identifier; equal to `code`. */
   id: string;
-  severity: "low" | "medium" | "high" | "critical";
+  /** Catalog code (see `@/lib/riskFlagCatalog`). */
+  code: RiskFlagCode;
+  severity: RiskFlagSeverity;
   label: string;
   description: string;
 }
 
+/** One weighted sub-score of the composite trust rating. */
+export interface ScoreComponent {
+  /** Component key, matching the scoring profile weight keys. */
+  key: keyof ScoringWeights;
+  /** Display label (e.g. "Holder Quality"). */
+  label: string;
+  /** Component sub-score (0-100). */
+  score: number;
+  /** Weight applied by the scoring profile (0-1). */
+  weight: number;
+  /** Points contributed to the trust rating (`score * weight`). */
+  contribution: number;
+  /** Confidence in the sub-score (0-1), from which data sources answered. */
+  confidence: number;
+  /** Raw inputs the sub-score was derived from. */
+  inputs: Record<string, number | string | boolean | null>;
+  /** Short human-readable explanation of the sub-score. */
+  explanation: string;
+}
+
 // ---------------------------------------------------------------------------
 // FairScore
 // ---------------------------------------------------------------------------
@@ -92,6 +134,19 @@ export interface CachedScore {
 
 export type CachedScoreInsert = Omit<CachedScore, "id" | "created_at" | "updated_at">;
 
+// ---------------------------------------------------------------------------
+// Cached Quick Scores (Supabase table: cached_quick_scores)
+// ---------------------------------------------------------------------------
+
+export interface CachedQuickScore {
+  wallet: string;
+  /** FairScale /fairScore integer score (0-1000+); `null` for a wallet FairScale does not know. */
+  score_integer: number | null;
+  fetched_at: string;
+}
+
+export type CachedQuickScoreInsert = CachedQuickScore;
+
 // ---------------------------------------------------------------------------
 // Token Analyses (Supabase table: token_analyses)
 // ---------------------------------------------------------------------------
@@ -109,9 +164,44 @@ export interface TokenAnalysis {
   holder_quality_score: number;
   holder_count: number;
   top_holder_concentration: number;
+  /** Gini / HHI / Nakamoto metrics over unlabeled (non-LP, non-custodial) holders. */
+  distribution_metrics: DistributionMetrics | null;
   risk_flags: RiskFlag[];
   token_age_days: number | null;
+  token_created_at: string | null;
+  liquidity: TokenLiquidity | null;
+  lp_supply_percent: number;
+  lp_vaults: LPVault[];
+  /** Burn, exchange, vesting and bridge addresses among the holders. */
+  labeled_holders: LabeledHolder[];
+  /** Funding clusters among the top holders (Sybil detection). */
+  holder_clusters: HolderCluster[];
+  /** Launch-window sniper analysis; null when not run. */
+  bundled_launch: BundledLaunchAnalysis | null;
+  deployer_track_record: DeployerTrackRecord | null;
+  /** Simulated sell into SOL (honeypot check); null without DEX pairs. */
+  sell_simulation: SellSimulationResult | null;
+  /** Status of each upstream data source during the analysis. */
+  data_sources: DataSourceReport | null;
+  /** Provider that supplied metadata, holders and market data. */
+  data_providers: ProviderReport | null;
+  /** Percentage of queried data sources that answered (0-100). */
+  data_completeness: number | null;
+  jupiter_verified: boolean;
+  rug_check: RugCheckResult | null;
+  mint_authority_active: boolean;
+  freeze_authority_active: boolean;
+  /** Token-2022 extensions parsed from the mint. */
+  token_extensions: TokenExtensions | null;
+  /** Snapshot shape version; older rows are re-analyzed on cache lookup. */
+  snapshot_version: number;
   raw_metadata: Record<string, unknown> | null;
+  /** Scoring profile id used to compute `trust_rating`. */
+  scoring_profile: string;
+  /** Version of the scoring profile weights at analysis time. */
+  scoring_profile_version: number;
+  /** Per-component breakdown of `trust_rating`. Empty for legacy rows. */
+  score_components: ScoreComponent[];
   analyzed_at: string;
   created_at: string;
   updated_at: string;
@@ -147,6 +237,10 @@ export interface WatchlistItem {
   mint: string;
   label: string | null;
   notes: string | null;
+  /** Alert rules for this entry; `null` uses the defaults (see `@/lib/alertRules`). */
+  alert_rules: AlertRule[] | null;
+  /** Last alert engine check of the entry (deployer entries). */
+  alerts_checked_at: string | null;
   added_at: string;
   created_at: string;
   updated_at: string;
@@ -163,16 +257,107 @@ export interface Notification {
   user_wallet: string;
   mint: string;
   token_name: string | null;
-  type: "score_change" | "new_risk_flag";
+  type: AlertNotificationType;
   message: string;
   old_value: number | null;
   new_value: number | null;
   read: boolean;
+  /** `<watched address>:<rule id>` of the alert rule that fired, for cooldowns. */
+  alert_rule_key: string | null;
   created_at: string;
 }
 
 export type NotificationInsert = Omit<Notification, "id" | "created_at">;
 
+// ---------------------------------------------------------------------------
+// Notification Channels (Supabase table: notification_channels)
+// ---------------------------------------------------------------------------
+
+export type NotificationChannel = NotificationChannelTarget & {
+  id: string;
+  user_wallet: string;
+  name: string;
+  filters: NotificationChannelFilters;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type NotificationChannelInsert = Omit<NotificationChannel, "id" | "created_at" | "updated_at">;
+
+// ---------------------------------------------------------------------------
+// Notification Deliveries (Supabase table: notification_deliveries)
+// ---------------------------------------------------------------------------
+
+export interface NotificationDelivery {
+  id: string;
+  channel_id: string;
+  user_wallet: string;
+  /** `null` for test deliveries. */
+  notification_id: string | null;
+  payload: DeliveryMessage;
+  status: DeliveryStatus;
+  attempts: number;
+  /** HTTP status of the last attempt; `null` when it did not get a response. */
+  response_status: number | null;
+  last_error: string | null;
+  /** When a pending delivery is retried next. */
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+export type NotificationDeliveryInsert = Omit<NotificationDelivery, "id" | "created_at">;
+
+// ---------------------------------------------------------------------------
+// Digest Subscriptions (Supabase table: digest_subscriptions)
+// ---------------------------------------------------------------------------
+
+export type DigestFrequency = "daily" | "weekly";
+
+export interface DigestSubscription {
+  wallet: string;
+  email: string;
+  /** `"off"` after unsubscribing. */
+  frequency: DigestFrequency | "off";
+  /** When the address was confirmed; `null` until its confirmation link is used. */
+  confirmed_at: string | null;
+  /** Last confirmation email sent, to throttle resends. */
+  confirmation_sent_at: string | null;
+  /** End of the period covered by the last digest. */
+  last_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DigestSubscriptionInsert = Omit<DigestSubscription, "created_at" | "updated_at">;
+
+// ---------------------------------------------------------------------------
+// Alert Snapshots (Supabase table: alert_snapshots)
+// ---------------------------------------------------------------------------
+
+/** What the alert engine last saw for a watchlisted mint. */
+export interface AlertSnapshot {
+  mint: string;
+  token_name: string | null;
+  trust_rating: number;
+  risk_flag_codes: RiskFlagCode[];
+  liquidity_usd: number | null;
+  top_holder_percent: number;
+  deployer_tier: FairScoreTier | null;
+  checked_at: string;
+}
+
+export type AlertSnapshotInsert = AlertSnapshot;
+
+/** When the alert engine last picked a watchlisted mint, successful or not. */
+export interface AlertCheckAttempt {
+  mint: string;
+  attempted_at: string;
+}
+
+export type AlertCheckAttemptInsert = AlertCheckAttempt;
+
 // ---------------------------------------------------------------------------
 // Browsing History (Supabase table: browsing_history)
 // ---------------------------------------------------------------------------
@@ -230,6 +415,12 @@ export interface Database {
         Update: Partial<CachedScoreInsert>;
         Relationships: [];
       };
+      cached_quick_scores: {
+        Row: CachedQuickScore;
+        Insert: CachedQuickScoreInsert;
+        Update: Partial<CachedQuickScoreInsert>;
+        Relationships: [];
+      };
       token_analyses: {
         Row: TokenAnalysis;
         Insert: TokenAnalysisInsert;
@@ -254,6 +445,36 @@ export interface Database {
         Update: Partial<NotificationInsert>;
         Relationships: [];
       };
+      notification_channels: {
+        Row: NotificationChannel;
+        Insert: NotificationChannelInsert;
+        Update: Partial<NotificationChannelInsert>;
+        Relationships: [];
+      };
+      notification_deliveries: {
+        Row: NotificationDelivery;
+        Insert: NotificationDeliveryInsert;
+        Update: Partial<NotificationDeliveryInsert>;
+        Relationships: [];
+      };
+      digest_subscriptions: {
+        Row: DigestSubscription;
+        Insert: DigestSubscriptionInsert;
+        Update: Partial<DigestSubscriptionInsert>;
+        Relationships: [];
+      };
+      alert_snapshots: {
+        Row: AlertSnapshot;
+        Insert: AlertSnapshotInsert;
+        Update: Partial<AlertSnapshotInsert>;
+        Relationships: [];
+      };
+      alert_check_attempts: {
+        Row: AlertCheckAttempt;
+        Insert: AlertCheckAttemptInsert;
+        Update: Partial<AlertCheckAttemptInsert>;
+        Relationships: [];
+      };
       browsing_history: {
         Row: BrowsingHistoryEntry;
         Insert: BrowsingHistoryInsert;
@@ -0,0 +1,9 @@
+-- Record which scoring profile (and weights version) produced each rating
+-- so historical trust ratings stay interpretable after weights change.
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS scoring_profile text NOT NULL DEFAULT 'default',
+  ADD COLUMN IF NOT EXISTS scoring_profile_version integer NOT NULL DEFAULT 1;
+
+ALTER TABLE token_score_history
+  ADD COLUMN IF NOT EXISTS scoring_profile text NOT NULL DEFAULT 'default',
+  ADD COLUMN IF NOT EXISTS scoring_profile_version integer NOT NULL DEFAULT 1;
@@ -0,0 +1,3 @@
+-- Persist the weighted sub-score breakdown behind each trust rating
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS score_components jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,44 @@
+-- Persist the full TrustAnalysis snapshot so cache hits are identical to
+-- fresh analyses (liquidity, LP vaults, RugCheck, authorities, creation date).
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS token_created_at timestamptz,
+  ADD COLUMN IF NOT EXISTS liquidity jsonb,
+  ADD COLUMN IF NOT EXISTS lp_supply_percent double precision NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lp_vaults jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS jupiter_verified boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS rug_check jsonb,
+  ADD COLUMN IF NOT EXISTS mint_authority_active boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS freeze_authority_active boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS snapshot_version integer NOT NULL DEFAULT 0;
+
+-- Backfill what can be derived from data already stored.
+-- Authorities and creation date come from the raw Helius asset.
+UPDATE token_analyses
+SET
+  mint_authority_active = (raw_metadata->'token_info'->>'mint_authority') IS NOT NULL,
+  freeze_authority_active = (raw_metadata->'token_info'->>'freeze_authority') IS NOT NULL,
+  token_created_at = COALESCE(token_created_at, (raw_metadata->>'created_at')::timestamptz)
+WHERE snapshot_version = 0
+  AND raw_metadata IS NOT NULL;
+
+-- Liquidity and RugCheck come from their own caches.
+UPDATE token_analyses ta
+SET liquidity = dc.data
+FROM dexscreener_cache dc
+WHERE dc.mint = ta.mint
+  AND ta.snapshot_version = 0
+  AND ta.liquidity IS NULL;
+
+UPDATE token_analyses ta
+SET rug_check = rc.data
+FROM rugcheck_cache rc
+WHERE rc.mint = ta.mint
+  AND ta.snapshot_version = 0
+  AND ta.rug_check IS NULL;
+
+-- LP vaults and Jupiter verification cannot be reconstructed in SQL, so
+-- backfilled rows keep snapshot_version = 0. The analyzer treats them as
+-- cache misses and rewrites them on next access; run
+-- `npx tsx src/scripts/backfill-analysis-snapshots.ts` to rewrite them eagerly.
+CREATE INDEX IF NOT EXISTS idx_token_analyses_snapshot_version
+  ON token_analyses (snapshot_version);
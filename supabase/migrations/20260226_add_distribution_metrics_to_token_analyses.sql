@@ -0,0 +1,3 @@
+-- Gini / HHI / Nakamoto distribution metrics over the full holder set
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS distribution_metrics jsonb;
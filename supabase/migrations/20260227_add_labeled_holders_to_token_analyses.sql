@@ -0,0 +1,4 @@
+-- Registry-labeled holders (burn, exchange, vesting, bridge) excluded from
+-- concentration checks
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS labeled_holders jsonb NOT NULL DEFAULT '[]'::jsonb;
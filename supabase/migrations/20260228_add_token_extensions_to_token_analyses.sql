@@ -0,0 +1,3 @@
+-- Parsed Token-2022 extensions (transfer fee, hook, permanent delegate, ...)
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS token_extensions jsonb;
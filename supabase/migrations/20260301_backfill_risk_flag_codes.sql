@@ -0,0 +1,50 @@
+-- Attach stable catalog codes to persisted risk flags (see
+-- src/lib/riskFlagCatalog.ts). Flags used to carry per-process counter ids
+-- ("rf-12") and were matched by label; the id now equals the code.
+WITH codes(label, code) AS (
+  VALUES
+    ('Low Deployer Score', 'LOW_DEPLOYER_SCORE'),
+    ('Concentrated Holdings', 'CONCENTRATED_HOLDINGS'),
+    ('Significant Concentration', 'SIGNIFICANT_CONCENTRATION'),
+    ('Low Holder Count', 'LOW_HOLDER_COUNT'),
+    ('Active Mint Authority', 'ACTIVE_MINT_AUTHORITY'),
+    ('Active Freeze Authority', 'ACTIVE_FREEZE_AUTHORITY'),
+    ('Connected Wallets', 'CONNECTED_WALLETS'),
+    ('Creator Holds Majority', 'CREATOR_HOLDS_MAJORITY'),
+    ('Creator Holds Supply', 'CREATOR_HOLDS_SUPPLY'),
+    ('Top 5 Concentration', 'TOP_5_CONCENTRATION'),
+    ('Top 10 Concentration', 'TOP_10_CONCENTRATION'),
+    ('No DEX Liquidity', 'NO_DEX_LIQUIDITY'),
+    ('Low Liquidity', 'LOW_LIQUIDITY'),
+    ('Single DEX', 'SINGLE_DEX'),
+    ('Mutable Metadata', 'MUTABLE_METADATA'),
+    ('RugCheck: Danger', 'RUGCHECK_DANGER'),
+    ('RugCheck: Multiple Warnings', 'RUGCHECK_WARNINGS'),
+    ('Permanent Delegate', 'PERMANENT_DELEGATE'),
+    ('High Transfer Fee', 'HIGH_TRANSFER_FEE'),
+    ('Transfer Fee', 'TRANSFER_FEE'),
+    ('Transfer Hook', 'TRANSFER_HOOK'),
+    ('Non-Transferable', 'NON_TRANSFERABLE'),
+    ('Frozen by Default', 'DEFAULT_ACCOUNT_FROZEN'),
+    ('Confidential Transfers', 'CONFIDENTIAL_TRANSFERS')
+)
+UPDATE token_analyses ta
+SET risk_flags = (
+  SELECT COALESCE(
+    jsonb_agg(
+      CASE
+        WHEN c.code IS NULL THEN f
+        ELSE f || jsonb_build_object('code', c.code, 'id', c.code)
+      END
+      ORDER BY ord
+    ),
+    '[]'::jsonb
+  )
+  FROM jsonb_array_elements(ta.risk_flags) WITH ORDINALITY AS e(f, ord)
+  LEFT JOIN codes c ON c.label = f->>'label'
+)
+WHERE jsonb_typeof(ta.risk_flags) = 'array'
+  AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(ta.risk_flags) AS x(f)
+    WHERE NOT (x.f ? 'code')
+  );
@@ -0,0 +1,3 @@
+-- Funding-source clusters among the top holders (Sybil detection)
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS holder_clusters jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,3 @@
+-- Bundled-launch (same-slot sniper) analysis for young tokens
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS bundled_launch jsonb;
@@ -0,0 +1,9 @@
+-- Deployer rug history: market snapshots per token and the track record
+-- computed from them
+ALTER TABLE token_score_history
+  ADD COLUMN IF NOT EXISTS price_usd numeric,
+  ADD COLUMN IF NOT EXISTS liquidity_usd numeric,
+  ADD COLUMN IF NOT EXISTS supply numeric;
+
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS deployer_track_record jsonb;
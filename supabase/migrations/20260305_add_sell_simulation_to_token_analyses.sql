@@ -0,0 +1,3 @@
+-- Honeypot check: simulated sell of the token into SOL
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS sell_simulation jsonb;
@@ -0,0 +1,4 @@
+-- Upstream source status and data completeness per analysis
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS data_sources jsonb,
+  ADD COLUMN IF NOT EXISTS data_completeness numeric;
@@ -0,0 +1,3 @@
+-- Provider that supplied metadata, holders and market data per analysis
+ALTER TABLE token_analyses
+  ADD COLUMN IF NOT EXISTS data_providers jsonb;
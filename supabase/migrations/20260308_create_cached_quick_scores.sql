@@ -0,0 +1,14 @@
+-- Shared cache for FairScale /fairScore integer scores, read in batches by
+-- holder analysis, sign-in and POST /api/fairscore/batch
+CREATE TABLE IF NOT EXISTS cached_quick_scores (
+  wallet text PRIMARY KEY,
+  score_integer integer NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Index for TTL filtering and cleanup of expired rows
+CREATE INDEX IF NOT EXISTS idx_cached_quick_scores_fetched_at
+  ON cached_quick_scores (fetched_at);
+
+-- Enable RLS with no policies: only the service role reads and writes
+ALTER TABLE cached_quick_scores ENABLE ROW LEVEL SECURITY;
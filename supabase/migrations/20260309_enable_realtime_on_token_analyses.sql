@@ -0,0 +1,16 @@
+-- Stale-while-revalidate: the token page subscribes to its token_analyses
+-- row and refetches once a background refresh rewrites it
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'token_analyses' AND policyname = 'Anyone can read token_analyses'
+  ) THEN
+    -- Analyses are public; Realtime only delivers rows the subscriber can read
+    CREATE POLICY "Anyone can read token_analyses"
+      ON token_analyses FOR SELECT
+      USING (true);
+  END IF;
+END $$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE token_analyses;
@@ -0,0 +1,20 @@
+-- Alert engine: the rating and risk flags last seen per watchlisted mint,
+-- diffed against each scheduled run to generate notifications
+CREATE TABLE IF NOT EXISTS alert_snapshots (
+  mint text PRIMARY KEY,
+  token_name text,
+  trust_rating integer NOT NULL,
+  risk_flag_codes text[] NOT NULL DEFAULT '{}',
+  checked_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Index for picking the least recently checked mints first
+CREATE INDEX IF NOT EXISTS idx_alert_snapshots_checked_at
+  ON alert_snapshots (checked_at);
+
+-- Index for fanning alerts out to every watcher of a mint
+CREATE INDEX IF NOT EXISTS idx_watchlist_token_mint
+  ON watchlist (token_mint);
+
+-- Enable RLS with no policies: only the service role reads and writes
+ALTER TABLE alert_snapshots ENABLE ROW LEVEL SECURITY;
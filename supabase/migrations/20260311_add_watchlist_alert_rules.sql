@@ -0,0 +1,18 @@
+-- User-defined alert rules per watchlist entry (NULL = default rules) and
+-- the last time the alert engine checked the entry
+ALTER TABLE watchlist
+  ADD COLUMN IF NOT EXISTS alert_rules jsonb,
+  ADD COLUMN IF NOT EXISTS alerts_checked_at timestamptz;
+
+-- Rule that produced each notification, for per-rule cooldowns
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS alert_rule_key text;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_alert_rule_key
+  ON notifications (alert_rule_key, created_at DESC);
+
+-- State the new rule kinds compare against
+ALTER TABLE alert_snapshots
+  ADD COLUMN IF NOT EXISTS liquidity_usd numeric,
+  ADD COLUMN IF NOT EXISTS top_holder_percent numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS deployer_tier text;
@@ -0,0 +1,51 @@
+-- Outbound notification channels: where a user's alerts are delivered
+-- besides the in-app bell (signed webhook, Telegram bot chat, Discord webhook)
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_wallet text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('webhook', 'telegram', 'discord')),
+  name text NOT NULL,
+  -- Kind-specific target and credentials (URL + signing secret, bot token + chat id, ...)
+  config jsonb NOT NULL,
+  -- Notification types / mints to deliver; empty lists deliver everything
+  filters jsonb NOT NULL DEFAULT '{"types": [], "mints": []}',
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_channels_user_wallet
+  ON notification_channels (user_wallet);
+
+-- Delivery log: one row per notification and channel, retried with backoff
+-- until delivered or out of attempts
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES notification_channels (id) ON DELETE CASCADE,
+  user_wallet text NOT NULL,
+  -- NULL for "send test" deliveries
+  notification_id uuid REFERENCES notifications (id) ON DELETE SET NULL,
+  -- The message as sent, so retries do not depend on the notification row
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  response_status integer,
+  last_error text,
+  next_attempt_at timestamptz,
+  delivered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Index for the retry cron picking up due deliveries
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+  ON notification_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+-- Index for a channel's delivery log
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_channel
+  ON notification_deliveries (channel_id, created_at DESC);
+
+-- Enable RLS with no policies: channels hold secrets, so only the service
+-- role reads and writes (through /api/notifications/channels)
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
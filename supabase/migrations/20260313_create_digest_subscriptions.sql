@@ -0,0 +1,18 @@
+-- Email digest of watchlist changes: one subscription per wallet
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+  wallet text PRIMARY KEY,
+  email text NOT NULL,
+  -- 'off' after unsubscribing; the address is kept so it can be re-enabled
+  frequency text NOT NULL DEFAULT 'weekly' CHECK (frequency IN ('daily', 'weekly', 'off')),
+  -- End of the period covered by the last digest (sent or empty)
+  last_sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Index for the digest cron picking up active subscriptions
+CREATE INDEX IF NOT EXISTS idx_digest_subscriptions_frequency
+  ON digest_subscriptions (frequency, last_sent_at);
+
+-- Enable RLS with no policies: only the service role reads and writes
+ALTER TABLE digest_subscriptions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,21 @@
+-- Push notifications to the header bell through Supabase Realtime instead
+-- of fetching them. The browser subscribes with a short-lived JWT minted by
+-- /api/notifications/realtime-token for the signed-in wallet (`wallet`
+-- claim); Realtime only delivers rows the subscriber can read, so the
+-- policy below keeps each wallet to its own notifications.
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'notifications' AND policyname = 'Wallets read their own notifications'
+  ) THEN
+    CREATE POLICY "Wallets read their own notifications"
+      ON notifications FOR SELECT
+      TO authenticated
+      USING (user_wallet = auth.jwt() ->> 'wallet');
+  END IF;
+END $$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,7 @@
+-- Double opt-in for digest emails: an address only gets digests after the
+-- confirmation link sent to it is used. Changing the address clears the
+-- confirmation; existing subscriptions have to confirm once.
+ALTER TABLE digest_subscriptions
+  ADD COLUMN IF NOT EXISTS confirmed_at timestamptz,
+  -- Last confirmation email, so repeated saves don't resend it every time
+  ADD COLUMN IF NOT EXISTS confirmation_sent_at timestamptz;
@@ -0,0 +1,16 @@
+-- Alert engine: when each watchlisted mint was last picked for a check,
+-- whether or not the analysis succeeded. Runs pick the least recently
+-- attempted mints, so mints that keep failing (no snapshot is written for
+-- them) rotate to the back instead of being retried first on every run.
+CREATE TABLE IF NOT EXISTS alert_check_attempts (
+  mint text PRIMARY KEY,
+  attempted_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Mints checked so far keep their place in the rotation
+INSERT INTO alert_check_attempts (mint, attempted_at)
+  SELECT mint, checked_at FROM alert_snapshots
+  ON CONFLICT (mint) DO NOTHING;
+
+-- Enable RLS with no policies: only the service role reads and writes
+ALTER TABLE alert_check_attempts ENABLE ROW LEVEL SECURITY;
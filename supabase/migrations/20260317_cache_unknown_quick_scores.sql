@@ -0,0 +1,5 @@
+-- Cache wallets FairScale does not know as well: a NULL score_integer
+-- marks an unknown wallet, so it is not looked up again within the TTL.
+-- Fresh tokens' holder lists are mostly such wallets.
+ALTER TABLE cached_quick_scores
+  ALTER COLUMN score_integer DROP NOT NULL;